@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+// Offline evaluation of the analysis parsers and web search merge.
+// Replays the recorded responses in eval/fixtures and compares the section
+// scores against eval/baseline.json. Exits non-zero on regressions.
+//
+// Usage: npm run eval [-- --update-baseline]
+
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createJiti } from 'jiti';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const fixturesDir = join(root, 'eval', 'fixtures');
+const baselinePath = join(root, 'eval', 'baseline.json');
+const updateBaseline = process.argv.includes('--update-baseline');
+
+// Load the TypeScript sources directly, resolving the @/ path alias
+const jiti = createJiti(import.meta.url, { alias: { '@/': `${join(root, 'src')}/` } });
+const { runEvaluation, compareReports } = await jiti.import(join(root, 'src', 'lib', 'eval', 'harness.ts'));
+
+const fixtures = Object.fromEntries(
+  readdirSync(fixturesDir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => [basename(file, '.json'), JSON.parse(readFileSync(join(fixturesDir, file), 'utf8'))])
+);
+
+// Enforcement feeds are kept as the files the regulators publish; read them in place of their paths
+for (const fixture of Object.values(fixtures)) {
+  for (const [source, path] of Object.entries(fixture.enforcementFeeds || {})) {
+    fixture.enforcementFeeds[source] = readFileSync(join(fixturesDir, path), 'utf8');
+  }
+}
+
+// The merge logs progress; keep the report readable
+const log = console.log;
+console.log = () => {};
+const report = runEvaluation(fixtures);
+console.log = log;
+
+for (const [name, score] of Object.entries(report.fixtures)) {
+  console.log(`\n${name} (${score.format}, ${score.validationIssues} validation issue${score.validationIssues === 1 ? '' : 's'})`);
+  for (const [section, s] of Object.entries(score.sections)) {
+    console.log(`  ${section.padEnd(22)} items ${String(s.items).padStart(3)}  urls ${s.validUrls}/${s.validUrls + s.invalidUrls}  filtered ${s.hallucinationFilterHits}  duplicates ${s.duplicates}`);
+  }
+}
+
+if (updateBaseline || !existsSync(baselinePath)) {
+  writeFileSync(baselinePath, `${JSON.stringify(report, null, 2)}\n`);
+  console.log(`\nWrote baseline to ${baselinePath}`);
+  process.exit(0);
+}
+
+const baseline = JSON.parse(readFileSync(baselinePath, 'utf8'));
+const { changes, addedFixtures, removedFixtures } = compareReports(baseline, report);
+
+console.log('\nCompared with baseline:');
+if (changes.length === 0 && addedFixtures.length === 0 && removedFixtures.length === 0) {
+  console.log('  No changes');
+}
+for (const change of changes) {
+  const marker = change.regression ? 'REGRESSION' : 'changed   ';
+  console.log(`  ${marker} ${change.fixture} ${change.section}.${change.metric}: ${change.baseline} -> ${change.current}`);
+}
+for (const name of addedFixtures) console.log(`  added      ${name} (not in baseline)`);
+for (const name of removedFixtures) console.log(`  removed    ${name} (missing fixture)`);
+
+const regressions = changes.filter(change => change.regression).length;
+if (regressions > 0) {
+  console.log(`\n${regressions} regression${regressions === 1 ? '' : 's'}. Run with --update-baseline if the changes are intended.`);
+  process.exit(1);
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  deleteCompetitorVendor,
+  normalizeCompetitorVendorInput,
+  updateCompetitorVendor,
+  validateCompetitorVendor
+} from '@/lib/services/competitorVendors';
+
+// Edit a vendor's name, aliases, category or website, or turn it on or off
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if current user is admin
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single() as { data: { role: string } | null };
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const input = normalizeCompetitorVendorInput(await request.json());
+    const validationError = validateCompetitorVendor(input, false);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const vendor = await updateCompetitorVendor(supabase, id, input, user.id);
+    return NextResponse.json({ success: true, vendor });
+  } catch (error) {
+    console.error('Update competitor vendor error:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const status = message === 'Competitor vendor not found' ? 404 : message.endsWith('already exists') ? 409 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if current user is admin
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single() as { data: { role: string } | null };
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    await deleteCompetitorVendor(supabase, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete competitor vendor error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
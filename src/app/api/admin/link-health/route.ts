@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { isMockModeEnabled } from '@/lib/services/providerSettings';
+import { LINK_CHECK_MAX_AGE_MS, createMockLinkFetcher, recheckStaleAnalyses } from '@/lib/services/linkHealth';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Re-check the links of cached analyses checked more than `maxAgeDays` ago
+// (default 7, at least 1 so re-checked analyses stop counting as stale),
+// a few analyses per request
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single() as { data: { role: string } | null };
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { maxAgeDays } = await request.json().catch(() => ({})) as { maxAgeDays?: unknown };
+    if (maxAgeDays !== undefined && (typeof maxAgeDays !== 'number' || !(maxAgeDays >= 1))) {
+      return NextResponse.json({ error: 'maxAgeDays must be a number of at least 1' }, { status: 400 });
+    }
+
+    const summary = await recheckStaleAnalyses(supabase, {
+      maxAgeMs: maxAgeDays !== undefined ? maxAgeDays * DAY_MS : LINK_CHECK_MAX_AGE_MS,
+      // Mock mode answers from the fixtures instead of the network
+      fetcherFor: isMockModeEnabled() ? createMockLinkFetcher : undefined
+    });
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Link re-check error:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
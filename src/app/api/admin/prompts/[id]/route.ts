@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { activatePromptVersion, deactivatePromptVersions } from '@/lib/services/analysisPrompts';
+
+// Activate a prompt version (or roll back to an earlier one), or deactivate
+// it to go back to the built-in prompts
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if current user is admin
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single() as { data: { role: string } | null };
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { active } = body;
+
+    if (typeof active !== 'boolean') {
+      return NextResponse.json({ error: 'Invalid request. "active" must be true or false' }, { status: 400 });
+    }
+
+    if (!active) {
+      await deactivatePromptVersions(supabase);
+      return NextResponse.json({ success: true, message: 'Using built-in prompts' });
+    }
+
+    const version = await activatePromptVersion(supabase, id);
+    return NextResponse.json({ success: true, message: `Prompt version ${version.version} is now active`, version });
+  } catch (error) {
+    console.error('Update prompt version error:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: message === 'Prompt version not found' ? 404 : 500 });
+  }
+}
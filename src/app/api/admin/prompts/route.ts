@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { DEFAULT_ANALYSIS_PROMPTS, PROMPT_VARIABLES } from '@/lib/ai/prompts';
+import { createPromptVersion, listPromptVersions, validatePrompts } from '@/lib/services/analysisPrompts';
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single() as { data: { role: string } | null };
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const versions = await listPromptVersions(supabase);
+
+    // Built-in prompts are returned so the editor can start from them
+    return NextResponse.json({ versions, defaults: DEFAULT_ANALYSIS_PROMPTS, variables: PROMPT_VARIABLES });
+  } catch (error) {
+    console.error('Prompts API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single() as { data: { role: string } | null };
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { tagged, structured, notes, activate } = body;
+
+    const validationError = validatePrompts({ tagged, structured });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const version = await createPromptVersion(supabase, {
+      tagged,
+      structured,
+      notes: typeof notes === 'string' ? notes : undefined,
+      createdBy: user.id,
+      activate: activate === true
+    });
+
+    return NextResponse.json({ version });
+  } catch (error) {
+    console.error('Create prompt version error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
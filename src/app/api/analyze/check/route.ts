@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { ProviderName } from '@/types/analysis';
+import { normalizeCompanyIdentifiers, getCompanyCacheKey } from '@/lib/services/companyEntity';
+import { DEFAULT_OUTPUT_LANGUAGE, isOutputLanguage } from '@/lib/config/languages';
+import { mergeResearchQuestions, findCustomAnswers } from '@/lib/services/researchQuestions';
 
 interface CacheCheckResponse {
   exists: boolean;
@@ -15,14 +18,14 @@ interface CacheCheckResponse {
 
 export async function POST(request: NextRequest) {
   try {
-    const { companyName } = await request.json();
+    const { companyName, company, language, researchQuestions } = await request.json();
 
     if (!companyName?.trim()) {
       return NextResponse.json({ exists: false });
     }
 
     const supabase = await createClient();
-    const companyNameLower = companyName.trim().toLowerCase();
+    const entityKey = getCompanyCacheKey(companyName, normalizeCompanyIdentifiers(company));
 
     // Check for cached analysis
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -31,15 +34,27 @@ export async function POST(request: NextRequest) {
       .select(`
         updated_at,
         provider,
+        analysis_data,
         creator:profiles!company_analyses_created_by_fkey(email)
       `)
-      .eq('company_name_lower', companyNameLower)
+      .eq('entity_key', entityKey)
+      .eq('language', isOutputLanguage(language) ? language : DEFAULT_OUTPUT_LANGUAGE)
       .single();
 
     if (!cachedAnalysis) {
       return NextResponse.json<CacheCheckResponse>({ exists: false });
     }
 
+    // The analyze route re-runs analyses that don't answer every research question
+    const { data: settings } = await supabase
+      .from('app_settings')
+      .select('research_questions')
+      .single();
+    const adminQuestions = (settings as { research_questions: string[] | null } | null)?.research_questions;
+    if (!findCustomAnswers(cachedAnalysis.analysis_data, mergeResearchQuestions(adminQuestions, researchQuestions))) {
+      return NextResponse.json<CacheCheckResponse>({ exists: false });
+    }
+
     const updatedAt = new Date(cachedAnalysis.updated_at);
     const ageMinutes = Math.floor((Date.now() - updatedAt.getTime()) / 60000);
     const isStale = ageMinutes > 24 * 60; // > 24 hours
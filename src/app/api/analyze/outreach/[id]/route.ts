@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { deleteOutreachDraft } from '@/lib/services/outreachDrafts';
+
+// Delete a saved draft. Only its author or an admin can; anyone else gets a 404.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await deleteOutreachDraft(supabase, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete outreach draft error:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({ error: message }, { status: message === 'Outreach draft not found' ? 404 : 500 });
+  }
+}
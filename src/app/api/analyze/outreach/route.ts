@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, GenerateOutreachRequest, GenerateOutreachResponse } from '@/types/api';
+import { ProviderName, PROVIDER_INFO, AnalysisResult } from '@/types/analysis';
+import { createClient } from '@/lib/supabase/server';
+import { logUsage } from '@/lib/services/usageLogger';
+import { UsageRecord } from '@/lib/ai/usage';
+import { normalizeCompanyIdentifiers, getCompanyCacheKey } from '@/lib/services/companyEntity';
+import { DEFAULT_OUTPUT_LANGUAGE, isOutputLanguage } from '@/lib/config/languages';
+import { OUTREACH_LENGTHS, OUTREACH_TONES, generateOutreachDraft, isOutreachLength, isOutreachTone, saveOutreachDraft } from '@/lib/services/outreachDrafts';
+import { ServerSettings, MOCK_API_KEY, isMockModeEnabled, getProviderApiKey, getProviderModel, getProviderBaseUrl } from '@/lib/services/providerSettings';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { companyName, company, language, tone, length }: GenerateOutreachRequest = await request.json();
+
+    if (!companyName?.trim()) {
+      return NextResponse.json<ApiError>(
+        { error: 'Company name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isOutreachTone(tone) || !isOutreachLength(length)) {
+      return NextResponse.json<ApiError>(
+        { error: `Tone must be one of: ${OUTREACH_TONES.join(', ')}; length one of: ${OUTREACH_LENGTHS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    // Drafts are saved under the author's name
+    if (!user) {
+      return NextResponse.json<ApiError>(
+        { error: 'Sign in to draft outreach' },
+        { status: 401 }
+      );
+    }
+
+    const entityKey = getCompanyCacheKey(companyName, normalizeCompanyIdentifiers(company));
+    const cacheLanguage = isOutputLanguage(language) ? language : DEFAULT_OUTPUT_LANGUAGE;
+
+    // Drafts only cite what a saved analysis found
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: cachedAnalysis } = await (supabase as any)
+      .from('company_analyses')
+      .select('company_name, analysis_data, provider')
+      .eq('entity_key', entityKey)
+      .eq('language', cacheLanguage)
+      .single();
+
+    if (!cachedAnalysis) {
+      return NextResponse.json<ApiError>(
+        { error: 'No saved analysis found for this company. Run a full analysis first.' },
+        { status: 404 }
+      );
+    }
+
+    const { data: settings } = await supabase
+      .from('app_settings')
+      .select('*')
+      .single();
+    const serverSettings = settings as ServerSettings | null;
+
+    // Draft with the provider that produced the analysis, as section refresh does
+    const provider = (isMockModeEnabled()
+      ? 'mock'
+      : cachedAnalysis.provider in PROVIDER_INFO
+        ? cachedAnalysis.provider
+        : serverSettings?.default_provider || 'openai') as ProviderName;
+    const apiKey = provider === 'mock' ? MOCK_API_KEY : serverSettings ? getProviderApiKey(serverSettings, provider) : null;
+
+    if (!apiKey?.trim()) {
+      return NextResponse.json<ApiError>(
+        { error: 'API key not configured. Please contact an administrator.' },
+        { status: 401 }
+      );
+    }
+
+    const model = serverSettings ? getProviderModel(serverSettings, provider) : undefined;
+    const usage: UsageRecord[] = [];
+    const startTime = Date.now();
+
+    const generated = await generateOutreachDraft(
+      cachedAnalysis.company_name,
+      cachedAnalysis.analysis_data as AnalysisResult,
+      { tone, length },
+      { type: provider, apiKey, model, baseUrl: serverSettings ? getProviderBaseUrl(serverSettings, provider) : undefined },
+      record => usage.push(record),
+      request.signal
+    );
+
+    const draft = await saveOutreachDraft(
+      supabase,
+      { entityKey, language: cacheLanguage, companyName: cachedAnalysis.company_name },
+      generated,
+      { id: user.id, email: user.email }
+    );
+
+    // Log usage for cost tracking (non-blocking)
+    logUsage(supabase, {
+      userId: user.id,
+      userEmail: user.email,
+      companyName: cachedAnalysis.company_name,
+      aiProvider: provider,
+      aiModel: model || PROVIDER_INFO[provider].defaultModel,
+      usage,
+      searchProvider: 'none',
+      searchQueriesUsed: 0,
+      cached: false,
+      durationMs: Date.now() - startTime,
+      refreshedSection: 'outreachDrafts',
+    }).catch(err => console.warn('Usage logging failed:', err));
+
+    return NextResponse.json<GenerateOutreachResponse>({ draft });
+  } catch (error) {
+    console.error('Outreach draft error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Outreach draft failed';
+    return NextResponse.json<ApiError>(
+      { error: errorMessage },
+      { status: errorMessage.includes('timed out') ? 504 : 500 }
+    );
+  }
+}
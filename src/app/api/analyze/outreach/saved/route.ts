@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, OutreachDraftsRequest, OutreachDraftsResponse } from '@/types/api';
+import { createClient } from '@/lib/supabase/server';
+import { normalizeCompanyIdentifiers, getCompanyCacheKey } from '@/lib/services/companyEntity';
+import { DEFAULT_OUTPUT_LANGUAGE, isOutputLanguage } from '@/lib/config/languages';
+import { listOutreachDrafts } from '@/lib/services/outreachDrafts';
+
+// Outreach drafts saved for an analysis, by anyone on the team
+export async function POST(request: NextRequest) {
+  try {
+    const { companyName, company, language }: OutreachDraftsRequest = await request.json();
+
+    if (!companyName?.trim()) {
+      return NextResponse.json<ApiError>(
+        { error: 'Company name is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json<ApiError>(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const drafts = await listOutreachDrafts(supabase, {
+      entityKey: getCompanyCacheKey(companyName, normalizeCompanyIdentifiers(company)),
+      language: isOutputLanguage(language) ? language : DEFAULT_OUTPUT_LANGUAGE
+    });
+
+    return NextResponse.json<OutreachDraftsResponse>({ drafts });
+  } catch (error) {
+    console.error('Outreach drafts error:', error);
+    return NextResponse.json<ApiError>(
+      { error: error instanceof Error ? error.message : 'Failed to load outreach drafts' },
+      { status: 500 }
+    );
+  }
+}
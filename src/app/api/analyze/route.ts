@@ -1,28 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createAIProvider } from '@/lib/ai/factory';
-import { AnalyzeRequest, AnalyzeResponse, ApiError, CacheMetadata } from '@/types/api';
-import { ProviderName, PROVIDER_INFO, AnalysisResult } from '@/types/analysis';
-import { searchCompanyNews, searchCompanyCaseStudies, searchCompanyInfo, searchInvestorDocuments, searchInvestorPresentation } from '@/lib/services/webSearch';
-import { tavilySearchCompanyNews, tavilySearchCaseStudies, tavilySearchInvestorDocs, tavilyConsolidatedCompetitorSearch, tavilySearchLeadershipChanges, tavilySearchRegulatoryEvents, RegulatoryEvent } from '@/lib/services/tavilySearch';
-import { claudeSearchCompanyNews, claudeSearchCaseStudies, claudeSearchCompanyInfo, claudeSearchInvestorDocs, claudeSearchInvestorPresentation, claudeSearchLeadershipChanges, claudeSearchRegulatoryEvents, claudeConsolidatedCompetitorSearch } from '@/lib/services/claudeSearch';
-import { extractCompetitorMentions } from '@/lib/services/competitorExtraction';
+import { User } from '@supabase/supabase-js';
+import { AnalyzeRequest, AnalyzeResponse, AnalyzeStreamEvent, ApiError, CacheMetadata } from '@/types/api';
+import { ProviderName, PROVIDER_INFO, AnalysisResult, CompanyIdentifiers } from '@/types/analysis';
 import { createClient } from '@/lib/supabase/server';
-import { parseLeadershipArticles } from '@/lib/ai/parseLeadershipNews';
-import { deduplicateRegulatoryEvents } from '@/lib/ai/parser';
 import { logUsage } from '@/lib/services/usageLogger';
+import { runAnalysisPipeline, AnalysisPipelineOptions, AnalysisEventEmitter } from '@/lib/services/analysisPipeline';
+import { encodeStreamEvent } from '@/lib/services/analysisStream';
+import { getActivePromptVersion, PromptVersion, toAnalysisPrompts } from '@/lib/services/analysisPrompts';
+import { getActiveCompetitorVendors } from '@/lib/services/competitorVendors';
+import { getCachedBuyerPersonas } from '@/lib/services/buyerPersonas';
+import { checkAnalysisLinks, createMockLinkFetcher, fetchLink } from '@/lib/services/linkHealth';
+import { createMockEnforcementFetcher } from '@/lib/services/enforcementActions';
+import { computeFitScore, normalizeFitScoreWeights } from '@/lib/services/fitScore';
+import { applySourceCredibility, normalizeSourceDomainTiers } from '@/lib/services/sourceCredibility';
+import { applyRecencyWindows, normalizeRecencyWindows } from '@/lib/services/dateNormalization';
+import { normalizeCompanyIdentifiers, getCompanyCacheKey, getCompanyNameError } from '@/lib/services/companyEntity';
+import { DEFAULT_OUTPUT_LANGUAGE, isOutputLanguage } from '@/lib/config/languages';
+import { mergeResearchQuestions, findCustomAnswers } from '@/lib/services/researchQuestions';
+import { ServerSettings, MOCK_API_KEY, isMockModeEnabled, getProviderApiKey, getProviderModel, getProviderBaseUrl, getFailoverCandidates, getConsensusCandidate } from '@/lib/services/providerSettings';
 
 // Cache expiry: 24 hours (in minutes)
 const CACHE_EXPIRY_MINUTES = 24 * 60;
 
-const HARDCODED_COMPETITORS = [
-  'Smarsh', 'Global Relay', 'NICE', 'Verint', 'Arctera', 'Veritas',
-  'Proofpoint', 'Shield', 'Behavox', 'Digital Reasoning', 'Mimecast', 'ZL Technologies'
-];
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
 
 // Type for cached analysis record
 interface CachedAnalysis {
   id: string;
   company_name: string;
+  entity_key: string;
+  company_identifiers: CompanyIdentifiers | null;
   analysis_data: AnalysisResult;
   provider: string;
   model: string | null;
@@ -31,58 +38,173 @@ interface CachedAnalysis {
   created_at: string;
   updated_at: string;
   updated_by: string | null;
+  prompt_version_id: string | null;
   creator_email?: string;
 }
 
-// Type for server settings
-interface ServerSettings {
-  default_provider: string;
-  openai_api_key: string | null;
-  anthropic_api_key: string | null;
-  gemini_api_key: string | null;
-  perplexity_api_key: string | null;
-  openai_model: string;
-  anthropic_model: string;
-  gemini_model: string;
-  perplexity_model: string;
-  web_search_provider: string;
-  tavily_api_key: string | null;
-  websearchapi_key: string | null;
-}
+// Map an analysis failure to a user-facing error and HTTP status
+function toApiError(error: unknown): { error: string; status: number } {
+  const errorMessage = error instanceof Error ? error.message : 'Analysis failed';
 
-// Get API key for a provider from settings
-function getProviderApiKey(settings: ServerSettings, provider: ProviderName): string | null {
-  switch (provider) {
-    case 'openai': return settings.openai_api_key;
-    case 'anthropic': return settings.anthropic_api_key;
-    case 'gemini': return settings.gemini_api_key;
-    case 'perplexity': return settings.perplexity_api_key;
-    default: return null;
+  // Check for common API key errors
+  if (errorMessage.includes('401') || errorMessage.includes('Unauthorized') || errorMessage.includes('invalid_api_key')) {
+    return { error: 'Invalid API key. Please check your credentials.', status: 401 };
   }
-}
 
-// Validate model belongs to provider, return default if not
-function validateModelForProvider(model: string | undefined, provider: ProviderName): string {
-  const providerInfo = PROVIDER_INFO[provider];
-  const validModels = providerInfo.models.map(m => m.id);
+  if (errorMessage.includes('429') || errorMessage.includes('rate limit')) {
+    return { error: 'Rate limit exceeded. Please try again later.', status: 429 };
+  }
 
-  if (model && validModels.includes(model)) {
-    return model;
+  if (errorMessage.includes('timed out')) {
+    return { error: 'Analysis timed out. Please try again.', status: 504 };
   }
-  // Model doesn't belong to this provider, use default
-  return providerInfo.defaultModel;
+
+  return { error: errorMessage, status: 500 };
 }
 
-// Get model for a provider from settings
-function getProviderModel(settings: ServerSettings, provider: ProviderName): string {
-  let model: string | undefined;
-  switch (provider) {
-    case 'openai': model = settings.openai_model; break;
-    case 'anthropic': model = settings.anthropic_model; break;
-    case 'gemini': model = settings.gemini_model; break;
-    case 'perplexity': model = settings.perplexity_model; break;
+// Run a fresh analysis, save it to the shared cache and log usage
+async function runFreshAnalysis(
+  supabase: SupabaseServerClient,
+  user: User | null,
+  options: AnalysisPipelineOptions,
+  promptVersion: PromptVersion | null,
+  emit: AnalysisEventEmitter
+): Promise<AnalyzeResponse> {
+  const { companyName, company, language } = options;
+  const {
+    analysis, webSearchUsed, webSearchError, searchProvider, durationMs, outputFormat, validationIssues, usage,
+    provider, model, failedProviders, timedOutPhases, searchQueriesUsed
+  } = await runAnalysisPipeline(options, emit);
+
+  if (failedProviders.length > 0) {
+    console.log(`Analysis for "${companyName}" served by ${provider} after failover from ${failedProviders.map(f => f.provider).join(', ')}`);
   }
-  return validateModelForProvider(model, provider);
+
+  // Check the links before caching, so the cached analysis carries their health
+  emit({ type: 'phase', phase: 'link_check', status: 'started' });
+  analysis.linkHealth = await checkAnalysisLinks(supabase, analysis, {
+    fetcher: provider === 'mock' ? createMockLinkFetcher(companyName) : fetchLink,
+    signal: options.signal
+  });
+  emit({ type: 'section', section: 'linkHealth', data: analysis.linkHealth });
+  emit({ type: 'phase', phase: 'link_check', status: 'completed' });
+
+  // Save analysis to shared cache. Partial results aren't cached, so the
+  // next search runs the analysis again instead of reusing them for a day.
+  if (timedOutPhases.length > 0) {
+    emit({ type: 'phase', phase: 'cache_write', status: 'skipped' });
+  } else {
+    emit({ type: 'phase', phase: 'cache_write', status: 'started' });
+    try {
+      // Use upsert to handle both new and refresh cases
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error: cacheError } = await (supabase as any)
+        .from('company_analyses')
+        .upsert({
+          company_name: companyName,
+          company_name_lower: companyName.toLowerCase(),
+          entity_key: getCompanyCacheKey(companyName, company),
+          company_identifiers: company || null,
+          language: language || DEFAULT_OUTPUT_LANGUAGE,
+          analysis_data: analysis,
+          provider: provider,
+          model: model,
+          web_search_used: webSearchUsed,
+          prompt_version_id: promptVersion?.id || null,
+          created_by: user?.id || null,
+          updated_at: new Date().toISOString(),
+          updated_by: user?.id || null
+        }, {
+          onConflict: 'entity_key,language'
+        });
+      if (cacheError) throw cacheError;
+
+      console.log(`Cached analysis for "${companyName}"`);
+      emit({ type: 'phase', phase: 'cache_write', status: 'completed' });
+    } catch (cacheError) {
+      // Don't fail the request if caching fails
+      console.warn('Failed to cache analysis:', cacheError);
+      emit({ type: 'phase', phase: 'cache_write', status: 'failed' });
+    }
+  }
+
+  // Log usage for cost tracking (non-blocking)
+  logUsage(supabase, {
+    userId: user?.id,
+    userEmail: user?.email,
+    companyName,
+    aiProvider: provider,
+    aiModel: model,
+    failedProviders,
+    usage,
+    // Queries are billed even when the search that sent them failed
+    searchProvider: searchQueriesUsed > 0 ? searchProvider : 'none',
+    searchQueriesUsed,
+    cached: false,
+    durationMs,
+    promptVersionId: promptVersion?.id,
+  }).catch(err => console.warn('Usage logging failed:', err));
+
+  return {
+    data: analysis,
+    cached: false,
+    provider,
+    model,
+    failedOverFrom: failedProviders.length > 0 ? failedProviders.map(f => f.provider) : undefined,
+    promptVersion: promptVersion?.version,
+    webSearchUsed,
+    webSearchError: webSearchError || undefined,
+    outputFormat,
+    validationIssues: validationIssues.length > 0 ? validationIssues : undefined,
+    timedOutPhases: timedOutPhases.length > 0 ? timedOutPhases : undefined
+  };
+}
+
+type AnalysisRunner = (emit: AnalysisEventEmitter, signal: AbortSignal) => Promise<AnalyzeResponse>;
+
+// Stream analysis progress as server-sent events, ending with a complete or error event.
+// The analysis is cancelled if the client disconnects or stops reading.
+function streamAnalysis(requestSignal: AbortSignal, run: AnalysisRunner): Response {
+  const encoder = new TextEncoder();
+  const cancellation = new AbortController();
+  const signal = AbortSignal.any([requestSignal, cancellation.signal]);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AnalyzeStreamEvent) => {
+        if (!cancellation.signal.aborted) {
+          controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+        }
+      };
+
+      try {
+        const response = await run(send, signal);
+        send({ type: 'complete', response });
+      } catch (error) {
+        if (signal.aborted) {
+          console.log('Analysis cancelled by client');
+        } else {
+          console.error('Analysis error:', error);
+          send({ type: 'error', ...toApiError(error) });
+        }
+      } finally {
+        if (!cancellation.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+    cancel(reason) {
+      cancellation.abort(reason);
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
 }
 
 export async function POST(request: NextRequest) {
@@ -90,45 +212,59 @@ export async function POST(request: NextRequest) {
     const body: AnalyzeRequest = await request.json();
     const {
       companyName,
+      company: requestedCompany,
+      language = DEFAULT_OUTPUT_LANGUAGE,
+      researchQuestions: userQuestions,
       provider: clientProvider,
       model: clientModel,
       apiKey: clientApiKey,
       webSearchApiKey: clientWebSearchApiKey,
       tavilyApiKey: clientTavilyApiKey,
-      forceRefresh = false
+      forceRefresh = false,
+      stream = false
     } = body;
 
     // Validate input
-    if (!companyName?.trim()) {
+    const nameError = getCompanyNameError(companyName);
+    if (nameError) {
       return NextResponse.json<ApiError>(
-        { error: 'Company name is required' },
+        { error: nameError },
         { status: 400 }
       );
     }
-
     const trimmedName = companyName.trim();
-    if (trimmedName.length > 200) {
-      return NextResponse.json<ApiError>(
-        { error: 'Company name must be 200 characters or fewer' },
-        { status: 400 }
-      );
-    }
 
-    if (!/^[\p{L}\p{N}\s\-.,&'()\/]+$/u.test(trimmedName)) {
+    // Fetch server settings from Supabase
+    const supabase = await createClient();
+
+    // Get current user for cache attribution
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!isOutputLanguage(language)) {
       return NextResponse.json<ApiError>(
-        { error: 'Company name contains invalid characters' },
+        { error: 'Unsupported output language' },
         { status: 400 }
       );
     }
 
-    // Fetch server settings from Supabase
-    const supabase = await createClient();
+    // Malformed identifiers are dropped rather than rejected; the name alone still works
+    const company = normalizeCompanyIdentifiers(requestedCompany);
 
-    // Get current user for cache attribution
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: settings } = await supabase
+      .from('app_settings')
+      .select('*')
+      .single();
+
+    // Type assertion for settings
+    const serverSettings = settings as ServerSettings | null;
+
+    const researchQuestions = mergeResearchQuestions(serverSettings?.research_questions, userQuestions);
+    const fitScoreWeights = normalizeFitScoreWeights(serverSettings?.fit_score_weights);
+    const sourceDomainTiers = normalizeSourceDomainTiers(serverSettings?.source_domain_tiers);
+    const recencyWindows = normalizeRecencyWindows(serverSettings?.recency_windows);
 
     // Check for cached analysis (unless forceRefresh is true)
-    const companyNameLower = companyName.trim().toLowerCase();
+    const entityKey = getCompanyCacheKey(trimmedName, company);
 
     if (!forceRefresh) {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -138,10 +274,17 @@ export async function POST(request: NextRequest) {
           *,
           creator:profiles!company_analyses_created_by_fkey(email)
         `)
-        .eq('company_name_lower', companyNameLower)
+        .eq('entity_key', entityKey)
+        .eq('language', language)
         .single();
 
-      if (cachedAnalysis) {
+      // A cached analysis that didn't answer all of this request's questions is re-run
+      const customAnswers = cachedAnalysis ? findCustomAnswers(cachedAnalysis.analysis_data, researchQuestions) : null;
+      if (cachedAnalysis && !customAnswers) {
+        console.log(`Cached analysis for "${companyName}" is missing research question answers, running a fresh one`);
+      }
+
+      if (cachedAnalysis && customAnswers) {
         const cached = cachedAnalysis as CachedAnalysis & { creator: { email: string } | null };
         const updatedAt = new Date(cached.updated_at);
         const ageMinutes = Math.floor((Date.now() - updatedAt.getTime()) / 60000);
@@ -164,15 +307,22 @@ export async function POST(request: NextRequest) {
           companyName: companyName.trim(),
           aiProvider: cached.provider,
           aiModel: cached.model || PROVIDER_INFO[cached.provider as ProviderName]?.defaultModel || 'unknown',
-          promptText: '',
-          responseText: '',
+          usage: [],
           searchProvider: cached.web_search_used ? 'tavily' : 'none',
           searchQueriesUsed: 0,
           cached: true,
+          promptVersionId: cached.prompt_version_id,
         }).catch(err => console.warn('Usage logging failed:', err));
 
+        // Cached results are returned as plain JSON even when streaming was requested.
+        // Recency windows, source credibility and the fit score are reapplied
+        // so they reflect the current date and settings.
+        const data: AnalysisResult = { ...cached.analysis_data, customAnswers };
+        applyRecencyWindows(data, recencyWindows);
+        applySourceCredibility(data, { tiers: sourceDomainTiers, companyName: trimmedName, companyDomain: company?.domain });
+        data.fitScore = computeFitScore(data, fitScoreWeights);
         return NextResponse.json<AnalyzeResponse>({
-          data: cached.analysis_data,
+          data,
           cached: true,
           cacheMetadata,
           provider: cached.provider as ProviderName,
@@ -180,26 +330,24 @@ export async function POST(request: NextRequest) {
         });
       }
     }
-    const { data: settings } = await supabase
-      .from('app_settings')
-      .select('*')
-      .single();
 
-    // Type assertion for settings
-    const serverSettings = settings as ServerSettings | null;
+    // Mock mode runs against fixtures whatever the settings say
+    const mockMode = isMockModeEnabled();
 
     // Determine provider - use server default if not specified by client
-    const provider = clientProvider || serverSettings?.default_provider || 'openai';
+    const provider = mockMode ? 'mock' : clientProvider || serverSettings?.default_provider || 'openai';
 
-    if (!['openai', 'anthropic', 'gemini', 'perplexity'].includes(provider)) {
+    if (!['openai', 'anthropic', 'gemini', 'perplexity', 'selfhosted', 'mock'].includes(provider)) {
       return NextResponse.json<ApiError>(
-        { error: 'Valid provider is required (openai, anthropic, gemini, or perplexity)' },
+        { error: 'Valid provider is required (openai, anthropic, gemini, perplexity, selfhosted, or mock)' },
         { status: 400 }
       );
     }
 
     // Get API key - prefer server settings, fall back to client-provided (for local dev)
-    const apiKey = (serverSettings ? getProviderApiKey(serverSettings, provider as ProviderName) : null) || clientApiKey;
+    const apiKey = provider === 'mock'
+      ? MOCK_API_KEY
+      : (serverSettings ? getProviderApiKey(serverSettings, provider as ProviderName) : null) || clientApiKey;
 
     if (!apiKey?.trim()) {
       return NextResponse.json<ApiError>(
@@ -209,345 +357,53 @@ export async function POST(request: NextRequest) {
     }
 
     // Get model - prefer client-specified, then server settings, then default
-    const model = clientModel || (serverSettings ? getProviderModel(serverSettings, provider as ProviderName) : undefined);
-
-    // Get web search keys - prefer server settings
-    const webSearchProvider = serverSettings?.web_search_provider || 'none';
-    const tavilyApiKey = serverSettings?.tavily_api_key || clientTavilyApiKey;
-    const webSearchApiKey = serverSettings?.websearchapi_key || clientWebSearchApiKey;
-
-    const providerInfo = PROVIDER_INFO[provider as ProviderName];
-    const useTavily = !providerInfo.supportsWebGrounding && webSearchProvider === 'tavily' && !!tavilyApiKey;
-    const useClaudeSearch = !providerInfo.supportsWebGrounding && webSearchProvider === 'claude' && !!apiKey && provider === 'anthropic';
-    const useWebSearchApi = !providerInfo.supportsWebGrounding && webSearchProvider === 'websearchapi' && !!webSearchApiKey;
-    const shouldUseWebSearch = useTavily || useClaudeSearch || useWebSearchApi;
-    let webSearchData = null;
-    let webSearchError: string | null = null;
-    const webSearchProviderName = useTavily ? 'Tavily' : useClaudeSearch ? 'Claude' : 'WebSearchAPI';
-
-    // If provider doesn't have native web grounding and we have a web search API key,
-    // fetch real-time web data to augment the analysis
-    if (shouldUseWebSearch) {
-      try {
-        if (useTavily) {
-          // Use Tavily for web search (competitor search handled separately after AI analysis)
-          const [newsResults, caseStudyResults, investorDocsResults, leadershipResults, regulatoryResults] = await Promise.all([
-            tavilySearchCompanyNews(companyName.trim(), tavilyApiKey!),
-            tavilySearchCaseStudies(companyName.trim(), tavilyApiKey!),
-            tavilySearchInvestorDocs(companyName.trim(), tavilyApiKey!),
-            tavilySearchLeadershipChanges(companyName.trim(), tavilyApiKey!),
-            tavilySearchRegulatoryEvents(companyName.trim(), tavilyApiKey!)
-          ]);
-
-          webSearchData = {
-            news: newsResults.map(r => ({ title: r.title, url: r.url, description: r.content, date: r.published_date })),
-            caseStudies: caseStudyResults.map(r => ({ title: r.title, url: r.url, description: r.content })),
-            info: { sources: [] as { title: string; url: string; description: string }[] },
-            investorDocs: investorDocsResults.map(r => ({ title: r.title, url: r.url, description: r.content })),
-            investorPresentation: [] as { title: string; url: string; description: string }[],
-            leadershipChanges: leadershipResults.map(r => ({ title: r.title, url: r.url, description: r.content })),
-            regulatoryEvents: regulatoryResults
-          };
-        } else if (useClaudeSearch) {
-          // Use Claude web search (competitor search handled separately after AI analysis)
-          const [newsResults, caseStudyResults, infoResults, investorDocsResults, investorPresentationResults, leadershipResults, regulatoryResults] = await Promise.all([
-            claudeSearchCompanyNews(companyName.trim(), apiKey),
-            claudeSearchCaseStudies(companyName.trim(), apiKey),
-            claudeSearchCompanyInfo(companyName.trim(), apiKey),
-            claudeSearchInvestorDocs(companyName.trim(), apiKey),
-            claudeSearchInvestorPresentation(companyName.trim(), apiKey),
-            claudeSearchLeadershipChanges(companyName.trim(), apiKey),
-            claudeSearchRegulatoryEvents(companyName.trim(), apiKey)
-          ]);
-
-          webSearchData = {
-            news: newsResults.map(r => ({ title: r.title, url: r.url, description: r.content, date: undefined as string | undefined })),
-            caseStudies: caseStudyResults.map(r => ({ title: r.title, url: r.url, description: r.content })),
-            info: { sources: infoResults.sources.map(r => ({ title: r.title, url: r.url, description: r.content })) },
-            investorDocs: investorDocsResults.map(r => ({ title: r.title, url: r.url, description: r.content })),
-            investorPresentation: investorPresentationResults.map(r => ({ title: r.title, url: r.url, description: r.content })),
-            leadershipChanges: leadershipResults.map(r => ({ title: r.title, url: r.url, description: r.content })),
-            regulatoryEvents: regulatoryResults
-          };
-        } else {
-          // Use WebSearchAPI for web search
-          const [newsResults, caseStudyResults, infoResults, investorDocsResults, investorPresentationResults] = await Promise.all([
-            searchCompanyNews(companyName.trim(), webSearchApiKey!),
-            searchCompanyCaseStudies(companyName.trim(), webSearchApiKey!),
-            searchCompanyInfo(companyName.trim(), webSearchApiKey!),
-            searchInvestorDocuments(companyName.trim(), webSearchApiKey!),
-            searchInvestorPresentation(companyName.trim(), webSearchApiKey!)
-          ]);
-
-          webSearchData = {
-            news: newsResults.map(r => ({ title: r.title, url: r.url, description: r.description, date: r.date || r.publishedDate })),
-            caseStudies: caseStudyResults,
-            info: infoResults,
-            investorDocs: investorDocsResults,
-            investorPresentation: investorPresentationResults.map(r => ({ title: r.title, url: r.url, description: r.description }))
-          };
-        }
-      } catch (err) {
-        // Log but don't fail - web search is an enhancement
-        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-        console.warn(`${webSearchProviderName} error (non-fatal):`, errorMessage);
-
-        // Parse the error to give a user-friendly message
-        if (errorMessage.includes('Forbidden') || errorMessage.includes('401') || errorMessage.includes('403') || errorMessage.includes('Invalid API Key')) {
-          webSearchError = `${webSearchProviderName} key is invalid or expired`;
-        } else if (errorMessage.includes('429') || errorMessage.includes('rate limit')) {
-          webSearchError = `${webSearchProviderName} rate limit exceeded`;
-        } else if (errorMessage.includes('timeout') || errorMessage.includes('ETIMEDOUT')) {
-          webSearchError = `${webSearchProviderName} request timed out`;
-        } else {
-          webSearchError = `${webSearchProviderName} failed: ` + errorMessage.substring(0, 100);
-        }
-      }
-    }
-
-    // Create provider and execute analysis with optional model override
-    const startTime = Date.now();
-    const aiProvider = createAIProvider(provider as ProviderName, apiKey, { model });
-    const analysis = await aiProvider.analyzeCompany(companyName.trim());
-    const durationMs = Date.now() - startTime;
-
-    // Clear any AI-generated competitor mentions — only use verified results from web search
-    analysis.competitorMentions = [];
-
-    // Phase 2: Search for Theta Lake's competitors mentioned alongside this company
-    // Merge hardcoded compliance vendors with any additional vendors discovered by AI
-    if (shouldUseWebSearch) {
-      try {
-        const allCompetitors = [...new Set([...HARDCODED_COMPETITORS, ...(analysis.discoveredCompetitors || [])])];
-
-        // Run consolidated search (3 queries instead of 24)
-        let competitorSearchResults: { title: string; url: string; content: string }[] = [];
-        if (useTavily) {
-          competitorSearchResults = await tavilyConsolidatedCompetitorSearch(companyName.trim(), allCompetitors, tavilyApiKey!);
-        } else if (useClaudeSearch) {
-          competitorSearchResults = await claudeConsolidatedCompetitorSearch(companyName.trim(), allCompetitors, apiKey);
-        }
-
-        // Phase 3: AI extraction from search results — URLs constrained to actual results
-        if (competitorSearchResults.length > 0) {
-          const providerType = provider as 'anthropic' | 'openai' | 'gemini';
-          const extractedMentions = await extractCompetitorMentions(
-            companyName.trim(),
-            allCompetitors,
-            competitorSearchResults,
-            { type: providerType, apiKey, model }
-          );
-          analysis.competitorMentions = extractedMentions;
-          console.log(`Competitor extraction: ${competitorSearchResults.length} search results → ${extractedMentions.length} verified mentions`);
-        }
-      } catch (err) {
-        console.warn('Competitor search/extraction failed (non-fatal):', err);
-      }
-    }
-
-    // If we have web search data, merge it with the analysis results
-    if (webSearchData) {
-      // Replace placeholder news with real web search results
-      if (webSearchData.news.length > 0) {
-        analysis.techNews = webSearchData.news.map(item => ({
-          title: item.title,
-          url: item.url,
-          summary: item.description,
-          date: item.date
-        }));
-      } else {
-        // Web search returned no relevant results — clear AI-generated placeholder text
-        analysis.techNews = [];
-      }
-
-      // Replace placeholder case studies with real web search results
-      if (webSearchData.caseStudies.length > 0) {
-        analysis.caseStudies = webSearchData.caseStudies.map(item => ({
-          title: item.title,
-          url: item.url,
-          summary: item.description
-        }));
-      }
-
-      // Replace placeholder investor docs with real web search results
-      if (webSearchData.investorDocs.length > 0) {
-        analysis.investorDocs = webSearchData.investorDocs.map(item => ({
-          title: item.title,
-          url: item.url,
-          summary: item.description
-        }));
-      }
-
-      // Prepend investor presentation as the first item
-      // Filter to actual documents — exclude video sites, social media, and generic pages
-      const presResult = (webSearchData.investorPresentation || []).find(
-        (r: { title: string; url: string; description: string }) => {
-          const urlLower = r.url.toLowerCase();
-          const excluded = ['youtube.com', 'youtu.be', 'vimeo.com', 'twitter.com', 'x.com',
-            'facebook.com', 'linkedin.com', 'reddit.com', 'wikipedia.org'];
-          return !excluded.some(domain => urlLower.includes(domain));
-        }
-      );
-      if (presResult) {
-        analysis.investorDocs = [
-          { title: presResult.title, url: presResult.url, summary: presResult.description },
-          ...analysis.investorDocs.filter(d => d.url !== presResult.url)
-        ];
-      } else {
-        analysis.investorDocs = [
-          { title: 'Investor Presentation', url: '', summary: 'No recent investor presentation found for this company.' },
-          ...analysis.investorDocs
-        ];
-      }
-
-      // Replace leadership changes with real web search results (Tavily only)
-      if (webSearchData.leadershipChanges && webSearchData.leadershipChanges.length > 0) {
-        // Filter out irrelevant pages first
-        const filteredArticles = webSearchData.leadershipChanges
-          .filter((item: { title: string; url: string; description: string }) => {
-            const urlLower = item.url.toLowerCase();
-            return !urlLower.includes('career') && !urlLower.includes('job') && !urlLower.includes('linkedin.com/jobs');
-          })
-          .map((item: { title: string; url: string; description: string }) => ({
-            title: item.title,
-            url: item.url,
-            content: item.description || ''
-          }));
-
-        // Parse articles to extract actual names and roles
-        const parsedChanges = parseLeadershipArticles(filteredArticles, companyName.trim());
-
-        if (parsedChanges.length > 0) {
-          analysis.leadershipChanges = parsedChanges;
-        } else {
-          // Fallback: show article titles if parsing found nothing
-          analysis.leadershipChanges = filteredArticles.slice(0, 6).map((item) => {
-            let source = '';
-            try {
-              source = new URL(item.url).hostname.replace('www.', '');
-            } catch {
-              source = 'Source';
-            }
-            return {
-              name: item.title,
-              role: item.content?.substring(0, 150) || '',
-              changeType: 'appointed' as const,
-              url: item.url,
-              source
-            };
-          });
-        }
-      }
-
-      // Replace regulatory events with real web search results (Tavily only)
-      if (webSearchData.regulatoryEvents && webSearchData.regulatoryEvents.length > 0) {
-        const rawEvents = webSearchData.regulatoryEvents.map((event: RegulatoryEvent) => ({
-          date: event.date,
-          regulatoryBody: event.regulatoryBody,
-          eventType: event.eventType,
-          amount: event.amount,
-          description: event.description,
-          url: event.url
-        }));
-        // Deduplicate events that refer to the same enforcement action
-        analysis.regulatoryEvents = deduplicateRegulatoryEvents(rawEvents);
-        console.log(`Found ${webSearchData.regulatoryEvents.length} regulatory events for ${companyName}, deduplicated to ${analysis.regulatoryEvents.length}`);
-      }
+    const model = mockMode ? undefined : clientModel || (serverSettings ? getProviderModel(serverSettings, provider as ProviderName) : undefined);
 
-      // Add web search sources to sources list
-      const webSources = [
-        ...webSearchData.news.map(n => n.url),
-        ...webSearchData.caseStudies.map(c => c.url),
-        ...webSearchData.investorDocs.map(d => d.url),
-        ...webSearchData.info.sources.map(s => s.url),
-        ...(analysis.competitorMentions || []).map(c => c.url),
-        ...(webSearchData.regulatoryEvents || []).map((e: RegulatoryEvent) => e.url)
-      ].filter(Boolean);
-
-      if (webSources.length > 0) {
-        analysis.sources = [...new Set([...analysis.sources, ...webSources])];
-      }
-    }
-
-    // Log web search status for debugging
-    if (shouldUseWebSearch) {
-      console.log(`${webSearchProviderName} status:`, webSearchData ? 'SUCCESS' : `FAILED: ${webSearchError}`);
-    }
-
-    // Save analysis to shared cache
-    const webSearchUsed = shouldUseWebSearch && webSearchData !== null;
-    try {
-      // Use upsert to handle both new and refresh cases
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      await (supabase as any)
-        .from('company_analyses')
-        .upsert({
-          company_name: companyName.trim(),
-          company_name_lower: companyNameLower,
-          analysis_data: analysis,
-          provider: provider,
-          model: model || null,
-          web_search_used: webSearchUsed,
-          created_by: user?.id || null,
-          updated_at: new Date().toISOString(),
-          updated_by: user?.id || null
-        }, {
-          onConflict: 'company_name_lower'
-        });
+    // Admin-edited prompts, if a version is active
+    const promptVersion = await getActivePromptVersion(supabase);
+    const competitorVendors = await getActiveCompetitorVendors(supabase);
+    // Personas from the analysis this one replaces, so new people can be flagged
+    const previousBuyerPersonas = await getCachedBuyerPersonas(supabase, entityKey, language);
 
-      console.log(`Cached analysis for "${companyName}"`);
-    } catch (cacheError) {
-      // Don't fail the request if caching fails
-      console.warn('Failed to cache analysis:', cacheError);
+    // Get web search keys - prefer server settings
+    const pipelineOptions: AnalysisPipelineOptions = {
+      companyName: trimmedName,
+      company,
+      language,
+      researchQuestions,
+      provider: provider as ProviderName,
+      apiKey,
+      model,
+      baseUrl: serverSettings ? getProviderBaseUrl(serverSettings, provider as ProviderName) : undefined,
+      // Failover and consensus would call real providers
+      failover: serverSettings && !mockMode ? getFailoverCandidates(serverSettings, provider as ProviderName) : [],
+      consensus: serverSettings && !mockMode ? getConsensusCandidate(serverSettings, provider as ProviderName) : null,
+      prompts: promptVersion ? toAnalysisPrompts(promptVersion) : undefined,
+      competitorVendors,
+      fitScoreWeights,
+      sourceDomainTiers,
+      recencyWindows,
+      previousBuyerPersonas,
+      enforcementFetcher: provider === 'mock' ? createMockEnforcementFetcher(trimmedName) : undefined,
+      webSearchProvider: mockMode ? 'mock' : serverSettings?.web_search_provider || 'none',
+      tavilyApiKey: serverSettings?.tavily_api_key || clientTavilyApiKey,
+      webSearchApiKey: serverSettings?.websearchapi_key || clientWebSearchApiKey
+    };
+
+    const run: AnalysisRunner = (emit, signal) => runFreshAnalysis(supabase, user, { ...pipelineOptions, signal }, promptVersion, emit);
+
+    if (stream) {
+      return streamAnalysis(request.signal, run);
     }
 
-    // Log usage for cost tracking (non-blocking)
-    // Estimate prompt size: ~3000 chars for the template + company name
-    const estimatedPrompt = 'A'.repeat(3000 + companyName.length);
-    logUsage(supabase, {
-      userId: user?.id,
-      userEmail: user?.email,
-      companyName: companyName.trim(),
-      aiProvider: provider,
-      aiModel: model || PROVIDER_INFO[provider as ProviderName].defaultModel,
-      promptText: estimatedPrompt,
-      responseText: JSON.stringify(analysis),
-      searchProvider: webSearchUsed ? (useTavily ? 'tavily' : useClaudeSearch ? 'claude' : 'websearchapi') : 'none',
-      searchQueriesUsed: webSearchUsed ? 10 : 0, // ~10 Tavily queries per analysis (5 initial + ~5 competitor)
-      cached: false,
-      durationMs,
-    }).catch(err => console.warn('Usage logging failed:', err));
-
-    return NextResponse.json<AnalyzeResponse>({
-      data: analysis,
-      cached: false,
-      provider: provider as ProviderName,
-      webSearchUsed,
-      webSearchError: webSearchError || undefined
-    });
+    return NextResponse.json<AnalyzeResponse>(await run(() => {}, request.signal));
   } catch (error) {
     console.error('Analysis error:', error);
 
-    const errorMessage = error instanceof Error ? error.message : 'Analysis failed';
-
-    // Check for common API key errors
-    if (errorMessage.includes('401') || errorMessage.includes('Unauthorized') || errorMessage.includes('invalid_api_key')) {
-      return NextResponse.json<ApiError>(
-        { error: 'Invalid API key. Please check your credentials.' },
-        { status: 401 }
-      );
-    }
-
-    if (errorMessage.includes('429') || errorMessage.includes('rate limit')) {
-      return NextResponse.json<ApiError>(
-        { error: 'Rate limit exceeded. Please try again later.' },
-        { status: 429 }
-      );
-    }
-
+    const { error: errorMessage, status } = toApiError(error);
     return NextResponse.json<ApiError>(
       { error: errorMessage },
-      { status: 500 }
+      { status }
     );
   }
 }
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, RefreshSectionRequest, RefreshSectionResponse, REFRESHABLE_SECTIONS } from '@/types/api';
+import { ProviderName, PROVIDER_INFO, AnalysisResult } from '@/types/analysis';
+import { createClient } from '@/lib/supabase/server';
+import { logUsage } from '@/lib/services/usageLogger';
+import { resolveSearchProvider, AnalysisPipelineOptions } from '@/lib/services/analysisPipeline';
+import { refreshSection, getSectionRefreshError } from '@/lib/services/sectionRefresh';
+import { getActiveCompetitorVendors } from '@/lib/services/competitorVendors';
+import { normalizeFitScoreWeights } from '@/lib/services/fitScore';
+import { normalizeSourceDomainTiers } from '@/lib/services/sourceCredibility';
+import { normalizeRecencyWindows } from '@/lib/services/dateNormalization';
+import { createMockEnforcementFetcher } from '@/lib/services/enforcementActions';
+import { checkAnalysisLinks, createMockLinkFetcher, fetchLink } from '@/lib/services/linkHealth';
+import { normalizeCompanyIdentifiers, getCompanyCacheKey, getCompanyNameError } from '@/lib/services/companyEntity';
+import { DEFAULT_OUTPUT_LANGUAGE, isOutputLanguage } from '@/lib/config/languages';
+import { ServerSettings, MOCK_API_KEY, isMockModeEnabled, getProviderApiKey, getProviderModel, getProviderBaseUrl } from '@/lib/services/providerSettings';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { companyName, company, language, section }: RefreshSectionRequest = await request.json();
+
+    // Same checks as a full analysis
+    const nameError = getCompanyNameError(companyName);
+    if (nameError) {
+      return NextResponse.json<ApiError>(
+        { error: nameError },
+        { status: 400 }
+      );
+    }
+
+    if (!REFRESHABLE_SECTIONS.includes(section)) {
+      return NextResponse.json<ApiError>(
+        { error: `Section must be one of: ${REFRESHABLE_SECTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    const entityKey = getCompanyCacheKey(companyName, normalizeCompanyIdentifiers(company));
+    const cacheLanguage = isOutputLanguage(language) ? language : DEFAULT_OUTPUT_LANGUAGE;
+
+    // Only cached analyses can be refreshed section by section
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: cachedAnalysis } = await (supabase as any)
+      .from('company_analyses')
+      .select('company_name, company_identifiers, analysis_data, provider')
+      .eq('entity_key', entityKey)
+      .eq('language', cacheLanguage)
+      .single();
+
+    if (!cachedAnalysis) {
+      return NextResponse.json<ApiError>(
+        { error: 'No saved analysis found for this company. Run a full analysis first.' },
+        { status: 404 }
+      );
+    }
+
+    const { data: settings } = await supabase
+      .from('app_settings')
+      .select('*')
+      .single();
+    const serverSettings = settings as ServerSettings | null;
+
+    // Refresh with the provider that produced the cached analysis (mock
+    // mode runs against fixtures whatever the settings say)
+    const mockMode = isMockModeEnabled();
+    const provider = (mockMode
+      ? 'mock'
+      : cachedAnalysis.provider in PROVIDER_INFO
+        ? cachedAnalysis.provider
+        : serverSettings?.default_provider || 'openai') as ProviderName;
+    const apiKey = provider === 'mock' ? MOCK_API_KEY : serverSettings ? getProviderApiKey(serverSettings, provider) : null;
+
+    if (!apiKey?.trim()) {
+      return NextResponse.json<ApiError>(
+        { error: 'API key not configured. Please contact an administrator.' },
+        { status: 401 }
+      );
+    }
+
+    const options: AnalysisPipelineOptions = {
+      companyName: cachedAnalysis.company_name,
+      company: cachedAnalysis.company_identifiers || undefined,
+      language: cacheLanguage,
+      provider,
+      apiKey,
+      model: serverSettings ? getProviderModel(serverSettings, provider) : undefined,
+      baseUrl: serverSettings ? getProviderBaseUrl(serverSettings, provider) : undefined,
+      webSearchProvider: mockMode ? 'mock' : serverSettings?.web_search_provider || 'none',
+      tavilyApiKey: serverSettings?.tavily_api_key || undefined,
+      webSearchApiKey: serverSettings?.websearchapi_key || undefined,
+      competitorVendors: section === 'competitorMentions' ? await getActiveCompetitorVendors(supabase) : undefined,
+      fitScoreWeights: normalizeFitScoreWeights(serverSettings?.fit_score_weights),
+      sourceDomainTiers: normalizeSourceDomainTiers(serverSettings?.source_domain_tiers),
+      recencyWindows: normalizeRecencyWindows(serverSettings?.recency_windows),
+      enforcementFetcher: provider === 'mock' ? createMockEnforcementFetcher(cachedAnalysis.company_name) : undefined,
+      signal: request.signal
+    };
+
+    const unavailable = getSectionRefreshError(section, resolveSearchProvider(options));
+    if (unavailable) {
+      return NextResponse.json<ApiError>(
+        { error: unavailable },
+        { status: 400 }
+      );
+    }
+
+    const { analysis, searchProvider, searchQueriesUsed, usage, durationMs } = await refreshSection(
+      section,
+      cachedAnalysis.analysis_data as AnalysisResult,
+      options
+    );
+
+    // The section's new links haven't been checked; unchanged ones come from the link check cache
+    analysis.linkHealth = await checkAnalysisLinks(supabase, analysis, {
+      fetcher: provider === 'mock' ? createMockLinkFetcher(cachedAnalysis.company_name) : fetchLink,
+      signal: request.signal
+    });
+
+    // Merge the refreshed section into the shared cache. updated_at is left alone
+    // since the rest of the analysis is no fresher than before.
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error: updateError } = await (supabase as any)
+      .from('company_analyses')
+      .update({
+        analysis_data: analysis,
+        updated_by: user?.id || null
+      })
+      .eq('entity_key', entityKey)
+      .eq('language', cacheLanguage);
+
+    if (updateError) {
+      console.warn('Failed to save refreshed section:', updateError);
+    }
+
+    // Log usage for cost tracking (non-blocking)
+    logUsage(supabase, {
+      userId: user?.id,
+      userEmail: user?.email,
+      companyName: cachedAnalysis.company_name,
+      aiProvider: provider,
+      aiModel: options.model || PROVIDER_INFO[provider].defaultModel,
+      usage,
+      searchProvider,
+      searchQueriesUsed,
+      cached: false,
+      durationMs,
+      refreshedSection: section,
+    }).catch(err => console.warn('Usage logging failed:', err));
+
+    return NextResponse.json<RefreshSectionResponse>({
+      data: analysis,
+      section,
+      refreshedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Section refresh error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Section refresh failed';
+    return NextResponse.json<ApiError>(
+      { error: errorMessage },
+      { status: errorMessage.includes('timed out') ? 504 : 500 }
+    );
+  }
+}
@@ -3,6 +3,9 @@ import { NextRequest, NextResponse } from 'next/server';
 export interface CompanySearchResult {
   name: string;
   symbol?: string;
+  domain?: string; // Website domain, used with the symbol to tell same-named companies apart
+  hqCountry?: string;
+  legalNames?: string[]; // Registered names of the company and its regulated subsidiaries, matched against enforcement actions
   description?: string;
   isPublic: boolean;
   publicStatus?: 'public' | 'private' | 'went_private' | 'pre_ipo' | 'unknown';
@@ -11,115 +14,117 @@ export interface CompanySearchResult {
 }
 
 // Common companies for fuzzy matching
+// domain and hqCountry identify the company in analysis prompts and searches
+// aliases are search-box synonyms only; legalNames are the entity names official enforcement actions are matched on
 // publicStatus: 'public' = currently traded, 'private' = never public, 'went_private' = was public, 'pre_ipo' = planning IPO
 const KNOWN_COMPANIES = [
-  { name: 'Apple', symbol: 'AAPL', aliases: ['apple inc', 'apple computer'], publicStatus: 'public' as const },
-  { name: 'Microsoft', symbol: 'MSFT', aliases: ['microsoft corporation', 'msft'], publicStatus: 'public' as const },
-  { name: 'Google', symbol: 'GOOGL', aliases: ['alphabet', 'alphabet inc', 'google llc'], publicStatus: 'public' as const },
-  { name: 'Amazon', symbol: 'AMZN', aliases: ['amazon.com', 'amazon inc'], publicStatus: 'public' as const },
-  { name: 'Meta', symbol: 'META', aliases: ['facebook', 'meta platforms', 'fb'], publicStatus: 'public' as const },
-  { name: 'Tesla', symbol: 'TSLA', aliases: ['tesla motors', 'tesla inc'], publicStatus: 'public' as const },
-  { name: 'NVIDIA', symbol: 'NVDA', aliases: ['nvidia corporation'], publicStatus: 'public' as const },
-  { name: 'Netflix', symbol: 'NFLX', aliases: ['netflix inc'], publicStatus: 'public' as const },
-  { name: 'Disney', symbol: 'DIS', aliases: ['walt disney', 'the walt disney company'], publicStatus: 'public' as const },
-  { name: 'Walmart', symbol: 'WMT', aliases: ['walmart inc', 'wal-mart'], publicStatus: 'public' as const },
-  { name: 'JPMorgan Chase', symbol: 'JPM', aliases: ['jp morgan', 'jpmorgan', 'chase bank'], publicStatus: 'public' as const },
-  { name: 'Bank of America', symbol: 'BAC', aliases: ['bofa', 'boa', 'bankofamerica'], publicStatus: 'public' as const },
-  { name: 'Visa', symbol: 'V', aliases: ['visa inc'], publicStatus: 'public' as const },
-  { name: 'Mastercard', symbol: 'MA', aliases: ['mastercard inc'], publicStatus: 'public' as const },
-  { name: 'Coca-Cola', symbol: 'KO', aliases: ['coke', 'coca cola', 'cocacola'], publicStatus: 'public' as const },
-  { name: 'PepsiCo', symbol: 'PEP', aliases: ['pepsi', 'pepsico inc'], publicStatus: 'public' as const },
-  { name: 'Intel', symbol: 'INTC', aliases: ['intel corporation'], publicStatus: 'public' as const },
-  { name: 'AMD', symbol: 'AMD', aliases: ['advanced micro devices'], publicStatus: 'public' as const },
-  { name: 'IBM', symbol: 'IBM', aliases: ['international business machines'], publicStatus: 'public' as const },
-  { name: 'Oracle', symbol: 'ORCL', aliases: ['oracle corporation'], publicStatus: 'public' as const },
-  { name: 'Salesforce', symbol: 'CRM', aliases: ['salesforce.com', 'salesforce inc'], publicStatus: 'public' as const },
-  { name: 'Adobe', symbol: 'ADBE', aliases: ['adobe inc', 'adobe systems'], publicStatus: 'public' as const },
-  { name: 'Cisco', symbol: 'CSCO', aliases: ['cisco systems'], publicStatus: 'public' as const },
-  { name: 'AT&T', symbol: 'T', aliases: ['att', 'at and t'], publicStatus: 'public' as const },
-  { name: 'Verizon', symbol: 'VZ', aliases: ['verizon communications'], publicStatus: 'public' as const },
-  { name: 'T-Mobile', symbol: 'TMUS', aliases: ['tmobile', 't mobile'], publicStatus: 'public' as const },
-  { name: 'Boeing', symbol: 'BA', aliases: ['the boeing company'], publicStatus: 'public' as const },
-  { name: 'Ford', symbol: 'F', aliases: ['ford motor', 'ford motors'], publicStatus: 'public' as const },
-  { name: 'General Motors', symbol: 'GM', aliases: ['gm', 'gmc'], publicStatus: 'public' as const },
-  { name: 'Toyota', symbol: 'TM', aliases: ['toyota motor'], publicStatus: 'public' as const },
-  { name: 'Nike', symbol: 'NKE', aliases: ['nike inc'], publicStatus: 'public' as const },
-  { name: 'Starbucks', symbol: 'SBUX', aliases: ['starbucks corporation'], publicStatus: 'public' as const },
-  { name: "McDonald's", symbol: 'MCD', aliases: ['mcdonalds', 'mcd'], publicStatus: 'public' as const },
-  { name: 'Uber', symbol: 'UBER', aliases: ['uber technologies'], publicStatus: 'public' as const },
-  { name: 'Lyft', symbol: 'LYFT', aliases: ['lyft inc'], publicStatus: 'public' as const },
-  { name: 'Airbnb', symbol: 'ABNB', aliases: ['air bnb'], publicStatus: 'public' as const },
-  { name: 'Spotify', symbol: 'SPOT', aliases: ['spotify technology'], publicStatus: 'public' as const },
-  { name: 'Zoom', symbol: 'ZM', aliases: ['zoom video', 'zoom communications'], publicStatus: 'public' as const },
-  { name: 'Shopify', symbol: 'SHOP', aliases: ['shopify inc'], publicStatus: 'public' as const },
-  { name: 'PayPal', symbol: 'PYPL', aliases: ['paypal holdings'], publicStatus: 'public' as const },
-  { name: 'Block', symbol: 'SQ', aliases: ['square', 'square inc'], publicStatus: 'public' as const },
-  { name: 'Palantir', symbol: 'PLTR', aliases: ['palantir technologies'], publicStatus: 'public' as const },
-  { name: 'Snowflake', symbol: 'SNOW', aliases: ['snowflake inc'], publicStatus: 'public' as const },
-  { name: 'Coinbase', symbol: 'COIN', aliases: ['coinbase global'], publicStatus: 'public' as const },
-  { name: 'Robinhood', symbol: 'HOOD', aliases: ['robinhood markets'], publicStatus: 'public' as const },
-  { name: 'OpenAI', symbol: '', aliases: ['open ai'], publicStatus: 'private' as const },
-  { name: 'Anthropic', symbol: '', aliases: [], publicStatus: 'private' as const },
-  { name: 'Stripe', symbol: '', aliases: ['stripe inc'], publicStatus: 'pre_ipo' as const },
-  { name: 'SpaceX', symbol: '', aliases: ['space x', 'spacex'], publicStatus: 'private' as const },
-  { name: 'Twitter', symbol: '', aliases: ['x', 'x corp'], publicStatus: 'went_private' as const },
-  { name: 'Dell Technologies', symbol: 'DELL', aliases: ['dell', 'dell inc'], publicStatus: 'public' as const },
-  { name: 'Databricks', symbol: '', aliases: [], publicStatus: 'pre_ipo' as const },
-  { name: 'Discord', symbol: '', aliases: [], publicStatus: 'private' as const },
-  { name: 'Figma', symbol: 'FIG', aliases: ['figma inc'], publicStatus: 'public' as const },
-  { name: 'Canva', symbol: '', aliases: [], publicStatus: 'private' as const },
-  { name: 'Instacart', symbol: 'CART', aliases: ['maplebear'], publicStatus: 'public' as const },
-  { name: 'Reddit', symbol: 'RDDT', aliases: [], publicStatus: 'public' as const },
+  { name: 'Apple', symbol: 'AAPL', aliases: ['apple inc', 'apple computer'], legalNames: ['Apple Inc.'], domain: 'apple.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Microsoft', symbol: 'MSFT', aliases: ['microsoft corporation', 'msft'], legalNames: ['Microsoft Corporation'], domain: 'microsoft.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Google', symbol: 'GOOGL', aliases: ['alphabet', 'alphabet inc', 'google llc'], legalNames: ['Alphabet Inc.', 'Google LLC'], domain: 'abc.xyz', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Amazon', symbol: 'AMZN', aliases: ['amazon.com', 'amazon inc'], legalNames: ['Amazon.com, Inc.'], domain: 'amazon.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Meta', symbol: 'META', aliases: ['facebook', 'meta platforms', 'fb'], legalNames: ['Meta Platforms, Inc.', 'Facebook, Inc.'], domain: 'meta.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Tesla', symbol: 'TSLA', aliases: ['tesla motors', 'tesla inc'], legalNames: ['Tesla, Inc.', 'Tesla Motors, Inc.'], domain: 'tesla.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'NVIDIA', symbol: 'NVDA', aliases: ['nvidia corporation'], legalNames: ['NVIDIA Corporation'], domain: 'nvidia.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Netflix', symbol: 'NFLX', aliases: ['netflix inc'], legalNames: ['Netflix, Inc.'], domain: 'netflix.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Disney', symbol: 'DIS', aliases: ['walt disney', 'the walt disney company'], legalNames: ['The Walt Disney Company'], domain: 'thewaltdisneycompany.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Walmart', symbol: 'WMT', aliases: ['walmart inc', 'wal-mart'], legalNames: ['Walmart Inc.', 'Wal-Mart Stores, Inc.'], domain: 'walmart.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'JPMorgan Chase', symbol: 'JPM', aliases: ['jp morgan', 'jpmorgan', 'chase bank'], legalNames: ['JPMorgan Chase & Co.', 'JPMorgan Chase Bank, N.A.', 'J.P. Morgan Securities LLC'], domain: 'jpmorganchase.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Bank of America', symbol: 'BAC', aliases: ['bofa', 'boa', 'bankofamerica'], legalNames: ['Bank of America Corporation', 'Bank of America, N.A.', 'BofA Securities, Inc.', 'Merrill Lynch, Pierce, Fenner & Smith Incorporated'], domain: 'bankofamerica.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Visa', symbol: 'V', aliases: ['visa inc'], legalNames: ['Visa Inc.'], domain: 'visa.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Mastercard', symbol: 'MA', aliases: ['mastercard inc'], legalNames: ['Mastercard Incorporated'], domain: 'mastercard.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Coca-Cola', symbol: 'KO', aliases: ['coke', 'coca cola', 'cocacola'], legalNames: ['The Coca-Cola Company'], domain: 'coca-colacompany.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'PepsiCo', symbol: 'PEP', aliases: ['pepsi', 'pepsico inc'], legalNames: ['PepsiCo, Inc.'], domain: 'pepsico.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Intel', symbol: 'INTC', aliases: ['intel corporation'], legalNames: ['Intel Corporation'], domain: 'intel.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'AMD', symbol: 'AMD', aliases: ['advanced micro devices'], legalNames: ['Advanced Micro Devices, Inc.'], domain: 'amd.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'IBM', symbol: 'IBM', aliases: ['international business machines'], legalNames: ['International Business Machines Corporation'], domain: 'ibm.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Oracle', symbol: 'ORCL', aliases: ['oracle corporation'], legalNames: ['Oracle Corporation'], domain: 'oracle.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Salesforce', symbol: 'CRM', aliases: ['salesforce.com', 'salesforce inc'], legalNames: ['Salesforce, Inc.', 'salesforce.com, inc.'], domain: 'salesforce.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Adobe', symbol: 'ADBE', aliases: ['adobe inc', 'adobe systems'], legalNames: ['Adobe Inc.', 'Adobe Systems Incorporated'], domain: 'adobe.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Cisco', symbol: 'CSCO', aliases: ['cisco systems'], legalNames: ['Cisco Systems, Inc.'], domain: 'cisco.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'AT&T', symbol: 'T', aliases: ['att', 'at and t'], legalNames: ['AT&T Inc.'], domain: 'att.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Verizon', symbol: 'VZ', aliases: ['verizon communications'], legalNames: ['Verizon Communications Inc.'], domain: 'verizon.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'T-Mobile', symbol: 'TMUS', aliases: ['tmobile', 't mobile'], legalNames: ['T-Mobile US, Inc.'], domain: 't-mobile.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Boeing', symbol: 'BA', aliases: ['the boeing company'], legalNames: ['The Boeing Company'], domain: 'boeing.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Ford', symbol: 'F', aliases: ['ford motor', 'ford motors'], legalNames: ['Ford Motor Company', 'Ford Motor Credit Company LLC'], domain: 'ford.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'General Motors', symbol: 'GM', aliases: ['gm', 'gmc'], legalNames: ['General Motors Company', 'General Motors Financial Company, Inc.'], domain: 'gm.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Toyota', symbol: 'TM', aliases: ['toyota motor'], legalNames: ['Toyota Motor Corporation', 'Toyota Motor Credit Corporation'], domain: 'global.toyota', hqCountry: 'Japan', publicStatus: 'public' as const },
+  { name: 'Nike', symbol: 'NKE', aliases: ['nike inc'], legalNames: ['NIKE, Inc.'], domain: 'nike.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Starbucks', symbol: 'SBUX', aliases: ['starbucks corporation'], legalNames: ['Starbucks Corporation'], domain: 'starbucks.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: "McDonald's", symbol: 'MCD', aliases: ['mcdonalds', 'mcd'], legalNames: ["McDonald's Corporation"], domain: 'mcdonalds.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Uber', symbol: 'UBER', aliases: ['uber technologies'], legalNames: ['Uber Technologies, Inc.'], domain: 'uber.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Lyft', symbol: 'LYFT', aliases: ['lyft inc'], legalNames: ['Lyft, Inc.'], domain: 'lyft.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Airbnb', symbol: 'ABNB', aliases: ['air bnb'], legalNames: ['Airbnb, Inc.'], domain: 'airbnb.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Spotify', symbol: 'SPOT', aliases: ['spotify technology'], legalNames: ['Spotify Technology S.A.'], domain: 'spotify.com', hqCountry: 'Sweden', publicStatus: 'public' as const },
+  { name: 'Zoom', symbol: 'ZM', aliases: ['zoom video', 'zoom communications'], legalNames: ['Zoom Communications, Inc.', 'Zoom Video Communications, Inc.'], domain: 'zoom.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Shopify', symbol: 'SHOP', aliases: ['shopify inc'], legalNames: ['Shopify Inc.'], domain: 'shopify.com', hqCountry: 'Canada', publicStatus: 'public' as const },
+  { name: 'PayPal', symbol: 'PYPL', aliases: ['paypal holdings'], legalNames: ['PayPal Holdings, Inc.', 'PayPal, Inc.'], domain: 'paypal.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Block', symbol: 'SQ', aliases: ['square', 'square inc'], legalNames: ['Block, Inc.', 'Square, Inc.'], domain: 'block.xyz', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Palantir', symbol: 'PLTR', aliases: ['palantir technologies'], legalNames: ['Palantir Technologies Inc.'], domain: 'palantir.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Snowflake', symbol: 'SNOW', aliases: ['snowflake inc'], legalNames: ['Snowflake Inc.'], domain: 'snowflake.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Coinbase', symbol: 'COIN', aliases: ['coinbase global'], legalNames: ['Coinbase Global, Inc.', 'Coinbase, Inc.'], domain: 'coinbase.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Robinhood', symbol: 'HOOD', aliases: ['robinhood markets'], legalNames: ['Robinhood Markets, Inc.', 'Robinhood Financial LLC', 'Robinhood Securities, LLC'], domain: 'robinhood.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'OpenAI', symbol: '', aliases: ['open ai'], legalNames: [], domain: 'openai.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'Anthropic', symbol: '', aliases: [], legalNames: [], domain: 'anthropic.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'Stripe', symbol: '', aliases: ['stripe inc'], legalNames: ['Stripe, Inc.'], domain: 'stripe.com', hqCountry: 'United States', publicStatus: 'pre_ipo' as const },
+  { name: 'SpaceX', symbol: '', aliases: ['space x', 'spacex'], legalNames: ['Space Exploration Technologies Corp.'], domain: 'spacex.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'Twitter', symbol: '', aliases: ['x', 'x corp'], legalNames: ['Twitter, Inc.'], domain: 'x.com', hqCountry: 'United States', publicStatus: 'went_private' as const },
+  { name: 'Dell Technologies', symbol: 'DELL', aliases: ['dell', 'dell inc'], legalNames: ['Dell Technologies Inc.', 'Dell Inc.'], domain: 'dell.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Databricks', symbol: '', aliases: [], legalNames: ['Databricks, Inc.'], domain: 'databricks.com', hqCountry: 'United States', publicStatus: 'pre_ipo' as const },
+  { name: 'Discord', symbol: '', aliases: [], legalNames: ['Discord Inc.'], domain: 'discord.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'Figma', symbol: 'FIG', aliases: ['figma inc'], legalNames: ['Figma, Inc.'], domain: 'figma.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Canva', symbol: '', aliases: [], legalNames: [], domain: 'canva.com', hqCountry: 'Australia', publicStatus: 'private' as const },
+  { name: 'Instacart', symbol: 'CART', aliases: ['maplebear'], legalNames: ['Maplebear Inc.'], domain: 'instacart.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Reddit', symbol: 'RDDT', aliases: [], legalNames: ['Reddit, Inc.'], domain: 'reddit.com', hqCountry: 'United States', publicStatus: 'public' as const },
   // Healthcare & Insurance (Public)
-  { name: 'Cigna', symbol: 'CI', aliases: ['cigna healthcare', 'cigna corporation', 'cigna group', 'the cigna group'], publicStatus: 'public' as const },
-  { name: 'UnitedHealth Group', symbol: 'UNH', aliases: ['unitedhealth', 'united health', 'united healthcare', 'unitedhealthcare'], publicStatus: 'public' as const },
-  { name: 'Elevance Health', symbol: 'ELV', aliases: ['anthem', 'anthem inc', 'wellpoint'], publicStatus: 'public' as const },
-  { name: 'Humana', symbol: 'HUM', aliases: ['humana inc'], publicStatus: 'public' as const },
-  { name: 'CVS Health', symbol: 'CVS', aliases: ['cvs', 'cvs pharmacy', 'cvs caremark', 'aetna'], publicStatus: 'public' as const },
-  { name: 'Centene', symbol: 'CNC', aliases: ['centene corporation'], publicStatus: 'public' as const },
-  { name: 'Molina Healthcare', symbol: 'MOH', aliases: ['molina'], publicStatus: 'public' as const },
+  { name: 'Cigna', symbol: 'CI', aliases: ['cigna healthcare', 'cigna corporation', 'cigna group', 'the cigna group'], legalNames: ['The Cigna Group', 'Cigna Corporation'], domain: 'thecignagroup.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'UnitedHealth Group', symbol: 'UNH', aliases: ['unitedhealth', 'united health', 'united healthcare', 'unitedhealthcare'], legalNames: ['UnitedHealth Group Incorporated'], domain: 'unitedhealthgroup.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Elevance Health', symbol: 'ELV', aliases: ['anthem', 'anthem inc', 'wellpoint'], legalNames: ['Elevance Health, Inc.', 'Anthem, Inc.'], domain: 'elevancehealth.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Humana', symbol: 'HUM', aliases: ['humana inc'], legalNames: ['Humana Inc.'], domain: 'humana.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'CVS Health', symbol: 'CVS', aliases: ['cvs', 'cvs pharmacy', 'cvs caremark', 'aetna'], legalNames: ['CVS Health Corporation', 'Aetna Inc.'], domain: 'cvshealth.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Centene', symbol: 'CNC', aliases: ['centene corporation'], legalNames: ['Centene Corporation'], domain: 'centene.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Molina Healthcare', symbol: 'MOH', aliases: ['molina'], legalNames: ['Molina Healthcare, Inc.'], domain: 'molinahealthcare.com', hqCountry: 'United States', publicStatus: 'public' as const },
   // Asset Management & Financial Services (Public)
-  { name: 'BlackRock', symbol: 'BLK', aliases: ['blackrock inc', 'black rock'], publicStatus: 'public' as const },
-  { name: 'Vanguard Group', symbol: '', aliases: ['vanguard'], publicStatus: 'private' as const },
-  { name: 'State Street', symbol: 'STT', aliases: ['state street corporation', 'state street corp'], publicStatus: 'public' as const },
-  { name: 'Charles Schwab', symbol: 'SCHW', aliases: ['schwab', 'charles schwab corporation'], publicStatus: 'public' as const },
-  { name: 'Morgan Stanley', symbol: 'MS', aliases: ['morgan stanley & co'], publicStatus: 'public' as const },
-  { name: 'Goldman Sachs', symbol: 'GS', aliases: ['goldman sachs group', 'goldman'], publicStatus: 'public' as const },
-  { name: 'Berkshire Hathaway', symbol: 'BRK.B', aliases: ['berkshire', 'warren buffett'], publicStatus: 'public' as const },
-  { name: 'Citigroup', symbol: 'C', aliases: ['citi', 'citibank'], publicStatus: 'public' as const },
-  { name: 'Wells Fargo', symbol: 'WFC', aliases: ['wells fargo & company'], publicStatus: 'public' as const },
-  { name: 'American Express', symbol: 'AXP', aliases: ['amex', 'american express company'], publicStatus: 'public' as const },
-  { name: 'Capital One', symbol: 'COF', aliases: ['capital one financial'], publicStatus: 'public' as const },
-  { name: 'T. Rowe Price', symbol: 'TROW', aliases: ['t rowe price', 'troweprice'], publicStatus: 'public' as const },
-  { name: 'Franklin Templeton', symbol: 'BEN', aliases: ['franklin resources', 'franklin templeton investments'], publicStatus: 'public' as const },
-  { name: 'Invesco', symbol: 'IVZ', aliases: ['invesco ltd'], publicStatus: 'public' as const },
+  { name: 'BlackRock', symbol: 'BLK', aliases: ['blackrock inc', 'black rock'], legalNames: ['BlackRock, Inc.', 'BlackRock Advisors, LLC', 'BlackRock Fund Advisors'], domain: 'blackrock.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Vanguard Group', symbol: '', aliases: ['vanguard'], legalNames: ['The Vanguard Group, Inc.', 'Vanguard Marketing Corporation'], domain: 'vanguard.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'State Street', symbol: 'STT', aliases: ['state street corporation', 'state street corp'], legalNames: ['State Street Corporation', 'State Street Bank and Trust Company'], domain: 'statestreet.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Charles Schwab', symbol: 'SCHW', aliases: ['schwab', 'charles schwab corporation'], legalNames: ['The Charles Schwab Corporation', 'Charles Schwab & Co., Inc.'], domain: 'schwab.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Morgan Stanley', symbol: 'MS', aliases: ['morgan stanley & co'], legalNames: ['Morgan Stanley & Co. LLC', 'Morgan Stanley Smith Barney LLC'], domain: 'morganstanley.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Goldman Sachs', symbol: 'GS', aliases: ['goldman sachs group', 'goldman'], legalNames: ['The Goldman Sachs Group, Inc.', 'Goldman Sachs & Co. LLC'], domain: 'goldmansachs.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Berkshire Hathaway', symbol: 'BRK.B', aliases: ['berkshire', 'warren buffett'], legalNames: ['Berkshire Hathaway Inc.'], domain: 'berkshirehathaway.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Citigroup', symbol: 'C', aliases: ['citi', 'citibank'], legalNames: ['Citigroup Inc.', 'Citibank, N.A.', 'Citigroup Global Markets Inc.'], domain: 'citigroup.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Wells Fargo', symbol: 'WFC', aliases: ['wells fargo & company'], legalNames: ['Wells Fargo & Company', 'Wells Fargo Bank, N.A.', 'Wells Fargo Clearing Services, LLC'], domain: 'wellsfargo.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'American Express', symbol: 'AXP', aliases: ['amex', 'american express company'], legalNames: ['American Express Company'], domain: 'americanexpress.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Capital One', symbol: 'COF', aliases: ['capital one financial'], legalNames: ['Capital One Financial Corporation', 'Capital One, N.A.'], domain: 'capitalone.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'T. Rowe Price', symbol: 'TROW', aliases: ['t rowe price', 'troweprice'], legalNames: ['T. Rowe Price Group, Inc.', 'T. Rowe Price Associates, Inc.'], domain: 'troweprice.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Franklin Templeton', symbol: 'BEN', aliases: ['franklin resources', 'franklin templeton investments'], legalNames: ['Franklin Resources, Inc.'], domain: 'franklintempleton.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'Invesco', symbol: 'IVZ', aliases: ['invesco ltd'], legalNames: ['Invesco Ltd.', 'Invesco Advisers, Inc.'], domain: 'invesco.com', hqCountry: 'United States', publicStatus: 'public' as const },
   // Insurance & Financial (Private/Mutual)
-  { name: 'MassMutual', symbol: '', aliases: ['mass mutual', 'massachusetts mutual', 'mas mutual', 'massmutual life'], publicStatus: 'private' as const },
-  { name: 'State Farm', symbol: '', aliases: ['statefarm'], publicStatus: 'private' as const },
-  { name: 'Liberty Mutual', symbol: '', aliases: ['libertymutual'], publicStatus: 'private' as const },
-  { name: 'Nationwide', symbol: '', aliases: ['nationwide insurance', 'nationwide mutual'], publicStatus: 'private' as const },
-  { name: 'USAA', symbol: '', aliases: [], publicStatus: 'private' as const },
-  { name: 'New York Life', symbol: '', aliases: ['ny life', 'newyork life'], publicStatus: 'private' as const },
-  { name: 'Northwestern Mutual', symbol: '', aliases: ['northwestern'], publicStatus: 'private' as const },
-  { name: 'Fidelity Investments', symbol: '', aliases: ['fidelity'], publicStatus: 'private' as const },
-  { name: 'Edward Jones', symbol: '', aliases: [], publicStatus: 'private' as const },
-  { name: 'Vanguard', symbol: '', aliases: ['vanguard group'], publicStatus: 'private' as const },
+  { name: 'MassMutual', symbol: '', aliases: ['mass mutual', 'massachusetts mutual', 'mas mutual', 'massmutual life'], legalNames: ['Massachusetts Mutual Life Insurance Company', 'MML Investors Services, LLC'], domain: 'massmutual.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'State Farm', symbol: '', aliases: ['statefarm'], legalNames: ['State Farm Mutual Automobile Insurance Company'], domain: 'statefarm.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'Liberty Mutual', symbol: '', aliases: ['libertymutual'], legalNames: ['Liberty Mutual Insurance Company'], domain: 'libertymutual.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'Nationwide', symbol: '', aliases: ['nationwide insurance', 'nationwide mutual'], legalNames: ['Nationwide Mutual Insurance Company'], domain: 'nationwide.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'USAA', symbol: '', aliases: [], legalNames: ['United Services Automobile Association', 'USAA Federal Savings Bank'], domain: 'usaa.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'New York Life', symbol: '', aliases: ['ny life', 'newyork life'], legalNames: ['New York Life Insurance Company', 'NYLIFE Securities LLC'], domain: 'newyorklife.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'Northwestern Mutual', symbol: '', aliases: ['northwestern'], legalNames: ['The Northwestern Mutual Life Insurance Company', 'Northwestern Mutual Investment Services, LLC'], domain: 'northwesternmutual.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'Fidelity Investments', symbol: '', aliases: ['fidelity'], legalNames: ['FMR LLC', 'Fidelity Brokerage Services LLC'], domain: 'fidelity.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'Edward Jones', symbol: '', aliases: [], legalNames: ['Edward D. Jones & Co., L.P.'], domain: 'edwardjones.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'Vanguard', symbol: '', aliases: ['vanguard group'], legalNames: ['The Vanguard Group, Inc.', 'Vanguard Marketing Corporation'], domain: 'vanguard.com', hqCountry: 'United States', publicStatus: 'private' as const },
   // More tech private companies
-  { name: 'Waymo', symbol: '', aliases: [], publicStatus: 'private' as const },
-  { name: 'Cruise', symbol: '', aliases: ['cruise automation'], publicStatus: 'private' as const },
-  { name: 'Epic Games', symbol: '', aliases: ['epic', 'fortnite'], publicStatus: 'private' as const },
-  { name: 'Valve', symbol: '', aliases: ['valve corporation', 'steam'], publicStatus: 'private' as const },
-  { name: 'ByteDance', symbol: '', aliases: ['tiktok', 'bytedance'], publicStatus: 'private' as const },
-  { name: 'Shein', symbol: '', aliases: [], publicStatus: 'private' as const },
-  { name: 'Klarna', symbol: '', aliases: [], publicStatus: 'pre_ipo' as const },
-  { name: 'Revolut', symbol: '', aliases: [], publicStatus: 'private' as const },
-  { name: 'Chime', symbol: '', aliases: [], publicStatus: 'private' as const },
-  { name: 'Plaid', symbol: '', aliases: [], publicStatus: 'private' as const },
+  { name: 'Waymo', symbol: '', aliases: [], legalNames: ['Waymo LLC'], domain: 'waymo.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'Cruise', symbol: '', aliases: ['cruise automation'], legalNames: ['Cruise LLC'], domain: 'getcruise.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'Epic Games', symbol: '', aliases: ['epic', 'fortnite'], legalNames: ['Epic Games, Inc.'], domain: 'epicgames.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'Valve', symbol: '', aliases: ['valve corporation', 'steam'], legalNames: ['Valve Corporation'], domain: 'valvesoftware.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'ByteDance', symbol: '', aliases: ['tiktok', 'bytedance'], legalNames: ['ByteDance Ltd.'], domain: 'bytedance.com', hqCountry: 'China', publicStatus: 'private' as const },
+  { name: 'Shein', symbol: '', aliases: [], legalNames: [], domain: 'shein.com', hqCountry: 'Singapore', publicStatus: 'private' as const },
+  { name: 'Klarna', symbol: '', aliases: [], legalNames: ['Klarna Bank AB'], domain: 'klarna.com', hqCountry: 'Sweden', publicStatus: 'pre_ipo' as const },
+  { name: 'Revolut', symbol: '', aliases: [], legalNames: ['Revolut Ltd'], domain: 'revolut.com', hqCountry: 'United Kingdom', publicStatus: 'private' as const },
+  { name: 'Chime', symbol: '', aliases: [], legalNames: ['Chime Financial, Inc.'], domain: 'chime.com', hqCountry: 'United States', publicStatus: 'private' as const },
+  { name: 'Plaid', symbol: '', aliases: [], legalNames: ['Plaid Inc.'], domain: 'plaid.com', hqCountry: 'United States', publicStatus: 'private' as const },
   // Went private
-  { name: 'SolarWinds', symbol: 'SWI', aliases: [], publicStatus: 'public' as const },
-  { name: 'McAfee', symbol: '', aliases: [], publicStatus: 'went_private' as const },
-  { name: 'VMware', symbol: '', aliases: [], publicStatus: 'went_private' as const },
-  { name: 'Citrix', symbol: '', aliases: [], publicStatus: 'went_private' as const },
+  { name: 'SolarWinds', symbol: 'SWI', aliases: [], legalNames: ['SolarWinds Corporation'], domain: 'solarwinds.com', hqCountry: 'United States', publicStatus: 'public' as const },
+  { name: 'McAfee', symbol: '', aliases: [], legalNames: ['McAfee, LLC'], domain: 'mcafee.com', hqCountry: 'United States', publicStatus: 'went_private' as const },
+  { name: 'VMware', symbol: '', aliases: [], legalNames: ['VMware, Inc.'], domain: 'vmware.com', hqCountry: 'United States', publicStatus: 'went_private' as const },
+  { name: 'Citrix', symbol: '', aliases: [], legalNames: ['Citrix Systems, Inc.'], domain: 'citrix.com', hqCountry: 'United States', publicStatus: 'went_private' as const },
 ];
 
 // Calculate similarity score between two strings (Levenshtein-based)
@@ -223,6 +228,9 @@ export async function GET(request: NextRequest) {
   const results: CompanySearchResult[] = topMatches.map(m => ({
     name: m.company.name,
     symbol: m.company.symbol || undefined,
+    domain: m.company.domain,
+    hqCountry: m.company.hqCountry,
+    ...(m.company.legalNames.length > 0 && { legalNames: m.company.legalNames }),
     description: getStatusDescription(m.company),
     isPublic: m.company.publicStatus === 'public',
     publicStatus: m.company.publicStatus,
@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { FitScoreWeights, ProviderModelSetting, PROVIDER_INFO, ProviderName, RecencyWindows, SourceDomainTiers } from '@/types/analysis';
+import { validateModelForProvider } from '@/lib/services/providerSettings';
+import { normalizeResearchQuestions } from '@/lib/services/researchQuestions';
+import { DEFAULT_FIT_SCORE_WEIGHTS, normalizeFitScoreWeights } from '@/lib/services/fitScore';
+import { DEFAULT_SOURCE_DOMAIN_TIERS, normalizeSourceDomainTiers } from '@/lib/services/sourceCredibility';
+import { DEFAULT_RECENCY_WINDOWS, normalizeRecencyWindows } from '@/lib/services/dateNormalization';
+import { isValidHttpUrl } from '@/lib/utils';
 
 // Type for settings update
 interface AppSettingsUpdate {
@@ -12,9 +19,18 @@ interface AppSettingsUpdate {
   anthropic_model?: string;
   gemini_model?: string;
   perplexity_model?: string;
+  selfhosted_api_key?: string | null;
+  selfhosted_model?: string | null;
+  selfhosted_base_url?: string | null;
   web_search_provider?: string;
   tavily_api_key?: string | null;
   websearchapi_key?: string | null;
+  failover_providers?: ProviderModelSetting[];
+  consensus_provider?: ProviderModelSetting | null;
+  research_questions?: string[];
+  fit_score_weights?: FitScoreWeights;
+  source_domain_tiers?: SourceDomainTiers;
+  recency_windows?: RecencyWindows;
   show_stock_chart?: boolean;
   updated_by?: string;
 }
@@ -73,14 +89,23 @@ export async function GET() {
           anthropic_model: 'claude-sonnet-4-5-20250929',
           gemini_model: 'gemini-2.5-flash',
           perplexity_model: 'sonar-pro',
+          selfhosted_model: null,
           web_search_provider: 'none',
           show_stock_chart: false,
           openai_api_key: null,
           anthropic_api_key: null,
           gemini_api_key: null,
           perplexity_api_key: null,
+          selfhosted_api_key: null,
+          selfhosted_base_url: null,
           tavily_api_key: null,
           websearchapi_key: null,
+          failover_providers: [],
+          consensus_provider: null,
+          research_questions: [],
+          fit_score_weights: DEFAULT_FIT_SCORE_WEIGHTS,
+          source_domain_tiers: DEFAULT_SOURCE_DOMAIN_TIERS,
+          recency_windows: DEFAULT_RECENCY_WINDOWS,
           isAdmin,
         });
       }
@@ -94,11 +119,17 @@ export async function GET() {
     const response = {
       ...settingsData,
       isAdmin,
+      fit_score_weights: normalizeFitScoreWeights(settingsData.fit_score_weights),
+      source_domain_tiers: normalizeSourceDomainTiers(settingsData.source_domain_tiers),
+      recency_windows: normalizeRecencyWindows(settingsData.recency_windows),
       // Only admins see full API keys
       openai_api_key: isAdmin ? settingsData.openai_api_key : maskApiKey(settingsData.openai_api_key as string | null),
       anthropic_api_key: isAdmin ? settingsData.anthropic_api_key : maskApiKey(settingsData.anthropic_api_key as string | null),
       gemini_api_key: isAdmin ? settingsData.gemini_api_key : maskApiKey(settingsData.gemini_api_key as string | null),
       perplexity_api_key: isAdmin ? settingsData.perplexity_api_key : maskApiKey(settingsData.perplexity_api_key as string | null),
+      selfhosted_api_key: isAdmin ? settingsData.selfhosted_api_key : maskApiKey(settingsData.selfhosted_api_key as string | null),
+      // Internal server address is only shown to admins
+      selfhosted_base_url: isAdmin ? settingsData.selfhosted_base_url : null,
       tavily_api_key: isAdmin ? settingsData.tavily_api_key : maskApiKey(settingsData.tavily_api_key as string | null),
       websearchapi_key: isAdmin ? settingsData.websearchapi_key : maskApiKey(settingsData.websearchapi_key as string | null),
     };
@@ -158,7 +189,7 @@ export async function PUT(request: NextRequest) {
     const updateData: AppSettingsUpdate = {};
 
     if (body.default_provider) {
-      const validProviders = ['openai', 'anthropic', 'gemini', 'perplexity'];
+      const validProviders = ['openai', 'anthropic', 'gemini', 'perplexity', 'selfhosted', 'mock'];
       if (validProviders.includes(body.default_provider)) {
         updateData.default_provider = body.default_provider;
       }
@@ -169,16 +200,30 @@ export async function PUT(request: NextRequest) {
     if (body.anthropic_model) updateData.anthropic_model = body.anthropic_model;
     if (body.gemini_model) updateData.gemini_model = body.gemini_model;
     if (body.perplexity_model) updateData.perplexity_model = body.perplexity_model;
+    if (typeof body.selfhosted_model === 'string') updateData.selfhosted_model = body.selfhosted_model.trim() || null;
+
+    // Self-hosted server URL - must be http(s)
+    if ('selfhosted_base_url' in body) {
+      const baseUrl = typeof body.selfhosted_base_url === 'string' ? body.selfhosted_base_url.trim() : '';
+      if (baseUrl && !isValidHttpUrl(baseUrl)) {
+        return NextResponse.json(
+          { error: 'Self-hosted server URL must start with http:// or https://' },
+          { status: 400 }
+        );
+      }
+      updateData.selfhosted_base_url = baseUrl || null;
+    }
 
     // API keys - only update if explicitly provided (allow null to clear)
     if ('openai_api_key' in body) updateData.openai_api_key = body.openai_api_key;
     if ('anthropic_api_key' in body) updateData.anthropic_api_key = body.anthropic_api_key;
     if ('gemini_api_key' in body) updateData.gemini_api_key = body.gemini_api_key;
     if ('perplexity_api_key' in body) updateData.perplexity_api_key = body.perplexity_api_key;
+    if ('selfhosted_api_key' in body) updateData.selfhosted_api_key = body.selfhosted_api_key;
 
     // Web search settings
     if (body.web_search_provider) {
-      const validSearchProviders = ['tavily', 'claude', 'websearchapi', 'none'];
+      const validSearchProviders = ['tavily', 'claude', 'websearchapi', 'mock', 'none'];
       if (validSearchProviders.includes(body.web_search_provider)) {
         updateData.web_search_provider = body.web_search_provider;
       }
@@ -186,6 +231,37 @@ export async function PUT(request: NextRequest) {
     if ('tavily_api_key' in body) updateData.tavily_api_key = body.tavily_api_key;
     if ('websearchapi_key' in body) updateData.websearchapi_key = body.websearchapi_key;
 
+    // Failover chain - keep known providers once each, in the given order
+    if (Array.isArray(body.failover_providers)) {
+      const failover: ProviderModelSetting[] = [];
+      for (const entry of body.failover_providers) {
+        const provider = entry?.provider as ProviderName;
+        if (!PROVIDER_INFO[provider] || failover.some(f => f.provider === provider)) continue;
+        failover.push({ provider, model: validateModelForProvider(entry.model, provider) });
+      }
+      updateData.failover_providers = failover;
+    }
+
+    // Consensus mode - null turns it off
+    if ('consensus_provider' in body) {
+      const provider = body.consensus_provider?.provider as ProviderName;
+      updateData.consensus_provider = PROVIDER_INFO[provider]
+        ? { provider, model: validateModelForProvider(body.consensus_provider.model, provider) }
+        : null;
+    }
+
+    // Research questions asked in every analysis
+    if ('research_questions' in body) updateData.research_questions = normalizeResearchQuestions(body.research_questions);
+
+    // Fit score weights - missing or invalid factors get their default
+    if ('fit_score_weights' in body) updateData.fit_score_weights = normalizeFitScoreWeights(body.fit_score_weights);
+
+    // Source credibility tiers - a domain listed in several tiers keeps the first
+    if ('source_domain_tiers' in body) updateData.source_domain_tiers = normalizeSourceDomainTiers(body.source_domain_tiers);
+
+    // Recency windows in days - 0 turns a window off
+    if ('recency_windows' in body) updateData.recency_windows = normalizeRecencyWindows(body.recency_windows);
+
     // Display settings
     if ('show_stock_chart' in body) updateData.show_stock_chart = !!body.show_stock_chart;
 
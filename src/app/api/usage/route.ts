@@ -35,6 +35,9 @@ interface RecentLog {
   companyName: string;
   aiProvider: string;
   aiModel: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
   totalCost: number;
   cached: boolean;
 }
@@ -119,7 +122,7 @@ export async function GET() {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const { data: recentLogsData } = await (supabase as any)
       .from('usage_logs')
-      .select('id, created_at, user_email, company_name, ai_provider, ai_model, total_cost_usd, cached')
+      .select('id, created_at, user_email, company_name, ai_provider, ai_model, input_tokens, output_tokens, cached_tokens, total_cost_usd, cached')
       .order('created_at', { ascending: false })
       .limit(20);
 
@@ -131,6 +134,9 @@ export async function GET() {
       companyName: log.company_name,
       aiProvider: log.ai_provider,
       aiModel: log.ai_model,
+      inputTokens: log.input_tokens || 0,
+      outputTokens: log.output_tokens || 0,
+      cachedTokens: log.cached_tokens || 0,
       totalCost: parseFloat(log.total_cost_usd) || 0,
       cached: log.cached,
     }));
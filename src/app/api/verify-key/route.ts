@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ProviderName } from '@/types/analysis';
+import { createClient } from '@/lib/supabase/server';
+import { normalizeSelfHostedBaseUrl } from '@/lib/ai/providers/selfhosted';
+import { isValidHttpUrl } from '@/lib/utils';
 
 interface VerifyKeyRequest {
   provider: ProviderName;
-  apiKey: string;
+  apiKey: string; // May be empty for self-hosted servers
+  baseUrl?: string; // Self-hosted server URL
 }
 
 interface VerifyKeyResponse {
@@ -14,15 +18,38 @@ interface VerifyKeyResponse {
 export async function POST(request: NextRequest) {
   try {
     const body: VerifyKeyRequest = await request.json();
-    const { provider, apiKey } = body;
+    const { provider, apiKey, baseUrl } = body;
 
-    if (!provider || !apiKey) {
+    if (!provider || (!apiKey && provider !== 'selfhosted')) {
       return NextResponse.json<VerifyKeyResponse>(
         { valid: false, error: 'Provider and API key are required' },
         { status: 400 }
       );
     }
 
+    // The self-hosted check makes the server call an arbitrary URL, so it's admin only
+    if (provider === 'selfhosted') {
+      if (!baseUrl || !isValidHttpUrl(baseUrl)) {
+        return NextResponse.json<VerifyKeyResponse>(
+          { valid: false, error: 'A valid http(s) server URL is required' },
+          { status: 400 }
+        );
+      }
+
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data: profile } = user
+        ? await supabase.from('profiles').select('role').eq('id', user.id).single()
+        : { data: null };
+
+      if ((profile as { role: string } | null)?.role !== 'admin') {
+        return NextResponse.json<VerifyKeyResponse>(
+          { valid: false, error: 'Admin access required' },
+          { status: 403 }
+        );
+      }
+    }
+
     let valid = false;
     let error: string | undefined;
 
@@ -112,6 +139,26 @@ export async function POST(request: NextRequest) {
         }
         break;
       }
+
+      case 'selfhosted': {
+        try {
+          // vLLM, Ollama and LM Studio all list served models at /v1/models
+          const response = await fetch(`${normalizeSelfHostedBaseUrl(baseUrl!)}/models`, {
+            headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+            signal: AbortSignal.timeout(10000)
+          });
+          valid = response.ok;
+          if (!valid) {
+            const data = await response.json().catch(() => ({}));
+            error = data.error?.message || `Server responded with ${response.status}`;
+          }
+        } catch (err) {
+          error = err instanceof Error && err.name === 'TimeoutError'
+            ? 'Server did not respond within 10 seconds'
+            : 'Could not reach the server';
+        }
+        break;
+      }
     }
 
     return NextResponse.json<VerifyKeyResponse>({ valid, error });
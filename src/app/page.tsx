@@ -1,10 +1,11 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Building2, Sparkles, History, Bookmark, Trash2, Clock, RefreshCw, Database } from 'lucide-react';
 import { Header, CompanyInfo } from '@/components/layout/Header';
 import { AnalysisDashboard } from '@/components/analysis/AnalysisDashboard';
 import { DashboardSkeleton } from '@/components/analysis/DashboardSkeleton';
+import { AnalysisProgress, PHASE_LABELS } from '@/components/analysis/AnalysisProgress';
 import { ApiKeyModal } from '@/components/auth/ApiKeyModal';
 import { AboutModal } from '@/components/AboutModal';
 import { UsageCostsWindow } from '@/components/admin/UsageCostsWindow';
@@ -14,8 +15,13 @@ import { useApiKeys } from '@/lib/hooks/useApiKeys';
 import { useServerSettings } from '@/lib/hooks/useServerSettings';
 import { useSearchHistory } from '@/lib/hooks/useSearchHistory';
 import { useBookmarks } from '@/lib/hooks/useBookmarks';
-import { ProviderName, AnalysisResult, PROVIDER_INFO } from '@/types/analysis';
-import { AnalyzeResponse, ApiError, CacheMetadata } from '@/types/api';
+import { ProviderName, AnalysisResult, PROVIDER_INFO, ProviderModelSetting, CompanyIdentifiers, OutputLanguage, FitScoreWeights, RecencyWindows, SourceDomainTiers } from '@/types/analysis';
+import { AnalyzeResponse, ApiError, CacheMetadata, AnalysisPhase, PhaseStatus, RefreshableSection, RefreshSectionResponse } from '@/types/api';
+import { readAnalysisStream } from '@/lib/services/analysisStream';
+import { DEFAULT_OUTPUT_LANGUAGE, isOutputLanguage } from '@/lib/config/languages';
+import { normalizeResearchQuestions, parseStoredResearchQuestions } from '@/lib/services/researchQuestions';
+import { computeFitScore } from '@/lib/services/fitScore';
+import { FitScoreBadge } from '@/components/analysis/sections/FitScoreBadge';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
@@ -38,6 +44,39 @@ interface CacheCheckInfo {
   isStale: boolean;
 }
 
+// Placeholder used to render a dashboard while sections are still streaming in
+const EMPTY_ANALYSIS: AnalysisResult = {
+  summary: '',
+  sentiment: 'NEUTRAL',
+  quickFacts: {},
+  investorDocs: [],
+  keyPriorities: [],
+  growthInitiatives: [],
+  techNews: [],
+  caseStudies: [],
+  competitorMentions: [],
+  communicationsStack: [],
+  leadershipChanges: [],
+  buyerPersonas: [],
+  maActivity: [],
+  regulatoryLandscape: [],
+  regulatoryEvents: [],
+  sources: []
+};
+
+const STREAMED_SECTIONS = Object.keys(EMPTY_ANALYSIS) as (keyof AnalysisResult)[];
+
+const SECTION_LABELS: Record<RefreshableSection, string> = {
+  techNews: 'technology news',
+  caseStudies: 'case studies',
+  investorDocs: 'investor documents',
+  leadershipChanges: 'leadership news',
+  regulatoryEvents: 'regulatory events',
+  competitorMentions: 'competitor mentions',
+  communicationsStack: 'communications stack',
+  buyerPersonas: 'buyer personas'
+};
+
 // Common company ticker mappings
 const COMPANY_TICKERS: Record<string, string> = {
   apple: 'AAPL',
@@ -146,6 +185,68 @@ function getTicker(companyName: string): string | undefined {
   return undefined;
 }
 
+// Identifiers of the company picked in search, sent so the server analyzes
+// and caches that exact company rather than anything sharing its name
+function toCompanyIdentifiers(info?: CompanyInfo | null): CompanyIdentifiers | undefined {
+  if (!info) return undefined;
+  return { ticker: info.symbol, domain: info.domain, hqCountry: info.hqCountry, legalNames: info.legalNames };
+}
+
+// Language picked in preferences for new analyses
+function getOutputLanguage(): OutputLanguage {
+  const stored = localStorage.getItem('marketpulse_output_language');
+  return isOutputLanguage(stored) ? stored : DEFAULT_OUTPUT_LANGUAGE;
+}
+
+// User's own research questions from preferences; the server adds the admin's
+function getUserResearchQuestions(): string[] {
+  return normalizeResearchQuestions(parseStoredResearchQuestions(localStorage.getItem('marketpulse_research_questions')));
+}
+
+// Order of the history and bookmark lists
+type SavedListSort = 'recent' | 'fitScore';
+
+// Saved analyses from before fit scores existed are scored with the current weights
+function getSavedFitScore(data: AnalysisResult, weights: FitScoreWeights): number {
+  return data.fitScore?.score ?? computeFitScore(data, weights).score;
+}
+
+function sortSavedAnalyses<T extends { timestamp: number; data: AnalysisResult }>(
+  items: T[],
+  sort: SavedListSort,
+  weights: FitScoreWeights
+): T[] {
+  if (sort === 'recent') return [...items].sort((a, b) => b.timestamp - a.timestamp);
+  return [...items].sort((a, b) =>
+    getSavedFitScore(b.data, weights) - getSavedFitScore(a.data, weights) || b.timestamp - a.timestamp
+  );
+}
+
+function SavedListSortToggle({ value, onChange }: { value: SavedListSort; onChange: (sort: SavedListSort) => void }) {
+  const options: { value: SavedListSort; label: string }[] = [
+    { value: 'recent', label: 'Recent' },
+    { value: 'fitScore', label: 'Fit score' }
+  ];
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      {options.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          className={`px-2 py-1 rounded border transition-colors ${
+            value === option.value
+              ? 'border-emerald-500/50 text-emerald-400 bg-emerald-500/10'
+              : 'border-border text-muted-foreground hover:text-foreground'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 export default function Home() {
   const { isAuthenticated, isAdmin, isLoading: authLoading } = useAuth();
   const {
@@ -177,6 +278,20 @@ export default function Home() {
   const [showCacheDialog, setShowCacheDialog] = useState(false);
   const [pendingSearch, setPendingSearch] = useState<{ company: string; info?: CompanyInfo } | null>(null);
   const [pendingCacheInfo, setPendingCacheInfo] = useState<CacheCheckInfo | null>(null);
+  // Progress of a streaming analysis
+  const [phases, setPhases] = useState<Partial<Record<AnalysisPhase, PhaseStatus>>>({});
+  const [streamedSections, setStreamedSections] = useState<Partial<AnalysisResult> | null>(null);
+  const [streamingLanguage, setStreamingLanguage] = useState<OutputLanguage>(DEFAULT_OUTPUT_LANGUAGE);
+  // Section currently being re-run on its own
+  const [refreshingSection, setRefreshingSection] = useState<RefreshableSection | null>(null);
+  const [historySort, setHistorySort] = useState<SavedListSort>('recent');
+  const [bookmarkSort, setBookmarkSort] = useState<SavedListSort>('recent');
+  // Cancels the in-flight analysis request when a new search starts or the page unmounts
+  const analysisAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => analysisAbortRef.current?.abort(), []);
+  // Stable across renders so the outreach dialog doesn't refetch its drafts
+  const companyIdentifiers = useMemo(() => toCompanyIdentifiers(companyInfo), [companyInfo]);
 
   const {
     getKey,
@@ -197,19 +312,29 @@ export default function Home() {
   const localSelectedModel = getSelectedModel(selectedProvider);
   const { history, addToHistory, removeFromHistory, clearHistory, loaded: historyLoaded } = useSearchHistory();
   const { bookmarks, addBookmark, removeBookmark, isBookmarked, getBookmark, loaded: bookmarksLoaded } = useBookmarks();
+  const fitScoreWeights = serverSettings.fit_score_weights;
+  const sortedHistory = sortSavedAnalyses(history, historySort, fitScoreWeights);
+  const sortedBookmarks = sortSavedAnalyses(bookmarks, bookmarkSort, fitScoreWeights);
 
   // Use server settings when authenticated, local settings otherwise (for admin editing)
   const effectiveProvider = isAuthenticated ? serverProvider : selectedProvider;
   const rawModel = isAuthenticated ? getServerModel(effectiveProvider) : localSelectedModel;
   // Validate that the model belongs to the current provider, fallback to provider default if not
   const providerModels = PROVIDER_INFO[effectiveProvider].models.map(m => m.id);
-  const effectiveModel = providerModels.includes(rawModel) ? rawModel : PROVIDER_INFO[effectiveProvider].defaultModel;
+  const effectiveModel = PROVIDER_INFO[effectiveProvider].customModel || providerModels.includes(rawModel)
+    ? rawModel
+    : PROVIDER_INFO[effectiveProvider].defaultModel;
   const effectiveHasKey = isAuthenticated ? serverHasKey(effectiveProvider) : hasKey(effectiveProvider);
   const effectiveWebSearchProvider = isAuthenticated ? serverWebSearchProvider : webSearchProvider;
 
   // Execute the actual analysis (called after cache check or when user chooses)
   const executeAnalysis = useCallback(
     async (company: string, info?: CompanyInfo, forceRefresh = false) => {
+      analysisAbortRef.current?.abort();
+      const abortController = new AbortController();
+      analysisAbortRef.current = abortController;
+      const language = getOutputLanguage();
+
       setLoading(true);
       setError(null);
       setCompanyName(company);
@@ -217,6 +342,9 @@ export default function Home() {
       setAnalysisData(null);
       setCachedDataTimestamp(null);
       setSharedCacheMetadata(null);
+      setPhases({});
+      setStreamedSections(null);
+      setStreamingLanguage(language);
       setActiveTab('search');
 
       try {
@@ -225,18 +353,52 @@ export default function Home() {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             companyName: company,
-            forceRefresh
-          })
+            company: toCompanyIdentifiers(info),
+            language,
+            researchQuestions: getUserResearchQuestions(),
+            forceRefresh,
+            stream: true
+          }),
+          signal: abortController.signal
         });
 
-        const data = await response.json();
+        let successData: AnalyzeResponse;
+
+        if (response.ok && response.body && response.headers.get('Content-Type')?.includes('text/event-stream')) {
+          // Fresh analysis: fill in phases and sections as the server reports them
+          const result: { response?: AnalyzeResponse; error?: string } = {};
+          await readAnalysisStream(response.body, (event) => {
+            switch (event.type) {
+              case 'phase':
+                setPhases(prev => ({ ...prev, [event.phase]: event.status }));
+                break;
+              case 'section':
+                setStreamedSections(prev => ({ ...prev, [event.section]: event.data }));
+                break;
+              case 'complete':
+                result.response = event.response;
+                break;
+              case 'error':
+                result.error = event.error;
+                break;
+            }
+          });
+
+          if (result.error) throw new Error(result.error);
+          if (!result.response) throw new Error('Analysis stream ended unexpectedly');
+          successData = result.response;
+        } else {
+          // Cached analyses and validation errors come back as plain JSON
+          const data = await response.json();
 
-        if (!response.ok) {
-          const errorData = data as ApiError;
-          throw new Error(errorData.error || 'Analysis failed');
+          if (!response.ok) {
+            const errorData = data as ApiError;
+            throw new Error(errorData.error || 'Analysis failed');
+          }
+
+          successData = data as AnalyzeResponse;
         }
 
-        const successData = data as AnalyzeResponse;
         setAnalysisData(successData.data);
         setWebSearchUsed(successData.webSearchUsed || false);
         setWebSearchError(successData.webSearchError || null);
@@ -254,26 +416,73 @@ export default function Home() {
             duration: 5000
           });
         } else {
-          // Save to history using effective provider (only for fresh analyses)
-          addToHistory(company, effectiveProvider, successData.data);
+          // Save to history using the provider that served the request (only for fresh analyses)
+          const servedProvider = successData.provider || effectiveProvider;
+          const servedModel = successData.model || effectiveModel;
+          addToHistory(company, servedProvider, successData.data);
 
-          const modelName = PROVIDER_INFO[effectiveProvider].models.find(m => m.id === effectiveModel)?.name || effectiveModel;
+          const modelName = PROVIDER_INFO[servedProvider].models.find(m => m.id === servedModel)?.name || servedModel;
           const webSearchNote = successData.webSearchUsed
-            ? ` + ${effectiveWebSearchProvider === 'tavily' ? 'Tavily' : effectiveWebSearchProvider === 'claude' ? 'Claude Search' : 'WebSearchAPI'}`
+            ? ` + ${effectiveWebSearchProvider === 'tavily' ? 'Tavily' : effectiveWebSearchProvider === 'claude' ? 'Claude Search' : effectiveWebSearchProvider === 'mock' ? 'Mock Search' : 'WebSearchAPI'}`
             : '';
-          toast.success(`Analysis complete using ${PROVIDER_INFO[effectiveProvider].name} (${modelName})${webSearchNote}`);
+          toast.success(`Analysis complete using ${PROVIDER_INFO[servedProvider].name} (${modelName})${webSearchNote}`);
+
+          // Consensus mode: summarize how much of the cross-checked output both providers agreed on
+          const consensus = successData.data.consensus;
+          if (consensus) {
+            const { maActivity, regulatoryEvents, leadershipChanges } = successData.data;
+            const unconfirmed = [...maActivity, ...regulatoryEvents, ...leadershipChanges]
+              .filter(item => item.corroboration === 'unconfirmed').length;
+            toast.info(`Cross-checked with ${PROVIDER_INFO[consensus.providers[1]].name}`, {
+              description: unconfirmed > 0
+                ? `${unconfirmed} item${unconfirmed === 1 ? '' : 's'} reported by only one provider are marked unconfirmed`
+                : 'All cross-checked items were reported by both providers',
+              duration: 5000
+            });
+          }
+
+          // Let the user know the primary provider was skipped
+          if (successData.failedOverFrom?.length) {
+            const failedNames = successData.failedOverFrom.map(p => PROVIDER_INFO[p].name).join(', ');
+            toast.warning(`${failedNames} unavailable, used ${PROVIDER_INFO[servedProvider].name} instead`, { duration: 5000 });
+          }
         }
 
         // Show warning if web search failed
         if (successData.webSearchError) {
           toast.warning(successData.webSearchError, { duration: 5000 });
         }
+
+        // Partial results: some phases ran out of time
+        if (successData.timedOutPhases?.length) {
+          const phaseNames = successData.timedOutPhases.map(phase => PHASE_LABELS[phase]).join(', ');
+          toast.warning(`Partial results: ${phaseNames} timed out`, {
+            description: 'These results were not cached. Click "Refresh" to try again.',
+            duration: 8000
+          });
+        }
+
+        // Show which sections of the AI response didn't match the expected schema
+        if (successData.validationIssues?.length) {
+          const sections = [...new Set(successData.validationIssues.map(issue => issue.section))];
+          toast.warning(`Some sections may be incomplete: ${sections.join(', ')}`, {
+            description: successData.validationIssues.map(issue => `${issue.section}: ${issue.message}`).join('\n'),
+            duration: 8000
+          });
+        }
       } catch (err) {
+        // Cancelled by a newer search or by leaving the page
+        if (abortController.signal.aborted) return;
         const errorMessage = err instanceof Error ? err.message : 'Analysis failed';
         setError(errorMessage);
         toast.error(errorMessage);
       } finally {
-        setLoading(false);
+        // A newer search owns the loading state now
+        if (analysisAbortRef.current === abortController) {
+          analysisAbortRef.current = null;
+          setLoading(false);
+          setStreamedSections(null);
+        }
       }
     },
     [isAuthenticated, effectiveProvider, effectiveModel, effectiveWebSearchProvider, addToHistory]
@@ -293,7 +502,7 @@ export default function Home() {
         const response = await fetch('/api/analyze/check', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ companyName: company })
+          body: JSON.stringify({ companyName: company, company: toCompanyIdentifiers(info), language: getOutputLanguage(), researchQuestions: getUserResearchQuestions() })
         });
 
         const data = await response.json();
@@ -318,6 +527,7 @@ export default function Home() {
 
   const handleLoadFromHistory = useCallback((item: typeof history[0]) => {
     setCompanyName(item.companyName);
+    setCompanyInfo(null); // History and bookmarks don't keep the searched company's identifiers
     setAnalysisData(item.data);
     setCachedDataTimestamp(item.timestamp);
     setWebSearchUsed(false);
@@ -328,6 +538,7 @@ export default function Home() {
 
   const handleLoadFromBookmark = useCallback((item: typeof bookmarks[0]) => {
     setCompanyName(item.companyName);
+    setCompanyInfo(null);
     setAnalysisData(item.data);
     setCachedDataTimestamp(item.timestamp);
     setWebSearchUsed(false);
@@ -364,13 +575,46 @@ export default function Home() {
     }
   }, [companyName, companyInfo, handleSearch]);
 
+  const handleRefreshSection = useCallback(async (section: RefreshableSection) => {
+    if (!companyName || refreshingSection) return;
+
+    setRefreshingSection(section);
+    try {
+      const response = await fetch('/api/analyze/section', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ companyName, company: toCompanyIdentifiers(companyInfo), language: analysisData?.language, section })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error((data as ApiError).error || 'Section refresh failed');
+      }
+
+      const { data: refreshed } = data as RefreshSectionResponse;
+      setAnalysisData(refreshed);
+      toast.success(`Refreshed ${SECTION_LABELS[section]}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Section refresh failed');
+    } finally {
+      setRefreshingSection(null);
+    }
+  }, [companyName, companyInfo, analysisData, refreshingSection]);
+
   const handleSaveAllSettings = async (settings: {
     provider: ProviderName;
     model: string;
     apiKey?: string;
-    webSearchProvider: 'tavily' | 'claude' | 'websearchapi' | 'none';
+    baseUrl?: string;
+    webSearchProvider: 'tavily' | 'claude' | 'websearchapi' | 'mock' | 'none';
     tavilyKey?: string | null;
     webSearchKey?: string | null;
+    failoverProviders: ProviderModelSetting[];
+    consensusProvider: ProviderModelSetting | null;
+    researchQuestions: string[];
+    fitScoreWeights: FitScoreWeights;
+    sourceDomainTiers: SourceDomainTiers;
+    recencyWindows: RecencyWindows;
   }) => {
     // Save all settings to server API for admin
     try {
@@ -378,6 +622,12 @@ export default function Home() {
         default_provider: settings.provider,
         [`${settings.provider}_model`]: settings.model,
         web_search_provider: settings.webSearchProvider,
+        failover_providers: settings.failoverProviders,
+        consensus_provider: settings.consensusProvider,
+        research_questions: settings.researchQuestions,
+        fit_score_weights: settings.fitScoreWeights,
+        source_domain_tiers: settings.sourceDomainTiers,
+        recency_windows: settings.recencyWindows,
       };
 
       // Only include API key if provided (not empty)
@@ -385,6 +635,11 @@ export default function Home() {
         payload[`${settings.provider}_api_key`] = settings.apiKey;
       }
 
+      // Server URL for self-hosted providers
+      if (settings.baseUrl !== undefined) {
+        payload[`${settings.provider}_base_url`] = settings.baseUrl;
+      }
+
       // Include web search keys if provided
       if (settings.tavilyKey !== undefined) {
         payload.tavily_api_key = settings.tavilyKey;
@@ -555,7 +810,21 @@ export default function Home() {
                     ...
                   </span>
                 </div>
-                <DashboardSkeleton />
+                <AnalysisProgress phases={phases} />
+                {streamedSections && companyName ? (
+                  <AnalysisDashboard
+                    companyName={companyName}
+                    companyInfo={companyInfo}
+                    data={{ ...EMPTY_ANALYSIS, language: streamingLanguage, ...streamedSections }}
+                    ticker={ticker}
+                    provider={effectiveProvider}
+                    isBookmarked={isBookmarked(companyName)}
+                    onToggleBookmark={handleToggleBookmark}
+                    pendingSections={STREAMED_SECTIONS.filter(section => !(section in streamedSections))}
+                  />
+                ) : (
+                  <DashboardSkeleton />
+                )}
               </div>
             )}
 
@@ -574,6 +843,11 @@ export default function Home() {
                 sharedCacheMetadata={sharedCacheMetadata}
                 onRefresh={handleRefresh}
                 isRefreshing={loading}
+                // Only analyses from the shared cache can be refreshed section by section
+                onRefreshSection={isAuthenticated && cachedDataTimestamp === null ? handleRefreshSection : undefined}
+                refreshingSection={refreshingSection}
+                canDraftOutreach={isAuthenticated && cachedDataTimestamp === null}
+                companyIdentifiers={companyIdentifiers}
               />
             )}
           </TabsContent>
@@ -583,15 +857,18 @@ export default function Home() {
               <div className="flex items-center justify-between">
                 <h2 className="text-xl font-bold text-foreground">Search History</h2>
                 {history.length > 0 && (
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={clearHistory}
-                    className="border-border text-muted-foreground hover:text-red-400 hover:border-red-500/50"
-                  >
-                    <Trash2 className="w-4 h-4 mr-2" />
-                    Clear All
-                  </Button>
+                  <div className="flex items-center gap-3">
+                    <SavedListSortToggle value={historySort} onChange={setHistorySort} />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={clearHistory}
+                      className="border-border text-muted-foreground hover:text-red-400 hover:border-red-500/50"
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Clear All
+                    </Button>
+                  </div>
                 )}
               </div>
 
@@ -603,7 +880,7 @@ export default function Home() {
                 </div>
               ) : (
                 <div className="grid gap-3">
-                  {history.map((item) => (
+                  {sortedHistory.map((item) => (
                     <div
                       key={item.id}
                       className="flex items-center justify-between p-4 bg-card/50 border border-border rounded-xl hover:border-input transition-colors"
@@ -622,6 +899,7 @@ export default function Home() {
                             }`}>
                               {item.sentiment}
                             </span>
+                            <FitScoreBadge score={getSavedFitScore(item.data, fitScoreWeights)} />
                           </div>
                         </div>
                       </div>
@@ -652,7 +930,12 @@ export default function Home() {
 
           <TabsContent value="bookmarks" className="mt-6">
             <div className="space-y-4">
-              <h2 className="text-xl font-bold text-foreground">Bookmarks</h2>
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-bold text-foreground">Bookmarks</h2>
+                {bookmarks.length > 0 && (
+                  <SavedListSortToggle value={bookmarkSort} onChange={setBookmarkSort} />
+                )}
+              </div>
 
               {bookmarks.length === 0 ? (
                 <div className="text-center py-12 text-muted-foreground">
@@ -662,7 +945,7 @@ export default function Home() {
                 </div>
               ) : (
                 <div className="grid gap-3">
-                  {bookmarks.map((item) => {
+                  {sortedBookmarks.map((item) => {
                     const stale = isDataStale(item.timestamp);
                     return (
                       <div
@@ -699,6 +982,7 @@ export default function Home() {
                               }`}>
                                 {item.sentiment}
                               </span>
+                              <FitScoreBadge score={getSavedFitScore(item.data, fitScoreWeights)} />
                             </div>
                           </div>
                         </div>
@@ -765,10 +1049,18 @@ export default function Home() {
           isAdmin={isAdmin}
           selectedProvider={effectiveProvider}
           selectedModel={effectiveModel}
-          currentKey={serverSettings.openai_api_key || serverSettings.anthropic_api_key || serverSettings.gemini_api_key || serverSettings.perplexity_api_key || ''}
+          currentKey={serverSettings.openai_api_key || serverSettings.anthropic_api_key || serverSettings.gemini_api_key || serverSettings.perplexity_api_key || serverSettings.selfhosted_api_key || ''}
+          selfHostedModel={serverSettings.selfhosted_model}
+          selfHostedBaseUrl={serverSettings.selfhosted_base_url || undefined}
           webSearchProvider={effectiveWebSearchProvider}
           tavilyApiKey={serverSettings.tavily_api_key || undefined}
           webSearchApiKey={serverSettings.websearchapi_key || undefined}
+          failoverProviders={serverSettings.failover_providers}
+          consensusProvider={serverSettings.consensus_provider}
+          researchQuestions={serverSettings.research_questions}
+          fitScoreWeights={serverSettings.fit_score_weights}
+          sourceDomainTiers={serverSettings.source_domain_tiers}
+          recencyWindows={serverSettings.recency_windows}
           onSaveAll={handleSaveAllSettings}
         />
       )}
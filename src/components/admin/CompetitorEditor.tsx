@@ -0,0 +1,283 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Building2, CheckCircle2, Loader2, Pencil, Plus, Save, Trash2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { COMPETITOR_CATEGORIES, type CompetitorVendorRecord } from '@/lib/services/competitorVendors';
+import type { CompetitorCategory } from '@/types/analysis';
+
+// Vendor form fields; aliases are edited as one comma-separated string
+interface VendorDraft {
+  name: string;
+  aliases: string;
+  category: CompetitorCategory;
+  domain: string;
+  caseSensitive: boolean;
+}
+
+const EMPTY_DRAFT: VendorDraft = { name: '', aliases: '', category: 'archiving', domain: '', caseSensitive: false };
+
+export function CompetitorEditor() {
+  const [vendors, setVendors] = useState<CompetitorVendorRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [draft, setDraft] = useState<VendorDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null); // null adds a new vendor
+  const [saving, setSaving] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const fetchVendors = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch('/api/admin/competitors');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch competitor vendors');
+      }
+      setVendors(data.vendors || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchVendors();
+  }, [fetchVendors]);
+
+  const startEditing = (vendor: CompetitorVendorRecord | null) => {
+    setEditingId(vendor?.id || null);
+    setDraft(vendor
+      ? { name: vendor.name, aliases: vendor.aliases.join(', '), category: vendor.category, domain: vendor.domain || '', caseSensitive: vendor.case_sensitive }
+      : EMPTY_DRAFT);
+    setMessage(null);
+  };
+
+  const saveVendor = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(editingId ? `/api/admin/competitors/${editingId}` : '/api/admin/competitors', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name,
+          aliases: draft.aliases.split(','),
+          category: draft.category,
+          domain: draft.domain,
+          caseSensitive: draft.caseSensitive
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save competitor vendor');
+      }
+      setMessage(`${editingId ? 'Updated' : 'Added'} ${data.vendor.name}`);
+      startEditing(null);
+      await fetchVendors();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setActive = async (vendor: CompetitorVendorRecord, active: boolean) => {
+    setUpdatingId(vendor.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/admin/competitors/${vendor.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update competitor vendor');
+      }
+      setVendors(vendors.map(v => v.id === vendor.id ? data.vendor : v));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const deleteVendor = async (vendor: CompetitorVendorRecord) => {
+    if (!confirm(`Delete ${vendor.name}? Deactivate it instead to stop searching for it but keep it on the list.`)) {
+      return;
+    }
+
+    setUpdatingId(vendor.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/admin/competitors/${vendor.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete competitor vendor');
+      }
+      setVendors(vendors.filter(v => v.id !== vendor.id));
+      if (editingId === vendor.id) startEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (loading && vendors.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Compliance vendors searched for in competitor mentions. Mentions under an alias are listed under the vendor&apos;s name; inactive vendors are not searched.
+      </p>
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm bg-red-500/10 text-red-400 px-3 py-2 rounded-lg border border-red-500/20">
+          <XCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+      {message && (
+        <div className="flex items-center gap-2 text-sm bg-emerald-500/10 text-emerald-400 px-3 py-2 rounded-lg border border-emerald-500/20">
+          <CheckCircle2 className="w-4 h-4 flex-shrink-0" />
+          <span>{message}</span>
+        </div>
+      )}
+
+      {/* Vendor list */}
+      <div className="space-y-1 max-h-64 overflow-y-auto">
+        {vendors.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">No vendors yet</p>
+        )}
+        {vendors.map(vendor => (
+          <div key={vendor.id} className="flex items-center justify-between px-3 py-2 bg-card/50 rounded-lg border border-border">
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <Building2 className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                <span className={`text-sm ${vendor.is_active ? 'text-foreground' : 'text-muted-foreground line-through'}`}>{vendor.name}</span>
+                <span className="text-xs px-1.5 py-0.5 rounded bg-muted text-muted-foreground">{COMPETITOR_CATEGORIES[vendor.category]}</span>
+                {vendor.case_sensitive && <span className="text-xs text-muted-foreground/70">Match case</span>}
+                {vendor.domain && <span className="text-xs text-muted-foreground/70 truncate">{vendor.domain}</span>}
+              </div>
+              {vendor.aliases.length > 0 && (
+                <div className="text-xs text-muted-foreground truncate">Also: {vendor.aliases.join(', ')}</div>
+              )}
+            </div>
+            <div className="flex items-center gap-1 flex-shrink-0 ml-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setActive(vendor, !vendor.is_active)}
+                disabled={updatingId !== null}
+                className="text-xs text-muted-foreground hover:text-foreground"
+              >
+                {updatingId === vendor.id ? <Loader2 className="w-3 h-3 animate-spin" /> : vendor.is_active ? 'Deactivate' : 'Activate'}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => startEditing(vendor)}
+                className="text-muted-foreground hover:text-foreground"
+                title="Edit vendor"
+              >
+                <Pencil className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteVendor(vendor)}
+                disabled={updatingId !== null}
+                className="text-muted-foreground hover:text-red-400"
+                title="Delete vendor"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Add / edit form */}
+      <div className="space-y-2 p-3 rounded-lg border border-border">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-foreground">
+            {editingId ? `Edit ${vendors.find(v => v.id === editingId)?.name || 'vendor'}` : 'Add vendor'}
+          </label>
+          {editingId && (
+            <button
+              onClick={() => startEditing(null)}
+              className="text-xs text-muted-foreground hover:text-foreground"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Vendor name"
+            className="bg-card border-border text-foreground text-sm"
+          />
+          <select
+            value={draft.category}
+            onChange={(e) => setDraft({ ...draft, category: e.target.value as CompetitorCategory })}
+            className="bg-card border border-border rounded-lg px-3 py-2 text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+          >
+            {(Object.keys(COMPETITOR_CATEGORIES) as CompetitorCategory[]).map(category => (
+              <option key={category} value={category}>{COMPETITOR_CATEGORIES[category]}</option>
+            ))}
+          </select>
+        </div>
+        <Input
+          value={draft.domain}
+          onChange={(e) => setDraft({ ...draft, domain: e.target.value })}
+          placeholder="Website, e.g. smarsh.com (optional)"
+          className="bg-card border-border text-foreground text-sm"
+        />
+        <Input
+          value={draft.aliases}
+          onChange={(e) => setDraft({ ...draft, aliases: e.target.value })}
+          placeholder="Aliases, comma separated (e.g. former or product names)"
+          className="bg-card border-border text-foreground text-sm"
+        />
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.caseSensitive}
+              onChange={(e) => setDraft({ ...draft, caseSensitive: e.target.checked })}
+            />
+            Match case (for names that are also common words, e.g. Shield)
+          </label>
+          <Button
+            size="sm"
+            onClick={saveVendor}
+            disabled={saving || !draft.name.trim()}
+            className="bg-emerald-600 hover:bg-emerald-500 text-white"
+          >
+            {saving
+              ? <Loader2 className="w-4 h-4 animate-spin mr-2" />
+              : editingId ? <Save className="w-4 h-4 mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+            {editingId ? 'Save vendor' : 'Add vendor'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle2, Link2, Loader2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { LinkRecheckSummary } from '@/lib/services/linkHealth';
+
+export function LinkHealthRecheck() {
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<LinkRecheckSummary | null>(null);
+
+  const recheck = async () => {
+    setChecking(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/link-health', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to re-check links');
+      }
+      setSummary(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 p-3 rounded-lg border border-border">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <label className="text-sm font-medium text-foreground">Link health</label>
+          <p className="text-xs text-muted-foreground">
+            Re-check links in cached analyses not checked in the last week. Dead and paywalled links are tagged in the dashboard.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={recheck}
+          disabled={checking}
+          className="whitespace-nowrap"
+        >
+          {checking ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Link2 className="w-4 h-4 mr-2" />}
+          Re-check stale
+        </Button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm bg-red-500/10 text-red-400 px-3 py-2 rounded-lg border border-red-500/20">
+          <XCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+      {summary && (
+        <div className="flex items-center gap-2 text-sm bg-emerald-500/10 text-emerald-400 px-3 py-2 rounded-lg border border-emerald-500/20">
+          <CheckCircle2 className="w-4 h-4 flex-shrink-0" />
+          <span>
+            {summary.rechecked === 0
+              ? 'All cached analyses have recent link checks'
+              : `Re-checked ${summary.rechecked} ${summary.rechecked === 1 ? 'analysis' : 'analyses'}, ${summary.deadLinks} dead or paywalled ${summary.deadLinks === 1 ? 'link' : 'links'}`}
+            {summary.remaining > 0 && ` - ${summary.remaining} more to go, run again to continue`}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
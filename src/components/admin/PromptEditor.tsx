@@ -0,0 +1,278 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { CheckCircle2, History, Loader2, RotateCcw, Save, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { PromptVersion } from '@/lib/services/analysisPrompts';
+import type { AnalysisPrompts } from '@/lib/ai/prompts';
+
+type PromptKind = keyof AnalysisPrompts;
+
+const PROMPT_LABELS: Record<PromptKind, { label: string; description: string }> = {
+  structured: { label: 'Structured', description: 'Used by providers that return schema-constrained JSON' },
+  tagged: { label: 'Tagged', description: 'Used by providers that return [SECTION] tagged text' }
+};
+
+export function PromptEditor() {
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  const [defaults, setDefaults] = useState<AnalysisPrompts | null>(null);
+  const [variables, setVariables] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<AnalysisPrompts>({ tagged: '', structured: '' });
+  const [draftSource, setDraftSource] = useState('built-in prompts');
+  const [editing, setEditing] = useState<PromptKind>('structured');
+  const [notes, setNotes] = useState('');
+  const [activateOnSave, setActivateOnSave] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [activatingId, setActivatingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const activeVersion = versions.find(v => v.is_active) || null;
+
+  const fetchPrompts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch('/api/admin/prompts');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch prompts');
+      }
+      setVersions(data.versions || []);
+      setDefaults(data.defaults);
+      setVariables(data.variables || []);
+
+      // Start editing from whatever is currently in use
+      const active = (data.versions as PromptVersion[]).find(v => v.is_active);
+      setDraft(active ? { tagged: active.tagged_prompt, structured: active.structured_prompt } : data.defaults);
+      setDraftSource(active ? `version ${active.version}` : 'built-in prompts');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPrompts();
+  }, [fetchPrompts]);
+
+  const loadIntoEditor = (version: PromptVersion | null) => {
+    if (version) {
+      setDraft({ tagged: version.tagged_prompt, structured: version.structured_prompt });
+      setDraftSource(`version ${version.version}`);
+    } else if (defaults) {
+      setDraft(defaults);
+      setDraftSource('built-in prompts');
+    }
+    setMessage(null);
+  };
+
+  const saveVersion = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/admin/prompts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...draft, notes, activate: activateOnSave })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save prompt version');
+      }
+      const saved = data.version as PromptVersion;
+      setMessage(`Saved version ${saved.version}${saved.is_active ? ' and made it active' : ''}`);
+      setNotes('');
+      await fetchPrompts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Activate a version, or pass null to go back to the built-in prompts
+  const setActive = async (version: PromptVersion | null) => {
+    const target = version || activeVersion;
+    if (!target) return;
+    const label = version ? `version ${version.version}` : 'the built-in prompts';
+    if (!confirm(`Use ${label} for all new analyses?`)) {
+      return;
+    }
+
+    setActivatingId(version ? version.id : 'builtin');
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/admin/prompts/${target.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active: version !== null })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update prompt version');
+      }
+      setMessage(data.message);
+      setVersions(versions.map(v => ({ ...v, is_active: version !== null && v.id === version.id })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setActivatingId(null);
+    }
+  };
+
+  if (loading && versions.length === 0 && !defaults) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Edit the analysis prompts. Each save creates a new version; new analyses use the active one and record which version produced them.
+      </p>
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm bg-red-500/10 text-red-400 px-3 py-2 rounded-lg border border-red-500/20">
+          <XCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+      {message && (
+        <div className="flex items-center gap-2 text-sm bg-emerald-500/10 text-emerald-400 px-3 py-2 rounded-lg border border-emerald-500/20">
+          <CheckCircle2 className="w-4 h-4 flex-shrink-0" />
+          <span>{message}</span>
+        </div>
+      )}
+
+      {/* Version history */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-foreground flex items-center gap-2">
+          <History className="w-4 h-4 text-muted-foreground" />
+          Versions
+        </label>
+        <div className="space-y-1 max-h-40 overflow-y-auto">
+          <div className="flex items-center justify-between px-3 py-2 bg-card/50 rounded-lg border border-border">
+            <div className="flex items-center gap-2 min-w-0">
+              <span className="text-sm text-foreground">Built-in prompts</span>
+              {!activeVersion && (
+                <span className="text-xs px-1.5 py-0.5 rounded bg-emerald-500/20 text-emerald-400">Active</span>
+              )}
+            </div>
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="sm" onClick={() => loadIntoEditor(null)} className="text-xs text-muted-foreground hover:text-foreground">
+                Edit
+              </Button>
+              {activeVersion && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setActive(null)}
+                  disabled={activatingId !== null}
+                  className="text-xs text-muted-foreground hover:text-foreground"
+                >
+                  {activatingId === 'builtin' ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3 mr-1" />}
+                  Use
+                </Button>
+              )}
+            </div>
+          </div>
+          {versions.map(version => (
+            <div key={version.id} className="flex items-center justify-between px-3 py-2 bg-card/50 rounded-lg border border-border">
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-foreground">Version {version.version}</span>
+                  {version.is_active && (
+                    <span className="text-xs px-1.5 py-0.5 rounded bg-emerald-500/20 text-emerald-400">Active</span>
+                  )}
+                  <span className="text-xs text-muted-foreground/70">{new Date(version.created_at).toLocaleDateString()}</span>
+                </div>
+                {version.notes && <div className="text-xs text-muted-foreground truncate">{version.notes}</div>}
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0 ml-2">
+                <Button variant="ghost" size="sm" onClick={() => loadIntoEditor(version)} className="text-xs text-muted-foreground hover:text-foreground">
+                  Edit
+                </Button>
+                {!version.is_active && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setActive(version)}
+                    disabled={activatingId !== null}
+                    className="text-xs text-muted-foreground hover:text-foreground"
+                    title={activeVersion && version.version < activeVersion.version ? 'Roll back to this version' : 'Make this version active'}
+                  >
+                    {activatingId === version.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3 mr-1" />}
+                    {activeVersion && version.version < activeVersion.version ? 'Roll back' : 'Activate'}
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Editor */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="flex gap-1 p-1 bg-muted/50 rounded-lg">
+            {(Object.keys(PROMPT_LABELS) as PromptKind[]).map(kind => (
+              <button
+                key={kind}
+                onClick={() => setEditing(kind)}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                  editing === kind ? 'bg-accent text-foreground' : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {PROMPT_LABELS[kind].label}
+              </button>
+            ))}
+          </div>
+          <span className="text-xs text-muted-foreground">Editing {draftSource}</span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {PROMPT_LABELS[editing].description}. Variables: {variables.map(v => `{{${v}}}`).join(', ')}
+        </p>
+        <textarea
+          value={draft[editing]}
+          onChange={(e) => setDraft({ ...draft, [editing]: e.target.value })}
+          spellCheck={false}
+          className="w-full h-56 px-3 py-2 rounded-md bg-muted border border-border text-foreground font-mono text-xs resize-y focus:outline-none focus:ring-1 focus:ring-ring"
+        />
+        <Input
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="What changed in this version (optional)"
+          className="bg-muted border-border text-foreground placeholder:text-muted-foreground"
+        />
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={activateOnSave}
+              onChange={(e) => setActivateOnSave(e.target.checked)}
+            />
+            Make active after saving
+          </label>
+          <Button
+            size="sm"
+            onClick={saveVersion}
+            disabled={saving || !draft.tagged.trim() || !draft.structured.trim()}
+            className="bg-emerald-600 hover:bg-emerald-500 text-white"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Save className="w-4 h-4 mr-2" />}
+            Save as new version
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
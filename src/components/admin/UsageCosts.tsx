@@ -23,6 +23,9 @@ interface RecentLog {
   companyName: string;
   aiProvider: string;
   aiModel: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
   totalCost: number;
   cached: boolean;
 }
@@ -294,6 +297,11 @@ export function UsageCosts() {
                   <span className="text-muted-foreground text-xs">
                     {log.userEmail || 'Unknown'} · {log.aiProvider}
                     {log.cached && <span className="text-blue-400 ml-1">(cached)</span>}
+                    {!log.cached && log.inputTokens + log.outputTokens > 0 && (
+                      <span className="ml-1" title={`${log.inputTokens.toLocaleString()} input (${log.cachedTokens.toLocaleString()} cached) / ${log.outputTokens.toLocaleString()} output tokens`}>
+                        · {formatTokens(log.inputTokens)} in / {formatTokens(log.outputTokens)} out
+                      </span>
+                    )}
                   </span>
                 </div>
                 <div className="text-right">
@@ -323,6 +331,10 @@ export function UsageCosts() {
   );
 }
 
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+}
+
 function CostCard({ title, data }: { title: string; data: UsagePeriod }) {
   return (
     <div className="bg-card/50 border border-border rounded-lg p-3">
@@ -0,0 +1,60 @@
+'use client';
+
+import { CheckCircle2, Circle, Clock, Loader2, MinusCircle, XCircle } from 'lucide-react';
+import { AnalysisPhase, PhaseStatus } from '@/types/api';
+
+interface AnalysisProgressProps {
+  phases: Partial<Record<AnalysisPhase, PhaseStatus>>;
+}
+
+// In the order phases run
+export const PHASE_LABELS: Record<AnalysisPhase, string> = {
+  news_search: 'News search',
+  regulatory_search: 'Regulatory search',
+  ai_analysis: 'AI analysis',
+  competitor_extraction: 'Competitor extraction',
+  communications_stack: 'Communications stack',
+  buyer_personas: 'Buyer personas',
+  enforcement_import: 'Enforcement actions',
+  grounding_check: 'Grounding check',
+  link_check: 'Link check',
+  cache_write: 'Saving results',
+};
+
+function PhaseIcon({ status }: { status?: PhaseStatus }) {
+  switch (status) {
+    case 'started':
+      return <Loader2 className="w-3.5 h-3.5 animate-spin text-emerald-500" />;
+    case 'completed':
+      return <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500" />;
+    case 'failed':
+      return <XCircle className="w-3.5 h-3.5 text-amber-500" />;
+    case 'timed_out':
+      return <Clock className="w-3.5 h-3.5 text-amber-500" />;
+    case 'skipped':
+      return <MinusCircle className="w-3.5 h-3.5 text-muted-foreground/60" />;
+    default:
+      return <Circle className="w-3.5 h-3.5 text-muted-foreground/40" />;
+  }
+}
+
+export function AnalysisProgress({ phases }: AnalysisProgressProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mb-6 text-xs">
+      {(Object.entries(PHASE_LABELS) as [AnalysisPhase, string][]).map(([phase, label]) => {
+        const status = phases[phase];
+        return (
+          <div
+            key={phase}
+            className={`flex items-center gap-1.5 ${
+              status === 'started' ? 'text-foreground' : status === 'skipped' ? 'text-muted-foreground/60 line-through' : 'text-muted-foreground'
+            }`}
+          >
+            <PhaseIcon status={status} />
+            <span>{label}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
 
 export function DashboardSkeleton() {
   return (
@@ -46,3 +47,16 @@ export function DashboardSkeleton() {
     </div>
   );
 }
+
+export function SectionSkeleton({ className }: { className?: string }) {
+  return (
+    <div className={cn('rounded-xl border border-zinc-800 bg-zinc-900/50 p-5', className)}>
+      <Skeleton className="h-6 w-32 mb-4 bg-zinc-800" />
+      <div className="space-y-3">
+        <Skeleton className="h-4 w-full bg-zinc-800" />
+        <Skeleton className="h-4 w-3/4 bg-zinc-800" />
+        <Skeleton className="h-4 w-1/2 bg-zinc-800" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Copy, ExternalLink, Loader2, Mail, Linkedin, Sparkles, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { CompanyIdentifiers, OutputLanguage, OutreachDraft, OutreachLength, OutreachTone } from '@/types/analysis';
+import { GenerateOutreachResponse, OutreachDraftsResponse } from '@/types/api';
+import { isValidHttpUrl } from '@/lib/utils';
+
+interface OutreachDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  companyName: string;
+  company?: CompanyIdentifiers;
+  language?: OutputLanguage;
+}
+
+const TONE_OPTIONS: Record<OutreachTone, string> = {
+  consultative: 'Consultative',
+  friendly: 'Friendly',
+  direct: 'Direct'
+};
+
+const LENGTH_OPTIONS: Record<OutreachLength, string> = {
+  short: 'Short',
+  medium: 'Medium',
+  long: 'Long'
+};
+
+function OptionToggle<T extends string>({ label, options, value, onChange, disabled }: {
+  label: string;
+  options: Record<T, string>;
+  value: T;
+  onChange: (value: T) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="space-y-1.5">
+      <span className="text-xs font-medium text-muted-foreground">{label}</span>
+      <div className="flex rounded-md border border-border overflow-hidden w-fit">
+        {(Object.keys(options) as T[]).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onChange(option)}
+            disabled={disabled}
+            className={`px-3 py-1.5 text-xs transition-colors ${
+              value === option
+                ? 'bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:text-foreground hover:bg-accent'
+            }`}
+          >
+            {options[option]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function CopyButton({ text, label }: { text: string; label: string }) {
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(`${label} copied`);
+    } catch {
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
+  return (
+    <Button variant="ghost" size="sm" onClick={copy} disabled={!text} className="h-7 px-2 text-muted-foreground hover:text-foreground">
+      <Copy className="w-3.5 h-3.5" />
+      <span className="ml-1.5 text-xs">Copy {label.toLowerCase()}</span>
+    </Button>
+  );
+}
+
+function DraftCard({ draft, onDelete, isDeleting }: { draft: OutreachDraft; onDelete: () => void; isDeleting: boolean }) {
+  return (
+    <div className="space-y-3 p-3 sm:p-4 bg-card/50 dark:bg-muted/50 border border-border rounded-lg">
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          {TONE_OPTIONS[draft.tone]} · {LENGTH_OPTIONS[draft.length]}
+          {' · '}
+          {new Date(draft.createdAt).toLocaleDateString()}
+          {draft.createdBy && ` · ${draft.createdBy}`}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onDelete}
+          disabled={isDeleting}
+          className="h-7 px-2 text-muted-foreground hover:text-red-500"
+          aria-label="Delete draft"
+        >
+          {isDeleting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+        </Button>
+      </div>
+
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between gap-2">
+          <h4 className="flex items-center gap-2 text-sm font-medium text-foreground">
+            <Mail className="w-4 h-4 text-blue-500" />
+            {draft.emailSubject || 'Email'}
+          </h4>
+          <div className="flex">
+            {draft.emailSubject && <CopyButton text={draft.emailSubject} label="Subject" />}
+            <CopyButton text={draft.emailBody} label="Email" />
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground whitespace-pre-wrap">{draft.emailBody}</p>
+      </div>
+
+      {draft.linkedinNote && (
+        <div className="space-y-1.5">
+          <div className="flex items-center justify-between gap-2">
+            <h4 className="flex items-center gap-2 text-sm font-medium text-foreground">
+              <Linkedin className="w-4 h-4 text-sky-500" />
+              LinkedIn note
+            </h4>
+            <CopyButton text={draft.linkedinNote} label="Note" />
+          </div>
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap">{draft.linkedinNote}</p>
+        </div>
+      )}
+
+      {draft.citations.length > 0 && (
+        <div className="space-y-1">
+          <span className="text-xs font-medium text-muted-foreground">Sources</span>
+          <ul className="space-y-0.5">
+            {draft.citations.filter(isValidHttpUrl).map(url => (
+              <li key={url}>
+                <a
+                  href={url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline break-all"
+                >
+                  <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                  {url}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function OutreachDialog({ open, onOpenChange, companyName, company, language }: OutreachDialogProps) {
+  const [tone, setTone] = useState<OutreachTone>('consultative');
+  const [length, setLength] = useState<OutreachLength>('medium');
+  const [drafts, setDrafts] = useState<OutreachDraft[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDrafts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch('/api/analyze/outreach/saved', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ companyName, company, language })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load outreach drafts');
+      }
+      setDrafts((data as OutreachDraftsResponse).drafts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [companyName, company, language]);
+
+  useEffect(() => {
+    if (open) fetchDrafts();
+  }, [open, fetchDrafts]);
+
+  const generateDraft = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/analyze/outreach', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ companyName, company, language, tone, length })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to draft outreach');
+      }
+      setDrafts(prev => [(data as GenerateOutreachResponse).draft, ...prev]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const deleteDraft = async (id: string) => {
+    setDeletingId(id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/analyze/outreach/${id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete outreach draft');
+      }
+      setDrafts(prev => prev.filter(d => d.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader className="flex-shrink-0">
+          <DialogTitle className="flex items-center gap-2">
+            <Mail className="w-5 h-5 text-blue-500" />
+            Outreach for {companyName}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-4 flex-shrink-0">
+          <OptionToggle label="Tone" options={TONE_OPTIONS} value={tone} onChange={setTone} disabled={generating} />
+          <OptionToggle label="Length" options={LENGTH_OPTIONS} value={length} onChange={setLength} disabled={generating} />
+          <Button size="sm" onClick={generateDraft} disabled={generating} className="h-8">
+            {generating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            <span className="ml-2">{generating ? 'Drafting...' : 'Generate draft'}</span>
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground flex-shrink-0">
+          Drafts only use facts and sources from this analysis, and are saved for your team to reuse.
+        </p>
+
+        {error && (
+          <p className="text-sm text-red-500 flex-shrink-0">{error}</p>
+        )}
+
+        <div className="flex-1 min-h-0 overflow-y-auto pr-1">
+          {loading ? (
+            <div className="flex items-center gap-2 py-6 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading saved drafts...
+            </div>
+          ) : drafts.length > 0 ? (
+            <div className="space-y-3 py-2">
+              {drafts.map(draft => (
+                <DraftCard
+                  key={draft.id}
+                  draft={draft}
+                  onDelete={() => deleteDraft(draft.id)}
+                  isDeleting={deletingId === draft.id}
+                />
+              ))}
+            </div>
+          ) : (
+            <p className="py-6 text-sm text-muted-foreground">No saved drafts for this company yet.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
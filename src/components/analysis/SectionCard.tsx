@@ -1,5 +1,5 @@
 import { ReactNode } from 'react';
-import { LucideIcon } from 'lucide-react';
+import { LucideIcon, RefreshCw } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 export type SectionColor = 'emerald' | 'cyan' | 'amber' | 'blue' | 'purple' | 'red' | 'neutral';
@@ -10,6 +10,8 @@ interface SectionCardProps {
   color: SectionColor;
   children: ReactNode;
   className?: string;
+  onRefresh?: () => void; // Shows a refresh button in the header when set
+  isRefreshing?: boolean;
 }
 
 const colorClasses: Record<SectionColor, { border: string; bg: string; header: string }> = {
@@ -50,7 +52,7 @@ const colorClasses: Record<SectionColor, { border: string; bg: string; header: s
   }
 };
 
-export function SectionCard({ title, icon: Icon, color, children, className }: SectionCardProps) {
+export function SectionCard({ title, icon: Icon, color, children, className, onRefresh, isRefreshing }: SectionCardProps) {
   const colors = colorClasses[color];
 
   return (
@@ -65,6 +67,17 @@ export function SectionCard({ title, icon: Icon, color, children, className }: S
       <div className={cn('flex items-center gap-2 mb-3 sm:mb-4', colors.header)}>
         <Icon className="w-4 h-4 sm:w-5 sm:h-5" />
         <h3 className="font-semibold text-xs sm:text-sm uppercase tracking-wider">{title}</h3>
+        {onRefresh && (
+          <button
+            onClick={onRefresh}
+            disabled={isRefreshing}
+            className="ml-auto p-1 rounded-md opacity-60 hover:opacity-100 hover:bg-black/5 dark:hover:bg-white/5 disabled:cursor-not-allowed transition-opacity"
+            title={isRefreshing ? 'Refreshing...' : `Refresh ${title}`}
+            aria-label={`Refresh ${title}`}
+          >
+            <RefreshCw className={cn('w-3.5 h-3.5', isRefreshing && 'animate-spin')} />
+          </button>
+        )}
       </div>
       {children}
     </div>
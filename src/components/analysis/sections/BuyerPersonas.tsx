@@ -0,0 +1,120 @@
+'use client';
+
+import { UserSearch, ExternalLink, Calendar, UserMinus } from 'lucide-react';
+import { SectionCard } from '../SectionCard';
+import { BuyerPersona, BuyerPersonaFunction } from '@/types/analysis';
+import { isValidHttpUrl } from '@/lib/utils';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
+import { BUYER_PERSONA_FUNCTION_NAMES } from '@/lib/services/buyerPersonas';
+
+interface BuyerPersonasProps {
+  personas: BuyerPersona[];
+  formerPersonas?: BuyerPersona[];
+  className?: string;
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
+}
+
+const functionColors: Record<BuyerPersonaFunction, string> = {
+  compliance: 'text-purple-600 dark:text-purple-400 bg-purple-500/10',
+  surveillance: 'text-amber-600 dark:text-amber-400 bg-amber-500/10',
+  security: 'text-red-600 dark:text-red-400 bg-red-500/10',
+  records: 'text-cyan-600 dark:text-cyan-400 bg-cyan-500/10',
+};
+
+export function BuyerPersonas({ personas, formerPersonas = [], className, onRefresh, isRefreshing }: BuyerPersonasProps) {
+  const labels = useAnalysisLabels();
+  const groups = BUYER_PERSONA_FUNCTION_NAMES
+    .map(fn => ({ fn, people: personas.filter(p => p.function === fn) }))
+    .filter(group => group.people.length > 0);
+
+  return (
+    <SectionCard title={labels.sections.buyerPersonas} icon={UserSearch} color="purple" className={className} onRefresh={onRefresh} isRefreshing={isRefreshing}>
+      <div className="space-y-4">
+        {groups.length > 0 ? (
+          <div className="grid gap-4 lg:grid-cols-2">
+            {groups.map(({ fn, people }) => (
+              <div key={fn} className="space-y-2">
+                <div className={`flex items-center gap-1.5 px-2 py-1 rounded text-xs font-medium w-fit ${functionColors[fn]}`}>
+                  {labels.personaFunctions[fn]}
+                  <span className="opacity-70">({people.length})</span>
+                </div>
+                <div className="grid gap-2">
+                  {people.map(persona => {
+                    const hasValidUrl = isValidHttpUrl(persona.url);
+                    const content = (
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-foreground text-sm font-medium group-hover:text-foreground/80 transition-colors">
+                            {persona.name}
+                          </span>
+                          {persona.status === 'new' && (
+                            <span className="px-1.5 py-0.5 rounded bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 text-[10px] font-medium uppercase">
+                              {labels.personas.new}
+                            </span>
+                          )}
+                          {persona.status === 'title_changed' && (
+                            <span className="px-1.5 py-0.5 rounded bg-blue-500/10 text-blue-600 dark:text-blue-400 text-[10px] font-medium uppercase">
+                              {labels.personas.titleChanged}
+                            </span>
+                          )}
+                          {hasValidUrl && (
+                            <ExternalLink className="w-3 h-3 text-muted-foreground flex-shrink-0 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity" />
+                          )}
+                        </div>
+                        <p className="text-muted-foreground text-xs mt-1 line-clamp-2">{persona.title}</p>
+                        {persona.previousTitle && (
+                          <p className="text-muted-foreground/70 text-xs mt-0.5 line-clamp-1">
+                            {labels.personas.previousTitle}: {persona.previousTitle}
+                          </p>
+                        )}
+                        <span className="flex items-center gap-1 text-muted-foreground text-xs mt-1">
+                          <Calendar className="w-3 h-3" />
+                          {labels.personas.firstSeen} {persona.firstSeen}
+                        </span>
+                      </div>
+                    );
+
+                    return hasValidUrl ? (
+                      <a
+                        key={persona.name}
+                        href={persona.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="group flex p-2 sm:p-3 bg-card/50 dark:bg-muted/50 rounded-lg hover:bg-accent/50 active:bg-muted transition-colors"
+                      >
+                        {content}
+                      </a>
+                    ) : (
+                      <div key={persona.name} className="group flex p-2 sm:p-3 bg-card/50 dark:bg-muted/50 rounded-lg">
+                        {content}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-sm">{labels.empty.buyerPersonas}</p>
+        )}
+
+        {formerPersonas.length > 0 && (
+          <div className="space-y-1.5 pt-2 border-t border-border">
+            <h4 className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+              <UserMinus className="w-3.5 h-3.5" />
+              {labels.personas.noLongerFound}
+            </h4>
+            <ul className="flex flex-wrap gap-x-4 gap-y-1">
+              {formerPersonas.map(persona => (
+                <li key={persona.name} className="text-xs text-muted-foreground">
+                  <span className="line-through">{persona.name}</span> · {persona.title}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </SectionCard>
+  );
+}
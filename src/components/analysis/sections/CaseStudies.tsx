@@ -1,9 +1,17 @@
+'use client';
+
 import { FileText, ExternalLink, Link as LinkIcon } from 'lucide-react';
 import { SectionCard } from '../SectionCard';
-import { LinkItem } from '@/types/analysis';
+import { LinkCheck, LinkItem } from '@/types/analysis';
+import { LinkHealthBadge } from './LinkHealthBadge';
+import { CredibilityToggle, LowCredibilityTag, useCredibilityFilter } from './CredibilityFilter';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
 
 interface CaseStudiesProps {
   studies: LinkItem[];
+  linkHealth?: Record<string, LinkCheck>;
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
 }
 
 function isValidHttpUrl(url: string): boolean {
@@ -16,11 +24,13 @@ function isValidHttpUrl(url: string): boolean {
   }
 }
 
-export function CaseStudies({ studies }: CaseStudiesProps) {
+export function CaseStudies({ studies, linkHealth, onRefresh, isRefreshing }: CaseStudiesProps) {
+  const labels = useAnalysisLabels();
+  const { shown, hiddenCount, showAll, toggleShowAll } = useCredibilityFilter(studies, { limit: 5 });
   return (
-    <SectionCard title="External Case Studies" icon={FileText} color="cyan" className="xl:col-span-2">
+    <SectionCard title={labels.sections.caseStudies} icon={FileText} color="cyan" className="xl:col-span-2" onRefresh={onRefresh} isRefreshing={isRefreshing}>
       <div className="space-y-1">
-        {studies.slice(0, 5).map((study, i) => {
+        {shown.map((study, i) => {
           const hasValidUrl = isValidHttpUrl(study.url);
           return (
             <div key={i} className="py-2 border-b border-gray-200 dark:border-zinc-800/50 last:border-0">
@@ -35,9 +45,13 @@ export function CaseStudies({ studies }: CaseStudiesProps) {
                   <div className="flex items-start gap-2">
                     <ExternalLink className="w-4 h-4 text-cyan-400 mt-0.5 flex-shrink-0" />
                     <div className="flex-1 min-w-0">
-                      <span className="text-cyan-400 group-hover:text-cyan-300 group-hover:underline transition-colors font-medium text-sm line-clamp-2">
-                        {study.title}
-                      </span>
+                      <div className="flex items-start gap-2">
+                        <span className="text-cyan-400 group-hover:text-cyan-300 group-hover:underline transition-colors font-medium text-sm line-clamp-2">
+                          {study.title}
+                        </span>
+                        <LinkHealthBadge check={linkHealth?.[study.url]} />
+                        <LowCredibilityTag credibility={study.credibility} />
+                      </div>
                       {study.summary && (
                         <p className="text-gray-600 dark:text-muted-foreground text-xs mt-1 line-clamp-2">{study.summary}</p>
                       )}
@@ -58,8 +72,9 @@ export function CaseStudies({ studies }: CaseStudiesProps) {
             </div>
           );
         })}
+        <CredibilityToggle hiddenCount={hiddenCount} showAll={showAll} onToggle={toggleShowAll} />
         {studies.length === 0 && (
-          <p className="text-muted-foreground text-sm">No case studies found</p>
+          <p className="text-muted-foreground text-sm">{labels.empty.caseStudies}</p>
         )}
       </div>
     </SectionCard>
@@ -0,0 +1,83 @@
+import { AlertTriangle } from 'lucide-react';
+import { GroundedClaim } from '@/types/analysis';
+import { isValidHttpUrl } from '@/lib/utils';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
+
+function extractHostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Footnote list for a section: every URL its claims cite, numbered in the
+ * order they first appear
+ */
+export function collectFootnotes(claims: (GroundedClaim | undefined)[]): string[] {
+  return [...new Set(claims.flatMap(claim => claim?.citations || []).filter(isValidHttpUrl))];
+}
+
+interface CitationMarksProps {
+  claim?: GroundedClaim;
+  footnotes: string[];
+}
+
+// Superscript footnote links after a claim, or a marker if nothing retrieved
+// supports it. Renders nothing for claims the grounding check didn't see.
+export function CitationMarks({ claim, footnotes }: CitationMarksProps) {
+  const labels = useAnalysisLabels();
+  if (!claim) return null;
+
+  const numbers = claim.citations.map(url => footnotes.indexOf(url) + 1).filter(n => n > 0);
+  if (numbers.length === 0) {
+    return (
+      <span
+        title={labels.grounding.unsupportedHint}
+        className="inline-flex items-center gap-0.5 ml-1 px-1 rounded bg-amber-500/15 text-amber-600 dark:text-amber-400 text-[10px] font-medium align-middle"
+      >
+        <AlertTriangle className="w-2.5 h-2.5" />
+        {labels.grounding.unsupported}
+      </span>
+    );
+  }
+
+  return (
+    <sup className="ml-0.5 space-x-0.5">
+      {numbers.map(n => (
+        <a
+          key={n}
+          href={footnotes[n - 1]}
+          target="_blank"
+          rel="noopener noreferrer"
+          title={footnotes[n - 1]}
+          className="text-emerald-600 dark:text-emerald-400 hover:underline"
+        >
+          [{n}]
+        </a>
+      ))}
+    </sup>
+  );
+}
+
+export function Footnotes({ footnotes }: { footnotes: string[] }) {
+  const labels = useAnalysisLabels();
+  if (footnotes.length === 0) return null;
+
+  return (
+    <div className="mt-4 pt-3 border-t border-border">
+      <h4 className="text-xs font-medium text-muted-foreground mb-1.5">{labels.grounding.sources}</h4>
+      <ol className="flex flex-wrap gap-x-4 gap-y-1">
+        {footnotes.map((url, i) => (
+          <li key={url} className="text-xs text-muted-foreground">
+            <span className="mr-1">[{i + 1}]</span>
+            <a href={url} target="_blank" rel="noopener noreferrer" title={url} className="hover:text-foreground hover:underline">
+              {extractHostname(url)}
+            </a>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
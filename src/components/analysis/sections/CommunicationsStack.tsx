@@ -0,0 +1,125 @@
+'use client';
+
+import { MessagesSquare, ExternalLink, FileText, Briefcase, Newspaper, Building2, MoreHorizontal, Calendar } from 'lucide-react';
+import { SectionCard } from '../SectionCard';
+import { CommunicationsStackItem, CommunicationsEvidenceType } from '@/types/analysis';
+import { isValidHttpUrl } from '@/lib/utils';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
+import { describeCommunicationPlatforms } from '@/lib/services/communicationPlatforms';
+
+interface CommunicationsStackProps {
+  items: CommunicationsStackItem[];
+  className?: string;
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
+}
+
+const evidenceTypeIcons: Record<CommunicationsEvidenceType, typeof FileText> = {
+  case_study: FileText,
+  job_posting: Briefcase,
+  press_release: Newspaper,
+  vendor_customer_page: Building2,
+  other: MoreHorizontal,
+};
+
+const evidenceTypeColors: Record<CommunicationsEvidenceType, string> = {
+  case_study: 'text-purple-600 dark:text-purple-400 bg-purple-500/10',
+  job_posting: 'text-blue-600 dark:text-blue-400 bg-blue-500/10',
+  press_release: 'text-cyan-600 dark:text-cyan-400 bg-cyan-500/10',
+  vendor_customer_page: 'text-emerald-600 dark:text-emerald-400 bg-emerald-500/10',
+  other: 'text-muted-foreground bg-muted/50',
+};
+
+export function CommunicationsStack({ items, className, onRefresh, isRefreshing }: CommunicationsStackProps) {
+  const labels = useAnalysisLabels();
+  // Group evidence by platform
+  const groupedItems = items.reduce((acc, item) => {
+    if (!acc[item.platform]) {
+      acc[item.platform] = [];
+    }
+    acc[item.platform].push(item);
+    return acc;
+  }, {} as Record<string, CommunicationsStackItem[]>);
+
+  return (
+    <SectionCard title={labels.sections.communicationsStack} icon={MessagesSquare} color="blue" className={className} onRefresh={onRefresh} isRefreshing={isRefreshing}>
+      <div className="space-y-4">
+        <p className="text-muted-foreground text-xs">
+          Searching for: {describeCommunicationPlatforms()}
+        </p>
+
+        {items.length > 0 ? (
+          <div className="grid gap-4 lg:grid-cols-2">
+            {Object.entries(groupedItems).map(([platform, evidence]) => (
+              <div key={platform} className="space-y-2">
+                <h4 className="text-sm font-medium text-blue-600 dark:text-blue-400 flex items-center gap-2">
+                  <MessagesSquare className="w-4 h-4" />
+                  {platform}
+                  <span className="text-xs text-muted-foreground">({evidence.length})</span>
+                </h4>
+                <div className="grid gap-2 pl-6">
+                  {evidence.map((item, i) => {
+                    const Icon = evidenceTypeIcons[item.evidenceType] || MoreHorizontal;
+                    const colorClass = evidenceTypeColors[item.evidenceType] || evidenceTypeColors.other;
+                    const hasValidUrl = isValidHttpUrl(item.url);
+
+                    const content = (
+                      <>
+                        <div className={`flex items-center gap-1.5 px-2 py-1 rounded text-xs font-medium w-fit ${colorClass}`}>
+                          <Icon className="w-3 h-3" />
+                          {labels.evidenceTypes[item.evidenceType] || labels.evidenceTypes.other}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="text-foreground text-sm font-medium line-clamp-2 sm:line-clamp-1 group-hover:text-foreground/80 transition-colors">
+                              {item.title}
+                            </span>
+                            {hasValidUrl && (
+                              <ExternalLink className="w-3 h-3 text-muted-foreground flex-shrink-0 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity" />
+                            )}
+                          </div>
+                          {item.summary && (
+                            <p className="text-muted-foreground text-xs mt-1 line-clamp-2">
+                              {item.summary}
+                            </p>
+                          )}
+                          {item.date && (
+                            <span className="flex items-center gap-1 text-muted-foreground text-xs mt-1">
+                              <Calendar className="w-3 h-3" />
+                              {item.date}
+                            </span>
+                          )}
+                        </div>
+                      </>
+                    );
+
+                    return hasValidUrl ? (
+                      <a
+                        key={i}
+                        href={item.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="group flex flex-col sm:flex-row sm:items-start gap-2 sm:gap-3 p-2 sm:p-3 bg-card/50 dark:bg-muted/50 rounded-lg hover:bg-accent/50 active:bg-muted transition-colors"
+                      >
+                        {content}
+                      </a>
+                    ) : (
+                      <div
+                        key={i}
+                        className="group flex flex-col sm:flex-row sm:items-start gap-2 sm:gap-3 p-2 sm:p-3 bg-card/50 dark:bg-muted/50 rounded-lg"
+                      >
+                        {content}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-sm">{labels.empty.communicationsStack}</p>
+        )}
+      </div>
+    </SectionCard>
+  );
+}
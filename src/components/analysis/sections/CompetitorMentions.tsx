@@ -4,10 +4,15 @@ import { Search, ExternalLink, Building2, Handshake, Scale, FileText, Newspaper,
 import { SectionCard } from '../SectionCard';
 import { CompetitorMentionItem } from '@/types/analysis';
 import { isValidHttpUrl } from '@/lib/utils';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
+import { compareByDateDesc, formatItemDate } from '@/lib/services/dateNormalization';
+import { CredibilityToggle, LowCredibilityTag, useCredibilityFilter } from './CredibilityFilter';
 
 interface CompetitorMentionsProps {
   mentions: CompetitorMentionItem[];
   discoveredCompetitors?: string[];
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
 }
 
 const mentionTypeIcons: Record<string, typeof Building2> = {
@@ -40,9 +45,11 @@ const mentionTypeColors: Record<string, string> = {
   other: 'text-muted-foreground bg-muted/50',
 };
 
-export function CompetitorMentions({ mentions, discoveredCompetitors }: CompetitorMentionsProps) {
-  // Group mentions by competitor
-  const groupedMentions = mentions.reduce((acc, mention) => {
+export function CompetitorMentions({ mentions, discoveredCompetitors, onRefresh, isRefreshing }: CompetitorMentionsProps) {
+  const labels = useAnalysisLabels();
+  const { shown, hiddenCount, showAll, toggleShowAll } = useCredibilityFilter(mentions, { compare: compareByDateDesc });
+  // Group mentions by competitor, the competitor with the latest mention first
+  const groupedMentions = shown.reduce((acc, mention) => {
     if (!acc[mention.competitorName]) {
       acc[mention.competitorName] = [];
     }
@@ -53,7 +60,7 @@ export function CompetitorMentions({ mentions, discoveredCompetitors }: Competit
   const hasAnyMentions = mentions.length > 0;
 
   return (
-    <SectionCard title="Competitor Mentions" icon={Search} color="amber">
+    <SectionCard title={labels.sections.competitorMentions} icon={Search} color="amber" onRefresh={onRefresh} isRefreshing={isRefreshing}>
       <div className="space-y-4">
         <p className="text-muted-foreground text-xs">
           Searching for mentions by: {discoveredCompetitors && discoveredCompetitors.length > 0
@@ -88,6 +95,7 @@ export function CompetitorMentions({ mentions, discoveredCompetitors }: Competit
                             <span className="text-foreground text-sm font-medium line-clamp-2 sm:line-clamp-1 group-hover:text-foreground/80 transition-colors">
                               {mention.title}
                             </span>
+                            <LowCredibilityTag credibility={mention.credibility} />
                             {hasValidUrl && (
                               <ExternalLink className="w-3 h-3 text-muted-foreground flex-shrink-0 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity" />
                             )}
@@ -101,7 +109,7 @@ export function CompetitorMentions({ mentions, discoveredCompetitors }: Competit
                             <div className="flex items-center gap-2 mt-1">
                               <span className="flex items-center gap-1 text-muted-foreground text-xs">
                                 <Calendar className="w-3 h-3" />
-                                {mention.date}
+                                {formatItemDate(mention)}
                               </span>
                             </div>
                           )}
@@ -131,9 +139,10 @@ export function CompetitorMentions({ mentions, discoveredCompetitors }: Competit
                 </div>
               </div>
             ))}
+            <CredibilityToggle hiddenCount={hiddenCount} showAll={showAll} onToggle={toggleShowAll} />
           </div>
         ) : (
-          <p className="text-muted-foreground text-sm">No mentions found across these competitors</p>
+          <p className="text-muted-foreground text-sm">{labels.empty.competitorMentions}</p>
         )}
       </div>
     </SectionCard>
@@ -0,0 +1,39 @@
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Corroboration } from '@/types/analysis';
+
+interface CorroborationBadgeProps {
+  corroboration?: Corroboration;
+}
+
+const corroborationConfig = {
+  corroborated: {
+    label: 'Corroborated',
+    title: 'Reported by both providers in consensus mode',
+    className: 'bg-emerald-500/15 text-emerald-600 dark:text-emerald-400 border-emerald-500/30',
+    icon: ShieldCheck
+  },
+  unconfirmed: {
+    label: 'Unconfirmed',
+    title: 'Reported by only one provider in consensus mode - verify before relying on it',
+    className: 'bg-amber-500/15 text-amber-600 dark:text-amber-400 border-amber-500/30',
+    icon: ShieldAlert
+  }
+};
+
+// Consensus mode marker; renders nothing for items that weren't cross-checked
+export function CorroborationBadge({ corroboration }: CorroborationBadgeProps) {
+  if (!corroboration) return null;
+  const config = corroborationConfig[corroboration];
+  const Icon = config.icon;
+
+  return (
+    <span
+      title={config.title}
+      className={cn('inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium border flex-shrink-0', config.className)}
+    >
+      <Icon className="w-3 h-3" />
+      {config.label}
+    </span>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, ShieldAlert } from 'lucide-react';
+import { SourceCredibility } from '@/types/analysis';
+import { LOW_CREDIBILITY_THRESHOLD, rankByCredibility } from '@/lib/services/sourceCredibility';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
+
+interface CredibilityFilterOptions<T> {
+  limit?: number; // Items shown before "show all"
+  compare?: (a: T, b: T) => number; // Order instead of credibility, e.g. by date; credibility breaks ties
+}
+
+/**
+ * Items most credible first (or in `compare` order). Until `showAll` is
+ * switched on, low-credibility items are left out and the rest capped at
+ * `limit`.
+ */
+export function useCredibilityFilter<T extends { credibility?: SourceCredibility }>(items: T[], { limit, compare }: CredibilityFilterOptions<T> = {}) {
+  const [showAll, setShowAll] = useState(false);
+  const { credible, lowCredibility } = rankByCredibility(items);
+  if (compare) {
+    credible.sort(compare);
+    lowCredibility.sort(compare);
+  }
+  const collapsed = credible.slice(0, limit);
+  return {
+    shown: showAll ? [...credible, ...lowCredibility] : collapsed,
+    hiddenCount: items.length - collapsed.length,
+    showAll,
+    toggleShowAll: () => setShowAll(value => !value)
+  };
+}
+
+interface CredibilityToggleProps {
+  hiddenCount: number;
+  showAll: boolean;
+  onToggle: () => void;
+}
+
+// "Show all (n)" under a section with hidden items; nothing otherwise
+export function CredibilityToggle({ hiddenCount, showAll, onToggle }: CredibilityToggleProps) {
+  const labels = useAnalysisLabels();
+  if (hiddenCount === 0) return null;
+  const Icon = showAll ? ChevronUp : ChevronDown;
+
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      className="flex items-center gap-1 mt-2 text-xs text-muted-foreground hover:text-foreground transition-colors"
+    >
+      <Icon className="w-3 h-3" />
+      {showAll ? labels.credibility.showLess : `${labels.credibility.showAll} (${hiddenCount})`}
+    </button>
+  );
+}
+
+// Tags items only shown because "show all" is on
+export function LowCredibilityTag({ credibility }: { credibility?: SourceCredibility }) {
+  const labels = useAnalysisLabels();
+  if (!credibility || credibility.score >= LOW_CREDIBILITY_THRESHOLD) return null;
+
+  return (
+    <span
+      title={`${labels.credibility.score}: ${credibility.score}/100`}
+      className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium border flex-shrink-0 bg-muted text-muted-foreground border-border"
+    >
+      <ShieldAlert className="w-3 h-3" />
+      {labels.credibility.low}
+    </span>
+  );
+}
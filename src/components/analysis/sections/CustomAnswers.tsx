@@ -0,0 +1,53 @@
+import { MessageCircleQuestion } from 'lucide-react';
+import { SectionCard } from '../SectionCard';
+import { CustomAnswer } from '@/types/analysis';
+import { isValidHttpUrl } from '@/lib/utils';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
+
+interface CustomAnswersProps {
+  answers: CustomAnswer[];
+}
+
+function extractHostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+// One card per research question, titled with the question
+export function CustomAnswers({ answers }: CustomAnswersProps) {
+  const labels = useAnalysisLabels();
+  return (
+    <>
+      {answers.map((answer, i) => {
+        const sources = answer.sources.filter(isValidHttpUrl);
+        return (
+          <SectionCard key={i} title={answer.question} icon={MessageCircleQuestion} color="purple">
+            {answer.answer ? (
+              <p className="text-foreground text-sm leading-relaxed">{answer.answer}</p>
+            ) : (
+              <p className="text-muted-foreground text-sm">{labels.empty.customAnswer}</p>
+            )}
+            {sources.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {sources.map((url, j) => (
+                  <a
+                    key={j}
+                    href={url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="px-2 py-1 bg-muted hover:bg-accent rounded-full text-xs text-muted-foreground hover:text-foreground transition-colors truncate max-w-[12rem]"
+                  >
+                    {extractHostname(url)}
+                  </a>
+                ))}
+              </div>
+            )}
+          </SectionCard>
+        );
+      })}
+    </>
+  );
+}
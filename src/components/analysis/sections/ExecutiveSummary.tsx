@@ -1,15 +1,36 @@
 import { Building2 } from 'lucide-react';
 import { SectionCard } from '../SectionCard';
+import { CitationMarks, Footnotes, collectFootnotes } from './Citations';
+import { GroundedClaim } from '@/types/analysis';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
 
 interface ExecutiveSummaryProps {
   summary: string;
+  claims?: GroundedClaim[]; // The summary split into sentences, with their sources
   className?: string;
 }
 
-export function ExecutiveSummary({ summary, className = "lg:col-span-2 xl:col-span-3" }: ExecutiveSummaryProps) {
+export function ExecutiveSummary({ summary, claims, className = "lg:col-span-2 xl:col-span-3" }: ExecutiveSummaryProps) {
+  const labels = useAnalysisLabels();
+  const footnotes = collectFootnotes(claims || []);
   return (
-    <SectionCard title="Executive Summary" icon={Building2} color="emerald" className={className}>
-      <p className="text-foreground leading-relaxed">{summary}</p>
+    <SectionCard title={labels.sections.executiveSummary} icon={Building2} color="emerald" className={className}>
+      {claims && claims.length > 0 ? (
+        <>
+          <p className="text-foreground leading-relaxed">
+            {claims.map((claim, i) => (
+              <span key={i}>
+                {i > 0 && !/[。！？]$/.test(claims[i - 1].text) && ' '}
+                {claim.text}
+                <CitationMarks claim={claim} footnotes={footnotes} />
+              </span>
+            ))}
+          </p>
+          <Footnotes footnotes={footnotes} />
+        </>
+      ) : (
+        <p className="text-foreground leading-relaxed">{summary}</p>
+      )}
     </SectionCard>
   );
 }
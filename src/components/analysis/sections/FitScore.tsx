@@ -0,0 +1,46 @@
+import { Target } from 'lucide-react';
+import { SectionCard } from '../SectionCard';
+import { FitScore as FitScoreType } from '@/types/analysis';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
+import { cn } from '@/lib/utils';
+import { fitScoreClasses } from './FitScoreBadge';
+
+interface FitScoreProps {
+  fitScore: FitScoreType;
+  className?: string;
+}
+
+// Overall score with each factor's points and the analysis items behind them
+export function FitScore({ fitScore, className }: FitScoreProps) {
+  const labels = useAnalysisLabels();
+  const classes = fitScoreClasses(fitScore.score);
+  // Factors weighted to zero don't affect the score
+  const factors = fitScore.factors.filter(f => f.maxPoints > 0);
+
+  return (
+    <SectionCard title={labels.fitScore.title} icon={Target} color="emerald" className={className}>
+      <div className="flex flex-col sm:flex-row gap-6">
+        <div className="flex sm:flex-col items-center justify-center gap-2 sm:w-32 flex-shrink-0">
+          <span className={cn('text-5xl font-bold', classes.text)}>{fitScore.score}</span>
+          <span className="text-muted-foreground text-sm">/ 100</span>
+        </div>
+        <div className="flex-1 grid gap-3 sm:grid-cols-2">
+          {factors.map(factor => (
+            <div key={factor.factor} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-foreground">{labels.fitScore.factors[factor.factor]}</span>
+                <span className="text-muted-foreground tabular-nums">{factor.points} / {factor.maxPoints}</span>
+              </div>
+              <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                <div className={cn('h-full rounded-full', classes.bar)} style={{ width: `${factor.signal * 100}%` }} />
+              </div>
+              <p className="text-xs text-muted-foreground truncate" title={factor.evidence.join(', ')}>
+                {factor.evidence.length > 0 ? factor.evidence.join(', ') : labels.fitScore.noSignal}
+              </p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </SectionCard>
+  );
+}
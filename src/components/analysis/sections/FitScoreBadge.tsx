@@ -0,0 +1,25 @@
+import { Target } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface FitScoreBadgeProps {
+  score: number;
+  className?: string;
+}
+
+// Colour bands for a 0-100 fit score
+export function fitScoreClasses(score: number): { bg: string; text: string; bar: string } {
+  if (score >= 70) return { bg: 'bg-emerald-500/20', text: 'text-emerald-400', bar: 'bg-emerald-500' };
+  if (score >= 40) return { bg: 'bg-amber-500/20', text: 'text-amber-400', bar: 'bg-amber-500' };
+  return { bg: 'bg-muted', text: 'text-muted-foreground', bar: 'bg-muted-foreground' };
+}
+
+// Compact score for lists such as history and bookmarks
+export function FitScoreBadge({ score, className }: FitScoreBadgeProps) {
+  const classes = fitScoreClasses(score);
+  return (
+    <span className={cn('inline-flex items-center gap-1 text-xs px-1.5 py-0.5 rounded', classes.bg, classes.text, className)}>
+      <Target className="w-3 h-3" />
+      {score}
+    </span>
+  );
+}
@@ -1,5 +1,6 @@
 import { Link as LinkIcon } from 'lucide-react';
 import { isValidHttpUrl } from '@/lib/utils';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
 
 interface GroundingSourcesProps {
   sources: string[];
@@ -14,6 +15,7 @@ function extractHostname(url: string): string {
 }
 
 export function GroundingSources({ sources }: GroundingSourcesProps) {
+  const labels = useAnalysisLabels();
   const validSources = (sources || []).filter(isValidHttpUrl);
   if (validSources.length === 0) return null;
 
@@ -21,7 +23,7 @@ export function GroundingSources({ sources }: GroundingSourcesProps) {
     <div className="mt-8 p-5 bg-card/50 dark:bg-muted/50 rounded-xl border border-border">
       <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider mb-4 flex items-center gap-2">
         <LinkIcon className="w-4 h-4" />
-        Grounding Sources
+        {labels.sections.groundingSources}
       </h3>
       <div className="flex flex-wrap gap-2">
         {validSources.map((url, i) => (
@@ -1,24 +1,37 @@
 import { TrendingUp } from 'lucide-react';
 import { SectionCard } from '../SectionCard';
+import { CitationMarks, Footnotes, collectFootnotes } from './Citations';
+import { GroundedClaim } from '@/types/analysis';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
 
 interface GrowthInitiativesProps {
   initiatives: string[];
+  claims?: GroundedClaim[]; // One per initiative, from the grounding check
 }
 
-export function GrowthInitiatives({ initiatives }: GrowthInitiativesProps) {
+export function GrowthInitiatives({ initiatives, claims = [] }: GrowthInitiativesProps) {
+  const labels = useAnalysisLabels();
+  const shown = initiatives.slice(0, 5);
+  // Items the grounding check didn't see get no marks
+  const shownClaims = shown.map((item, i) => (claims[i]?.text === item ? claims[i] : undefined));
+  const footnotes = collectFootnotes(shownClaims);
   return (
-    <SectionCard title="Growth Initiatives" icon={TrendingUp} color="amber">
+    <SectionCard title={labels.sections.growthInitiatives} icon={TrendingUp} color="amber">
       <ul className="space-y-2">
-        {initiatives.slice(0, 5).map((initiative, i) => (
+        {shown.map((initiative, i) => (
           <li key={i} className="flex items-start gap-2 text-sm">
             <span className="text-amber-600 dark:text-amber-500 font-bold flex-shrink-0">{i + 1}.</span>
-            <span className="text-foreground">{initiative}</span>
+            <span className="text-foreground">
+              {initiative}
+              <CitationMarks claim={shownClaims[i]} footnotes={footnotes} />
+            </span>
           </li>
         ))}
         {initiatives.length === 0 && (
-          <li className="text-muted-foreground text-sm">No data available</li>
+          <li className="text-muted-foreground text-sm">{labels.empty.noData}</li>
         )}
       </ul>
+      <Footnotes footnotes={footnotes} />
     </SectionCard>
   );
 }
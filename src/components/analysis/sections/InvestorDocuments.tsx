@@ -1,11 +1,19 @@
+'use client';
+
 import { Briefcase, ExternalLink, Link as LinkIcon, Lock, FileText, Presentation } from 'lucide-react';
 import { SectionCard } from '../SectionCard';
-import { LinkItem } from '@/types/analysis';
+import { LinkCheck, LinkItem } from '@/types/analysis';
 import { CompanyInfo } from '@/components/layout/Header';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
+import { LinkHealthBadge } from './LinkHealthBadge';
+import { CredibilityToggle, LowCredibilityTag, useCredibilityFilter } from './CredibilityFilter';
 
 interface InvestorDocumentsProps {
   documents: LinkItem[];
   companyInfo?: CompanyInfo | null;
+  linkHealth?: Record<string, LinkCheck>;
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
 }
 
 function isPresentationItem(doc: LinkItem): boolean {
@@ -25,7 +33,11 @@ function isValidHttpUrl(url: string): boolean {
   }
 }
 
-export function InvestorDocuments({ documents, companyInfo }: InvestorDocumentsProps) {
+export function InvestorDocuments({ documents, companyInfo, linkHealth, onRefresh, isRefreshing }: InvestorDocumentsProps) {
+  const labels = useAnalysisLabels();
+  // The investor presentation, listed first, stays pinned above the ranked documents
+  const presentation = documents[0] && isPresentationItem(documents[0]) ? documents[0] : null;
+  const { shown, hiddenCount, showAll, toggleShowAll } = useCredibilityFilter(presentation ? documents.slice(1) : documents);
   const isPrivate = companyInfo && (
     companyInfo.publicStatus === 'private' ||
     companyInfo.publicStatus === 'went_private' ||
@@ -64,7 +76,7 @@ export function InvestorDocuments({ documents, companyInfo }: InvestorDocumentsP
   if (isPrivate && !hasValidDocs) {
     const privateMsg = getPrivateMessage();
     return (
-      <SectionCard title="Investor Documents" icon={Briefcase} color="amber">
+      <SectionCard title={labels.sections.investorDocs} icon={Briefcase} color="amber">
         <div className="py-4 text-center">
           <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center mx-auto mb-3">
             <Lock className="w-5 h-5 text-muted-foreground" />
@@ -83,7 +95,7 @@ export function InvestorDocuments({ documents, companyInfo }: InvestorDocumentsP
   }
 
   return (
-    <SectionCard title="Investor Documents" icon={Briefcase} color="amber">
+    <SectionCard title={labels.sections.investorDocs} icon={Briefcase} color="amber" onRefresh={onRefresh} isRefreshing={isRefreshing}>
       <div className="space-y-1">
         {/* Show context for formerly public or pre-IPO companies */}
         {isPrivate && hasValidDocs && (
@@ -94,9 +106,9 @@ export function InvestorDocuments({ documents, companyInfo }: InvestorDocumentsP
             </p>
           </div>
         )}
-        {documents.map((doc, i) => {
+        {(presentation ? [presentation, ...shown] : shown).map((doc, i) => {
           const hasValidUrl = isValidHttpUrl(doc.url);
-          const isPresentation = i === 0 && isPresentationItem(doc);
+          const isPresentation = doc === presentation;
           const Icon = isPresentation ? Presentation : LinkIcon;
           return (
             <div key={i} className={`py-2 border-b border-border/50 last:border-0 ${isPresentation ? 'rounded-md border border-amber-300 dark:border-amber-600 bg-amber-50/50 dark:bg-amber-950/20 px-3 mb-2' : ''}`}>
@@ -120,6 +132,8 @@ export function InvestorDocuments({ documents, companyInfo }: InvestorDocumentsP
                           {doc.title}
                         </span>
                         <ExternalLink className="w-3 h-3 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+                        <LinkHealthBadge check={linkHealth?.[doc.url]} />
+                        <LowCredibilityTag credibility={doc.credibility} />
                       </div>
                       {doc.summary && (
                         <p className="text-muted-foreground text-xs mt-1 line-clamp-2">{doc.summary}</p>
@@ -146,8 +160,9 @@ export function InvestorDocuments({ documents, companyInfo }: InvestorDocumentsP
             </div>
           );
         })}
+        <CredibilityToggle hiddenCount={hiddenCount} showAll={showAll} onToggle={toggleShowAll} />
         {documents.length === 0 && !isPrivate && (
-          <p className="text-muted-foreground text-sm">No documents found</p>
+          <p className="text-muted-foreground text-sm">{labels.empty.investorDocs}</p>
         )}
       </div>
     </SectionCard>
@@ -1,24 +1,37 @@
 import { Target } from 'lucide-react';
 import { SectionCard } from '../SectionCard';
+import { CitationMarks, Footnotes, collectFootnotes } from './Citations';
+import { GroundedClaim } from '@/types/analysis';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
 
 interface KeyPrioritiesProps {
   priorities: string[];
+  claims?: GroundedClaim[]; // One per priority, from the grounding check
 }
 
-export function KeyPriorities({ priorities }: KeyPrioritiesProps) {
+export function KeyPriorities({ priorities, claims = [] }: KeyPrioritiesProps) {
+  const labels = useAnalysisLabels();
+  const shown = priorities.slice(0, 5);
+  // Items the grounding check didn't see get no marks
+  const shownClaims = shown.map((item, i) => (claims[i]?.text === item ? claims[i] : undefined));
+  const footnotes = collectFootnotes(shownClaims);
   return (
-    <SectionCard title="Key Priorities" icon={Target} color="amber">
+    <SectionCard title={labels.sections.keyPriorities} icon={Target} color="amber">
       <ul className="space-y-2">
-        {priorities.slice(0, 5).map((priority, i) => (
+        {shown.map((priority, i) => (
           <li key={i} className="flex items-start gap-2 text-sm">
             <span className="text-amber-600 dark:text-amber-500 font-bold flex-shrink-0">{i + 1}.</span>
-            <span className="text-foreground">{priority}</span>
+            <span className="text-foreground">
+              {priority}
+              <CitationMarks claim={shownClaims[i]} footnotes={footnotes} />
+            </span>
           </li>
         ))}
         {priorities.length === 0 && (
-          <li className="text-muted-foreground text-sm">No data available</li>
+          <li className="text-muted-foreground text-sm">{labels.empty.noData}</li>
         )}
       </ul>
+      <Footnotes footnotes={footnotes} />
     </SectionCard>
   );
 }
@@ -2,37 +2,52 @@
 
 import { Users, ExternalLink } from 'lucide-react';
 import { SectionCard } from '../SectionCard';
-import { LeadershipChangeItem } from '@/types/analysis';
+import { LeadershipChangeItem, LinkCheck } from '@/types/analysis';
 import { isValidHttpUrl } from '@/lib/utils';
+import { CorroborationBadge } from './CorroborationBadge';
+import { LinkHealthBadge } from './LinkHealthBadge';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
+import { compareByDateDesc, formatItemDate } from '@/lib/services/dateNormalization';
 
 interface LeadershipChangesProps {
   changes: LeadershipChangeItem[];
+  linkHealth?: Record<string, LinkCheck>;
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
 }
 
-export function LeadershipChanges({ changes }: LeadershipChangesProps) {
+export function LeadershipChanges({ changes, linkHealth, onRefresh, isRefreshing }: LeadershipChangesProps) {
+  const labels = useAnalysisLabels();
   return (
-    <SectionCard title="Leadership News" icon={Users} color="blue" className="xl:col-span-1">
+    <SectionCard title={labels.sections.leadershipChanges} icon={Users} color="blue" className="xl:col-span-1" onRefresh={onRefresh} isRefreshing={isRefreshing}>
       <div className="space-y-2">
         {changes.length > 0 ? (
-          changes.slice(0, 6).map((change, i) => {
+          [...changes].sort(compareByDateDesc).slice(0, 6).map((change, i) => {
             const hasValidUrl = change.url && isValidHttpUrl(change.url);
+            const date = formatItemDate(change);
             const inner = (
               <div className="flex items-start gap-2">
                 {hasValidUrl && <ExternalLink className="w-4 h-4 text-blue-500 mt-0.5 flex-shrink-0" />}
                 <div className="flex-1 min-w-0">
-                  <h4 className="text-foreground text-sm font-medium line-clamp-2 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
-                    {change.name}
-                  </h4>
+                  <div className="flex items-start justify-between gap-2">
+                    <h4 className="text-foreground text-sm font-medium line-clamp-2 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
+                      {change.name}
+                    </h4>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <CorroborationBadge corroboration={change.corroboration} />
+                      {change.url && <LinkHealthBadge check={linkHealth?.[change.url]} />}
+                    </div>
+                  </div>
                   {change.role && (
                     <p className="text-muted-foreground text-xs mt-1 line-clamp-2">
                       {change.role}
                     </p>
                   )}
-                  {(change.date || change.source) && (
+                  {(date || change.source) && (
                     <p className="text-blue-600/70 dark:text-blue-400/70 text-xs mt-1.5">
-                      {change.date && change.source
-                        ? `${change.date} • ${change.source}`
-                        : change.date || change.source}
+                      {date && change.source
+                        ? `${date} • ${change.source}`
+                        : date || change.source}
                     </p>
                   )}
                 </div>
@@ -59,7 +74,7 @@ export function LeadershipChanges({ changes }: LeadershipChangesProps) {
             );
           })
         ) : (
-          <p className="text-muted-foreground text-sm">No recent leadership news found</p>
+          <p className="text-muted-foreground text-sm">{labels.empty.leadershipChanges}</p>
         )}
       </div>
     </SectionCard>
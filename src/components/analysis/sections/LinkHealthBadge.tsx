@@ -0,0 +1,37 @@
+import { Link2Off, Lock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { LinkCheck } from '@/types/analysis';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
+
+interface LinkHealthBadgeProps {
+  check?: LinkCheck;
+}
+
+const linkHealthConfig = {
+  dead: { className: 'bg-red-500/15 text-red-600 dark:text-red-400 border-red-500/30', icon: Link2Off },
+  paywall: { className: 'bg-amber-500/15 text-amber-600 dark:text-amber-400 border-amber-500/30', icon: Lock }
+};
+
+// Tags dead and paywalled links; renders nothing for working, unreachable or unchecked ones
+export function LinkHealthBadge({ check }: LinkHealthBadgeProps) {
+  const labels = useAnalysisLabels();
+  if (!check || (check.status !== 'dead' && check.status !== 'paywall')) return null;
+  const config = linkHealthConfig[check.status];
+  const Icon = config.icon;
+
+  const details = [
+    check.httpStatus ? `HTTP ${check.httpStatus}` : null,
+    check.finalUrl ? `→ ${check.finalUrl}` : null,
+    `${labels.linkHealth.checked} ${new Date(check.checkedAt).toLocaleDateString()}`
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <span
+      title={details}
+      className={cn('inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium border flex-shrink-0', config.className)}
+    >
+      <Icon className="w-3 h-3" />
+      {labels.linkHealth[check.status]}
+    </span>
+  );
+}
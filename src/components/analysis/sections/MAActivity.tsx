@@ -1,14 +1,17 @@
 import { Briefcase } from 'lucide-react';
 import { SectionCard } from '../SectionCard';
 import { MAItem } from '@/types/analysis';
+import { CorroborationBadge } from './CorroborationBadge';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
 
 interface MAActivityProps {
   activity: MAItem[];
 }
 
 export function MAActivity({ activity }: MAActivityProps) {
+  const labels = useAnalysisLabels();
   return (
-    <SectionCard title="M&A Activity" icon={Briefcase} color="blue">
+    <SectionCard title={labels.sections.maActivity} icon={Briefcase} color="blue">
       <div className="space-y-3">
         {activity.slice(0, 5).map((deal, i) => (
           <div key={i} className="p-3 bg-card/50 dark:bg-muted/50 rounded-lg">
@@ -24,7 +27,10 @@ export function MAActivity({ activity }: MAActivityProps) {
               >
                 {deal.type || 'Deal'}
               </span>
-              <span className="text-muted-foreground text-xs">{deal.year || ''}</span>
+              <span className="flex items-center gap-2">
+                <CorroborationBadge corroboration={deal.corroboration} />
+                <span className="text-muted-foreground text-xs">{deal.year || ''}</span>
+              </span>
             </div>
             <div className="text-foreground font-medium text-sm">{deal.target || '-'}</div>
             {deal.dealValue && (
@@ -36,7 +42,7 @@ export function MAActivity({ activity }: MAActivityProps) {
           </div>
         ))}
         {activity.length === 0 && (
-          <p className="text-muted-foreground text-sm">No M&A activity found</p>
+          <p className="text-muted-foreground text-sm">{labels.empty.maActivity}</p>
         )}
       </div>
     </SectionCard>
@@ -1,12 +1,18 @@
 'use client';
 
-import { AlertTriangle, ExternalLink, DollarSign, Calendar, Building2, Newspaper } from 'lucide-react';
+import { AlertTriangle, ExternalLink, DollarSign, Calendar, Building2, Newspaper, ShieldCheck } from 'lucide-react';
 import { SectionCard } from '../SectionCard';
 import { RegulatoryEventItem } from '@/types/analysis';
 import { isValidHttpUrl } from '@/lib/utils';
+import { CorroborationBadge } from './CorroborationBadge';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
+import { compareByDateDesc, formatItemDate } from '@/lib/services/dateNormalization';
+import { CredibilityToggle, LowCredibilityTag, useCredibilityFilter } from './CredibilityFilter';
 
 interface RegulatoryEventsProps {
   events: RegulatoryEventItem[];
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
 }
 
 // Event type colors and labels (light mode / dark mode)
@@ -26,105 +32,121 @@ function getEventTypeInfo(eventType: string) {
   return EVENT_TYPE_INFO[eventType] || EVENT_TYPE_INFO.other;
 }
 
-export function RegulatoryEvents({ events }: RegulatoryEventsProps) {
+export function RegulatoryEvents({ events, onRefresh, isRefreshing }: RegulatoryEventsProps) {
+  const labels = useAnalysisLabels();
+  const { shown, hiddenCount, showAll, toggleShowAll } = useCredibilityFilter(events, { compare: compareByDateDesc });
   return (
-    <SectionCard title="Regulatory Events" icon={AlertTriangle} color="red">
+    <SectionCard title={labels.sections.regulatoryEvents} icon={AlertTriangle} color="red" onRefresh={onRefresh} isRefreshing={isRefreshing}>
       <div className="space-y-3">
         <p className="text-muted-foreground text-xs mb-3">
           Enforcement actions, fines, and settlements from the past 5 years
         </p>
 
         {events.length > 0 ? (
-          events.map((event, i) => {
-            const typeInfo = getEventTypeInfo(event.eventType);
-            const hasUrl = event.url && isValidHttpUrl(event.url);
+          <>
+            {shown.map((event, i) => {
+              const typeInfo = getEventTypeInfo(event.eventType);
+              const hasUrl = event.url && isValidHttpUrl(event.url);
 
-            const content = (
-              <>
-                <div className="flex flex-wrap items-center gap-2 mb-2">
-                  <span className={`px-2 py-0.5 rounded text-xs font-semibold border ${typeInfo.color}`}>
-                    {typeInfo.label}
-                  </span>
-                  <span className="flex items-center gap-1 text-muted-foreground text-xs">
-                    <Building2 className="w-3 h-3" />
-                    {event.regulatoryBody}
-                  </span>
-                  <span className="flex items-center gap-1 text-muted-foreground text-xs">
-                    <Calendar className="w-3 h-3" />
-                    {event.date}
-                  </span>
-                  {event.amount && (
-                    <span className="flex items-center gap-1 text-red-600 dark:text-red-400 text-xs font-medium">
-                      <DollarSign className="w-3 h-3" />
-                      {event.amount}
+              const content = (
+                <>
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <span className={`px-2 py-0.5 rounded text-xs font-semibold border ${typeInfo.color}`}>
+                      {typeInfo.label}
                     </span>
-                  )}
-                </div>
+                    <span className="flex items-center gap-1 text-muted-foreground text-xs">
+                      <Building2 className="w-3 h-3" />
+                      {event.regulatoryBody}
+                    </span>
+                    {event.official && (
+                      <span
+                        title={labels.regulatory.officialHint}
+                        className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium border bg-emerald-100 dark:bg-emerald-500/20 text-emerald-700 dark:text-emerald-400 border-emerald-300 dark:border-emerald-500/30"
+                      >
+                        <ShieldCheck className="w-3 h-3" />
+                        {labels.regulatory.official}
+                      </span>
+                    )}
+                    <span className="flex items-center gap-1 text-muted-foreground text-xs">
+                      <Calendar className="w-3 h-3" />
+                      {formatItemDate(event)}
+                    </span>
+                    {event.amount && (
+                      <span className="flex items-center gap-1 text-red-600 dark:text-red-400 text-xs font-medium">
+                        <DollarSign className="w-3 h-3" />
+                        {event.amount}
+                      </span>
+                    )}
+                    <CorroborationBadge corroboration={event.corroboration} />
+                    <LowCredibilityTag credibility={event.credibility} />
+                  </div>
 
-                <div className="flex items-start justify-between gap-2">
-                  <p className="text-foreground text-sm line-clamp-2 group-hover:text-foreground/80 transition-colors">
-                    {event.description}
-                  </p>
-                  {hasUrl && (
-                    <ExternalLink className="w-4 h-4 text-muted-foreground flex-shrink-0 opacity-0 group-hover:opacity-100 transition-opacity mt-0.5" />
-                  )}
-                </div>
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="text-foreground text-sm line-clamp-2 group-hover:text-foreground/80 transition-colors">
+                      {event.description}
+                    </p>
+                    {hasUrl && (
+                      <ExternalLink className="w-4 h-4 text-muted-foreground flex-shrink-0 opacity-0 group-hover:opacity-100 transition-opacity mt-0.5" />
+                    )}
+                  </div>
 
-                {/* Additional sources for deduplicated events */}
-                {event.sources && event.sources.length > 0 && (
-                  <div className="mt-2 pt-2 border-t border-border/50">
-                    <div className="flex items-center gap-1.5 mb-1.5">
-                      <Newspaper className="w-3 h-3 text-muted-foreground" />
-                      <span className="text-xs text-muted-foreground">
-                        {event.sources.length + 1} sources reporting this event
-                      </span>
-                    </div>
-                    <div className="flex flex-wrap gap-2">
-                      {event.sources.filter(source => isValidHttpUrl(source.url)).map((source, j) => (
-                        <a
-                          key={j}
-                          href={source.url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          onClick={(e) => e.stopPropagation()}
-                          className="inline-flex items-center gap-1 px-2 py-1 bg-muted/50 hover:bg-muted rounded text-xs text-muted-foreground hover:text-foreground transition-colors"
-                          title={source.title || source.url}
-                        >
-                          <ExternalLink className="w-3 h-3" />
-                          <span className="truncate max-w-[160px] sm:max-w-[120px]">
-                            {source.regulatoryBody || new URL(source.url).hostname.replace('www.', '')}
-                          </span>
-                        </a>
-                      ))}
+                  {/* Additional sources for deduplicated events */}
+                  {event.sources && event.sources.length > 0 && (
+                    <div className="mt-2 pt-2 border-t border-border/50">
+                      <div className="flex items-center gap-1.5 mb-1.5">
+                        <Newspaper className="w-3 h-3 text-muted-foreground" />
+                        <span className="text-xs text-muted-foreground">
+                          {event.sources.length + 1} sources reporting this event
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {event.sources.filter(source => isValidHttpUrl(source.url)).map((source, j) => (
+                          <a
+                            key={j}
+                            href={source.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            onClick={(e) => e.stopPropagation()}
+                            className="inline-flex items-center gap-1 px-2 py-1 bg-muted/50 hover:bg-muted rounded text-xs text-muted-foreground hover:text-foreground transition-colors"
+                            title={source.title || source.url}
+                          >
+                            <ExternalLink className="w-3 h-3" />
+                            <span className="truncate max-w-[160px] sm:max-w-[120px]">
+                              {source.regulatoryBody || new URL(source.url).hostname.replace('www.', '')}
+                            </span>
+                          </a>
+                        ))}
+                      </div>
                     </div>
-                  </div>
-                )}
-              </>
-            );
+                  )}
+                </>
+              );
 
-            return hasUrl ? (
-              <a
-                key={i}
-                href={event.url}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="block p-3 bg-card/50 dark:bg-muted/50 rounded-lg hover:bg-accent/50 transition-colors group"
-              >
-                {content}
-              </a>
-            ) : (
-              <div
-                key={i}
-                className="block p-3 bg-card/50 dark:bg-muted/50 rounded-lg group"
-              >
-                {content}
-              </div>
-            );
-          })
+              return hasUrl ? (
+                <a
+                  key={i}
+                  href={event.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block p-3 bg-card/50 dark:bg-muted/50 rounded-lg hover:bg-accent/50 transition-colors group"
+                >
+                  {content}
+                </a>
+              ) : (
+                <div
+                  key={i}
+                  className="block p-3 bg-card/50 dark:bg-muted/50 rounded-lg group"
+                >
+                  {content}
+                </div>
+              );
+            })}
+            <CredibilityToggle hiddenCount={hiddenCount} showAll={showAll} onToggle={toggleShowAll} />
+          </>
         ) : (
           <div className="flex items-center gap-2 text-emerald-400 text-sm">
             <div className="w-2 h-2 rounded-full bg-emerald-400" />
-            No regulatory events found in the past 5 years
+            {labels.empty.regulatoryEvents}
           </div>
         )}
       </div>
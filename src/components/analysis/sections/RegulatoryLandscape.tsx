@@ -3,6 +3,7 @@
 import { Shield, ExternalLink } from 'lucide-react';
 import { SectionCard } from '../SectionCard';
 import { RegulatoryBodyMention } from '@/types/analysis';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
 
 interface RegulatoryLandscapeProps {
   regulators: RegulatoryBodyMention[];
@@ -92,8 +93,9 @@ function getRegulatorColor(body: string): string {
 }
 
 export function RegulatoryLandscape({ regulators }: RegulatoryLandscapeProps) {
+  const labels = useAnalysisLabels();
   return (
-    <SectionCard title="Regulatory Landscape" icon={Shield} color="blue">
+    <SectionCard title={labels.sections.regulatoryLandscape} icon={Shield} color="blue">
       <div className="space-y-3">
         {regulators.length > 0 ? (
           regulators.map((regulator, i) => {
@@ -131,7 +133,7 @@ export function RegulatoryLandscape({ regulators }: RegulatoryLandscapeProps) {
             );
           })
         ) : (
-          <p className="text-muted-foreground text-sm">No regulatory information found</p>
+          <p className="text-muted-foreground text-sm">{labels.empty.regulatoryLandscape}</p>
         )}
       </div>
     </SectionCard>
@@ -1,6 +1,7 @@
 import { TrendingUp, TrendingDown, Minus, HelpCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { AnalysisResult } from '@/types/analysis';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
 
 interface SentimentBadgeProps {
   sentiment: AnalysisResult['sentiment'];
@@ -34,6 +35,7 @@ const sentimentConfig = {
 };
 
 export function SentimentBadge({ sentiment }: SentimentBadgeProps) {
+  const labels = useAnalysisLabels();
   const config = sentimentConfig[sentiment] || sentimentConfig.NEUTRAL;
   const Icon = config.icon;
 
@@ -47,7 +49,7 @@ export function SentimentBadge({ sentiment }: SentimentBadgeProps) {
       )}
     >
       <Icon className="w-4 h-4" />
-      {sentiment}
+      {labels.sentiment[sentiment] || sentiment}
     </span>
   );
 }
@@ -1,9 +1,18 @@
+'use client';
+
 import { Cpu, ExternalLink, Link as LinkIcon } from 'lucide-react';
 import { SectionCard } from '../SectionCard';
-import { LinkItem } from '@/types/analysis';
+import { LinkCheck, LinkItem } from '@/types/analysis';
+import { LinkHealthBadge } from './LinkHealthBadge';
+import { CredibilityToggle, LowCredibilityTag, useCredibilityFilter } from './CredibilityFilter';
+import { useAnalysisLabels } from '@/lib/contexts/AnalysisLabelsContext';
+import { compareByDateDesc, formatNormalizedDate, getItemDate } from '@/lib/services/dateNormalization';
 
 interface TechNewsProps {
   news: LinkItem[];
+  linkHealth?: Record<string, LinkCheck>;
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
 }
 
 function isValidHttpUrl(url: string): boolean {
@@ -16,23 +25,16 @@ function isValidHttpUrl(url: string): boolean {
   }
 }
 
-function formatDate(dateStr: string): string | null {
-  try {
-    const date = new Date(dateStr);
-    if (isNaN(date.getTime())) return null;
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
-  } catch {
-    return null;
-  }
-}
-
-export function TechNews({ news }: TechNewsProps) {
+export function TechNews({ news, linkHealth, onRefresh, isRefreshing }: TechNewsProps) {
+  const labels = useAnalysisLabels();
+  const { shown, hiddenCount, showAll, toggleShowAll } = useCredibilityFilter(news, { limit: 10, compare: compareByDateDesc });
   return (
-    <SectionCard title="AI & Technology News" icon={Cpu} color="cyan" className="xl:col-span-2">
+    <SectionCard title={labels.sections.techNews} icon={Cpu} color="cyan" className="xl:col-span-2" onRefresh={onRefresh} isRefreshing={isRefreshing}>
       <div className="space-y-1">
-        {news.slice(0, 10).map((item, i) => {
+        {shown.map((item, i) => {
           const hasValidUrl = isValidHttpUrl(item.url);
-          const formattedDate = item.date ? formatDate(item.date) : null;
+          const itemDate = getItemDate(item);
+          const formattedDate = itemDate ? formatNormalizedDate(itemDate) : null;
           return (
             <div key={i} className="py-2 border-b border-gray-200 dark:border-zinc-800/50 last:border-0">
               {hasValidUrl ? (
@@ -53,6 +55,8 @@ export function TechNews({ news }: TechNewsProps) {
                         {formattedDate && (
                           <span className="text-gray-400 dark:text-muted-foreground/60 text-xs whitespace-nowrap flex-shrink-0">{formattedDate}</span>
                         )}
+                        <LinkHealthBadge check={linkHealth?.[item.url]} />
+                        <LowCredibilityTag credibility={item.credibility} />
                       </div>
                       {item.summary && (
                         <p className="text-gray-600 dark:text-muted-foreground text-xs mt-1 line-clamp-2">{item.summary}</p>
@@ -79,8 +83,9 @@ export function TechNews({ news }: TechNewsProps) {
             </div>
           );
         })}
+        <CredibilityToggle hiddenCount={hiddenCount} showAll={showAll} onToggle={toggleShowAll} />
         {news.length === 0 && (
-          <p className="text-muted-foreground text-sm">No technology news found</p>
+          <p className="text-muted-foreground text-sm">{labels.empty.techNews}</p>
         )}
       </div>
     </SectionCard>
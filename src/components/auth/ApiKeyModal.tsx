@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { ExternalLink, Eye, EyeOff, Check, Settings, Key, Search, Cpu, Loader2, X, CheckCircle2, XCircle, Users, Trash2, Shield, ShieldOff, User, LineChart, Sun, Moon, Monitor, Sliders } from 'lucide-react';
+import { ExternalLink, Eye, EyeOff, Check, Settings, Key, Search, Cpu, Loader2, X, CheckCircle2, XCircle, Users, Trash2, Shield, ShieldOff, User, LineChart, Sun, Moon, Monitor, Sliders, ArrowUp, ArrowDown, Plus, FileText, Languages, Building2 } from 'lucide-react';
 import { useTheme } from 'next-themes';
 import { useAuth } from '@/lib/contexts/AuthContext';
 import {
@@ -13,7 +13,19 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { ProviderName, PROVIDER_INFO } from '@/types/analysis';
+import { PromptEditor } from '@/components/admin/PromptEditor';
+import { CompetitorEditor } from '@/components/admin/CompetitorEditor';
+import { LinkHealthRecheck } from '@/components/admin/LinkHealthRecheck';
+import { ResearchQuestionsEditor } from './ResearchQuestionsEditor';
+import { FitScoreWeightsEditor } from './FitScoreWeightsEditor';
+import { SourceDomainTiersEditor } from './SourceDomainTiersEditor';
+import { RecencyWindowsEditor } from './RecencyWindowsEditor';
+import { FitScoreWeights, OutputLanguage, ProviderModelSetting, ProviderName, PROVIDER_INFO, RecencyWindows, SourceDomainTiers } from '@/types/analysis';
+import { DEFAULT_OUTPUT_LANGUAGE, OUTPUT_LANGUAGES, isOutputLanguage } from '@/lib/config/languages';
+import { MAX_RESEARCH_QUESTIONS, normalizeResearchQuestions, parseStoredResearchQuestions } from '@/lib/services/researchQuestions';
+import { DEFAULT_FIT_SCORE_WEIGHTS } from '@/lib/services/fitScore';
+import { DEFAULT_SOURCE_DOMAIN_TIERS } from '@/lib/services/sourceCredibility';
+import { DEFAULT_RECENCY_WINDOWS } from '@/lib/services/dateNormalization';
 import { WebSearchProvider } from '@/lib/hooks/useApiKeys';
 
 
@@ -21,9 +33,16 @@ interface SaveSettings {
   provider: ProviderName;
   model: string;
   apiKey?: string;
+  baseUrl?: string; // Self-hosted server URL
   webSearchProvider: WebSearchProvider;
   tavilyKey?: string | null;
   webSearchKey?: string | null;
+  failoverProviders: ProviderModelSetting[];
+  consensusProvider: ProviderModelSetting | null;
+  researchQuestions: string[];
+  fitScoreWeights: FitScoreWeights;
+  sourceDomainTiers: SourceDomainTiers;
+  recencyWindows: RecencyWindows;
 }
 
 interface UserProfile {
@@ -41,9 +60,17 @@ interface ApiKeyModalProps {
   selectedProvider: ProviderName;
   selectedModel: string;
   currentKey?: string;
+  selfHostedModel?: string;
+  selfHostedBaseUrl?: string;
   webSearchProvider: WebSearchProvider;
   tavilyApiKey?: string;
   webSearchApiKey?: string;
+  failoverProviders?: ProviderModelSetting[];
+  consensusProvider?: ProviderModelSetting | null;
+  researchQuestions?: string[];
+  fitScoreWeights?: FitScoreWeights;
+  sourceDomainTiers?: SourceDomainTiers;
+  recencyWindows?: RecencyWindows;
   onSaveAll: (settings: SaveSettings) => Promise<void>;
 }
 
@@ -54,9 +81,17 @@ export function ApiKeyModal({
   selectedProvider: initialProvider,
   selectedModel: initialModel,
   currentKey,
+  selfHostedModel = '',
+  selfHostedBaseUrl = '',
   webSearchProvider: initialWebSearchProvider,
   tavilyApiKey,
   webSearchApiKey,
+  failoverProviders: initialFailoverProviders = [],
+  consensusProvider: initialConsensusProvider = null,
+  researchQuestions: initialResearchQuestions = [],
+  fitScoreWeights: initialFitScoreWeights = DEFAULT_FIT_SCORE_WEIGHTS,
+  sourceDomainTiers: initialSourceDomainTiers = DEFAULT_SOURCE_DOMAIN_TIERS,
+  recencyWindows: initialRecencyWindows = DEFAULT_RECENCY_WINDOWS,
   onSaveAll
 }: ApiKeyModalProps) {
   const { theme, setTheme } = useTheme();
@@ -64,13 +99,20 @@ export function ApiKeyModal({
   const [selectedProvider, setSelectedProvider] = useState<ProviderName>(initialProvider);
   const [selectedModel, setSelectedModel] = useState(initialModel);
   const [apiKey, setApiKey] = useState('');
+  const [baseUrl, setBaseUrl] = useState(selfHostedBaseUrl);
   const [showKey, setShowKey] = useState(false);
   const [tavilyKey, setTavilyKey] = useState('');
   const [showTavilyKey, setShowTavilyKey] = useState(false);
   const [webKey, setWebKey] = useState('');
   const [showWebKey, setShowWebKey] = useState(false);
   const [webSearchProvider, setWebSearchProvider] = useState<WebSearchProvider>(initialWebSearchProvider);
-  const [activeTab, setActiveTab] = useState<'preferences' | 'provider' | 'websearch' | 'users'>('preferences');
+  const [failoverChain, setFailoverChain] = useState<ProviderModelSetting[]>(initialFailoverProviders);
+  const [consensusProvider, setConsensusProvider] = useState<ProviderModelSetting | null>(initialConsensusProvider);
+  const [adminQuestions, setAdminQuestions] = useState<string[]>(initialResearchQuestions);
+  const [fitScoreWeights, setFitScoreWeights] = useState<FitScoreWeights>(initialFitScoreWeights);
+  const [sourceDomainTiers, setSourceDomainTiers] = useState<SourceDomainTiers>(initialSourceDomainTiers);
+  const [recencyWindows, setRecencyWindows] = useState<RecencyWindows>(initialRecencyWindows);
+  const [activeTab, setActiveTab] = useState<'preferences' | 'provider' | 'websearch' | 'prompts' | 'competitors' | 'users'>('preferences');
   const [testingKey, setTestingKey] = useState(false);
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [loadingUsers, setLoadingUsers] = useState(false);
@@ -83,12 +125,17 @@ export function ApiKeyModal({
   const [webSearchTestResult, setWebSearchTestResult] = useState<{ valid: boolean; error?: string } | null>(null);
   const [saving, setSaving] = useState(false);
   const [stockChartEnabled, setStockChartEnabled] = useState(false);
+  const [outputLanguage, setOutputLanguage] = useState<OutputLanguage>(DEFAULT_OUTPUT_LANGUAGE);
+  const [userQuestions, setUserQuestions] = useState<string[]>([]);
   const [mounted, setMounted] = useState(false);
 
   useEffect(() => {
     setMounted(true);
     const stored = localStorage.getItem('marketpulse_show_stock_chart');
     setStockChartEnabled(stored === 'true');
+    const storedLanguage = localStorage.getItem('marketpulse_output_language');
+    setOutputLanguage(isOutputLanguage(storedLanguage) ? storedLanguage : DEFAULT_OUTPUT_LANGUAGE);
+    setUserQuestions(parseStoredResearchQuestions(localStorage.getItem('marketpulse_research_questions')));
   }, []);
 
   useEffect(() => {
@@ -96,18 +143,28 @@ export function ApiKeyModal({
       setSelectedProvider(initialProvider);
       setSelectedModel(initialModel);
       setApiKey(currentKey || '');
+      setBaseUrl(selfHostedBaseUrl);
       setTavilyKey(tavilyApiKey || '');
       setWebKey(webSearchApiKey || '');
       setWebSearchProvider(initialWebSearchProvider);
+      setFailoverChain(initialFailoverProviders);
+      setConsensusProvider(initialConsensusProvider);
+      setAdminQuestions(initialResearchQuestions);
+      setFitScoreWeights(initialFitScoreWeights);
+      setSourceDomainTiers(initialSourceDomainTiers);
+      setRecencyWindows(initialRecencyWindows);
       setKeyTestResult(null);
       setWebSearchTestResult(null);
       // Load user preferences from localStorage
       const stored = localStorage.getItem('marketpulse_show_stock_chart');
       setStockChartEnabled(stored === 'true');
+      const storedLanguage = localStorage.getItem('marketpulse_output_language');
+      setOutputLanguage(isOutputLanguage(storedLanguage) ? storedLanguage : DEFAULT_OUTPUT_LANGUAGE);
+      setUserQuestions(parseStoredResearchQuestions(localStorage.getItem('marketpulse_research_questions')));
       // Default to preferences tab for non-admins
       if (!isAdmin) setActiveTab('preferences');
     }
-  }, [open, initialProvider, initialModel, currentKey, tavilyApiKey, webSearchApiKey, initialWebSearchProvider, isAdmin]);
+  }, [open, initialProvider, initialModel, currentKey, selfHostedBaseUrl, tavilyApiKey, webSearchApiKey, initialWebSearchProvider, initialFailoverProviders, initialConsensusProvider, initialResearchQuestions, initialFitScoreWeights, initialSourceDomainTiers, initialRecencyWindows, isAdmin]);
 
   // Reset web search test result when keys change
   useEffect(() => {
@@ -117,7 +174,7 @@ export function ApiKeyModal({
   // Reset test result when API key changes
   useEffect(() => {
     setKeyTestResult(null);
-  }, [apiKey, selectedProvider]);
+  }, [apiKey, baseUrl, selectedProvider]);
 
   // Fetch users when switching to users tab
   useEffect(() => {
@@ -208,10 +265,26 @@ export function ApiKeyModal({
   };
 
   const provider = PROVIDER_INFO[selectedProvider];
-  const providers: ProviderName[] = ['gemini', 'perplexity', 'openai', 'anthropic'];
+  const providers: ProviderName[] = ['gemini', 'perplexity', 'openai', 'anthropic', 'selfhosted'];
+
+  // Failover chain never includes the primary provider
+  const failoverEntries = failoverChain.filter(f => f.provider !== selectedProvider);
+  const availableFailoverProviders = providers.filter(
+    p => p !== selectedProvider && !failoverEntries.some(f => f.provider === p)
+  );
+
+  const addFailoverProvider = (p: ProviderName) => {
+    setFailoverChain([...failoverEntries, { provider: p, model: PROVIDER_INFO[p].defaultModel }]);
+  };
+
+  const moveFailoverProvider = (index: number, direction: -1 | 1) => {
+    const next = [...failoverEntries];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    setFailoverChain(next);
+  };
 
   const testApiKey = async () => {
-    if (!apiKey.trim()) return;
+    if (!apiKey.trim() && !provider.customModel) return;
 
     setTestingKey(true);
     setKeyTestResult(null);
@@ -222,7 +295,8 @@ export function ApiKeyModal({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           provider: selectedProvider,
-          apiKey: apiKey.trim()
+          apiKey: apiKey.trim(),
+          ...(provider.customModel && { baseUrl: baseUrl.trim() })
         })
       });
 
@@ -268,9 +342,17 @@ export function ApiKeyModal({
         provider: selectedProvider,
         model: selectedModel,
         apiKey: apiKey.trim() || undefined,
+        baseUrl: provider.customModel ? baseUrl.trim() : undefined,
         webSearchProvider,
         tavilyKey: tavilyKey.trim() || null,
         webSearchKey: webKey.trim() || null,
+        failoverProviders: failoverEntries,
+        // The primary provider can't cross-check itself
+        consensusProvider: consensusProvider?.provider === selectedProvider ? null : consensusProvider,
+        researchQuestions: normalizeResearchQuestions(adminQuestions),
+        fitScoreWeights,
+        sourceDomainTiers,
+        recencyWindows,
       });
       onOpenChange(false);
     } catch {
@@ -340,6 +422,29 @@ export function ApiKeyModal({
                 <span className="hidden sm:inline">Web Search</span>
                 <span className="sm:hidden">Search</span>
               </button>
+              <button
+                onClick={() => setActiveTab('prompts')}
+                className={`flex-1 flex items-center justify-center gap-2 px-2 sm:px-3 py-2 rounded-md text-xs sm:text-sm font-medium transition-colors ${
+                  activeTab === 'prompts'
+                    ? 'bg-accent text-foreground'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                <FileText className="w-4 h-4" />
+                <span>Prompts</span>
+              </button>
+              <button
+                onClick={() => setActiveTab('competitors')}
+                className={`flex-1 flex items-center justify-center gap-2 px-2 sm:px-3 py-2 rounded-md text-xs sm:text-sm font-medium transition-colors ${
+                  activeTab === 'competitors'
+                    ? 'bg-accent text-foreground'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                <Building2 className="w-4 h-4" />
+                <span className="hidden sm:inline">Competitors</span>
+                <span className="sm:hidden">Vendors</span>
+              </button>
               <button
                 onClick={() => setActiveTab('users')}
                 className={`flex-1 flex items-center justify-center gap-2 px-2 sm:px-3 py-2 rounded-md text-xs sm:text-sm font-medium transition-colors ${
@@ -388,6 +493,52 @@ export function ApiKeyModal({
               </div>
             </div>
 
+            {/* Analysis Language */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground flex items-center gap-2">
+                <Languages className="w-4 h-4 text-muted-foreground" />
+                Analysis Language
+              </label>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {(Object.keys(OUTPUT_LANGUAGES) as OutputLanguage[]).map(language => (
+                  <button
+                    key={language}
+                    type="button"
+                    onClick={() => {
+                      setOutputLanguage(language);
+                      localStorage.setItem('marketpulse_output_language', language);
+                    }}
+                    className={`p-3 rounded-lg border transition-all text-sm font-medium ${
+                      outputLanguage === language
+                        ? 'border-emerald-500 bg-emerald-500/10 text-foreground'
+                        : 'border-border hover:border-muted-foreground text-muted-foreground hover:text-foreground'
+                    }`}
+                  >
+                    {OUTPUT_LANGUAGES[language].nativeName}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                New analyses are written in this language. Source links and titles stay in their original language.
+              </p>
+            </div>
+
+            {/* Research Questions */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Research Questions</label>
+              <p className="text-xs text-muted-foreground">
+                Extra questions answered in each new analysis, after any your admin has set ({MAX_RESEARCH_QUESTIONS} at most in total).
+              </p>
+              <ResearchQuestionsEditor
+                questions={userQuestions}
+                onChange={(questions) => {
+                  setUserQuestions(questions);
+                  localStorage.setItem('marketpulse_research_questions', JSON.stringify(questions));
+                }}
+                maxQuestions={MAX_RESEARCH_QUESTIONS}
+              />
+            </div>
+
             {/* Stock Chart Toggle */}
             <div className="space-y-2">
               <label className="text-sm font-medium text-foreground">Display</label>
@@ -433,7 +584,11 @@ export function ApiKeyModal({
                   return (
                     <button
                       key={p}
-                      onClick={() => setSelectedProvider(p)}
+                      onClick={() => {
+                        setSelectedProvider(p);
+                        // Free-form model ids don't carry over between providers
+                        if (info.customModel) setSelectedModel(selfHostedModel);
+                      }}
                       className={`flex items-center gap-2 p-3 rounded-lg border transition-all ${
                         selectedProvider === p
                           ? 'border-emerald-500 bg-emerald-500/10 text-foreground'
@@ -455,20 +610,45 @@ export function ApiKeyModal({
               </div>
             </div>
 
+            {/* Server URL (self-hosted only) */}
+            {provider.customModel && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-foreground">Server URL</label>
+                <Input
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                  placeholder="http://localhost:8000/v1"
+                  className="bg-card border-border text-foreground placeholder:text-muted-foreground"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Any server with an OpenAI-compatible /v1/chat/completions endpoint (vLLM, Ollama, LM Studio)
+                </p>
+              </div>
+            )}
+
             {/* Model Selection */}
             <div className="space-y-2">
               <label className="text-sm font-medium text-foreground">Model</label>
-              <select
-                value={selectedModel}
-                onChange={(e) => setSelectedModel(e.target.value)}
-                className="w-full bg-card border border-border rounded-lg px-3 py-2 text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
-              >
-                {provider.models.map((model) => (
-                  <option key={model.id} value={model.id}>
-                    {model.name} - {model.description}
-                  </option>
-                ))}
-              </select>
+              {provider.customModel ? (
+                <Input
+                  value={selectedModel}
+                  onChange={(e) => setSelectedModel(e.target.value)}
+                  placeholder="Model id as served, e.g. meta-llama/Llama-3.1-70B-Instruct"
+                  className="bg-card border-border text-foreground placeholder:text-muted-foreground"
+                />
+              ) : (
+                <select
+                  value={selectedModel}
+                  onChange={(e) => setSelectedModel(e.target.value)}
+                  className="w-full bg-card border border-border rounded-lg px-3 py-2 text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                >
+                  {provider.models.map((model) => (
+                    <option key={model.id} value={model.id}>
+                      {model.name} - {model.description}
+                    </option>
+                  ))}
+                </select>
+              )}
             </div>
 
             {/* API Key Input */}
@@ -478,15 +658,17 @@ export function ApiKeyModal({
                   <Key className="w-4 h-4" />
                   {provider.name} API Key
                 </label>
-                <a
-                  href={provider.keyUrl}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-xs text-emerald-400 hover:text-emerald-300 inline-flex items-center gap-1"
-                >
-                  Get key
-                  <ExternalLink className="w-3 h-3" />
-                </a>
+                {provider.keyUrl && (
+                  <a
+                    href={provider.keyUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-emerald-400 hover:text-emerald-300 inline-flex items-center gap-1"
+                  >
+                    Get key
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                )}
               </div>
               <div className="flex gap-2">
                 <div className="relative flex-1">
@@ -494,7 +676,9 @@ export function ApiKeyModal({
                     type={showKey ? 'text' : 'password'}
                     value={apiKey}
                     onChange={(e) => setApiKey(e.target.value)}
-                    placeholder={`Enter your ${provider.name} API key`}
+                    placeholder={provider.customModel
+                      ? 'API key (optional if the server does not check keys)'
+                      : `Enter your ${provider.name} API key`}
                     className="bg-card border-border text-foreground placeholder:text-muted-foreground pr-10"
                   />
                   <button
@@ -509,7 +693,7 @@ export function ApiKeyModal({
                   type="button"
                   variant="outline"
                   onClick={testApiKey}
-                  disabled={!apiKey.trim() || testingKey}
+                  disabled={(!apiKey.trim() && !provider.customModel) || testingKey || (provider.customModel && !baseUrl.trim())}
                   className="border-border text-muted-foreground hover:text-foreground hover:bg-accent whitespace-nowrap"
                 >
                   {testingKey ? (
@@ -563,6 +747,150 @@ export function ApiKeyModal({
               </div>
             )}
 
+            {/* Failover Order */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Failover Order</label>
+              <p className="text-xs text-muted-foreground">
+                If {provider.name} is rate limited or unavailable, these providers are tried in order. Providers without an API key are skipped.
+              </p>
+              {failoverEntries.map((entry, index) => (
+                <div key={entry.provider} className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground w-4">{index + 1}.</span>
+                  <span className="text-sm text-foreground w-32 truncate">{PROVIDER_INFO[entry.provider].name}</span>
+                  {PROVIDER_INFO[entry.provider].customModel ? (
+                    <span className="flex-1 min-w-0 truncate text-xs text-muted-foreground px-2">
+                      {selfHostedModel || 'Configured model'}
+                    </span>
+                  ) : (
+                    <select
+                      value={entry.model}
+                      onChange={(e) => setFailoverChain(failoverEntries.map(f => f.provider === entry.provider ? { ...f, model: e.target.value } : f))}
+                      className="flex-1 min-w-0 bg-card border border-border rounded-lg px-2 py-1.5 text-foreground text-xs focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                    >
+                      {PROVIDER_INFO[entry.provider].models.map((model) => (
+                        <option key={model.id} value={model.id}>{model.name}</option>
+                      ))}
+                    </select>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => moveFailoverProvider(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveFailoverProvider(index, 1)}
+                    disabled={index === failoverEntries.length - 1}
+                    className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setFailoverChain(failoverEntries.filter(f => f.provider !== entry.provider))}
+                    className="p-1 text-muted-foreground hover:text-red-400"
+                    title="Remove"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+              {availableFailoverProviders.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {availableFailoverProviders.map((p) => (
+                    <button
+                      key={p}
+                      type="button"
+                      onClick={() => addFailoverProvider(p)}
+                      className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded border border-border text-muted-foreground hover:text-foreground hover:border-muted-foreground"
+                    >
+                      <Plus className="w-3 h-3" />
+                      {PROVIDER_INFO[p].name}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Consensus Mode */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Consensus Mode</label>
+              <p className="text-xs text-muted-foreground">
+                Cross-check M&A activity, regulatory events and leadership changes with a second provider. Items only one provider reports are flagged as unconfirmed. Doubles AI cost per analysis.
+              </p>
+              <div className="flex gap-2">
+                <select
+                  value={consensusProvider && consensusProvider.provider !== selectedProvider ? consensusProvider.provider : ''}
+                  onChange={(e) => {
+                    const p = e.target.value as ProviderName | '';
+                    setConsensusProvider(p ? { provider: p, model: PROVIDER_INFO[p].defaultModel } : null);
+                  }}
+                  className="flex-1 bg-card border border-border rounded-lg px-3 py-2 text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                >
+                  <option value="">Off</option>
+                  {providers.filter(p => p !== selectedProvider).map((p) => (
+                    <option key={p} value={p}>{PROVIDER_INFO[p].name}</option>
+                  ))}
+                </select>
+                {consensusProvider && consensusProvider.provider !== selectedProvider && !PROVIDER_INFO[consensusProvider.provider].customModel && (
+                  <select
+                    value={consensusProvider.model}
+                    onChange={(e) => setConsensusProvider({ ...consensusProvider, model: e.target.value })}
+                    className="flex-1 bg-card border border-border rounded-lg px-3 py-2 text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                  >
+                    {PROVIDER_INFO[consensusProvider.provider].models.map((model) => (
+                      <option key={model.id} value={model.id}>{model.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </div>
+
+            {/* Research Questions */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Research Questions</label>
+              <p className="text-xs text-muted-foreground">
+                Asked in every analysis for all users and shown as their own sections. Each question adds to the response length and cost.
+              </p>
+              <ResearchQuestionsEditor
+                questions={adminQuestions}
+                onChange={setAdminQuestions}
+                maxQuestions={MAX_RESEARCH_QUESTIONS}
+              />
+            </div>
+
+            {/* Fit Score Weights */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Fit Score Weights</label>
+              <p className="text-xs text-muted-foreground">
+                How much each signal counts towards the Theta Lake fit score. Weights are relative; set one to 0 to ignore it.
+              </p>
+              <FitScoreWeightsEditor weights={fitScoreWeights} onChange={setFitScoreWeights} />
+            </div>
+
+            {/* Source Credibility Tiers */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Source Credibility Tiers</label>
+              <p className="text-xs text-muted-foreground">
+                Domains whose links start out scored as official, trusted or low credibility. Subdomains are included; unlisted domains are standard. Low-scoring links are hidden in the dashboard until &quot;show all&quot; is clicked.
+              </p>
+              <SourceDomainTiersEditor tiers={sourceDomainTiers} onChange={setSourceDomainTiers} />
+            </div>
+
+            {/* Recency Windows */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Recency Windows</label>
+              <p className="text-xs text-muted-foreground">
+                Maximum age in days of the items kept in each section. Undated items are always kept; set a window to 0 to keep everything.
+              </p>
+              <RecencyWindowsEditor windows={recencyWindows} onChange={setRecencyWindows} />
+            </div>
+
           </div>
         )}
 
@@ -856,6 +1184,23 @@ export function ApiKeyModal({
                 <span>Web search will be used for OpenAI and Anthropic</span>
               </div>
             )}
+
+            {/* Runs immediately, not with Save Settings */}
+            <LinkHealthRecheck />
+          </div>
+        )}
+
+        {/* Prompts Tab - versions are saved immediately, not with Save Settings */}
+        {activeTab === 'prompts' && (
+          <div className="py-2 max-h-[60vh] overflow-y-auto">
+            <PromptEditor />
+          </div>
+        )}
+
+        {/* Competitors Tab - vendor changes are saved immediately, not with Save Settings */}
+        {activeTab === 'competitors' && (
+          <div className="py-2 max-h-[60vh] overflow-y-auto">
+            <CompetitorEditor />
           </div>
         )}
 
@@ -0,0 +1,51 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { FitScoreWeights } from '@/types/analysis';
+import { ANALYSIS_LABELS } from '@/lib/config/languages';
+import { DEFAULT_FIT_SCORE_WEIGHTS, FIT_FACTORS, MAX_FIT_FACTOR_WEIGHT } from '@/lib/services/fitScore';
+
+interface FitScoreWeightsEditorProps {
+  weights: FitScoreWeights;
+  onChange: (weights: FitScoreWeights) => void;
+}
+
+// One weight per fit score factor, with the share of the score it works out to
+export function FitScoreWeightsEditor({ weights, onChange }: FitScoreWeightsEditorProps) {
+  const total = FIT_FACTORS.reduce((sum, factor) => sum + weights[factor], 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        {FIT_FACTORS.map(factor => (
+          <div key={factor} className="flex items-center gap-2">
+            <span className="flex-1 min-w-0 text-xs text-muted-foreground truncate" title={ANALYSIS_LABELS.en.fitScore.factors[factor]}>
+              {ANALYSIS_LABELS.en.fitScore.factors[factor]}
+            </span>
+            <Input
+              type="number"
+              min={0}
+              max={MAX_FIT_FACTOR_WEIGHT}
+              value={weights[factor]}
+              onChange={(e) => onChange({
+                ...weights,
+                [factor]: Math.min(MAX_FIT_FACTOR_WEIGHT, Math.max(0, Math.round(Number(e.target.value) || 0)))
+              })}
+              className="w-16 h-8 bg-card border-border text-foreground text-sm"
+            />
+            <span className="w-9 text-right text-xs text-muted-foreground tabular-nums">
+              {total > 0 ? Math.round(weights[factor] / total * 100) : 0}%
+            </span>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange(DEFAULT_FIT_SCORE_WEIGHTS)}
+        className="text-xs px-2 py-1 rounded border border-border text-muted-foreground hover:text-foreground hover:border-muted-foreground"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+}
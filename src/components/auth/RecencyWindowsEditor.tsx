@@ -0,0 +1,51 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { RecencySection, RecencyWindows } from '@/types/analysis';
+import { DEFAULT_RECENCY_WINDOWS, MAX_RECENCY_WINDOW_DAYS, RECENCY_SECTIONS } from '@/lib/services/dateNormalization';
+
+interface RecencyWindowsEditorProps {
+  windows: RecencyWindows;
+  onChange: (windows: RecencyWindows) => void;
+}
+
+const SECTION_LABELS: Record<RecencySection, string> = {
+  news: 'News',
+  leadership: 'Leadership changes',
+  regulatory: 'Regulatory events'
+};
+
+// Maximum age per section in days
+export function RecencyWindowsEditor({ windows, onChange }: RecencyWindowsEditorProps) {
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        {RECENCY_SECTIONS.map(section => (
+          <div key={section} className="flex items-center gap-2">
+            <span className="flex-1 min-w-0 text-xs text-muted-foreground truncate" title={SECTION_LABELS[section]}>
+              {SECTION_LABELS[section]}
+            </span>
+            <Input
+              type="number"
+              min={0}
+              max={MAX_RECENCY_WINDOW_DAYS}
+              value={windows[section]}
+              onChange={(e) => onChange({
+                ...windows,
+                [section]: Math.min(MAX_RECENCY_WINDOW_DAYS, Math.max(0, Math.round(Number(e.target.value) || 0)))
+              })}
+              className="w-20 h-8 bg-card border-border text-foreground text-sm"
+            />
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange(DEFAULT_RECENCY_WINDOWS)}
+        className="text-xs px-2 py-1 rounded border border-border text-muted-foreground hover:text-foreground hover:border-muted-foreground"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { Plus, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { MAX_RESEARCH_QUESTION_LENGTH } from '@/lib/services/researchQuestions';
+
+interface ResearchQuestionsEditorProps {
+  questions: string[];
+  onChange: (questions: string[]) => void;
+  maxQuestions: number;
+}
+
+// Editable list of research questions. Blank entries are dropped when the questions are used.
+export function ResearchQuestionsEditor({ questions, onChange, maxQuestions }: ResearchQuestionsEditorProps) {
+  const updateQuestion = (index: number, value: string) => {
+    onChange(questions.map((question, i) => i === index ? value : question));
+  };
+
+  return (
+    <div className="space-y-2">
+      {questions.map((question, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <Input
+            value={question}
+            onChange={(e) => updateQuestion(i, e.target.value)}
+            maxLength={MAX_RESEARCH_QUESTION_LENGTH}
+            placeholder="e.g. Do they use Microsoft Teams Phone?"
+            className="bg-card border-border text-foreground text-sm"
+          />
+          <button
+            type="button"
+            onClick={() => onChange(questions.filter((_, j) => j !== i))}
+            className="p-1 text-muted-foreground hover:text-red-400"
+            title="Remove question"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      {questions.length < maxQuestions && (
+        <button
+          type="button"
+          onClick={() => onChange([...questions, ''])}
+          className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded border border-border text-muted-foreground hover:text-foreground hover:border-muted-foreground"
+        >
+          <Plus className="w-3 h-3" />
+          Add question
+        </button>
+      )}
+    </div>
+  );
+}
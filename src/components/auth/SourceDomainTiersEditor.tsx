@@ -0,0 +1,44 @@
+'use client';
+
+import { SourceDomainTiers } from '@/types/analysis';
+import { DEFAULT_SOURCE_DOMAIN_TIERS, SOURCE_TIERS } from '@/lib/services/sourceCredibility';
+
+interface SourceDomainTiersEditorProps {
+  tiers: SourceDomainTiers;
+  onChange: (tiers: SourceDomainTiers) => void;
+}
+
+const TIER_LABELS: Record<keyof SourceDomainTiers, string> = {
+  official: 'Official',
+  trusted: 'Trusted',
+  low: 'Low'
+};
+
+// One domain per line for each tier; blank lines and duplicates are dropped on save
+export function SourceDomainTiersEditor({ tiers, onChange }: SourceDomainTiersEditorProps) {
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        {SOURCE_TIERS.map(tier => (
+          <div key={tier} className="space-y-1">
+            <span className="text-xs text-muted-foreground">{TIER_LABELS[tier]}</span>
+            <textarea
+              value={tiers[tier].join('\n')}
+              onChange={(e) => onChange({ ...tiers, [tier]: e.target.value.split('\n') })}
+              spellCheck={false}
+              placeholder="example.com"
+              className="w-full h-32 px-2 py-1.5 rounded-md bg-card border border-border text-foreground font-mono text-xs resize-y focus:outline-none focus:ring-1 focus:ring-ring"
+            />
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange(DEFAULT_SOURCE_DOMAIN_TIERS)}
+        className="text-xs px-2 py-1 rounded border border-border text-muted-foreground hover:text-foreground hover:border-muted-foreground"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+}
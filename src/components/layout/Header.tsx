@@ -11,6 +11,9 @@ import { UserMenu } from '@/components/auth/UserMenu';
 export interface CompanyInfo {
   name: string;
   symbol?: string;
+  domain?: string;
+  hqCountry?: string;
+  legalNames?: string[];
   isPublic: boolean;
   publicStatus?: 'public' | 'private' | 'went_private' | 'pre_ipo' | 'unknown';
 }
@@ -18,6 +21,9 @@ export interface CompanyInfo {
 interface CompanySuggestion {
   name: string;
   symbol?: string;
+  domain?: string;
+  hqCountry?: string;
+  legalNames?: string[];
   description?: string;
   isPublic: boolean;
   publicStatus?: 'public' | 'private' | 'went_private' | 'pre_ipo' | 'unknown';
@@ -180,6 +186,9 @@ export function Header({
     onSearch(suggestion.name, {
       name: suggestion.name,
       symbol: suggestion.symbol,
+      domain: suggestion.domain,
+      hqCountry: suggestion.hqCountry,
+      legalNames: suggestion.legalNames,
       isPublic: suggestion.isPublic,
       publicStatus: suggestion.publicStatus
     });
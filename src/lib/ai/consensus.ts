@@ -0,0 +1,131 @@
+import { AnalysisResult, Corroboration, LeadershipChangeItem, MAItem, ProviderName, RegulatoryEventItem } from '@/types/analysis';
+import { extractYear, isHallucinatedMAEntry, isSameRegulatoryEvent } from './parser';
+
+const COMPANY_SUFFIXES = /\b(the|inc|incorporated|corp|corporation|co|company|llc|ltd|limited|plc|group|holdings?|sa|ag|nv)\b/g;
+
+function normalizeCompanyName(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(COMPANY_SUFFIXES, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function normalizePersonName(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\s-]/gu, ' ')
+    .split(/\s+/)
+    .filter(part => part.length > 1); // Drop middle initials
+}
+
+function yearsAreClose(a: string | undefined, b: string | undefined): boolean {
+  const yearA = a ? extractYear(a) : null;
+  const yearB = b ? extractYear(b) : null;
+  // Missing years don't rule out a match
+  return yearA === null || yearB === null || Math.abs(yearA - yearB) <= 1;
+}
+
+function isSameMAEntry(a: MAItem, b: MAItem): boolean {
+  const targetA = normalizeCompanyName(a.target);
+  const targetB = normalizeCompanyName(b.target);
+  if (!targetA || !targetB) return false;
+
+  const namesMatch = targetA === targetB ||
+    (Math.min(targetA.length, targetB.length) >= 4 && (targetA.includes(targetB) || targetB.includes(targetA)));
+  return namesMatch && yearsAreClose(a.year, b.year);
+}
+
+// Same event, allowing for events without an amount (which isSameRegulatoryEvent never matches)
+function isMatchingRegulatoryEvent(a: RegulatoryEventItem, b: RegulatoryEventItem): boolean {
+  if (isSameRegulatoryEvent(a, b)) return true;
+  if (a.amount || b.amount) return false;
+  return a.regulatoryBody.toUpperCase() === b.regulatoryBody.toUpperCase() &&
+    a.eventType === b.eventType &&
+    extractYear(a.date) !== null &&
+    extractYear(a.date) === extractYear(b.date);
+}
+
+function isSameLeadershipChange(a: LeadershipChangeItem, b: LeadershipChangeItem): boolean {
+  const nameA = normalizePersonName(a.name);
+  const nameB = normalizePersonName(b.name);
+  if (nameA.length === 0 || nameB.length === 0) return false;
+  // Same first and last name, ignoring middle names
+  return nameA[0] === nameB[0] && nameA[nameA.length - 1] === nameB[nameB.length - 1];
+}
+
+/**
+ * Mark items found by both runs as corroborated and items found by only one
+ * as unconfirmed. Items only the secondary run produced are appended, so
+ * nothing either model found is silently dropped, unless `appendSecondaryOnly`
+ * is off because the primary items came from web search rather than a model.
+ */
+function reconcile<T extends { corroboration?: Corroboration }>(
+  primary: T[],
+  secondary: T[],
+  isSame: (a: T, b: T) => boolean,
+  merge: (primaryItem: T, secondaryItem: T) => T = item => item,
+  appendSecondaryOnly = true
+): T[] {
+  const matched = new Set<number>();
+
+  const reconciled = primary.map(item => {
+    const index = secondary.findIndex((other, i) => !matched.has(i) && isSame(item, other));
+    if (index === -1) {
+      return { ...item, corroboration: 'unconfirmed' as const };
+    }
+    matched.add(index);
+    return { ...merge(item, secondary[index]), corroboration: 'corroborated' as const };
+  });
+
+  if (!appendSecondaryOnly) return reconciled;
+
+  const secondaryOnly = secondary
+    .filter((_, i) => !matched.has(i))
+    .map(item => ({ ...item, corroboration: 'unconfirmed' as const }));
+
+  return [...reconciled, ...secondaryOnly];
+}
+
+// Keep the secondary run's URL as an extra source, as deduplicateRegulatoryEvents does
+function mergeRegulatoryEvents(primary: RegulatoryEventItem, secondary: RegulatoryEventItem): RegulatoryEventItem {
+  const urls = new Set([primary.url, ...(primary.sources || []).map(s => s.url)]);
+  const extraSources = [secondary, ...(secondary.sources || [])]
+    .filter(source => source.url && !urls.has(source.url))
+    .map(source => ({
+      url: source.url,
+      title: 'description' in source ? source.description.slice(0, 80) : source.title,
+      regulatoryBody: source.regulatoryBody
+    }));
+
+  return extraSources.length > 0
+    ? { ...primary, sources: [...(primary.sources || []), ...extraSources] }
+    : primary;
+}
+
+// Sections web search may fill in place of the AI's items
+export type WebSourcedConsensusSection = 'regulatoryEvents' | 'leadershipChanges';
+
+/**
+ * Cross-check two providers' analyses of the same company. M&A activity,
+ * regulatory events and leadership changes are compared item by item; every
+ * other section comes from the primary analysis. In `webSourced` sections
+ * the primary items came from web search, so they're checked against the
+ * secondary run without adding the secondary run's own guesses.
+ */
+export function buildConsensus(
+  primary: AnalysisResult,
+  secondary: AnalysisResult,
+  providers: [ProviderName, ProviderName],
+  webSourced: WebSourcedConsensusSection[] = []
+): AnalysisResult {
+  const withoutHallucinated = (items: MAItem[]) => items.filter(m => !isHallucinatedMAEntry(m.target, m.type));
+
+  const maActivity = reconcile(withoutHallucinated(primary.maActivity), withoutHallucinated(secondary.maActivity), isSameMAEntry);
+  const regulatoryEvents = reconcile(primary.regulatoryEvents, secondary.regulatoryEvents, isMatchingRegulatoryEvent, mergeRegulatoryEvents, !webSourced.includes('regulatoryEvents'));
+  const leadershipChanges = reconcile(primary.leadershipChanges, secondary.leadershipChanges, isSameLeadershipChange, undefined, !webSourced.includes('leadershipChanges'));
+
+  return {
+    ...primary,
+    maActivity,
+    regulatoryEvents,
+    leadershipChanges,
+    consensus: { providers }
+  };
+}
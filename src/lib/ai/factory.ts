@@ -3,16 +3,33 @@ import { GeminiProvider } from './providers/gemini';
 import { OpenAIProvider } from './providers/openai';
 import { AnthropicProvider } from './providers/anthropic';
 import { PerplexityProvider } from './providers/perplexity';
+import { SelfHostedProvider } from './providers/selfhosted';
+import { MockProvider } from './providers/mock';
+import { FailoverAIProvider, ProviderCandidate } from './failover';
 import { ProviderName } from '@/types/analysis';
 
+export interface CreateAIProviderOptions extends Partial<AIProviderConfig> {
+  // Providers to fall back to, in order, when this one fails with a retryable error
+  failover?: ProviderCandidate[];
+}
+
 export function createAIProvider(
   provider: ProviderName,
   apiKey: string,
-  options?: Partial<AIProviderConfig>
+  options?: CreateAIProviderOptions
 ): AIProvider {
+  const { failover, ...providerOptions } = options || {};
+
+  if (failover && failover.length > 0) {
+    const chain = [{ provider, apiKey, model: providerOptions.model, baseUrl: providerOptions.baseUrl }, ...failover];
+    return new FailoverAIProvider(chain.map(candidate =>
+      createAIProvider(candidate.provider, candidate.apiKey, { ...providerOptions, model: candidate.model, baseUrl: candidate.baseUrl })
+    ));
+  }
+
   const config: AIProviderConfig = {
     apiKey,
-    ...options
+    ...providerOptions
   };
 
   switch (provider) {
@@ -24,6 +41,10 @@ export function createAIProvider(
       return new AnthropicProvider(config);
     case 'perplexity':
       return new PerplexityProvider(config);
+    case 'selfhosted':
+      return new SelfHostedProvider(config);
+    case 'mock':
+      return new MockProvider(config);
     default:
       throw new Error(`Unknown provider: ${provider}`);
   }
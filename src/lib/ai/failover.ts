@@ -0,0 +1,79 @@
+import { CompanyIdentifiers, ProviderName } from '@/types/analysis';
+import { AIProvider, AnalysisOutput, ProviderFailure } from './providers/base';
+
+// A provider to try, with the key and model to use for it
+export interface ProviderCandidate {
+  provider: ProviderName;
+  apiKey: string;
+  model?: string;
+  baseUrl?: string; // Self-hosted providers only
+}
+
+const RETRYABLE_MESSAGE_PATTERN = /rate.?limit|overloaded|timed? ?out|timeout|ECONNRESET|ETIMEDOUT|ECONNREFUSED|fetch failed|connection error|service unavailable|bad gateway/i;
+
+/**
+ * Whether an error is worth retrying on another provider: rate limits,
+ * server errors (5xx, Anthropic's 529 overloaded) and network failures.
+ * Bad keys, invalid requests and unparseable output are not.
+ */
+export function isRetryableProviderError(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  if (error instanceof Error && error.name === 'AbortError') return true;
+
+  const message = error instanceof Error ? error.message : String(error);
+  return RETRYABLE_MESSAGE_PATTERN.test(message) || /\[(429|5\d\d)\b/.test(message);
+}
+
+/**
+ * Tries each provider in order, moving on to the next one only when the
+ * current one fails with a retryable error. The result records which
+ * provider served the request and which ones failed before it.
+ */
+export class FailoverAIProvider implements AIProvider {
+  private readonly providers: AIProvider[];
+
+  constructor(providers: AIProvider[]) {
+    if (providers.length === 0) {
+      throw new Error('Failover chain needs at least one provider');
+    }
+    this.providers = providers;
+  }
+
+  get name(): ProviderName {
+    return this.providers[0].name;
+  }
+
+  get model(): string {
+    return this.providers[0].model;
+  }
+
+  get supportsWebGrounding(): boolean {
+    return this.providers[0].supportsWebGrounding;
+  }
+
+  async analyzeCompany(companyName: string, company?: CompanyIdentifiers, signal?: AbortSignal): Promise<AnalysisOutput> {
+    const failedProviders: ProviderFailure[] = [];
+
+    for (let i = 0; i < this.providers.length; i++) {
+      const provider = this.providers[i];
+      try {
+        const output = await provider.analyzeCompany(companyName, company, signal);
+        return failedProviders.length > 0 ? { ...output, failedProviders } : output;
+      } catch (err) {
+        // Cancellation and the request deadline apply to the whole chain
+        const isLast = i === this.providers.length - 1;
+        if (isLast || signal?.aborted || !isRetryableProviderError(err)) throw err;
+
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        console.warn(`${provider.name} failed with a retryable error, failing over to ${this.providers[i + 1].name}:`, message);
+        failedProviders.push({ provider: provider.name, model: provider.model, error: message.substring(0, 200) });
+      }
+    }
+
+    // Unreachable: the last provider either returns or throws
+    throw new Error('No AI provider available');
+  }
+}
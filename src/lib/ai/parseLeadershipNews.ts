@@ -1,4 +1,5 @@
 import { LeadershipChangeItem } from '@/types/analysis';
+import { findDateInText } from '@/lib/services/dateNormalization';
 
 interface RawLeadershipArticle {
   title: string;
@@ -23,40 +24,6 @@ const SKIP_SOURCES = [
   'wikipedia.org', 'reddit.com',
 ];
 
-/**
- * Extract date from article title or content
- */
-function extractDate(title: string, content: string): string | undefined {
-  const text = `${title} ${content}`;
-
-  // Common date patterns
-  const patterns = [
-    // "January 15, 2024" or "Jan 15, 2024"
-    /\b(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|Jun(?:e)?|Jul(?:y)?|Aug(?:ust)?|Sep(?:tember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\s+\d{1,2},?\s+20\d{2}\b/i,
-    // "15 January 2024" or "15 Jan 2024"
-    /\b\d{1,2}\s+(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|Jun(?:e)?|Jul(?:y)?|Aug(?:ust)?|Sep(?:tember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\s+20\d{2}\b/i,
-    // "2024-01-15" ISO format
-    /\b20\d{2}-\d{2}-\d{2}\b/,
-    // "01/15/2024" or "15/01/2024"
-    /\b\d{1,2}\/\d{1,2}\/20\d{2}\b/,
-  ];
-
-  for (const pattern of patterns) {
-    const match = text.match(pattern);
-    if (match) {
-      return match[0];
-    }
-  }
-
-  // Try to extract just month and year
-  const monthYearMatch = text.match(/\b(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|Jun(?:e)?|Jul(?:y)?|Aug(?:ust)?|Sep(?:tember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\s+20\d{2}\b/i);
-  if (monthYearMatch) {
-    return monthYearMatch[0];
-  }
-
-  return undefined;
-}
-
 /**
  * Normalize title for deduplication comparison
  */
@@ -148,7 +115,7 @@ export function parseLeadershipArticles(
     }
 
     // Extract date from article
-    const date = extractDate(article.title, article.content || '');
+    const date = findDateInText(`${article.title} ${article.content || ''}`)?.iso;
 
     // Use article title as the display, content as summary
     results.push({
@@ -283,14 +250,14 @@ function extractLeadershipFromArticle(
   return changes;
 }
 
-function cleanName(name: string): string {
+export function cleanName(name: string): string {
   return name
     .trim()
     .replace(/^(Mr\.|Ms\.|Mrs\.|Dr\.)\s*/i, '')
     .replace(/\s+/g, ' ');
 }
 
-function cleanRole(role: string, validTitles: string[]): string {
+export function cleanRole(role: string, validTitles: string[]): string {
   let cleaned = role
     .trim()
     .replace(/^(the|a|an)\s+/i, '')
@@ -387,7 +354,7 @@ const POLITICAL_ROLES = [
   'mayor', 'ambassador', 'white house', 'administration',
 ];
 
-function isValidName(name: string): boolean {
+export function isValidName(name: string): boolean {
   const nameLower = name.toLowerCase().trim();
 
   // Check against fake names
@@ -452,7 +419,7 @@ function isValidName(name: string): boolean {
 }
 
 // Check if a role is a political/government role (not corporate)
-function isPoliticalRole(role: string): boolean {
+export function isPoliticalRole(role: string): boolean {
   const roleLower = role.toLowerCase();
 
   // Check for political role keywords
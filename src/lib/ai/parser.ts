@@ -1,6 +1,6 @@
-import { AnalysisResult, QuickFacts, LinkItem, MAItem, CompetitorMentionItem, LeadershipChangeItem, RegulatoryBodyMention, RegulatoryEventItem, RegulatoryEventSource } from '@/types/analysis';
+import { AnalysisResult, QuickFacts, LinkItem, MAItem, CompetitorMentionItem, CustomAnswer, LeadershipChangeItem, RegulatoryBodyMention, RegulatoryEventItem, RegulatoryEventSource, SectionValidationIssue } from '@/types/analysis';
 
-function parseTagContent(text: string, tag: string): string {
+export function parseTagContent(text: string, tag: string): string {
   const regex = new RegExp(`\\[${tag}\\]([\\s\\S]*?)\\[\\/${tag}\\]`, 'i');
   const match = text.match(regex);
   return match ? match[1].trim() : '';
@@ -113,7 +113,7 @@ const INVALID_MA_TYPE_PATTERNS = [
   /format:/i,
 ];
 
-function isHallucinatedMAEntry(target: string, type?: string): boolean {
+export function isHallucinatedMAEntry(target: string, type?: string): boolean {
   const targetLower = target.toLowerCase().trim();
   const typeLower = (type || '').toLowerCase().trim();
 
@@ -312,7 +312,7 @@ function normalizeAmount(amount: string | undefined): number | null {
 /**
  * Extract year from a date string
  */
-function extractYear(date: string): number | null {
+export function extractYear(date: string): number | null {
   const match = date.match(/\b(19|20)\d{2}\b/);
   return match ? parseInt(match[0]) : null;
 }
@@ -328,6 +328,28 @@ function amountsAreSimilar(a1: number | null, a2: number | null): boolean {
   return diff / avg < tolerance;
 }
 
+/**
+ * Check if two regulatory events describe the same action: similar amounts,
+ * and either years within one of each other or one description naming the
+ * other's regulator
+ */
+export function isSameRegulatoryEvent(event: RegulatoryEventItem, otherEvent: RegulatoryEventItem): boolean {
+  const eventAmount = normalizeAmount(event.amount);
+  const otherAmount = normalizeAmount(otherEvent.amount);
+  const eventYear = extractYear(event.date);
+  const otherYear = extractYear(otherEvent.date);
+
+  // Check if amounts are similar and years match (or are within 1 year)
+  const amountMatch = eventAmount && otherAmount && amountsAreSimilar(eventAmount, otherAmount);
+  const yearMatch = eventYear && otherYear && Math.abs(eventYear - otherYear) <= 1;
+
+  // Also check for very similar descriptions (same enforcement action)
+  const descOverlap = event.description.toLowerCase().includes(otherEvent.regulatoryBody.toLowerCase()) ||
+                     otherEvent.description.toLowerCase().includes(event.regulatoryBody.toLowerCase());
+
+  return !!(amountMatch && (yearMatch || descOverlap));
+}
+
 /**
  * Deduplicate regulatory events by grouping similar events together
  * Events are considered duplicates if they have similar amounts and dates
@@ -342,14 +364,12 @@ export function deduplicateRegulatoryEvents(events: RegulatoryEventItem[]): Regu
     if (used.has(i)) continue;
 
     const event = events[i];
-    const eventAmount = normalizeAmount(event.amount);
-    const eventYear = extractYear(event.date);
 
     // Find all similar events
     const similarIndices: number[] = [i];
     const sources: RegulatoryEventSource[] = [];
 
-    // Add first event's source
+    // Add first event's source, and any it was already merged from
     if (event.url) {
       sources.push({
         url: event.url,
@@ -357,23 +377,14 @@ export function deduplicateRegulatoryEvents(events: RegulatoryEventItem[]): Regu
         regulatoryBody: event.regulatoryBody
       });
     }
+    sources.push(...(event.sources || []));
 
     for (let j = i + 1; j < events.length; j++) {
       if (used.has(j)) continue;
 
       const otherEvent = events[j];
-      const otherAmount = normalizeAmount(otherEvent.amount);
-      const otherYear = extractYear(otherEvent.date);
-
-      // Check if amounts are similar and years match (or are within 1 year)
-      const amountMatch = eventAmount && otherAmount && amountsAreSimilar(eventAmount, otherAmount);
-      const yearMatch = eventYear && otherYear && Math.abs(eventYear - otherYear) <= 1;
 
-      // Also check for very similar descriptions (same enforcement action)
-      const descOverlap = event.description.toLowerCase().includes(otherEvent.regulatoryBody.toLowerCase()) ||
-                         otherEvent.description.toLowerCase().includes(event.regulatoryBody.toLowerCase());
-
-      if (amountMatch && (yearMatch || descOverlap)) {
+      if (isSameRegulatoryEvent(event, otherEvent)) {
         similarIndices.push(j);
         used.add(j);
 
@@ -384,6 +395,7 @@ export function deduplicateRegulatoryEvents(events: RegulatoryEventItem[]): Regu
             regulatoryBody: otherEvent.regulatoryBody
           });
         }
+        sources.push(...(otherEvent.sources || []));
       }
     }
 
@@ -401,7 +413,8 @@ export function deduplicateRegulatoryEvents(events: RegulatoryEventItem[]): Regu
 
       grouped.push({
         ...primaryEvent,
-        sources: sources.filter(s => s.url !== primaryEvent.url) // Don't duplicate primary URL
+        // Don't duplicate the primary URL, or a source listed by two merged events
+        sources: sources.filter((s, k) => s.url !== primaryEvent.url && sources.findIndex(other => other.url === s.url) === k)
       });
     } else {
       grouped.push(event);
@@ -425,7 +438,35 @@ function parseCompetitorList(content: string): string[] {
     .slice(0, 8);
 }
 
-export function parseTaggedResponse(text: string): AnalysisResult {
+// Models asked not to guess still write placeholders like "Unknown"
+const NO_ANSWER_PATTERN = /^(unknown|n\/a|none|not found|no (reliable )?(answer|information)( (was )?found)?)\.?$/i;
+
+function cleanCustomAnswer(answer: string): string {
+  return NO_ANSWER_PATTERN.test(answer.trim()) ? '' : answer.trim();
+}
+
+// Unique http(s) URLs, in order of first appearance
+function uniqueUrls(urls: string[]): string[] {
+  return [...new Set(urls.map(url => url.replace(/[.,;]+$/, '')).filter(isValidUrl))];
+}
+
+/**
+ * Parse a [CUSTOM_ANSWER_n] section. The question is taken from the list
+ * that was asked rather than from the model's echo of it.
+ */
+function parseCustomAnswer(content: string, question: string): CustomAnswer {
+  const [answerPart, ...sourceParts] = content.split(/^\s*Sources?:/im);
+  const answer = answerPart
+    .replace(/^\s*Question:.*$/im, '')
+    .replace(/^\s*Answer:\s*/im, '');
+  return {
+    question,
+    answer: cleanCustomAnswer(answer),
+    sources: uniqueUrls(sourceParts.join('\n').match(/https?:\/\/[^\s)\]]+/g) || [])
+  };
+}
+
+export function parseTaggedResponse(text: string, researchQuestions: string[] = []): AnalysisResult {
   return {
     summary: parseTagContent(text, 'SUMMARY'),
     sentiment: normalizeSentiment(parseTagContent(text, 'SENTIMENT')),
@@ -441,6 +482,211 @@ export function parseTaggedResponse(text: string): AnalysisResult {
     maActivity: parseMAActivity(parseTagContent(text, 'MA_ACTIVITY')),
     regulatoryLandscape: parseRegulatoryLandscape(parseTagContent(text, 'REGULATORY_LANDSCAPE')),
     regulatoryEvents: parseRegulatoryEvents(parseTagContent(text, 'REGULATORY_EVENTS')),
-    sources: parseSources(parseTagContent(text, 'SOURCES'))
+    sources: parseSources(parseTagContent(text, 'SOURCES')),
+    ...(researchQuestions.length > 0 && {
+      customAnswers: researchQuestions.map((question, i) => parseCustomAnswer(parseTagContent(text, `CUSTOM_ANSWER_${i + 1}`), question))
+    })
+  };
+}
+
+// --- Structured (JSON) output validation ---
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Optional string fields may come back as null, empty or missing
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function requiredString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function enumValue<T extends string>(value: unknown, allowed: readonly T[], fallback: T): T {
+  const normalized = typeof value === 'string' ? value.toLowerCase().replace(/\s+/g, '_') : '';
+  return (allowed as readonly string[]).includes(normalized) ? normalized as T : fallback;
+}
+
+/**
+ * Validate an array section item by item. Items that don't match are dropped
+ * and reported once for the section.
+ */
+function validateList<T>(
+  section: keyof AnalysisResult,
+  value: unknown,
+  validateItem: (item: unknown) => T | null,
+  issues: SectionValidationIssue[]
+): T[] {
+  if (value === undefined || value === null) {
+    issues.push({ section, message: 'Missing from response' });
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    issues.push({ section, message: `Expected an array, got ${typeof value}` });
+    return [];
+  }
+  const items = value.map(validateItem);
+  const valid = items.filter((item): item is T => item !== null);
+  if (valid.length < value.length) {
+    issues.push({ section, message: `Dropped ${value.length - valid.length} of ${value.length} items that did not match the schema` });
+  }
+  return valid;
+}
+
+function validateLinkItem(item: unknown): LinkItem | null {
+  if (!isRecord(item)) return null;
+  const title = requiredString(item.title);
+  if (!title) return null;
+  return {
+    title,
+    url: extractUrl(optionalString(item.url) || ''),
+    summary: optionalString(item.summary) || '',
+    ...(optionalString(item.date) && { date: optionalString(item.date) })
+  };
+}
+
+function validateLeadershipChange(item: unknown): LeadershipChangeItem | null {
+  if (!isRecord(item)) return null;
+  const name = requiredString(item.name);
+  const role = requiredString(item.role);
+  if (!name || !role) return null;
+  return {
+    name,
+    role,
+    changeType: enumValue(item.changeType, ['appointed', 'promoted', 'departed', 'expanded_role'] as const, 'appointed'),
+    date: optionalString(item.date),
+    previousRole: optionalString(item.previousRole),
+    url: extractUrl(optionalString(item.url) || '') || undefined
+  };
+}
+
+function validateMAItem(item: unknown): MAItem | null {
+  if (!isRecord(item)) return null;
+  const year = requiredString(item.year);
+  const target = requiredString(item.target);
+  if (!year || !target) return null;
+  return {
+    year,
+    type: optionalString(item.type) || '',
+    target,
+    dealValue: optionalString(item.dealValue),
+    rationale: optionalString(item.rationale)
+  };
+}
+
+function validateRegulatoryBody(item: unknown): RegulatoryBodyMention | null {
+  if (!isRecord(item)) return null;
+  const body = requiredString(item.body);
+  const context = requiredString(item.context);
+  if (!body || !context) return null;
+  return { body, context, url: extractUrl(optionalString(item.url) || '') || undefined };
+}
+
+function validateRegulatoryEvent(item: unknown): RegulatoryEventItem | null {
+  if (!isRecord(item)) return null;
+  const date = requiredString(item.date);
+  const regulatoryBody = requiredString(item.regulatoryBody);
+  const description = requiredString(item.description);
+  if (!date || !regulatoryBody || !description) return null;
+  const amount = optionalString(item.amount);
+  return {
+    date,
+    regulatoryBody,
+    eventType: enumValue(item.eventType, ['fine', 'penalty', 'settlement', 'enforcement', 'investigation', 'consent', 'order', 'action', 'other'] as const, 'other'),
+    amount: amount && !['n/a', '-'].includes(amount.toLowerCase()) ? amount : undefined,
+    description,
+    url: extractUrl(optionalString(item.url) || '')
+  };
+}
+
+function validateStringItem(item: unknown): string | null {
+  return requiredString(item);
+}
+
+/**
+ * Match structured customAnswers to the questions asked, by position.
+ * Questions without an entry get an empty answer and are reported.
+ */
+function validateCustomAnswers(value: unknown, questions: string[], issues: SectionValidationIssue[]): CustomAnswer[] {
+  const entries = Array.isArray(value) ? value : [];
+  if (entries.length < questions.length) {
+    issues.push({ section: 'customAnswers', message: `Answered ${entries.length} of ${questions.length} research questions` });
+  }
+  return questions.map((question, i) => {
+    const item: unknown = entries[i];
+    const entry: JsonRecord = isRecord(item) ? item : {};
+    const sources = Array.isArray(entry.sources) ? entry.sources.filter((url): url is string => typeof url === 'string') : [];
+    return {
+      question,
+      answer: cleanCustomAnswer(optionalString(entry.answer) || ''),
+      sources: uniqueUrls(sources.map(url => extractUrl(url.trim())))
+    };
+  });
+}
+
+/**
+ * Validate schema-constrained JSON output against AnalysisResult. Each section
+ * is checked independently: a malformed section is emptied and reported
+ * without discarding the rest of the response. The same hallucination
+ * filters as the tagged parser are applied afterwards.
+ */
+export function parseStructuredResponse(
+  data: unknown,
+  researchQuestions: string[] = []
+): { analysis: AnalysisResult; issues: SectionValidationIssue[] } {
+  const issues: SectionValidationIssue[] = [];
+  const raw: JsonRecord = isRecord(data) ? data : {};
+
+  const summary = requiredString(raw.summary);
+  if (!summary) {
+    issues.push({ section: 'summary', message: 'Expected a non-empty string' });
+  }
+
+  const sentiment = typeof raw.sentiment === 'string' ? raw.sentiment.toUpperCase().trim() : '';
+  if (!['BULLISH', 'BEARISH', 'MIXED', 'NEUTRAL'].includes(sentiment)) {
+    issues.push({ section: 'sentiment', message: `Unexpected value ${JSON.stringify(raw.sentiment)}, defaulted to NEUTRAL` });
+  }
+
+  const quickFacts: QuickFacts = {};
+  if (isRecord(raw.quickFacts)) {
+    for (const [key, value] of Object.entries(raw.quickFacts)) {
+      const fact = optionalString(value);
+      if (fact) quickFacts[key] = fact;
+    }
+  } else {
+    issues.push({ section: 'quickFacts', message: 'Expected an object' });
+  }
+
+  return {
+    analysis: {
+      summary: summary || '',
+      sentiment: normalizeSentiment(sentiment),
+      quickFacts,
+      investorDocs: validateList('investorDocs', raw.investorDocs, validateLinkItem, issues),
+      keyPriorities: validateList('keyPriorities', raw.keyPriorities, validateStringItem, issues),
+      growthInitiatives: validateList('growthInitiatives', raw.growthInitiatives, validateStringItem, issues),
+      techNews: validateList('techNews', raw.techNews, validateLinkItem, issues).filter(item => item.url),
+      caseStudies: validateList('caseStudies', raw.caseStudies, validateLinkItem, issues),
+      // Populated separately from verified web search
+      competitorMentions: [],
+      discoveredCompetitors: validateList('discoveredCompetitors', raw.discoveredCompetitors, validateStringItem, issues)
+        .filter(name => name.length < 100)
+        .slice(0, 8),
+      leadershipChanges: validateList('leadershipChanges', raw.leadershipChanges, validateLeadershipChange, issues)
+        .filter(l => !isFakeName(l.name)),
+      maActivity: validateList('maActivity', raw.maActivity, validateMAItem, issues)
+        .filter(m => !isHallucinatedMAEntry(m.target, m.type)),
+      regulatoryLandscape: validateList('regulatoryLandscape', raw.regulatoryLandscape, validateRegulatoryBody, issues),
+      regulatoryEvents: validateList('regulatoryEvents', raw.regulatoryEvents, validateRegulatoryEvent, issues),
+      sources: validateList('sources', raw.sources, validateStringItem, issues).filter(url => url.startsWith('http')),
+      ...(researchQuestions.length > 0 && {
+        customAnswers: validateCustomAnswers(raw.customAnswers, researchQuestions, issues)
+      })
+    },
+    issues
   };
 }
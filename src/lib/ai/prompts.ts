@@ -0,0 +1,217 @@
+// Built-in analysis prompts and the {{variable}} templating used for
+// admin-edited versions stored in analysis_prompts
+
+import { CompanyIdentifiers, OutputLanguage } from '@/types/analysis';
+import { describeCompanyIdentifiers } from '@/lib/services/companyEntity';
+import { OUTPUT_LANGUAGES } from '@/lib/config/languages';
+
+// Variables a template can reference as {{name}}
+export const PROMPT_VARIABLES = ['companyName', 'companyIdentifiers', 'knownCompetitors'] as const;
+
+export type PromptVariables = Record<(typeof PROMPT_VARIABLES)[number], string>;
+
+export interface AnalysisPrompts {
+  tagged: string; // [SECTION] tag format
+  structured: string; // JSON schema output
+}
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Substitute {{name}} placeholders. Unknown names are left as-is so a
+ * typo shows up in the prompt rather than silently disappearing.
+ */
+export function renderPrompt(template: string, variables: PromptVariables): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) =>
+    name in variables ? variables[name as keyof PromptVariables] : match
+  );
+}
+
+/**
+ * Template variables for a company. companyIdentifiers renders as a
+ * parenthetical to place right after the quoted name, or as nothing when
+ * the company was searched by name only. knownCompetitors does the same for
+ * the admin-managed vendors, which discoveredCompetitors should not repeat.
+ */
+export function getCompanyPromptVariables(companyName: string, company?: CompanyIdentifiers, knownCompetitors: string[] = []): PromptVariables {
+  const identifiers = describeCompanyIdentifiers(company);
+  return {
+    companyName,
+    companyIdentifiers: identifiers ? ` (${identifiers}; not other organizations with a similar name)` : '',
+    knownCompetitors: knownCompetitors.length > 0 ? ` (beyond ${knownCompetitors.join(', ')})` : ''
+  };
+}
+
+/**
+ * Instruction appended to the analysis prompt for non-English output, so it
+ * applies to admin-edited templates too. Empty for English.
+ */
+export function getLanguageInstruction(language: OutputLanguage): string {
+  if (language === 'en') return '';
+  const { name } = OUTPUT_LANGUAGES[language];
+  return `
+
+OUTPUT LANGUAGE: Write all narrative text in ${name}: the summary, key priorities, growth initiatives, quick fact values such as industry and headquarters, M&A rationale, regulatory contexts, answers to research questions and all descriptions and summaries. Keep the following exactly as they are, untranslated: URLs, titles of linked articles and documents, company, product and person names, regulator acronyms, section tags, JSON keys, and fixed values such as the sentiment (BULLISH, BEARISH, MIXED, NEUTRAL), event types and change types.`;
+}
+
+/**
+ * Instructions for the additional research questions, appended after the
+ * template like the language instruction. Tagged prompts get one
+ * [CUSTOM_ANSWER_n] section per question; structured prompts fill the
+ * customAnswers array. Empty when there are no questions.
+ */
+export function getResearchQuestionsInstruction(questions: string[], format: keyof AnalysisPrompts): string {
+  if (questions.length === 0) return '';
+
+  if (format === 'structured') {
+    const list = questions.map((question, i) => `${i + 1}. ${question}`).join('\n');
+    return `
+
+ADDITIONAL RESEARCH QUESTIONS: Fill customAnswers with one entry per question below, in the same order. Copy the question as written, answer it in 2-4 sentences from verifiable public information, and list the URLs backing the answer as sources. Use an empty answer if no reliable answer can be found; do not guess.
+${list}`;
+  }
+
+  const sections = questions.map((question, i) => `[CUSTOM_ANSWER_${i + 1}]
+Question: ${question}
+Answer: [2-4 sentences from verifiable public information, or "Unknown" if no reliable answer can be found]
+Sources: [URLs backing the answer, one per line]
+[/CUSTOM_ANSWER_${i + 1}]`).join('\n\n');
+  return `
+
+ADDITIONAL RESEARCH QUESTIONS: Answer each question below in its own tagged section, in this format. Do not guess.
+
+${sections}`;
+}
+
+/**
+ * List placeholders in a template that aren't in PROMPT_VARIABLES
+ */
+export function findUnknownVariables(template: string): string[] {
+  const names = [...template.matchAll(VARIABLE_PATTERN)].map(match => match[1]);
+  return [...new Set(names)].filter(name => !(PROMPT_VARIABLES as readonly string[]).includes(name));
+}
+
+export const DEFAULT_STRUCTURED_PROMPT = `You are a corporate intelligence analyst. Analyze "{{companyName}}"{{companyIdentifiers}} and provide comprehensive information. Search for the most current information available.
+
+Return a single JSON object matching the provided schema. Guidance for each field:
+- summary: exactly 4 sentences summarizing the company's core activities, market position, and recent developments.
+- sentiment: BULLISH, BEARISH, MIXED, or NEUTRAL based on recent news and market perception.
+- quickFacts: employee count, headquarters, primary industry, year founded, CEO, and market cap (or "Private").
+- investorDocs: the latest 10-K and latest investor presentation, with URLs if found and key highlights as the summary.
+- keyPriorities: 5 key strategic priorities from executive communications.
+- growthInitiatives: 5 growth initiatives.
+- techNews: exactly 10 recent AI/technology news items about this company (past month).
+- caseStudies: 5 technology case studies from OTHER technology companies (AWS, Microsoft, Google, Salesforce, ServiceNow, Snowflake, etc.) where {{companyName}} is featured as a customer or partner. Only include case studies HOSTED BY other companies, NOT on {{companyName}}'s own website. Prefix the title with the vendor name.
+- discoveredCompetitors: compliance, archiving, e-discovery, or communications surveillance technology vendors{{knownCompetitors}} that {{companyName}} may use, partner with, or that have published content about {{companyName}}. Real, named companies only; empty if none.
+- leadershipChanges: recent leadership changes, executive appointments, promotions, or departures in the past 12 months.
+- maActivity: ONLY verified, publicly announced mergers, acquisitions, and divestitures from the past 10 years with REAL company names. Do NOT make up company names like "Fintech Startup XYZ". Empty if none can be verified.
+- regulatoryLandscape: regulatory bodies that oversee or interact with "{{companyName}}" (SEC, FINRA, FCA, CFTC, ESMA, OCC, FDIC, Federal Reserve, PRA, MAS, ASIC, BaFin, AMF, etc.), using the SHORT name/acronym only, with the context of the relationship.
+- regulatoryEvents: enforcement actions, fines, penalties, settlements, consent orders, or investigations involving "{{companyName}}" from the past 5 years (2020-present), from SEC.gov, FINRA.org, DOJ.gov, FCA.org.uk, and major financial news sources. Only REAL events with verifiable sources.
+- sources: all source URLs used.
+
+Use empty strings or empty arrays when information is unavailable. Never invent URLs.`;
+
+export const DEFAULT_TAGGED_PROMPT = `You are a corporate intelligence analyst. Analyze "{{companyName}}"{{companyIdentifiers}} and provide comprehensive information. Search for the most current information available.
+
+Return your analysis in the following EXACT format with tags:
+
+[SUMMARY]
+Write exactly 4 sentences summarizing the company's core activities, market position, and recent developments.
+[/SUMMARY]
+
+[SENTIMENT]
+One word only: BULLISH, BEARISH, MIXED, or NEUTRAL based on recent news and market perception.
+[/SENTIMENT]
+
+[QUICK_FACTS]
+Employee Count: [number or estimate]
+Headquarters: [location]
+Industry: [primary industry]
+Founded: [year]
+CEO: [name]
+Market Cap: [value if public, or "Private"]
+[/QUICK_FACTS]
+
+[INVESTOR_DOCS]
+Latest 10-K | [URL if found] | [Key highlights]
+Latest Investor Presentation | [URL if found] | [Key highlights]
+[/INVESTOR_DOCS]
+
+[KEY_PRIORITIES]
+List 5 key strategic priorities from executive communications:
+1. [Priority 1]
+2. [Priority 2]
+3. [Priority 3]
+4. [Priority 4]
+5. [Priority 5]
+[/KEY_PRIORITIES]
+
+[GROWTH_INITIATIVES]
+List 5 growth initiatives:
+1. [Initiative 1]
+2. [Initiative 2]
+3. [Initiative 3]
+4. [Initiative 4]
+5. [Initiative 5]
+[/GROWTH_INITIATIVES]
+
+[TECH_NEWS]
+Provide exactly 10 recent AI/technology news items about this company (past month). Format each as:
+Title | URL | Brief summary
+[/TECH_NEWS]
+
+[CASE_STUDIES]
+Find 5 technology case studies from OTHER technology companies (AWS, Microsoft, Google, Salesforce, ServiceNow, Snowflake, etc.) where {{companyName}} is featured as a customer or partner.
+IMPORTANT: Only include case studies HOSTED BY other companies, NOT case studies hosted on {{companyName}}'s own website.
+Format: Vendor: Title | URL | Summary
+[/CASE_STUDIES]
+
+[COMPLIANCE_VENDORS]
+Based on what you know about {{companyName}}, list any compliance, archiving, e-discovery, or communications surveillance technology vendors{{knownCompetitors}} that {{companyName}} may use, partner with, or that have published content about {{companyName}}.
+These must be real, named companies. One name per line. If none, leave empty.
+[/COMPLIANCE_VENDORS]
+
+[COMPETITOR_MENTIONS]
+Leave this section empty. Competitor mentions are populated separately via verified web search.
+[/COMPETITOR_MENTIONS]
+
+[LEADERSHIP_CHANGES]
+List any recent leadership changes, executive appointments, promotions, or departures in the past 12 months. Format:
+Name | New Role | Change Type (appointed/promoted/departed/expanded_role) | Date | Previous Role (if applicable) | Source URL
+[/LEADERSHIP_CHANGES]
+
+[MA_ACTIVITY]
+List ONLY verified, publicly announced mergers, acquisitions, and divestitures from the past 10 years.
+CRITICAL: Only include deals with REAL company names that you can verify from news sources. Do NOT make up or hallucinate company names like "Fintech Startup XYZ" or "Regional Bank ABC". If you cannot verify real M&A activity, leave this section empty.
+Format: Year | Type (Acquisition/Merger/Divestiture) | Target/Partner (real verified company name) | Deal Value (if known) | Strategic Rationale
+[/MA_ACTIVITY]
+
+[REGULATORY_LANDSCAPE]
+Search the company's Legal, Compliance, and About pages, as well as Wikipedia and other public sources for information about their regulatory environment.
+List the regulatory bodies that oversee or interact with "{{companyName}}". Include bodies such as SEC, FINRA, FCA, CFTC, ESMA, OCC, FDIC, Federal Reserve, PRA, MAS, ASIC, BaFin, AMF, and other relevant financial/industry regulators.
+Format: Regulatory Body (use SHORT name/acronym only, e.g., "SEC" not "SEC (Securities and Exchange Commission)") | Brief context of the relationship (e.g., "Primary securities regulator", "Banking supervisor", "Registered broker-dealer") | Source URL (if available)
+[/REGULATORY_LANDSCAPE]
+
+[REGULATORY_EVENTS]
+Search SEC.gov, FINRA.org, DOJ.gov, FCA.org.uk, and major financial news sources (Reuters, Bloomberg, WSJ) for enforcement actions, fines, penalties, settlements, consent orders, or investigations involving "{{companyName}}" from the past 5 years (2020-present).
+
+Look specifically for:
+- SEC enforcement actions and litigation releases
+- FINRA disciplinary actions and fines
+- DOJ settlements and criminal charges
+- State attorney general actions
+- International regulatory penalties (FCA, ESMA, etc.)
+
+For major financial institutions, there are typically multiple enforcement actions - search thoroughly.
+IMPORTANT: Only include REAL events with verifiable sources. Do not fabricate events.
+Format: Date (YYYY-MM or YYYY) | Regulatory Body | Event Type (fine/penalty/settlement/enforcement/investigation/consent/order) | Amount (e.g., $15 million) | Brief description of violation | News or official source URL
+[/REGULATORY_EVENTS]
+
+[SOURCES]
+List all source URLs used, one per line.
+[/SOURCES]`;
+
+export const DEFAULT_ANALYSIS_PROMPTS: AnalysisPrompts = {
+  tagged: DEFAULT_TAGGED_PROMPT,
+  structured: DEFAULT_STRUCTURED_PROMPT
+};
@@ -1,7 +1,12 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { BaseAIProvider, AIProviderConfig } from './base';
-import { AnalysisResult } from '@/types/analysis';
-import { parseTaggedResponse } from '../parser';
+import { BaseAIProvider, AIProviderConfig, GenerationResult } from './base';
+import { ANALYSIS_SCHEMA, toJsonSchema } from '../schema';
+import { fromAnthropicUsage } from '../usage';
+
+const SYSTEM_PROMPT = 'You are a corporate intelligence analyst. Provide comprehensive, factual analysis based on your knowledge.';
+
+// Structured output is requested by forcing a call to this tool
+const ANALYSIS_TOOL_NAME = 'record_company_analysis';
 
 export class AnthropicProvider extends BaseAIProvider {
   readonly name = 'anthropic';
@@ -11,28 +16,60 @@ export class AnthropicProvider extends BaseAIProvider {
 
   constructor(config: AIProviderConfig) {
     super(config);
-    this.client = new Anthropic({ apiKey: this.apiKey });
+    // Retries are handled by BaseAIProvider
+    this.client = new Anthropic({ apiKey: this.apiKey, maxRetries: 0 });
   }
 
   getDefaultModel(): string {
     return 'claude-sonnet-4-5-20250929';
   }
 
-  async analyzeCompany(companyName: string): Promise<AnalysisResult> {
+  protected async generateText(prompt: string, signal: AbortSignal): Promise<GenerationResult<string>> {
     const message = await this.client.messages.create({
       model: this.model,
       max_tokens: 4000,
-      system: 'You are a corporate intelligence analyst. Provide comprehensive, factual analysis based on your knowledge.',
+      system: SYSTEM_PROMPT,
       messages: [
         {
           role: 'user',
-          content: this.getAnalysisPrompt(companyName)
+          content: prompt
         }
       ]
-    });
+    }, { signal });
 
     const textBlock = message.content.find((block) => block.type === 'text');
-    const text = textBlock && textBlock.type === 'text' ? textBlock.text : '';
-    return parseTaggedResponse(text);
+    return {
+      content: textBlock && textBlock.type === 'text' ? textBlock.text : '',
+      usage: fromAnthropicUsage(message.usage)
+    };
+  }
+
+  protected async generateStructured(prompt: string, signal: AbortSignal): Promise<GenerationResult<unknown>> {
+    const message = await this.client.messages.create({
+      model: this.model,
+      // JSON output is more verbose than the tagged format
+      max_tokens: 8000,
+      system: SYSTEM_PROMPT,
+      tools: [
+        {
+          name: ANALYSIS_TOOL_NAME,
+          description: 'Record the structured company analysis',
+          input_schema: toJsonSchema(ANALYSIS_SCHEMA) as Anthropic.Tool.InputSchema
+        }
+      ],
+      tool_choice: { type: 'tool', name: ANALYSIS_TOOL_NAME },
+      messages: [
+        {
+          role: 'user',
+          content: prompt
+        }
+      ]
+    }, { signal });
+
+    const toolBlock = message.content.find((block) => block.type === 'tool_use');
+    return {
+      content: toolBlock && toolBlock.type === 'tool_use' ? toolBlock.input : null,
+      usage: fromAnthropicUsage(message.usage)
+    };
   }
 }
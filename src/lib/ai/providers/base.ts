@@ -1,133 +1,167 @@
-import { AnalysisResult } from '@/types/analysis';
+import { AnalysisResult, CompanyIdentifiers, OutputLanguage, ProviderName, SectionValidationIssue } from '@/types/analysis';
+import { parseTaggedResponse, parseStructuredResponse } from '../parser';
+import { TokenUsage, sumUsage } from '../usage';
+import { AnalysisPrompts, DEFAULT_ANALYSIS_PROMPTS, getCompanyPromptVariables, getLanguageInstruction, getResearchQuestionsInstruction, renderPrompt } from '../prompts';
+import { isTimedOut, withTimeout } from '@/lib/services/deadline';
+import { DEFAULT_OUTPUT_LANGUAGE } from '@/lib/config/languages';
+import { callWithRetry } from '@/lib/services/retry';
 
 export interface AIProviderConfig {
   apiKey: string;
   model?: string;
-  timeout?: number;
+  timeout?: number; // Per-call limit in ms; a call that exceeds it fails with a retryable error
+  baseUrl?: string; // Server URL for self-hosted providers
+  prompts?: AnalysisPrompts; // Admin-edited prompt templates; built-in prompts if unset
+  language?: OutputLanguage; // Language for the narrative fields; English if unset
+  researchQuestions?: string[]; // Extra questions answered in customAnswers
+  knownCompetitors?: string[]; // Admin-managed vendors, left out of discoveredCompetitors
+}
+
+// 'structured' when the provider returned schema-constrained JSON, 'tagged' when
+// the [SECTION] tag format was parsed instead
+export type AnalysisOutputFormat = 'structured' | 'tagged';
+
+export interface AnalysisOutput {
+  analysis: AnalysisResult;
+  format: AnalysisOutputFormat;
+  validationIssues: SectionValidationIssue[];
+  usage: TokenUsage; // Provider-reported, summed over all calls made
+  provider: ProviderName; // Provider and model that actually produced the analysis
+  model: string;
+  failedProviders?: ProviderFailure[]; // Earlier providers in a failover chain that errored
+}
+
+export interface ProviderFailure {
+  provider: ProviderName;
+  model: string;
+  error: string;
+}
+
+// Raw model output together with the provider-reported usage for the call
+export interface GenerationResult<T> {
+  content: T;
+  usage: TokenUsage;
 }
 
 export interface AIProvider {
-  readonly name: string;
+  readonly name: ProviderName;
+  readonly model: string;
   readonly supportsWebGrounding: boolean;
-  analyzeCompany(companyName: string): Promise<AnalysisResult>;
+  // `company` identifies which of several same-named companies is meant;
+  // `signal` cancels the analysis, e.g. when the request deadline passes
+  analyzeCompany(companyName: string, company?: CompanyIdentifiers, signal?: AbortSignal): Promise<AnalysisOutput>;
 }
 
 export abstract class BaseAIProvider implements AIProvider {
-  abstract readonly name: string;
+  abstract readonly name: ProviderName;
   abstract readonly supportsWebGrounding: boolean;
 
   protected apiKey: string;
-  protected model: string;
+  readonly model: string;
   protected timeout: number;
+  protected prompts: AnalysisPrompts;
+  protected language: OutputLanguage;
+  protected researchQuestions: string[];
+  protected knownCompetitors: string[];
 
   constructor(config: AIProviderConfig) {
     this.apiKey = config.apiKey;
     this.model = config.model || this.getDefaultModel();
-    this.timeout = config.timeout || 60000;
+    this.timeout = config.timeout || 120000;
+    this.prompts = config.prompts || DEFAULT_ANALYSIS_PROMPTS;
+    this.language = config.language || DEFAULT_OUTPUT_LANGUAGE;
+    this.researchQuestions = config.researchQuestions || [];
+    this.knownCompetitors = config.knownCompetitors || [];
   }
 
   abstract getDefaultModel(): string;
-  abstract analyzeCompany(companyName: string): Promise<AnalysisResult>;
-
-  protected getAnalysisPrompt(companyName: string): string {
-    return `You are a corporate intelligence analyst. Analyze "${companyName}" and provide comprehensive information. Search for the most current information available.
-
-Return your analysis in the following EXACT format with tags:
-
-[SUMMARY]
-Write exactly 4 sentences summarizing the company's core activities, market position, and recent developments.
-[/SUMMARY]
-
-[SENTIMENT]
-One word only: BULLISH, BEARISH, MIXED, or NEUTRAL based on recent news and market perception.
-[/SENTIMENT]
-
-[QUICK_FACTS]
-Employee Count: [number or estimate]
-Headquarters: [location]
-Industry: [primary industry]
-Founded: [year]
-CEO: [name]
-Market Cap: [value if public, or "Private"]
-[/QUICK_FACTS]
-
-[INVESTOR_DOCS]
-Latest 10-K | [URL if found] | [Key highlights]
-Latest Investor Presentation | [URL if found] | [Key highlights]
-[/INVESTOR_DOCS]
-
-[KEY_PRIORITIES]
-List 5 key strategic priorities from executive communications:
-1. [Priority 1]
-2. [Priority 2]
-3. [Priority 3]
-4. [Priority 4]
-5. [Priority 5]
-[/KEY_PRIORITIES]
-
-[GROWTH_INITIATIVES]
-List 5 growth initiatives:
-1. [Initiative 1]
-2. [Initiative 2]
-3. [Initiative 3]
-4. [Initiative 4]
-5. [Initiative 5]
-[/GROWTH_INITIATIVES]
-
-[TECH_NEWS]
-Provide exactly 10 recent AI/technology news items about this company (past month). Format each as:
-Title | URL | Brief summary
-[/TECH_NEWS]
-
-[CASE_STUDIES]
-Find 5 technology case studies from OTHER technology companies (AWS, Microsoft, Google, Salesforce, ServiceNow, Snowflake, etc.) where ${companyName} is featured as a customer or partner.
-IMPORTANT: Only include case studies HOSTED BY other companies, NOT case studies hosted on ${companyName}'s own website.
-Format: Vendor: Title | URL | Summary
-[/CASE_STUDIES]
-
-[COMPLIANCE_VENDORS]
-Based on what you know about ${companyName}, list any compliance, archiving, e-discovery, or communications surveillance technology vendors (beyond Smarsh, Global Relay, NICE, Verint, Arctera, Veritas, Proofpoint, Shield, Behavox, Digital Reasoning, Mimecast, ZL Technologies) that ${companyName} may use, partner with, or that have published content about ${companyName}.
-These must be real, named companies. One name per line. If none, leave empty.
-[/COMPLIANCE_VENDORS]
-
-[COMPETITOR_MENTIONS]
-Leave this section empty. Competitor mentions are populated separately via verified web search.
-[/COMPETITOR_MENTIONS]
-
-[LEADERSHIP_CHANGES]
-List any recent leadership changes, executive appointments, promotions, or departures in the past 12 months. Format:
-Name | New Role | Change Type (appointed/promoted/departed/expanded_role) | Date | Previous Role (if applicable) | Source URL
-[/LEADERSHIP_CHANGES]
-
-[MA_ACTIVITY]
-List ONLY verified, publicly announced mergers, acquisitions, and divestitures from the past 10 years.
-CRITICAL: Only include deals with REAL company names that you can verify from news sources. Do NOT make up or hallucinate company names like "Fintech Startup XYZ" or "Regional Bank ABC". If you cannot verify real M&A activity, leave this section empty.
-Format: Year | Type (Acquisition/Merger/Divestiture) | Target/Partner (real verified company name) | Deal Value (if known) | Strategic Rationale
-[/MA_ACTIVITY]
-
-[REGULATORY_LANDSCAPE]
-Search the company's Legal, Compliance, and About pages, as well as Wikipedia and other public sources for information about their regulatory environment.
-List the regulatory bodies that oversee or interact with "${companyName}". Include bodies such as SEC, FINRA, FCA, CFTC, ESMA, OCC, FDIC, Federal Reserve, PRA, MAS, ASIC, BaFin, AMF, and other relevant financial/industry regulators.
-Format: Regulatory Body (use SHORT name/acronym only, e.g., "SEC" not "SEC (Securities and Exchange Commission)") | Brief context of the relationship (e.g., "Primary securities regulator", "Banking supervisor", "Registered broker-dealer") | Source URL (if available)
-[/REGULATORY_LANDSCAPE]
-
-[REGULATORY_EVENTS]
-Search SEC.gov, FINRA.org, DOJ.gov, FCA.org.uk, and major financial news sources (Reuters, Bloomberg, WSJ) for enforcement actions, fines, penalties, settlements, consent orders, or investigations involving "${companyName}" from the past 5 years (2020-present).
-
-Look specifically for:
-- SEC enforcement actions and litigation releases
-- FINRA disciplinary actions and fines
-- DOJ settlements and criminal charges
-- State attorney general actions
-- International regulatory penalties (FCA, ESMA, etc.)
-
-For major financial institutions, there are typically multiple enforcement actions - search thoroughly.
-IMPORTANT: Only include REAL events with verifiable sources. Do not fabricate events.
-Format: Date (YYYY-MM or YYYY) | Regulatory Body | Event Type (fine/penalty/settlement/enforcement/investigation/consent/order) | Amount (e.g., $15 million) | Brief description of violation | News or official source URL
-[/REGULATORY_EVENTS]
-
-[SOURCES]
-List all source URLs used, one per line.
-[/SOURCES]`;
+
+  // Request a free-text completion for the tagged prompt
+  protected abstract generateText(prompt: string, signal: AbortSignal): Promise<GenerationResult<string>>;
+
+  /**
+   * Request schema-constrained JSON for the structured prompt. Returns the
+   * raw text of the JSON document, or an already-parsed object.
+   */
+  protected generateStructured?(prompt: string, signal: AbortSignal): Promise<GenerationResult<unknown>>;
+
+  // Override to disable structured output for models that don't support it
+  protected supportsStructuredOutput(): boolean {
+    return this.generateStructured !== undefined;
+  }
+
+  /**
+   * Analyze a company, preferring structured JSON output and falling back to
+   * the tagged format when the model doesn't support it or returns
+   * something that isn't a JSON object.
+   */
+  async analyzeCompany(companyName: string, company?: CompanyIdentifiers, signal?: AbortSignal): Promise<AnalysisOutput> {
+    const usage: TokenUsage[] = [];
+
+    if (this.supportsStructuredOutput() && this.generateStructured) {
+      const { content: raw, usage: structuredUsage } = await this.runCall(signal, callSignal =>
+        this.generateStructured!(this.getStructuredAnalysisPrompt(companyName, company), callSignal)
+      );
+      usage.push(structuredUsage);
+      const data = typeof raw === 'string' ? parseJsonObject(raw) : raw;
+
+      if (data && typeof data === 'object' && !Array.isArray(data)) {
+        const { analysis, issues } = parseStructuredResponse(data, this.researchQuestions);
+        if (issues.length > 0) {
+          console.warn(`${this.name} structured output failed validation:`, issues.map(i => `${i.section}: ${i.message}`).join('; '));
+        }
+        return { analysis, format: 'structured', validationIssues: issues, usage: sumUsage(usage), provider: this.name, model: this.model };
+      }
+      console.warn(`${this.name} returned unparseable structured output, falling back to tagged format`);
+    }
+
+    const { content: text, usage: textUsage } = await this.runCall(signal, callSignal =>
+      this.generateText(this.getAnalysisPrompt(companyName, company), callSignal)
+    );
+    usage.push(textUsage);
+    return { analysis: parseTaggedResponse(text, this.researchQuestions), format: 'tagged', validationIssues: [], usage: sumUsage(usage), provider: this.name, model: this.model };
+  }
+
+  /**
+   * Run a single provider call under the per-key concurrency limit, retrying
+   * rate limits and transient errors. Each attempt gets this provider's
+   * timeout; hitting it raises a "timed out" error, which isn't retried here
+   * but makes failover move on to the next provider. Cancellation through
+   * `signal` is passed through unchanged.
+   */
+  private runCall<T>(signal: AbortSignal | undefined, call: (callSignal: AbortSignal) => Promise<T>): Promise<T> {
+    return callWithRetry(this.name, this.apiKey, async () => {
+      const callSignal = withTimeout(signal, this.timeout);
+      try {
+        return await call(callSignal);
+      } catch (err) {
+        if (isTimedOut(callSignal) && !signal?.aborted) {
+          throw new Error(`${this.name} request timed out after ${Math.round(this.timeout / 1000)}s`);
+        }
+        throw err;
+      }
+    }, { signal, label: `${this.name} analysis` });
+  }
+
+  protected getStructuredAnalysisPrompt(companyName: string, company?: CompanyIdentifiers): string {
+    return renderPrompt(this.prompts.structured, getCompanyPromptVariables(companyName, company, this.knownCompetitors)) +
+      getResearchQuestionsInstruction(this.researchQuestions, 'structured') +
+      getLanguageInstruction(this.language);
+  }
+
+  protected getAnalysisPrompt(companyName: string, company?: CompanyIdentifiers): string {
+    return renderPrompt(this.prompts.tagged, getCompanyPromptVariables(companyName, company, this.knownCompetitors)) +
+      getResearchQuestionsInstruction(this.researchQuestions, 'tagged') +
+      getLanguageInstruction(this.language);
+  }
+}
+
+// Parse a JSON object from model output, tolerating markdown code fences
+function parseJsonObject(text: string): unknown {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    return null;
   }
 }
@@ -1,7 +1,7 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { BaseAIProvider, AIProviderConfig } from './base';
-import { AnalysisResult } from '@/types/analysis';
-import { parseTaggedResponse } from '../parser';
+import { BaseAIProvider, AIProviderConfig, GenerationResult } from './base';
+import { ANALYSIS_SCHEMA, toGeminiSchema } from '../schema';
+import { fromGeminiUsage } from '../usage';
 
 export class GeminiProvider extends BaseAIProvider {
   readonly name = 'gemini';
@@ -18,15 +18,31 @@ export class GeminiProvider extends BaseAIProvider {
     return 'gemini-2.5-flash';
   }
 
-  async analyzeCompany(companyName: string): Promise<AnalysisResult> {
+  protected async generateText(prompt: string, signal: AbortSignal): Promise<GenerationResult<string>> {
     const model = this.client.getGenerativeModel({
       model: this.model
     });
 
-    const prompt = this.getAnalysisPrompt(companyName);
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
+    const result = await model.generateContent(prompt, { signal });
+    return {
+      content: result.response.text(),
+      usage: fromGeminiUsage(result.response.usageMetadata)
+    };
+  }
+
+  protected async generateStructured(prompt: string, signal: AbortSignal): Promise<GenerationResult<unknown>> {
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(ANALYSIS_SCHEMA)
+      }
+    });
 
-    return parseTaggedResponse(text);
+    const result = await model.generateContent(prompt, { signal });
+    return {
+      content: result.response.text(),
+      usage: fromGeminiUsage(result.response.usageMetadata)
+    };
   }
 }
@@ -0,0 +1,234 @@
+import { AIProvider, AIProviderConfig, AnalysisOutput } from './base';
+import { parseStructuredResponse } from '../parser';
+import { DEFAULT_ANALYSIS_PROMPTS, getCompanyPromptVariables, renderPrompt } from '../prompts';
+import { TokenUsage } from '../usage';
+import { getMockFixture } from '@/lib/mock/fixtures';
+import { findMentionedVendor } from '@/lib/services/competitorVendors';
+import { COMMUNICATION_PLATFORMS, findMentionedPlatforms } from '@/lib/services/communicationPlatforms';
+import { CommunicationsEvidenceType, CompanyIdentifiers, CompetitorVendor } from '@/types/analysis';
+
+// Rough token count so usage logging has something to record
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Offline provider for local development. Returns the fixture analysis for
+ * the company, run through the same structured output validation as a real
+ * provider's response. Needs no API key and makes no network calls.
+ */
+export class MockProvider implements AIProvider {
+  readonly name = 'mock';
+  readonly supportsWebGrounding = false;
+  readonly model: string;
+
+  private prompt: string;
+  private researchQuestions: string[];
+  private knownCompetitors: string[];
+
+  constructor(config: AIProviderConfig) {
+    this.model = config.model || 'mock';
+    this.prompt = (config.prompts || DEFAULT_ANALYSIS_PROMPTS).structured;
+    this.researchQuestions = config.researchQuestions || [];
+    this.knownCompetitors = config.knownCompetitors || [];
+  }
+
+  async analyzeCompany(companyName: string, company?: CompanyIdentifiers, signal?: AbortSignal): Promise<AnalysisOutput> {
+    signal?.throwIfAborted();
+    const raw = getMockFixture(companyName).analysis;
+    const { analysis, issues } = parseStructuredResponse(raw, this.researchQuestions);
+    const usage: TokenUsage = {
+      inputTokens: estimateTokens(renderPrompt(this.prompt, getCompanyPromptVariables(companyName, company, this.knownCompetitors))),
+      outputTokens: estimateTokens(JSON.stringify(raw)),
+      cachedTokens: 0
+    };
+    return { analysis, format: 'structured', validationIssues: issues, usage, provider: this.name, model: this.model };
+  }
+}
+
+const MENTION_TYPE_PATTERNS: [RegExp, string][] = [
+  [/case study|customer story/i, 'case_study'],
+  [/integrat/i, 'integration'],
+  [/partner/i, 'partner'],
+  [/selects|deploys|customer|chose|chooses/i, 'customer'],
+  [/\bvs\.?\b|versus|compar/i, 'comparison']
+];
+
+const PRESS_WIRE_DOMAINS = ['businesswire', 'prnewswire', 'globenewswire'];
+
+/**
+ * Deterministic stand-in for the competitor extraction LLM call. Emits a
+ * mention for every search result naming both the company and a competitor,
+ * in the JSON format the extraction prompt asks for.
+ */
+export function mockCompetitorExtraction(
+  companyName: string,
+  competitors: CompetitorVendor[],
+  searchResults: { title: string; url: string; content: string }[]
+): { text: string; usage: TokenUsage } {
+  const companyLower = companyName.toLowerCase();
+
+  const mentions = searchResults.flatMap(result => {
+    const text = `${result.title} ${result.content}`;
+    if (!text.toLowerCase().includes(companyLower)) return [];
+    const competitor = findMentionedVendor(text, competitors);
+    if (!competitor) return [];
+
+    const mentionType = PRESS_WIRE_DOMAINS.some(domain => result.url.includes(domain))
+      ? 'press_release'
+      : MENTION_TYPE_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] || 'other';
+
+    return [{
+      competitorName: competitor.name,
+      mentionType,
+      title: result.title,
+      url: result.url,
+      summary: result.content.split(/(?<=\.)\s/)[0]
+    }];
+  });
+
+  const text = JSON.stringify(mentions);
+  return {
+    text,
+    usage: { inputTokens: estimateTokens(JSON.stringify(searchResults)), outputTokens: estimateTokens(text), cachedTokens: 0 }
+  };
+}
+
+const JOB_POSTING_URL_PATTERN = /careers|\/jobs?\b|greenhouse\.io|lever\.co|myworkdayjobs/i;
+
+function guessEvidenceType(url: string, text: string): CommunicationsEvidenceType {
+  if (JOB_POSTING_URL_PATTERN.test(url)) return 'job_posting';
+  if (PRESS_WIRE_DOMAINS.some(domain => url.includes(domain))) return 'press_release';
+  if (COMMUNICATION_PLATFORMS.some(p => url.includes(p.domain))) return 'vendor_customer_page';
+  if (/case study|customer story/i.test(text)) return 'case_study';
+  return 'other';
+}
+
+/**
+ * Deterministic stand-in for the communications stack extraction LLM call.
+ * Emits an item for every platform named in a search result that also
+ * names the company.
+ */
+export function mockCommunicationsExtraction(
+  companyName: string,
+  searchResults: { title: string; url: string; content: string; date?: string }[]
+): { text: string; usage: TokenUsage } {
+  const companyLower = companyName.toLowerCase();
+
+  const items = searchResults.flatMap(result => {
+    const text = `${result.title} ${result.content}`;
+    if (!text.toLowerCase().includes(companyLower)) return [];
+    return findMentionedPlatforms(text).map(platform => ({
+      platform,
+      evidenceType: guessEvidenceType(result.url, text),
+      title: result.title,
+      url: result.url,
+      date: result.date,
+      summary: result.content.split(/(?<=\.)\s/)[0]
+    }));
+  });
+
+  const text = JSON.stringify(items);
+  return {
+    text,
+    usage: { inputTokens: estimateTokens(JSON.stringify(searchResults)), outputTokens: estimateTokens(text), cachedTokens: 0 }
+  };
+}
+
+const MOCK_OPENERS: Record<string, string> = {
+  consultative: 'I noticed a development at {company} that often changes how firms think about communications compliance:',
+  friendly: 'Hope your week is going well. I came across some news about {company}:',
+  direct: 'Quick note on {company}:'
+};
+
+/**
+ * Deterministic stand-in for the outreach drafting LLM call. Builds the
+ * email around the first fact that has a URL, so citations always resolve.
+ */
+export function mockOutreachDraft(
+  companyName: string,
+  facts: { text: string; url?: string }[],
+  tone: string
+): { text: string; usage: TokenUsage } {
+  const cited = facts.find(f => f.url) || facts[0];
+  const opener = (MOCK_OPENERS[tone] || MOCK_OPENERS.consultative).replace('{company}', companyName);
+
+  const draft = {
+    emailSubject: `${companyName} and communications compliance`,
+    emailBody: `Hi [First name],\n\n${opener} ${cited.text}${cited.url ? ` (${cited.url})` : ''}.\n\nTheta Lake helps regulated firms capture, archive and supervise Zoom, Teams, Webex and Slack communications so recordkeeping and supervision stay audit-ready.\n\nWould a short call next week be useful?`,
+    linkedinNote: `Hi [First name], I saw the recent news about ${companyName} and would like to connect and share how peers handle communications compliance.`,
+    citations: cited.url ? [cited.url] : []
+  };
+
+  const text = JSON.stringify(draft);
+  return {
+    text,
+    usage: { inputTokens: estimateTokens(JSON.stringify(facts)), outputTokens: estimateTokens(text), cachedTokens: 0 }
+  };
+}
+
+// "Jane Smith, Chief Compliance Officer" style mentions in search results
+const PERSONA_MENTION_PATTERN = /\b([A-Z][a-z]+(?: [A-Z]\.)?(?: [A-Z][a-z]+){1,2}), ((?:[A-Z][\w&-]*|of|and)(?: (?:[A-Z][\w&-]*|of|and))*)/g;
+
+/**
+ * Deterministic stand-in for the buyer persona extraction LLM call. Emits
+ * every "Name, Title" pair in a search result that also names the company;
+ * titles outside the buying functions are dropped by validation as they
+ * would be for a real provider.
+ */
+export function mockBuyerPersonaExtraction(
+  companyName: string,
+  searchResults: { title: string; url: string; content: string }[]
+): { text: string; usage: TokenUsage } {
+  const companyLower = companyName.toLowerCase();
+
+  const items = searchResults.flatMap(result => {
+    const text = `${result.title}. ${result.content}`;
+    if (!text.toLowerCase().includes(companyLower)) return [];
+    return [...text.matchAll(PERSONA_MENTION_PATTERN)].map(match => ({
+      name: match[1],
+      title: match[2],
+      url: result.url
+    }));
+  });
+
+  const text = JSON.stringify(items);
+  return {
+    text,
+    usage: { inputTokens: estimateTokens(JSON.stringify(searchResults)), outputTokens: estimateTokens(text), cachedTokens: 0 }
+  };
+}
+
+// Longer words only, so claims don't match sources on filler words
+const GROUNDING_WORD_PATTERN = /\p{L}{5,}/gu;
+
+function groundingWords(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(GROUNDING_WORD_PATTERN) || []);
+}
+
+/**
+ * Deterministic stand-in for the grounding check LLM call. A source
+ * supports a claim when they share at least two longer words besides the
+ * company name; at most three sources are cited per claim.
+ */
+export function mockGroundingCheck(
+  companyName: string,
+  claims: { id: string; text: string }[],
+  evidence: { url: string; title: string; content: string }[]
+): { text: string; usage: TokenUsage } {
+  const nameWords = groundingWords(companyName);
+  const evidenceWords = evidence.map(e => groundingWords(`${e.title} ${e.content}`));
+  const supportedBy = Object.fromEntries(claims.map(claim => {
+    const claimWords = [...groundingWords(claim.text)].filter(word => !nameWords.has(word));
+    const sources = evidenceWords.flatMap((words, i) =>
+      claimWords.filter(word => words.has(word)).length >= 2 ? [i + 1] : []
+    );
+    return [claim.id, sources.slice(0, 3)];
+  }));
+
+  const text = JSON.stringify(supportedBy);
+  return {
+    text,
+    usage: { inputTokens: estimateTokens(JSON.stringify(claims) + JSON.stringify(evidence)), outputTokens: estimateTokens(text), cachedTokens: 0 }
+  };
+}
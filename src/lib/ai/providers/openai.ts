@@ -1,7 +1,9 @@
 import OpenAI from 'openai';
-import { BaseAIProvider, AIProviderConfig } from './base';
-import { AnalysisResult } from '@/types/analysis';
-import { parseTaggedResponse } from '../parser';
+import { BaseAIProvider, AIProviderConfig, GenerationResult } from './base';
+import { ANALYSIS_SCHEMA, toJsonSchema } from '../schema';
+import { fromOpenAIUsage } from '../usage';
+
+const SYSTEM_PROMPT = 'You are a corporate intelligence analyst. Provide comprehensive, factual analysis based on your knowledge.';
 
 export class OpenAIProvider extends BaseAIProvider {
   readonly name = 'openai';
@@ -11,35 +13,64 @@ export class OpenAIProvider extends BaseAIProvider {
 
   constructor(config: AIProviderConfig) {
     super(config);
-    this.client = new OpenAI({ apiKey: this.apiKey });
+    // Retries are handled by BaseAIProvider
+    this.client = new OpenAI({ apiKey: this.apiKey, maxRetries: 0 });
   }
 
   getDefaultModel(): string {
     return 'gpt-5.2';
   }
 
-  async analyzeCompany(companyName: string): Promise<AnalysisResult> {
-    // GPT-5.x models use different parameters than GPT-4o models
-    const isGpt5 = this.model.startsWith('gpt-5');
+  // json_schema response format is available from GPT-4o onwards
+  protected supportsStructuredOutput(): boolean {
+    return this.model.startsWith('gpt-5') || this.model.startsWith('gpt-4o');
+  }
+
+  // GPT-5.x models use different parameters than GPT-4o models
+  private getTokenParams(maxTokens: number) {
+    return this.model.startsWith('gpt-5')
+      ? { max_completion_tokens: maxTokens }
+      : { max_tokens: maxTokens, temperature: 0.3 };
+  }
 
+  protected async generateText(prompt: string, signal: AbortSignal): Promise<GenerationResult<string>> {
     const completion = await this.client.chat.completions.create({
       model: this.model,
       stream: false,
       messages: [
-        {
-          role: 'system',
-          content: 'You are a corporate intelligence analyst. Provide comprehensive, factual analysis based on your knowledge.'
-        },
-        {
-          role: 'user',
-          content: this.getAnalysisPrompt(companyName)
-        }
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: prompt }
       ],
-      ...(isGpt5
-        ? { max_completion_tokens: 4000 }
-        : { max_tokens: 4000, temperature: 0.3 })
-    });
-    const text = completion.choices[0]?.message?.content || '';
-    return parseTaggedResponse(text);
+      ...this.getTokenParams(4000)
+    }, { signal });
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      usage: fromOpenAIUsage(completion.usage)
+    };
+  }
+
+  protected async generateStructured(prompt: string, signal: AbortSignal): Promise<GenerationResult<unknown>> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      stream: false,
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: prompt }
+      ],
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          name: 'company_analysis',
+          strict: true,
+          schema: toJsonSchema(ANALYSIS_SCHEMA, true)
+        }
+      },
+      // JSON output is more verbose than the tagged format
+      ...this.getTokenParams(8000)
+    }, { signal });
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      usage: fromOpenAIUsage(completion.usage)
+    };
   }
 }
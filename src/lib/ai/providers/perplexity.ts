@@ -1,6 +1,6 @@
-import { BaseAIProvider, AIProviderConfig } from './base';
-import { AnalysisResult } from '@/types/analysis';
-import { parseTaggedResponse } from '../parser';
+import { BaseAIProvider, AIProviderConfig, GenerationResult } from './base';
+import { fromOpenAIUsage } from '../usage';
+import { responseError } from '@/lib/services/retry';
 
 export class PerplexityProvider extends BaseAIProvider {
   readonly name = 'perplexity';
@@ -14,7 +14,8 @@ export class PerplexityProvider extends BaseAIProvider {
     return 'sonar-pro';
   }
 
-  async analyzeCompany(companyName: string): Promise<AnalysisResult> {
+  // Uses the tagged format; no structured output
+  protected async generateText(prompt: string, signal: AbortSignal): Promise<GenerationResult<string>> {
     const response = await fetch('https://api.perplexity.ai/chat/completions', {
       method: 'POST',
       headers: {
@@ -30,19 +31,23 @@ export class PerplexityProvider extends BaseAIProvider {
           },
           {
             role: 'user',
-            content: this.getAnalysisPrompt(companyName)
+            content: prompt
           }
         ]
-      })
+      }),
+      signal
     });
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Perplexity API error: ${error}`);
+      // Keep the HTTP status and headers so retry and failover can tell retryable errors apart
+      throw responseError(`Perplexity API error: ${error}`, response);
     }
 
     const data = await response.json();
-    const text = data.choices[0]?.message?.content || '';
-    return parseTaggedResponse(text);
+    return {
+      content: data.choices[0]?.message?.content || '',
+      usage: fromOpenAIUsage(data.usage)
+    };
   }
 }
@@ -0,0 +1,65 @@
+import OpenAI from 'openai';
+import { BaseAIProvider, AIProviderConfig, GenerationResult } from './base';
+import { fromOpenAIUsage } from '../usage';
+
+const SYSTEM_PROMPT = 'You are a corporate intelligence analyst. Provide comprehensive, factual analysis based on your knowledge.';
+
+/**
+ * Normalize a self-hosted server URL to the OpenAI-compatible API root,
+ * e.g. "http://gpu-box:8000/" -> "http://gpu-box:8000/v1"
+ */
+export function normalizeSelfHostedBaseUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  return trimmed.endsWith('/v1') ? trimmed : `${trimmed}/v1`;
+}
+
+/**
+ * Any server exposing an OpenAI-compatible /v1/chat/completions endpoint
+ * (vLLM, Ollama, LM Studio). The model id is whatever the server serves.
+ */
+export class SelfHostedProvider extends BaseAIProvider {
+  readonly name = 'selfhosted';
+  readonly supportsWebGrounding = false;
+
+  private client: OpenAI;
+
+  constructor(config: AIProviderConfig) {
+    super(config);
+    if (!config.baseUrl) {
+      throw new Error('Self-hosted provider requires a server URL');
+    }
+    if (!this.model) {
+      throw new Error('Self-hosted provider requires a model id');
+    }
+    // Local models are often much slower than hosted APIs
+    this.timeout = Math.max(this.timeout, 300000);
+    this.client = new OpenAI({
+      apiKey: this.apiKey,
+      baseURL: normalizeSelfHostedBaseUrl(config.baseUrl),
+      timeout: this.timeout,
+      maxRetries: 0 // Retries are handled by BaseAIProvider
+    });
+  }
+
+  getDefaultModel(): string {
+    return '';
+  }
+
+  // Uses the tagged format; json_schema support varies too much between servers
+  protected async generateText(prompt: string, signal: AbortSignal): Promise<GenerationResult<string>> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      stream: false,
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: prompt }
+      ],
+      max_tokens: 4000,
+      temperature: 0.3
+    }, { signal });
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      usage: fromOpenAIUsage(completion.usage)
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import { ResponseSchema, Schema, SchemaType } from '@google/generative-ai';
+
+// Provider-neutral description of the structured analysis output. Converted to
+// JSON Schema (OpenAI, Anthropic) or Gemini's OpenAPI subset on demand.
+export interface SchemaField {
+  type: 'string' | 'array' | 'object';
+  description?: string;
+  enum?: string[];
+  items?: SchemaField;
+  properties?: Record<string, SchemaField>;
+  optional?: boolean;
+}
+
+const str = (description?: string, optional = false): SchemaField => ({ type: 'string', description, optional });
+const list = (items: SchemaField, description?: string): SchemaField => ({ type: 'array', items, description });
+const obj = (properties: Record<string, SchemaField>, description?: string): SchemaField => ({ type: 'object', properties, description });
+
+const linkItem = obj({
+  title: str(),
+  url: str('Full http(s) URL, or empty string if unknown'),
+  summary: str(undefined, true)
+});
+
+/**
+ * Schema for the AI portion of AnalysisResult. competitorMentions is omitted
+ * because it is populated separately from verified web search.
+ */
+export const ANALYSIS_SCHEMA: SchemaField = obj({
+  summary: str('Exactly 4 sentences on core activities, market position and recent developments'),
+  sentiment: { type: 'string', enum: ['BULLISH', 'BEARISH', 'MIXED', 'NEUTRAL'] },
+  quickFacts: obj({
+    employeeCount: str(undefined, true),
+    headquarters: str(undefined, true),
+    industry: str(undefined, true),
+    founded: str(undefined, true),
+    ceo: str(undefined, true),
+    marketCap: str('Value if public, or "Private"', true)
+  }),
+  investorDocs: list(linkItem, 'Latest 10-K and investor presentation'),
+  keyPriorities: list(str(), '5 strategic priorities from executive communications'),
+  growthInitiatives: list(str(), '5 growth initiatives'),
+  techNews: list({ ...linkItem, properties: { ...linkItem.properties, date: str(undefined, true) } }, '10 recent AI/technology news items from the past month'),
+  caseStudies: list(linkItem, 'Case studies hosted by other technology vendors featuring the company'),
+  discoveredCompetitors: list(str(), 'Additional compliance, archiving, e-discovery or surveillance vendors the company may use'),
+  leadershipChanges: list(obj({
+    name: str(),
+    role: str(),
+    changeType: { type: 'string', enum: ['appointed', 'promoted', 'departed', 'expanded_role'] },
+    date: str(undefined, true),
+    previousRole: str(undefined, true),
+    url: str(undefined, true)
+  }), 'Leadership changes in the past 12 months'),
+  maActivity: list(obj({
+    year: str(),
+    type: str('Acquisition, Merger or Divestiture'),
+    target: str('Real, verified company name'),
+    dealValue: str(undefined, true),
+    rationale: str(undefined, true)
+  }), 'Verified M&A activity from the past 10 years'),
+  regulatoryLandscape: list(obj({
+    body: str('Short name or acronym, e.g. SEC'),
+    context: str(),
+    url: str(undefined, true)
+  }), 'Regulatory bodies that oversee the company'),
+  regulatoryEvents: list(obj({
+    date: str('YYYY-MM or YYYY'),
+    regulatoryBody: str(),
+    eventType: { type: 'string', enum: ['fine', 'penalty', 'settlement', 'enforcement', 'investigation', 'consent', 'order', 'action', 'other'] },
+    amount: str(undefined, true),
+    description: str(),
+    url: str()
+  }), 'Enforcement actions, fines, settlements or investigations since 2020'),
+  sources: list(str(), 'All source URLs used'),
+  customAnswers: list(obj({
+    question: str(),
+    answer: str('2-4 sentences, or empty string if no reliable answer was found'),
+    sources: list(str(), 'URLs backing the answer')
+  }), 'Answers to the additional research questions, in the order asked; empty if none were asked')
+});
+
+/**
+ * Convert to JSON Schema. In strict mode (OpenAI) every property is required
+ * and optional fields become nullable instead.
+ */
+export function toJsonSchema(field: SchemaField, strict = false): Record<string, unknown> {
+  const nullable = strict && field.optional;
+  const schema: Record<string, unknown> = {
+    type: nullable ? [field.type, 'null'] : field.type
+  };
+  if (field.description) schema.description = field.description;
+  if (field.enum) schema.enum = nullable ? [...field.enum, null] : field.enum;
+  if (field.items) schema.items = toJsonSchema(field.items, strict);
+  if (field.properties) {
+    const entries = Object.entries(field.properties);
+    schema.properties = Object.fromEntries(entries.map(([key, value]) => [key, toJsonSchema(value, strict)]));
+    schema.required = entries.filter(([, value]) => strict || !value.optional).map(([key]) => key);
+    schema.additionalProperties = false;
+  }
+  return schema;
+}
+
+/**
+ * Convert to Gemini's responseSchema format
+ */
+export function toGeminiSchema(field: SchemaField): ResponseSchema {
+  return toGeminiField(field) as ResponseSchema;
+}
+
+function toGeminiField(field: SchemaField): Schema {
+  const base = { description: field.description, nullable: field.optional };
+
+  if (field.type === 'array') {
+    return { ...base, type: SchemaType.ARRAY, items: toGeminiField(field.items!) };
+  }
+  if (field.type === 'object') {
+    const entries = Object.entries(field.properties || {});
+    return {
+      ...base,
+      type: SchemaType.OBJECT,
+      properties: Object.fromEntries(entries.map(([key, value]) => [key, toGeminiField(value)])),
+      required: entries.filter(([, value]) => !value.optional).map(([key]) => key)
+    };
+  }
+  if (field.enum) {
+    return { ...base, type: SchemaType.STRING, format: 'enum', enum: field.enum };
+  }
+  return { ...base, type: SchemaType.STRING };
+}
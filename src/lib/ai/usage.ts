@@ -0,0 +1,87 @@
+// Provider-reported token usage for LLM calls
+
+export interface TokenUsage {
+  inputTokens: number; // All prompt tokens, including cached ones
+  outputTokens: number;
+  cachedTokens: number; // Prompt tokens served from the provider's cache
+}
+
+// Usage of a single LLM call, labelled with what it was for
+export interface UsageRecord extends TokenUsage {
+  call: string; // e.g. 'analysis', 'competitor_extraction', 'claude_search'
+  provider: string;
+  model: string;
+}
+
+export type UsageReporter = (record: UsageRecord) => void;
+
+export const EMPTY_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0, cachedTokens: 0 };
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number } | null;
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+}
+
+interface GeminiUsage {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  cachedContentTokenCount?: number;
+}
+
+/**
+ * Normalize OpenAI-style usage (also used by Perplexity)
+ */
+export function fromOpenAIUsage(usage: OpenAIUsage | null | undefined): TokenUsage {
+  if (!usage) return EMPTY_USAGE;
+  return {
+    inputTokens: usage.prompt_tokens || 0,
+    outputTokens: usage.completion_tokens || 0,
+    cachedTokens: usage.prompt_tokens_details?.cached_tokens || 0
+  };
+}
+
+/**
+ * Normalize Anthropic usage. Anthropic reports cache reads and writes
+ * separately from input_tokens, so they're added back in.
+ */
+export function fromAnthropicUsage(usage: AnthropicUsage | null | undefined): TokenUsage {
+  if (!usage) return EMPTY_USAGE;
+  const cacheRead = usage.cache_read_input_tokens || 0;
+  const cacheWrite = usage.cache_creation_input_tokens || 0;
+  return {
+    inputTokens: (usage.input_tokens || 0) + cacheRead + cacheWrite,
+    outputTokens: usage.output_tokens || 0,
+    cachedTokens: cacheRead
+  };
+}
+
+/**
+ * Normalize Gemini usageMetadata
+ */
+export function fromGeminiUsage(usage: GeminiUsage | null | undefined): TokenUsage {
+  if (!usage) return EMPTY_USAGE;
+  return {
+    inputTokens: usage.promptTokenCount || 0,
+    outputTokens: usage.candidatesTokenCount || 0,
+    cachedTokens: usage.cachedContentTokenCount || 0
+  };
+}
+
+/**
+ * Add up token usage across calls
+ */
+export function sumUsage(records: TokenUsage[]): TokenUsage {
+  return records.reduce((total, record) => ({
+    inputTokens: total.inputTokens + record.inputTokens,
+    outputTokens: total.outputTokens + record.outputTokens,
+    cachedTokens: total.cachedTokens + record.cachedTokens
+  }), EMPTY_USAGE);
+}
@@ -0,0 +1,447 @@
+/**
+ * Output languages for analyses and the dashboard labels shown with them.
+ * Only the narrative fields of an analysis are translated; links, source
+ * titles and names stay as found.
+ */
+
+import { AnalysisResult, BuyerPersonaFunction, CommunicationsEvidenceType, FitFactorName, OutputLanguage } from '@/types/analysis';
+
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = 'en';
+
+export const OUTPUT_LANGUAGES: Record<OutputLanguage, { name: string; nativeName: string }> = {
+  en: { name: 'English', nativeName: 'English' },
+  de: { name: 'German', nativeName: 'Deutsch' },
+  fr: { name: 'French', nativeName: 'Français' },
+  ja: { name: 'Japanese', nativeName: '日本語' }
+};
+
+export function isOutputLanguage(value: unknown): value is OutputLanguage {
+  return typeof value === 'string' && value in OUTPUT_LANGUAGES;
+}
+
+export interface AnalysisLabels {
+  sections: {
+    executiveSummary: string;
+    quickFacts: string;
+    keyPriorities: string;
+    growthInitiatives: string;
+    maActivity: string;
+    techNews: string;
+    leadershipChanges: string;
+    caseStudies: string;
+    competitorMentions: string;
+    communicationsStack: string;
+    buyerPersonas: string;
+    investorDocs: string;
+    regulatoryLandscape: string;
+    regulatoryEvents: string;
+    groundingSources: string;
+  };
+  empty: {
+    noData: string;
+    caseStudies: string;
+    competitorMentions: string;
+    communicationsStack: string;
+    buyerPersonas: string;
+    customAnswer: string;
+    investorDocs: string;
+    leadershipChanges: string;
+    maActivity: string;
+    regulatoryLandscape: string;
+    regulatoryEvents: string;
+    techNews: string;
+  };
+  facts: Record<'employeeCount' | 'headquarters' | 'industry' | 'founded' | 'ceo' | 'marketCap', string>;
+  sentiment: Record<AnalysisResult['sentiment'], string>;
+  evidenceTypes: Record<CommunicationsEvidenceType, string>;
+  personaFunctions: Record<BuyerPersonaFunction, string>;
+  personas: Record<'new' | 'titleChanged' | 'firstSeen' | 'previousTitle' | 'noLongerFound', string>;
+  grounding: Record<'unsupported' | 'unsupportedHint' | 'sources', string>;
+  linkHealth: Record<'dead' | 'paywall' | 'checked', string>;
+  credibility: Record<'showAll' | 'showLess' | 'low' | 'score', string>;
+  regulatory: Record<'official' | 'officialHint', string>;
+  fitScore: {
+    title: string;
+    noSignal: string;
+    factors: Record<FitFactorName, string>;
+  };
+}
+
+export const ANALYSIS_LABELS: Record<OutputLanguage, AnalysisLabels> = {
+  en: {
+    sections: {
+      executiveSummary: 'Executive Summary',
+      quickFacts: 'Quick Facts',
+      keyPriorities: 'Key Priorities',
+      growthInitiatives: 'Growth Initiatives',
+      maActivity: 'M&A Activity',
+      techNews: 'AI & Technology News',
+      leadershipChanges: 'Leadership News',
+      caseStudies: 'External Case Studies',
+      competitorMentions: 'Competitor Mentions',
+      communicationsStack: 'Communications Stack',
+      buyerPersonas: 'Buyer Personas',
+      investorDocs: 'Investor Documents',
+      regulatoryLandscape: 'Regulatory Landscape',
+      regulatoryEvents: 'Regulatory Events',
+      groundingSources: 'Grounding Sources'
+    },
+    empty: {
+      noData: 'No data available',
+      caseStudies: 'No case studies found',
+      competitorMentions: 'No mentions found across these competitors',
+      communicationsStack: 'No evidence found for these platforms',
+      buyerPersonas: 'No compliance, surveillance, security or records leads found',
+      customAnswer: 'No reliable answer found',
+      investorDocs: 'No documents found',
+      leadershipChanges: 'No recent leadership news found',
+      maActivity: 'No M&A activity found',
+      regulatoryLandscape: 'No regulatory information found',
+      regulatoryEvents: 'No regulatory events found in the past 5 years',
+      techNews: 'No technology news found'
+    },
+    facts: {
+      employeeCount: 'Employees',
+      headquarters: 'Headquarters',
+      industry: 'Industry',
+      founded: 'Founded',
+      ceo: 'CEO',
+      marketCap: 'Market Cap'
+    },
+    sentiment: { BULLISH: 'BULLISH', BEARISH: 'BEARISH', MIXED: 'MIXED', NEUTRAL: 'NEUTRAL' },
+    evidenceTypes: {
+      case_study: 'Case Study',
+      job_posting: 'Job Posting',
+      press_release: 'Press Release',
+      vendor_customer_page: 'Vendor Customer Page',
+      other: 'Mention'
+    },
+    personaFunctions: {
+      compliance: 'Compliance',
+      surveillance: 'Surveillance',
+      security: 'Security',
+      records: 'Records'
+    },
+    personas: {
+      new: 'New',
+      titleChanged: 'New title',
+      firstSeen: 'First seen',
+      previousTitle: 'Previously',
+      noLongerFound: 'No longer found'
+    },
+    grounding: {
+      unsupported: 'Unsupported',
+      unsupportedHint: 'No retrieved source supports this claim - verify before relying on it',
+      sources: 'Sources'
+    },
+    linkHealth: {
+      dead: 'Dead link',
+      paywall: 'Paywall',
+      checked: 'Checked'
+    },
+    credibility: {
+      showAll: 'Show all',
+      showLess: 'Show less',
+      low: 'Low confidence',
+      score: 'Source credibility'
+    },
+    regulatory: {
+      official: 'Official',
+      officialHint: 'From the regulator\'s own enforcement releases'
+    },
+    fitScore: {
+      title: 'Theta Lake Fit',
+      noSignal: 'No signal',
+      factors: {
+        regulators: 'Regulators',
+        recordkeepingEvents: 'Recordkeeping actions',
+        competitorMentions: 'Compliance vendors in use',
+        industry: 'Industry',
+        employeeCount: 'Company size',
+        complianceLeadership: 'Compliance leadership changes'
+      }
+    }
+  },
+  de: {
+    sections: {
+      executiveSummary: 'Zusammenfassung',
+      quickFacts: 'Kurzprofil',
+      keyPriorities: 'Wichtigste Prioritäten',
+      growthInitiatives: 'Wachstumsinitiativen',
+      maActivity: 'M&A-Aktivitäten',
+      techNews: 'KI- & Technologie-News',
+      leadershipChanges: 'Führungswechsel',
+      caseStudies: 'Externe Fallstudien',
+      competitorMentions: 'Erwähnungen von Wettbewerbern',
+      communicationsStack: 'Kommunikationsplattformen',
+      buyerPersonas: 'Einkaufsentscheider',
+      investorDocs: 'Investorendokumente',
+      regulatoryLandscape: 'Regulatorisches Umfeld',
+      regulatoryEvents: 'Regulatorische Ereignisse',
+      groundingSources: 'Quellen'
+    },
+    empty: {
+      noData: 'Keine Daten verfügbar',
+      caseStudies: 'Keine Fallstudien gefunden',
+      competitorMentions: 'Keine Erwähnungen dieser Wettbewerber gefunden',
+      communicationsStack: 'Keine Belege für diese Plattformen gefunden',
+      buyerPersonas: 'Keine Verantwortlichen für Compliance, Überwachung, Sicherheit oder Records Management gefunden',
+      customAnswer: 'Keine verlässliche Antwort gefunden',
+      investorDocs: 'Keine Dokumente gefunden',
+      leadershipChanges: 'Keine aktuellen Führungswechsel gefunden',
+      maActivity: 'Keine M&A-Aktivitäten gefunden',
+      regulatoryLandscape: 'Keine regulatorischen Informationen gefunden',
+      regulatoryEvents: 'Keine regulatorischen Ereignisse in den letzten 5 Jahren gefunden',
+      techNews: 'Keine Technologie-News gefunden'
+    },
+    facts: {
+      employeeCount: 'Mitarbeiter',
+      headquarters: 'Hauptsitz',
+      industry: 'Branche',
+      founded: 'Gegründet',
+      ceo: 'CEO',
+      marketCap: 'Marktkapitalisierung'
+    },
+    sentiment: { BULLISH: 'POSITIV', BEARISH: 'NEGATIV', MIXED: 'GEMISCHT', NEUTRAL: 'NEUTRAL' },
+    evidenceTypes: {
+      case_study: 'Fallstudie',
+      job_posting: 'Stellenanzeige',
+      press_release: 'Pressemitteilung',
+      vendor_customer_page: 'Kundenseite des Anbieters',
+      other: 'Erwähnung'
+    },
+    personaFunctions: {
+      compliance: 'Compliance',
+      surveillance: 'Überwachung',
+      security: 'Sicherheit',
+      records: 'Records Management'
+    },
+    personas: {
+      new: 'Neu',
+      titleChanged: 'Neue Position',
+      firstSeen: 'Zuerst gesehen',
+      previousTitle: 'Zuvor',
+      noLongerFound: 'Nicht mehr gefunden'
+    },
+    grounding: {
+      unsupported: 'Unbelegt',
+      unsupportedHint: 'Keine abgerufene Quelle stützt diese Aussage - vor der Verwendung prüfen',
+      sources: 'Quellen'
+    },
+    linkHealth: {
+      dead: 'Toter Link',
+      paywall: 'Bezahlschranke',
+      checked: 'Geprüft'
+    },
+    credibility: {
+      showAll: 'Alle anzeigen',
+      showLess: 'Weniger anzeigen',
+      low: 'Geringe Verlässlichkeit',
+      score: 'Quellenglaubwürdigkeit'
+    },
+    regulatory: {
+      official: 'Offiziell',
+      officialHint: 'Aus den Veröffentlichungen der Aufsichtsbehörde'
+    },
+    fitScore: {
+      title: 'Theta Lake Eignung',
+      noSignal: 'Kein Signal',
+      factors: {
+        regulators: 'Aufsichtsbehörden',
+        recordkeepingEvents: 'Maßnahmen zur Aufzeichnungspflicht',
+        competitorMentions: 'Eingesetzte Compliance-Anbieter',
+        industry: 'Branche',
+        employeeCount: 'Unternehmensgröße',
+        complianceLeadership: 'Wechsel in der Compliance-Führung'
+      }
+    }
+  },
+  fr: {
+    sections: {
+      executiveSummary: 'Synthèse',
+      quickFacts: 'Chiffres clés',
+      keyPriorities: 'Priorités clés',
+      growthInitiatives: 'Initiatives de croissance',
+      maActivity: 'Fusions et acquisitions',
+      techNews: 'Actualités IA et technologie',
+      leadershipChanges: 'Changements de direction',
+      caseStudies: 'Études de cas externes',
+      competitorMentions: 'Mentions de concurrents',
+      communicationsStack: 'Outils de communication',
+      buyerPersonas: 'Profils d\'acheteurs',
+      investorDocs: 'Documents investisseurs',
+      regulatoryLandscape: 'Cadre réglementaire',
+      regulatoryEvents: 'Événements réglementaires',
+      groundingSources: 'Sources'
+    },
+    empty: {
+      noData: 'Aucune donnée disponible',
+      caseStudies: 'Aucune étude de cas trouvée',
+      competitorMentions: 'Aucune mention de ces concurrents trouvée',
+      communicationsStack: 'Aucune preuve trouvée pour ces plateformes',
+      buyerPersonas: 'Aucun responsable conformité, surveillance, sécurité ou archivage trouvé',
+      customAnswer: 'Aucune réponse fiable trouvée',
+      investorDocs: 'Aucun document trouvé',
+      leadershipChanges: 'Aucun changement de direction récent trouvé',
+      maActivity: 'Aucune opération de fusion-acquisition trouvée',
+      regulatoryLandscape: 'Aucune information réglementaire trouvée',
+      regulatoryEvents: 'Aucun événement réglementaire au cours des 5 dernières années',
+      techNews: 'Aucune actualité technologique trouvée'
+    },
+    facts: {
+      employeeCount: 'Employés',
+      headquarters: 'Siège social',
+      industry: 'Secteur',
+      founded: 'Création',
+      ceo: 'PDG',
+      marketCap: 'Capitalisation'
+    },
+    sentiment: { BULLISH: 'HAUSSIER', BEARISH: 'BAISSIER', MIXED: 'MITIGÉ', NEUTRAL: 'NEUTRE' },
+    evidenceTypes: {
+      case_study: 'Étude de cas',
+      job_posting: 'Offre d\'emploi',
+      press_release: 'Communiqué de presse',
+      vendor_customer_page: 'Page client du fournisseur',
+      other: 'Mention'
+    },
+    personaFunctions: {
+      compliance: 'Conformité',
+      surveillance: 'Surveillance',
+      security: 'Sécurité',
+      records: 'Archivage'
+    },
+    personas: {
+      new: 'Nouveau',
+      titleChanged: 'Nouveau poste',
+      firstSeen: 'Vu pour la première fois',
+      previousTitle: 'Auparavant',
+      noLongerFound: 'Plus trouvés'
+    },
+    grounding: {
+      unsupported: 'Non étayé',
+      unsupportedHint: 'Aucune source récupérée n\'étaye cette affirmation - à vérifier avant utilisation',
+      sources: 'Sources'
+    },
+    linkHealth: {
+      dead: 'Lien mort',
+      paywall: 'Accès payant',
+      checked: 'Vérifié le'
+    },
+    credibility: {
+      showAll: 'Tout afficher',
+      showLess: 'Afficher moins',
+      low: 'Fiabilité faible',
+      score: 'Crédibilité de la source'
+    },
+    regulatory: {
+      official: 'Officiel',
+      officialHint: 'Issu des communiqués du régulateur'
+    },
+    fitScore: {
+      title: 'Adéquation Theta Lake',
+      noSignal: 'Aucun signal',
+      factors: {
+        regulators: 'Régulateurs',
+        recordkeepingEvents: 'Sanctions liées à l\'archivage',
+        competitorMentions: 'Fournisseurs de conformité utilisés',
+        industry: 'Secteur',
+        employeeCount: 'Taille de l\'entreprise',
+        complianceLeadership: 'Changements à la direction conformité'
+      }
+    }
+  },
+  ja: {
+    sections: {
+      executiveSummary: 'エグゼクティブサマリー',
+      quickFacts: '企業概要',
+      keyPriorities: '重点課題',
+      growthInitiatives: '成長施策',
+      maActivity: 'M&A動向',
+      techNews: 'AI・テクノロジーニュース',
+      leadershipChanges: '経営陣の異動',
+      caseStudies: '外部導入事例',
+      competitorMentions: '競合ベンダーの言及',
+      communicationsStack: 'コミュニケーション基盤',
+      buyerPersonas: '購買担当者',
+      investorDocs: 'IR資料',
+      regulatoryLandscape: '規制環境',
+      regulatoryEvents: '規制上の処分・措置',
+      groundingSources: '出典'
+    },
+    empty: {
+      noData: 'データがありません',
+      caseStudies: '導入事例が見つかりません',
+      competitorMentions: 'これらの競合ベンダーの言及は見つかりません',
+      communicationsStack: 'これらのプラットフォームの利用の証拠は見つかりません',
+      buyerPersonas: 'コンプライアンス・監視・セキュリティ・記録管理の責任者は見つかりません',
+      customAnswer: '信頼できる回答は見つかりません',
+      investorDocs: '資料が見つかりません',
+      leadershipChanges: '最近の経営陣の異動は見つかりません',
+      maActivity: 'M&A動向は見つかりません',
+      regulatoryLandscape: '規制情報が見つかりません',
+      regulatoryEvents: '過去5年間の規制上の処分・措置は見つかりません',
+      techNews: 'テクノロジーニュースが見つかりません'
+    },
+    facts: {
+      employeeCount: '従業員数',
+      headquarters: '本社所在地',
+      industry: '業種',
+      founded: '設立',
+      ceo: 'CEO',
+      marketCap: '時価総額'
+    },
+    sentiment: { BULLISH: '強気', BEARISH: '弱気', MIXED: '混在', NEUTRAL: '中立' },
+    evidenceTypes: {
+      case_study: '導入事例',
+      job_posting: '求人情報',
+      press_release: 'プレスリリース',
+      vendor_customer_page: 'ベンダーの顧客ページ',
+      other: '言及'
+    },
+    personaFunctions: {
+      compliance: 'コンプライアンス',
+      surveillance: '監視',
+      security: 'セキュリティ',
+      records: '記録管理'
+    },
+    personas: {
+      new: '新規',
+      titleChanged: '役職変更',
+      firstSeen: '初回確認',
+      previousTitle: '以前',
+      noLongerFound: '見つからなくなった人物'
+    },
+    grounding: {
+      unsupported: '根拠なし',
+      unsupportedHint: '取得したどの出典もこの記述を裏付けていません。利用前に確認してください',
+      sources: '出典'
+    },
+    linkHealth: {
+      dead: 'リンク切れ',
+      paywall: '有料',
+      checked: '確認日'
+    },
+    credibility: {
+      showAll: 'すべて表示',
+      showLess: '表示を減らす',
+      low: '信頼度低',
+      score: '情報源の信頼度'
+    },
+    regulatory: {
+      official: '公式',
+      officialHint: '規制当局の執行発表より'
+    },
+    fitScore: {
+      title: 'Theta Lake 適合度',
+      noSignal: 'シグナルなし',
+      factors: {
+        regulators: '規制当局',
+        recordkeepingEvents: '記録保持に関する処分',
+        competitorMentions: '導入済みのコンプライアンスベンダー',
+        industry: '業種',
+        employeeCount: '企業規模',
+        complianceLeadership: 'コンプライアンス部門の人事'
+      }
+    }
+  }
+};
@@ -44,6 +44,13 @@ export const AI_PRICING: Record<string, Record<string, ModelPricing>> = {
     'sonar-reasoning': { inputPer1M: 1.00, outputPer1M: 5.00 },
     default: { inputPer1M: 3.00, outputPer1M: 15.00 },
   },
+  // Runs on our own hardware, so no per-token cost
+  selfhosted: {
+    default: { inputPer1M: 0, outputPer1M: 0 },
+  },
+  mock: {
+    default: { inputPer1M: 0, outputPer1M: 0 },
+  },
 };
 
 // Search Provider Pricing (USD per query)
@@ -51,6 +58,7 @@ export const SEARCH_PRICING: Record<string, SearchPricing> = {
   tavily: { perQuery: 0.008 },
   claude: { perQuery: 0.01 }, // $10 per 1000 searches
   websearchapi: { perQuery: 0.005 },
+  mock: { perQuery: 0 },
   none: { perQuery: 0 },
 };
 
@@ -89,13 +97,6 @@ export function calculateSearchCost(
   return queryCount * pricing.perQuery;
 }
 
-/**
- * Estimate tokens from text (rough approximation: 1 token ≈ 4 characters)
- */
-export function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
-}
-
 /**
  * Format cost for display
  */
@@ -0,0 +1,26 @@
+'use client';
+
+import { createContext, useContext, ReactNode } from 'react';
+import { OutputLanguage } from '@/types/analysis';
+import { ANALYSIS_LABELS, AnalysisLabels, DEFAULT_OUTPUT_LANGUAGE } from '@/lib/config/languages';
+
+const AnalysisLabelsContext = createContext<AnalysisLabels>(ANALYSIS_LABELS[DEFAULT_OUTPUT_LANGUAGE]);
+
+interface AnalysisLabelsProviderProps {
+  language?: OutputLanguage;
+  children: ReactNode;
+}
+
+// Labels the dashboard sections in the language the analysis was written in
+export function AnalysisLabelsProvider({ language, children }: AnalysisLabelsProviderProps) {
+  const labels = ANALYSIS_LABELS[language || DEFAULT_OUTPUT_LANGUAGE] || ANALYSIS_LABELS[DEFAULT_OUTPUT_LANGUAGE];
+  return (
+    <AnalysisLabelsContext.Provider value={labels}>
+      {children}
+    </AnalysisLabelsContext.Provider>
+  );
+}
+
+export function useAnalysisLabels(): AnalysisLabels {
+  return useContext(AnalysisLabelsContext);
+}
@@ -0,0 +1,288 @@
+// Offline evaluation of the response parsers, web search merge and
+// post-processing. Replays recorded provider responses and search results,
+// scores each section and compares the scores against a saved baseline report.
+
+import { AnalysisResult, BuyerPersona, CommunicationsStackItem, CompetitorMentionItem, RegulatoryEventItem } from '@/types/analysis';
+import { isHallucinatedMAEntry, isSameRegulatoryEvent, parseStructuredResponse, parseTaggedResponse, parseTagContent } from '@/lib/ai/parser';
+import { mergeWebSearchData, mergeWebSources, WebSearchData } from '@/lib/services/analysisPipeline';
+import { extractRegulatoryEvents, TavilySearchResult } from '@/lib/services/tavilySearch';
+import { ENFORCEMENT_SOURCES, EnforcementSource, matchEnforcementActions, mergeEnforcementEvents, parseEnforcementFeed } from '@/lib/services/enforcementActions';
+import { DEFAULT_RECENCY_WINDOWS, applyRecencyWindows, normalizeAnalysisDates } from '@/lib/services/dateNormalization';
+import { DEFAULT_SOURCE_DOMAIN_TIERS, applySourceCredibility } from '@/lib/services/sourceCredibility';
+
+// A recorded analysis: the raw provider response plus the search results it was merged with
+export interface EvalFixture {
+  companyName: string;
+  description?: string;
+  response:
+    | { format: 'tagged'; raw: string }
+    | { format: 'structured'; raw: unknown };
+  webSearch?: WebSearchData | null; // Omitted when the analysis ran without web search
+  regulatorySearchResults?: TavilySearchResult[]; // Raw Tavily regulatory results, extracted into webSearch.regulatoryEvents on replay
+  competitorMentions?: CompetitorMentionItem[]; // Recorded competitor extraction output
+  communicationsStack?: CommunicationsStackItem[]; // Recorded communications stack extraction output
+  buyerPersonas?: BuyerPersona[]; // Recorded buyer persona extraction output
+  legalNames?: string[]; // Legal entity names of the company the enforcement actions are matched against
+  enforcementFeeds?: Partial<Record<EnforcementSource, string>>; // Saved SEC and FINRA feeds; paths relative to eval/fixtures, read in by the eval script
+  recordedAt?: string; // ISO date recency windows are measured from; defaults to REPLAY_DATE
+}
+
+// Recency windows are measured from a fixed date so scores don't drift as fixtures age
+const REPLAY_DATE = '2026-10-18';
+
+export interface SectionScore {
+  items: number;
+  validUrls: number;
+  invalidUrls: number; // Items with a url field that isn't a usable http(s) URL, including empty ones
+  hallucinationFilterHits: number; // Raw entries dropped by the M&A hallucination filter
+  duplicates: number; // Repeated URLs or items, or the same regulatory event listed twice
+}
+
+export type SectionName = Exclude<{
+  [K in keyof AnalysisResult]: AnalysisResult[K] extends unknown[] | undefined ? K : never
+}[keyof AnalysisResult], undefined>;
+
+export interface FixtureScore {
+  format: 'tagged' | 'structured';
+  validationIssues: number;
+  sections: Record<SectionName, SectionScore>;
+}
+
+export interface EvalReport {
+  fixtures: Record<string, FixtureScore>;
+}
+
+export type MetricName = keyof SectionScore;
+
+// Which way each metric should move; 'neutral' changes are reported but aren't regressions
+export const METRIC_DIRECTIONS: Record<MetricName, 'higher' | 'lower' | 'neutral'> = {
+  items: 'higher',
+  validUrls: 'higher',
+  invalidUrls: 'lower',
+  hallucinationFilterHits: 'neutral',
+  duplicates: 'lower'
+};
+
+const SECTIONS: SectionName[] = [
+  'investorDocs', 'keyPriorities', 'growthInitiatives', 'techNews', 'caseStudies', 'competitorMentions',
+  'communicationsStack', 'buyerPersonas', 'discoveredCompetitors', 'leadershipChanges', 'maActivity', 'regulatoryLandscape', 'regulatoryEvents', 'sources'
+];
+
+function isValidUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Key used to spot repeated items within a section
+function itemKey(item: unknown): string {
+  if (typeof item === 'string') return item.trim().toLowerCase();
+  if (item && typeof item === 'object') {
+    const record = item as Record<string, unknown>;
+    if (typeof record.url === 'string' && record.url) return record.url;
+    return JSON.stringify(record).toLowerCase();
+  }
+  return String(item);
+}
+
+function countDuplicateEvents(events: RegulatoryEventItem[]): number {
+  return events.filter((event, i) => events.slice(0, i).some(earlier => isSameRegulatoryEvent(earlier, event))).length;
+}
+
+function countDuplicates(items: unknown[]): number {
+  const seen = new Set<string>();
+  let duplicates = 0;
+  for (const item of items) {
+    const key = itemKey(item);
+    if (seen.has(key)) duplicates++;
+    seen.add(key);
+  }
+  return duplicates;
+}
+
+/**
+ * Count raw M&A entries in a provider response that the hallucination
+ * filter removes
+ */
+export function countHallucinationFilterHits(response: EvalFixture['response']): number {
+  if (response.format === 'tagged') {
+    return parseTagContent(response.raw, 'MA_ACTIVITY')
+      .split('\n')
+      .map(line => line.split('|').map(p => p.trim()))
+      .filter(([year, type, target]) => year && target && isHallucinatedMAEntry(target, type))
+      .length;
+  }
+
+  const raw = response.raw as { maActivity?: unknown };
+  if (!Array.isArray(raw?.maActivity)) return 0;
+  return raw.maActivity.filter(item =>
+    item && typeof item.target === 'string' && isHallucinatedMAEntry(item.target, typeof item.type === 'string' ? item.type : undefined)
+  ).length;
+}
+
+/**
+ * Score each section of an analysis
+ */
+export function scoreAnalysis(analysis: AnalysisResult, hallucinationFilterHits = 0): Record<SectionName, SectionScore> {
+  const sections = {} as Record<SectionName, SectionScore>;
+
+  for (const section of SECTIONS) {
+    const items: unknown[] = analysis[section] || [];
+    const urls = section === 'sources'
+      ? items as string[]
+      : items
+        .filter((item): item is { url?: string } => !!item && typeof item === 'object' && 'url' in item)
+        .map(item => item.url || '');
+
+    sections[section] = {
+      items: items.length,
+      validUrls: urls.filter(isValidUrl).length,
+      invalidUrls: urls.filter(url => !isValidUrl(url)).length,
+      hallucinationFilterHits: section === 'maActivity' ? hallucinationFilterHits : 0,
+      duplicates: section === 'regulatoryEvents'
+        ? countDuplicateEvents(analysis.regulatoryEvents)
+        : countDuplicates(items)
+    };
+  }
+
+  return sections;
+}
+
+/**
+ * Replay a fixture through the parser and the same merge and post-processing
+ * steps the analysis pipeline runs after the AI call (with the default
+ * recency windows and domain tiers), and return the resulting analysis
+ */
+export function replayFixture(fixture: EvalFixture): { analysis: AnalysisResult; validationIssues: number } {
+  const { response, companyName, regulatorySearchResults } = fixture;
+  const webSearch = fixture.webSearch && regulatorySearchResults
+    ? { ...fixture.webSearch, regulatoryEvents: extractRegulatoryEvents(regulatorySearchResults, companyName) }
+    : fixture.webSearch;
+  const now = Date.parse(fixture.recordedAt || REPLAY_DATE);
+  let analysis: AnalysisResult;
+  let validationIssues = 0;
+
+  if (response.format === 'structured') {
+    const parsed = parseStructuredResponse(response.raw);
+    analysis = parsed.analysis;
+    validationIssues = parsed.issues.length;
+  } else {
+    analysis = parseTaggedResponse(response.raw);
+  }
+
+  // Mirrors runAnalysisPipeline: AI competitor mentions are replaced by verified extraction results
+  analysis.competitorMentions = [];
+  analysis.communicationsStack = [];
+  analysis.buyerPersonas = [];
+  if (webSearch) {
+    mergeWebSearchData(analysis, webSearch, companyName);
+  }
+  normalizeAnalysisDates(analysis, now);
+  applyRecencyWindows(analysis, DEFAULT_RECENCY_WINDOWS, now);
+  if (webSearch) {
+    analysis.competitorMentions = fixture.competitorMentions || [];
+    analysis.communicationsStack = fixture.communicationsStack || [];
+    analysis.buyerPersonas = fixture.buyerPersonas || [];
+  }
+
+  // Official enforcement actions are merged after phase 2, like in the pipeline
+  const { enforcementFeeds } = fixture;
+  if (enforcementFeeds) {
+    const actions = ENFORCEMENT_SOURCES.flatMap(source => {
+      const feed = enforcementFeeds[source];
+      return feed ? parseEnforcementFeed(source, feed) : [];
+    });
+    mergeEnforcementEvents(analysis, matchEnforcementActions(actions, companyName, fixture.legalNames), companyName, fixture.legalNames);
+  }
+  normalizeAnalysisDates(analysis, now);
+  applyRecencyWindows(analysis, DEFAULT_RECENCY_WINDOWS, now);
+  applySourceCredibility(analysis, { tiers: DEFAULT_SOURCE_DOMAIN_TIERS, companyName });
+
+  if (webSearch) {
+    mergeWebSources(analysis, webSearch);
+  }
+
+  return { analysis, validationIssues };
+}
+
+/**
+ * Replay and score every fixture
+ */
+export function runEvaluation(fixtures: Record<string, EvalFixture>): EvalReport {
+  const report: EvalReport = { fixtures: {} };
+
+  for (const [name, fixture] of Object.entries(fixtures).sort(([a], [b]) => a.localeCompare(b))) {
+    const { analysis, validationIssues } = replayFixture(fixture);
+    report.fixtures[name] = {
+      format: fixture.response.format,
+      validationIssues,
+      sections: scoreAnalysis(analysis, countHallucinationFilterHits(fixture.response))
+    };
+  }
+
+  return report;
+}
+
+export interface ScoreChange {
+  fixture: string;
+  section: SectionName | 'validationIssues';
+  metric: MetricName | 'count';
+  baseline: number;
+  current: number;
+  regression: boolean;
+}
+
+/**
+ * List every score that differs from the baseline. Fixtures missing from
+ * either report are skipped; they show up as added or removed instead.
+ */
+export function compareReports(baseline: EvalReport, current: EvalReport): {
+  changes: ScoreChange[];
+  addedFixtures: string[];
+  removedFixtures: string[];
+} {
+  const changes: ScoreChange[] = [];
+
+  for (const [fixture, score] of Object.entries(current.fixtures)) {
+    const base = baseline.fixtures[fixture];
+    if (!base) continue;
+
+    if (score.validationIssues !== base.validationIssues) {
+      changes.push({
+        fixture,
+        section: 'validationIssues',
+        metric: 'count',
+        baseline: base.validationIssues,
+        current: score.validationIssues,
+        regression: score.validationIssues > base.validationIssues
+      });
+    }
+
+    for (const section of SECTIONS) {
+      for (const metric of Object.keys(METRIC_DIRECTIONS) as MetricName[]) {
+        const before = base.sections[section]?.[metric] ?? 0;
+        const after = score.sections[section][metric];
+        if (before === after) continue;
+
+        const direction = METRIC_DIRECTIONS[metric];
+        changes.push({
+          fixture,
+          section,
+          metric,
+          baseline: before,
+          current: after,
+          regression: direction === 'higher' ? after < before : direction === 'lower' && after > before
+        });
+      }
+    }
+  }
+
+  return {
+    changes,
+    addedFixtures: Object.keys(current.fixtures).filter(name => !baseline.fixtures[name]),
+    removedFixtures: Object.keys(baseline.fixtures).filter(name => !current.fixtures[name])
+  };
+}
@@ -10,14 +10,16 @@ const STORAGE_WEBSEARCH_KEY = 'marketpulse_websearch_apikey';
 const STORAGE_TAVILY_KEY = 'marketpulse_tavily_apikey';
 const STORAGE_WEBSEARCH_PROVIDER_KEY = 'marketpulse_websearch_provider';
 
-export type WebSearchProvider = 'tavily' | 'claude' | 'websearchapi' | 'none';
+export type WebSearchProvider = 'tavily' | 'claude' | 'websearchapi' | 'mock' | 'none';
 
 export function useApiKeys() {
   const [keys, setKeys] = useState<Record<ProviderName, string | null>>({
     openai: null,
     anthropic: null,
     gemini: null,
-    perplexity: null
+    perplexity: null,
+    selfhosted: null,
+    mock: null
   });
   const [webSearchApiKey, setWebSearchApiKeyState] = useState<string | null>(null);
   const [tavilyApiKey, setTavilyApiKeyState] = useState<string | null>(null);
@@ -27,24 +29,30 @@ export function useApiKeys() {
     openai: PROVIDER_INFO.openai.defaultModel,
     anthropic: PROVIDER_INFO.anthropic.defaultModel,
     gemini: PROVIDER_INFO.gemini.defaultModel,
-    perplexity: PROVIDER_INFO.perplexity.defaultModel
+    perplexity: PROVIDER_INFO.perplexity.defaultModel,
+    selfhosted: PROVIDER_INFO.selfhosted.defaultModel,
+    mock: PROVIDER_INFO.mock.defaultModel
   });
   const [loaded, setLoaded] = useState(false);
 
   // Load keys, provider, and models from localStorage on mount
   useEffect(() => {
-    const providers: ProviderName[] = ['openai', 'anthropic', 'gemini', 'perplexity'];
+    const providers: ProviderName[] = ['openai', 'anthropic', 'gemini', 'perplexity', 'selfhosted'];
     const loadedKeys: Record<ProviderName, string | null> = {
       openai: null,
       anthropic: null,
       gemini: null,
-      perplexity: null
+      perplexity: null,
+      selfhosted: null,
+    mock: null
     };
     const loadedModels: Record<ProviderName, string> = {
       openai: PROVIDER_INFO.openai.defaultModel,
       anthropic: PROVIDER_INFO.anthropic.defaultModel,
       gemini: PROVIDER_INFO.gemini.defaultModel,
-      perplexity: PROVIDER_INFO.perplexity.defaultModel
+      perplexity: PROVIDER_INFO.perplexity.defaultModel,
+      selfhosted: PROVIDER_INFO.selfhosted.defaultModel,
+    mock: PROVIDER_INFO.mock.defaultModel
     };
 
     providers.forEach((provider) => {
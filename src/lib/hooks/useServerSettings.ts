@@ -1,7 +1,10 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { ProviderName, PROVIDER_INFO } from '@/types/analysis';
+import { FitScoreWeights, ProviderModelSetting, ProviderName, PROVIDER_INFO, RecencyWindows, SourceDomainTiers } from '@/types/analysis';
+import { DEFAULT_FIT_SCORE_WEIGHTS } from '@/lib/services/fitScore';
+import { DEFAULT_SOURCE_DOMAIN_TIERS } from '@/lib/services/sourceCredibility';
+import { DEFAULT_RECENCY_WINDOWS } from '@/lib/services/dateNormalization';
 import { useAuth } from '@/lib/contexts/AuthContext';
 
 export type WebSearchProvider = 'tavily' | 'websearchapi' | 'none';
@@ -12,6 +15,7 @@ interface ServerSettings {
   anthropic_model: string;
   gemini_model: string;
   perplexity_model: string;
+  selfhosted_model: string;
   web_search_provider: WebSearchProvider;
   show_stock_chart: boolean;
   // API keys are masked for non-admins, so we just check if they exist
@@ -19,8 +23,16 @@ interface ServerSettings {
   anthropic_api_key: string | null;
   gemini_api_key: string | null;
   perplexity_api_key: string | null;
+  selfhosted_api_key: string | null;
+  selfhosted_base_url: string | null; // Admins only
   tavily_api_key: string | null;
   websearchapi_key: string | null;
+  failover_providers: ProviderModelSetting[];
+  consensus_provider: ProviderModelSetting | null;
+  research_questions: string[];
+  fit_score_weights: FitScoreWeights;
+  source_domain_tiers: SourceDomainTiers;
+  recency_windows: RecencyWindows;
   isAdmin: boolean;
 }
 
@@ -30,14 +42,23 @@ const DEFAULT_SETTINGS: ServerSettings = {
   anthropic_model: PROVIDER_INFO.anthropic.defaultModel,
   gemini_model: PROVIDER_INFO.gemini.defaultModel,
   perplexity_model: PROVIDER_INFO.perplexity.defaultModel,
+  selfhosted_model: PROVIDER_INFO.selfhosted.defaultModel,
   web_search_provider: 'none',
   show_stock_chart: false,
   openai_api_key: null,
   anthropic_api_key: null,
   gemini_api_key: null,
   perplexity_api_key: null,
+  selfhosted_api_key: null,
+  selfhosted_base_url: null,
   tavily_api_key: null,
   websearchapi_key: null,
+  failover_providers: [],
+  consensus_provider: null,
+  research_questions: [],
+  fit_score_weights: DEFAULT_FIT_SCORE_WEIGHTS,
+  source_domain_tiers: DEFAULT_SOURCE_DOMAIN_TIERS,
+  recency_windows: DEFAULT_RECENCY_WINDOWS,
   isAdmin: false,
 };
 
@@ -68,14 +89,23 @@ export function useServerSettings() {
             anthropic_model: data.anthropic_model || PROVIDER_INFO.anthropic.defaultModel,
             gemini_model: data.gemini_model || PROVIDER_INFO.gemini.defaultModel,
             perplexity_model: data.perplexity_model || PROVIDER_INFO.perplexity.defaultModel,
+            selfhosted_model: data.selfhosted_model || PROVIDER_INFO.selfhosted.defaultModel,
             web_search_provider: data.web_search_provider || 'none',
             show_stock_chart: data.show_stock_chart ?? false,
             openai_api_key: data.openai_api_key,
             anthropic_api_key: data.anthropic_api_key,
             gemini_api_key: data.gemini_api_key,
             perplexity_api_key: data.perplexity_api_key,
+            selfhosted_api_key: data.selfhosted_api_key,
+            selfhosted_base_url: data.selfhosted_base_url,
             tavily_api_key: data.tavily_api_key,
             websearchapi_key: data.websearchapi_key,
+            failover_providers: data.failover_providers || [],
+            consensus_provider: data.consensus_provider || null,
+            research_questions: data.research_questions || [],
+            fit_score_weights: data.fit_score_weights || DEFAULT_FIT_SCORE_WEIGHTS,
+            source_domain_tiers: data.source_domain_tiers || DEFAULT_SOURCE_DOMAIN_TIERS,
+            recency_windows: data.recency_windows || DEFAULT_RECENCY_WINDOWS,
             isAdmin: data.isAdmin || false,
           });
         } else if (response.status === 401) {
@@ -105,6 +135,8 @@ export function useServerSettings() {
       case 'anthropic': return settings.anthropic_model;
       case 'gemini': return settings.gemini_model;
       case 'perplexity': return settings.perplexity_model;
+      case 'selfhosted': return settings.selfhosted_model;
+      case 'mock': return PROVIDER_INFO.mock.defaultModel;
     }
   }, [settings]);
 
@@ -115,6 +147,8 @@ export function useServerSettings() {
       case 'anthropic': return !!settings.anthropic_api_key;
       case 'gemini': return !!settings.gemini_api_key;
       case 'perplexity': return !!settings.perplexity_api_key;
+      case 'selfhosted': return !!settings.selfhosted_api_key;
+      case 'mock': return true; // Needs no key
     }
   }, [settings]);
 
@@ -132,14 +166,23 @@ export function useServerSettings() {
           anthropic_model: data.anthropic_model || PROVIDER_INFO.anthropic.defaultModel,
           gemini_model: data.gemini_model || PROVIDER_INFO.gemini.defaultModel,
           perplexity_model: data.perplexity_model || PROVIDER_INFO.perplexity.defaultModel,
+          selfhosted_model: data.selfhosted_model || PROVIDER_INFO.selfhosted.defaultModel,
           web_search_provider: data.web_search_provider || 'none',
           show_stock_chart: data.show_stock_chart ?? false,
           openai_api_key: data.openai_api_key,
           anthropic_api_key: data.anthropic_api_key,
           gemini_api_key: data.gemini_api_key,
           perplexity_api_key: data.perplexity_api_key,
+          selfhosted_api_key: data.selfhosted_api_key,
+          selfhosted_base_url: data.selfhosted_base_url,
           tavily_api_key: data.tavily_api_key,
           websearchapi_key: data.websearchapi_key,
+          failover_providers: data.failover_providers || [],
+          consensus_provider: data.consensus_provider || null,
+          research_questions: data.research_questions || [],
+          fit_score_weights: data.fit_score_weights || DEFAULT_FIT_SCORE_WEIGHTS,
+          source_domain_tiers: data.source_domain_tiers || DEFAULT_SOURCE_DOMAIN_TIERS,
+          recency_windows: data.recency_windows || DEFAULT_RECENCY_WINDOWS,
           isAdmin: data.isAdmin || false,
         });
       }
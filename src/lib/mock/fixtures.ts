@@ -0,0 +1,50 @@
+// Canned company data for the mock AI and search providers. Each fixture
+// holds the analysis the mock AI provider returns and the Tavily-shaped
+// results the mock search provider returns for that company.
+
+import { AnalysisResult } from '@/types/analysis';
+import { TavilySearchResult } from '@/lib/services/tavilySearch';
+import { EnforcementSource } from '@/lib/services/enforcementActions';
+import acmeFinancialGroup from './fixtures/acme-financial-group.json';
+import defaultFixture from './fixtures/default.json';
+
+export interface MockSearchResults {
+  news: TavilySearchResult[];
+  caseStudies: TavilySearchResult[];
+  investorDocs: TavilySearchResult[];
+  leadershipChanges: TavilySearchResult[];
+  regulatory: TavilySearchResult[]; // Raw results, turned into events like Tavily's regulatory search
+  competitors: TavilySearchResult[];
+  communications: TavilySearchResult[];
+  personas: TavilySearchResult[];
+}
+
+export interface MockCompanyFixture {
+  companyName: string;
+  aliases?: string[];
+  analysis: AnalysisResult;
+  search: MockSearchResults;
+  links?: Record<string, { status: number; finalUrl?: string; contentType?: string }>; // Link check responses; unlisted links are healthy
+  enforcementFeeds?: Partial<Record<EnforcementSource, string>>; // Raw SEC and FINRA feeds, as published
+}
+
+const FIXTURES = [acmeFinancialGroup] as MockCompanyFixture[];
+
+// Used for companies without a fixture; {{companyName}} is filled in
+const DEFAULT_FIXTURE = defaultFixture as MockCompanyFixture;
+
+/**
+ * Get the fixture for a company, matching its name or aliases
+ * case-insensitively. Unknown companies get the default fixture.
+ */
+export function getMockFixture(companyName: string): MockCompanyFixture {
+  const nameLower = companyName.trim().toLowerCase();
+  const fixture = FIXTURES.find(f =>
+    [f.companyName, ...(f.aliases || [])].some(name => name.toLowerCase() === nameLower)
+  );
+  if (fixture) return fixture;
+
+  // Substitute in the serialized JSON so every string field picks up the name
+  const escapedName = JSON.stringify(companyName.trim()).slice(1, -1);
+  return JSON.parse(JSON.stringify(DEFAULT_FIXTURE).replace(/\{\{companyName\}\}/g, escapedName));
+}
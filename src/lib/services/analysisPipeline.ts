@@ -0,0 +1,846 @@
+import { createAIProvider } from '@/lib/ai/factory';
+import { AnalysisOutput, AnalysisOutputFormat, ProviderFailure } from '@/lib/ai/providers/base';
+import { ProviderCandidate } from '@/lib/ai/failover';
+import { buildConsensus } from '@/lib/ai/consensus';
+import { AnalysisPrompts } from '@/lib/ai/prompts';
+import { UsageRecord, UsageReporter } from '@/lib/ai/usage';
+import { ProviderName, PROVIDER_INFO, AnalysisResult, CompanyIdentifiers, CompetitorVendor, FitScoreWeights, SourceDomainTiers, RecencyWindows, OutputLanguage, LinkItem, LeadershipChangeItem, RegulatoryEventItem, CompetitorMentionItem, CommunicationsStackItem, BuyerPersona, SectionValidationIssue } from '@/types/analysis';
+import { AnalysisPhase, AnalyzeStreamEvent, PhaseStatus } from '@/types/api';
+import { searchCompanyNews, searchCompanyCaseStudies, searchCompanyInfo, searchInvestorDocuments, searchInvestorPresentation } from '@/lib/services/webSearch';
+import { tavilySearchCompanyNews, tavilySearchCaseStudies, tavilySearchInvestorDocs, tavilyConsolidatedCompetitorSearch, tavilySearchCommunicationsStack, tavilySearchBuyerPersonas, tavilySearchLeadershipChanges, tavilySearchRegulatoryEvents, RegulatoryEvent, buildRegulatorySearchQueries, buildCompetitorSearchQueries, buildCommunicationsSearchQueries, buildBuyerPersonaSearchQueries } from '@/lib/services/tavilySearch';
+import { claudeSearchCompanyNews, claudeSearchCaseStudies, claudeSearchCompanyInfo, claudeSearchInvestorDocs, claudeSearchInvestorPresentation, claudeSearchLeadershipChanges, claudeSearchRegulatoryEvents, claudeConsolidatedCompetitorSearch, claudeSearchCommunicationsStack, claudeSearchBuyerPersonas } from '@/lib/services/claudeSearch';
+import { mockSearchCompanyNews, mockSearchCaseStudies, mockSearchInvestorDocs, mockSearchLeadershipChanges, mockSearchRegulatoryEvents, mockConsolidatedCompetitorSearch, mockSearchCommunicationsStack, mockSearchBuyerPersonas } from '@/lib/services/mockSearch';
+import { extractCompetitorMentions } from '@/lib/services/competitorExtraction';
+import { extractCommunicationsStack } from '@/lib/services/communicationsExtraction';
+import { extractBuyerPersonas } from '@/lib/services/buyerPersonaExtraction';
+import { FoundBuyerPersona, diffBuyerPersonas } from '@/lib/services/buyerPersonas';
+import { withDiscoveredVendors } from '@/lib/services/competitorVendors';
+import { computeFitScore } from '@/lib/services/fitScore';
+import { CredibilityContext, DEFAULT_SOURCE_DOMAIN_TIERS, applySourceCredibility } from '@/lib/services/sourceCredibility';
+import { DEFAULT_RECENCY_WINDOWS, applyRecencyWindows, normalizeAnalysisDates } from '@/lib/services/dateNormalization';
+import { EnforcementFeedFetcher, importEnforcementActions, mergeEnforcementEvents } from '@/lib/services/enforcementActions';
+import { checkNarrativeGrounding, collectGroundingEvidence } from '@/lib/services/narrativeGrounding';
+import { parseLeadershipArticles } from '@/lib/ai/parseLeadershipNews';
+import { deduplicateRegulatoryEvents } from '@/lib/ai/parser';
+import { isCancelled, isTimedOut, withTimeout } from '@/lib/services/deadline';
+
+// Time allowed for a whole analysis, and for each web search phase within it
+export const ANALYSIS_DEADLINE_MS = 4 * 60 * 1000;
+const SEARCH_PHASE_TIMEOUT_MS = 60 * 1000;
+const ENFORCEMENT_IMPORT_TIMEOUT_MS = 30 * 1000;
+
+export type SearchProviderName = 'tavily' | 'claude' | 'websearchapi' | 'mock' | 'none';
+
+export interface WebSearchLink {
+  title: string;
+  url: string;
+  description: string;
+  date?: string;
+}
+
+export interface WebSearchData {
+  news: WebSearchLink[];
+  caseStudies: WebSearchLink[];
+  info: { sources: WebSearchLink[] };
+  investorDocs: WebSearchLink[];
+  investorPresentation: WebSearchLink[];
+  leadershipChanges?: WebSearchLink[];
+  regulatoryEvents?: RegulatoryEvent[];
+}
+
+export interface AnalysisPipelineOptions {
+  companyName: string;
+  company?: CompanyIdentifiers; // Ticker, domain etc. of the company picked in search
+  provider: ProviderName;
+  apiKey: string;
+  model?: string;
+  baseUrl?: string; // Self-hosted server URL
+  failover?: ProviderCandidate[]; // Tried in order if the primary provider fails with a retryable error
+  consensus?: ProviderCandidate | null; // Second provider that cross-checks the analysis (consensus mode)
+  prompts?: AnalysisPrompts; // Active admin-edited prompt version; built-in prompts if unset
+  language?: OutputLanguage; // Language for the narrative fields; English if unset
+  researchQuestions?: string[]; // Admin and user questions answered in customAnswers
+  competitorVendors?: CompetitorVendor[]; // Active admin-managed vendors searched for in competitor mentions
+  fitScoreWeights?: FitScoreWeights; // Admin-configured fit score weights; defaults if unset
+  sourceDomainTiers?: SourceDomainTiers; // Admin-edited source credibility tiers; defaults if unset
+  recencyWindows?: RecencyWindows; // Admin-set maximum item age per section; defaults if unset
+  previousBuyerPersonas?: BuyerPersona[]; // From the cached analysis being replaced, to flag who is new
+  enforcementFetcher?: EnforcementFeedFetcher; // Reads the SEC and FINRA enforcement feeds; fetched live if unset
+  webSearchProvider: string;
+  tavilyApiKey?: string;
+  webSearchApiKey?: string;
+  signal?: AbortSignal; // Cancels the analysis, e.g. when the client disconnects
+  deadlineMs?: number; // Defaults to ANALYSIS_DEADLINE_MS
+}
+
+export interface AnalysisPipelineResult {
+  analysis: AnalysisResult;
+  webSearchUsed: boolean;
+  webSearchError: string | null;
+  searchProvider: SearchProviderName;
+  durationMs: number;
+  outputFormat: AnalysisOutputFormat;
+  validationIssues: SectionValidationIssue[];
+  usage: UsageRecord[]; // One record per LLM call made
+  provider: ProviderName; // Provider and model that served the analysis, after any failover
+  model: string;
+  failedProviders: ProviderFailure[];
+  timedOutPhases: AnalysisPhase[]; // Phases cut short by a timeout; the analysis is partial if any
+  searchQueriesUsed: number; // Web search queries sent, including ones that failed or timed out
+}
+
+export type AnalysisEventEmitter = (event: AnalyzeStreamEvent) => void;
+
+type SectionKey = keyof AnalysisResult;
+
+// Sections that come straight from the AI response and are never replaced by web search
+const AI_ONLY_SECTIONS: SectionKey[] = [
+  'summary', 'sentiment', 'quickFacts', 'keyPriorities', 'growthInitiatives',
+  'discoveredCompetitors', 'maActivity', 'regulatoryLandscape', 'customAnswers'
+];
+
+// Sections that web search data may override after the AI analysis
+const WEB_MERGED_SECTIONS: SectionKey[] = [
+  'techNews', 'caseStudies', 'investorDocs', 'leadershipChanges', 'regulatoryEvents'
+];
+
+function emitPhase(emit: AnalysisEventEmitter, phase: AnalysisPhase, status: PhaseStatus, message?: string) {
+  emit({ type: 'phase', phase, status, message });
+}
+
+function emitSections(emit: AnalysisEventEmitter, analysis: AnalysisResult, sections: SectionKey[]) {
+  for (const section of sections) {
+    emit({ type: 'section', section, data: analysis[section] });
+  }
+}
+
+// Deadline shared by every phase of one analysis
+interface PhaseDeadline {
+  signal: AbortSignal; // Aborts when the deadline passes or the caller cancels
+  timedOutPhases: AnalysisPhase[];
+}
+
+/**
+ * Run a phase, reporting its start, completion or failure to the emitter.
+ * A phase cut short by the deadline (or its own `timeoutMs`) is reported as
+ * timed out; it resolves to `onTimeout()` when given so the analysis can
+ * carry on with partial results, and throws "Request timed out" otherwise.
+ */
+async function trackPhase<T>(
+  emit: AnalysisEventEmitter,
+  phase: AnalysisPhase,
+  deadline: PhaseDeadline,
+  run: (signal: AbortSignal) => Promise<T>,
+  { timeoutMs, onTimeout }: { timeoutMs?: number; onTimeout?: () => T } = {}
+): Promise<T> {
+  const signal = timeoutMs ? withTimeout(deadline.signal, timeoutMs) : deadline.signal;
+  const markTimedOut = () => {
+    deadline.timedOutPhases.push(phase);
+    emitPhase(emit, phase, 'timed_out');
+  };
+
+  emitPhase(emit, phase, 'started');
+  try {
+    signal.throwIfAborted();
+    const result = await run(signal);
+    // Searches that swallow their own errors resolve with whatever they had
+    if (isTimedOut(signal)) {
+      markTimedOut();
+      return result;
+    }
+    signal.throwIfAborted();
+    emitPhase(emit, phase, 'completed');
+    return result;
+  } catch (err) {
+    if (!isTimedOut(signal)) {
+      emitPhase(emit, phase, 'failed', err instanceof Error ? err.message : undefined);
+      throw err;
+    }
+    markTimedOut();
+    if (onTimeout) return onTimeout();
+    throw new Error('Request timed out');
+  }
+}
+
+/**
+ * Convert a web search failure into a user-friendly message
+ */
+export function describeWebSearchError(providerName: string, errorMessage: string): string {
+  if (errorMessage.includes('Forbidden') || errorMessage.includes('401') || errorMessage.includes('403') || errorMessage.includes('Invalid API Key')) {
+    return `${providerName} key is invalid or expired`;
+  }
+  if (errorMessage.includes('429') || errorMessage.includes('rate limit')) {
+    return `${providerName} rate limit exceeded`;
+  }
+  if (errorMessage.includes('timeout') || errorMessage.includes('timed out') || errorMessage.includes('ETIMEDOUT')) {
+    return `${providerName} request timed out`;
+  }
+  return `${providerName} failed: ` + errorMessage.substring(0, 100);
+}
+
+/**
+ * Fetch real-time web data for the company, split into a general news phase
+ * and a regulatory phase so progress can be reported for each. A regulatory
+ * search that times out leaves the news results intact. The number of
+ * queries is reported before they're sent.
+ */
+async function fetchWebSearchData(
+  companyName: string,
+  company: CompanyIdentifiers | undefined,
+  searchProvider: Exclude<SearchProviderName, 'none'>,
+  keys: { apiKey: string; tavilyApiKey?: string; webSearchApiKey?: string },
+  emit: AnalysisEventEmitter,
+  onUsage: UsageReporter,
+  onQueries: (count: number) => void,
+  deadline: PhaseDeadline
+): Promise<WebSearchData> {
+  const searchPhase = { timeoutMs: SEARCH_PHASE_TIMEOUT_MS };
+  const regulatoryPhase = { timeoutMs: SEARCH_PHASE_TIMEOUT_MS, onTimeout: (): RegulatoryEvent[] => [] };
+
+  // The mock provider returns canned Tavily-shaped results
+  if (searchProvider === 'tavily' || searchProvider === 'mock') {
+    const tavilyApiKey = keys.tavilyApiKey!;
+    const search = searchProvider === 'mock'
+      ? { news: mockSearchCompanyNews, caseStudies: mockSearchCaseStudies, investorDocs: mockSearchInvestorDocs, leadershipChanges: mockSearchLeadershipChanges, regulatoryEvents: mockSearchRegulatoryEvents }
+      : { news: tavilySearchCompanyNews, caseStudies: tavilySearchCaseStudies, investorDocs: tavilySearchInvestorDocs, leadershipChanges: tavilySearchLeadershipChanges, regulatoryEvents: tavilySearchRegulatoryEvents };
+    // One query per news search, plus the consolidated regulatory queries
+    onQueries(4 + buildRegulatorySearchQueries(companyName, company).length);
+    const [[newsResults, caseStudyResults, investorDocsResults, leadershipResults], regulatoryResults] = await Promise.all([
+      trackPhase(emit, 'news_search', deadline, signal => Promise.all([
+        search.news(companyName, tavilyApiKey, signal, company),
+        search.caseStudies(companyName, tavilyApiKey, signal, company),
+        search.investorDocs(companyName, tavilyApiKey, signal, company),
+        search.leadershipChanges(companyName, tavilyApiKey, signal, company)
+      ]), searchPhase),
+      trackPhase(emit, 'regulatory_search', deadline, signal => search.regulatoryEvents(companyName, tavilyApiKey, signal, company), regulatoryPhase)
+    ]);
+
+    return {
+      news: newsResults.map(r => ({ title: r.title, url: r.url, description: r.content, date: r.published_date })),
+      caseStudies: caseStudyResults.map(r => ({ title: r.title, url: r.url, description: r.content })),
+      info: { sources: [] },
+      investorDocs: investorDocsResults.map(r => ({ title: r.title, url: r.url, description: r.content })),
+      investorPresentation: [],
+      leadershipChanges: leadershipResults.map(r => ({ title: r.title, url: r.url, description: r.content })),
+      regulatoryEvents: regulatoryResults
+    };
+  }
+
+  if (searchProvider === 'claude') {
+    const apiKey = keys.apiKey;
+    // One Claude search call per news search, plus one regulatory call
+    onQueries(7);
+    const [[newsResults, caseStudyResults, infoResults, investorDocsResults, investorPresentationResults, leadershipResults], regulatoryResults] = await Promise.all([
+      trackPhase(emit, 'news_search', deadline, signal => Promise.all([
+        claudeSearchCompanyNews(companyName, apiKey, onUsage, signal, company),
+        claudeSearchCaseStudies(companyName, apiKey, onUsage, signal, company),
+        claudeSearchCompanyInfo(companyName, apiKey, onUsage, signal, company),
+        claudeSearchInvestorDocs(companyName, apiKey, onUsage, signal, company),
+        claudeSearchInvestorPresentation(companyName, apiKey, onUsage, signal, company),
+        claudeSearchLeadershipChanges(companyName, apiKey, onUsage, signal, company)
+      ]), searchPhase),
+      trackPhase(emit, 'regulatory_search', deadline, signal => claudeSearchRegulatoryEvents(companyName, apiKey, onUsage, signal, company), regulatoryPhase)
+    ]);
+
+    return {
+      news: newsResults.map(r => ({ title: r.title, url: r.url, description: r.content, date: undefined })),
+      caseStudies: caseStudyResults.map(r => ({ title: r.title, url: r.url, description: r.content })),
+      info: { sources: infoResults.sources.map(r => ({ title: r.title, url: r.url, description: r.content })) },
+      investorDocs: investorDocsResults.map(r => ({ title: r.title, url: r.url, description: r.content })),
+      investorPresentation: investorPresentationResults.map(r => ({ title: r.title, url: r.url, description: r.content })),
+      leadershipChanges: leadershipResults.map(r => ({ title: r.title, url: r.url, description: r.content })),
+      regulatoryEvents: regulatoryResults
+    };
+  }
+
+  // WebSearchAPI has no dedicated regulatory search
+  const webSearchApiKey = keys.webSearchApiKey!;
+  emitPhase(emit, 'regulatory_search', 'skipped');
+  onQueries(5);
+  const [newsResults, caseStudyResults, infoResults, investorDocsResults, investorPresentationResults] = await trackPhase(emit, 'news_search', deadline, signal => Promise.all([
+    searchCompanyNews(companyName, webSearchApiKey, signal, company),
+    searchCompanyCaseStudies(companyName, webSearchApiKey, signal, company),
+    searchCompanyInfo(companyName, webSearchApiKey, signal, company),
+    searchInvestorDocuments(companyName, webSearchApiKey, signal, company),
+    searchInvestorPresentation(companyName, webSearchApiKey, signal, company)
+  ]), searchPhase);
+
+  return {
+    news: newsResults.map(r => ({ title: r.title, url: r.url, description: r.description, date: r.date || r.publishedDate })),
+    caseStudies: caseStudyResults,
+    info: infoResults,
+    investorDocs: investorDocsResults,
+    investorPresentation: investorPresentationResults.map(r => ({ title: r.title, url: r.url, description: r.description }))
+  };
+}
+
+// Excluded from investor presentation results — video sites, social media, and generic pages
+const EXCLUDED_PRESENTATION_DOMAINS = ['youtube.com', 'youtu.be', 'vimeo.com', 'twitter.com', 'x.com',
+  'facebook.com', 'linkedin.com', 'reddit.com', 'wikipedia.org'];
+
+export function buildTechNews(news: WebSearchLink[]): LinkItem[] {
+  return news.map(item => ({
+    title: item.title,
+    url: item.url,
+    summary: item.description,
+    date: item.date
+  }));
+}
+
+export function buildLinkItems(links: WebSearchLink[]): LinkItem[] {
+  return links.map(item => ({
+    title: item.title,
+    url: item.url,
+    summary: item.description
+  }));
+}
+
+/**
+ * Prepend the investor presentation (or a placeholder when none was found)
+ * to the investor documents list
+ */
+export function buildInvestorDocs(investorDocs: LinkItem[], investorPresentation: WebSearchLink[]): LinkItem[] {
+  const presResult = investorPresentation.find(r => {
+    const urlLower = r.url.toLowerCase();
+    return !EXCLUDED_PRESENTATION_DOMAINS.some(domain => urlLower.includes(domain));
+  });
+  if (presResult) {
+    return [
+      { title: presResult.title, url: presResult.url, summary: presResult.description },
+      ...investorDocs.filter(d => d.url !== presResult.url)
+    ];
+  }
+  return [
+    { title: 'Investor Presentation', url: '', summary: 'No recent investor presentation found for this company.' },
+    ...investorDocs
+  ];
+}
+
+/**
+ * Turn leadership news articles into leadership change items, falling back
+ * to article titles when no names could be parsed
+ */
+export function buildLeadershipChanges(articles: WebSearchLink[], companyName: string): LeadershipChangeItem[] {
+  // Filter out irrelevant pages first
+  const filteredArticles = articles
+    .filter(item => {
+      const urlLower = item.url.toLowerCase();
+      return !urlLower.includes('career') && !urlLower.includes('job') && !urlLower.includes('linkedin.com/jobs');
+    })
+    .map(item => ({
+      title: item.title,
+      url: item.url,
+      content: item.description || ''
+    }));
+
+  // Parse articles to extract actual names and roles
+  const parsedChanges = parseLeadershipArticles(filteredArticles, companyName);
+  if (parsedChanges.length > 0) {
+    return parsedChanges;
+  }
+
+  // Fallback: show article titles if parsing found nothing
+  return filteredArticles.slice(0, 6).map((item) => {
+    let source = '';
+    try {
+      source = new URL(item.url).hostname.replace('www.', '');
+    } catch {
+      source = 'Source';
+    }
+    return {
+      name: item.title,
+      role: item.content?.substring(0, 150) || '',
+      changeType: 'appointed' as const,
+      url: item.url,
+      source
+    };
+  });
+}
+
+export function buildRegulatoryEvents(events: RegulatoryEvent[]): RegulatoryEventItem[] {
+  const rawEvents = events.map(event => ({
+    date: event.date,
+    regulatoryBody: event.regulatoryBody,
+    eventType: event.eventType,
+    amount: event.amount,
+    description: event.description,
+    url: event.url
+  }));
+  // Deduplicate events that refer to the same enforcement action
+  return deduplicateRegulatoryEvents(rawEvents);
+}
+
+/**
+ * Merge web search results into the AI analysis, replacing placeholder
+ * sections with real results. Mutates and returns the analysis.
+ */
+export function mergeWebSearchData(analysis: AnalysisResult, webSearchData: WebSearchData, companyName: string): AnalysisResult {
+  // Replace placeholder news with real web search results
+  // (an empty result clears AI-generated placeholder text)
+  analysis.techNews = buildTechNews(webSearchData.news);
+
+  // Replace placeholder case studies with real web search results
+  if (webSearchData.caseStudies.length > 0) {
+    analysis.caseStudies = buildLinkItems(webSearchData.caseStudies);
+  }
+
+  // Replace placeholder investor docs with real web search results
+  if (webSearchData.investorDocs.length > 0) {
+    analysis.investorDocs = buildLinkItems(webSearchData.investorDocs);
+  }
+
+  // Prepend investor presentation as the first item
+  analysis.investorDocs = buildInvestorDocs(analysis.investorDocs, webSearchData.investorPresentation || []);
+
+  // Replace leadership changes with real web search results (Tavily only)
+  if (webSearchData.leadershipChanges && webSearchData.leadershipChanges.length > 0) {
+    analysis.leadershipChanges = buildLeadershipChanges(webSearchData.leadershipChanges, companyName);
+  }
+
+  // Replace regulatory events with real web search results (Tavily only)
+  if (webSearchData.regulatoryEvents && webSearchData.regulatoryEvents.length > 0) {
+    analysis.regulatoryEvents = buildRegulatoryEvents(webSearchData.regulatoryEvents);
+    console.log(`Found ${webSearchData.regulatoryEvents.length} regulatory events for ${companyName}, deduplicated to ${analysis.regulatoryEvents.length}`);
+  }
+
+  return analysis;
+}
+
+/**
+ * Add web search, verified competitor and communications stack URLs to the
+ * analysis source list
+ */
+export function mergeWebSources(analysis: AnalysisResult, webSearchData: WebSearchData): AnalysisResult {
+  const webSources = [
+    ...webSearchData.news.map(n => n.url),
+    ...webSearchData.caseStudies.map(c => c.url),
+    ...webSearchData.investorDocs.map(d => d.url),
+    ...webSearchData.info.sources.map(s => s.url),
+    ...(analysis.competitorMentions || []).map(c => c.url),
+    ...(analysis.communicationsStack || []).map(c => c.url),
+    ...(analysis.buyerPersonas || []).map(p => p.url),
+    ...(webSearchData.regulatoryEvents || []).map(e => e.url)
+  ].filter(Boolean);
+
+  if (webSources.length > 0) {
+    analysis.sources = [...new Set([...analysis.sources, ...webSources])];
+  }
+  return analysis;
+}
+
+export const SEARCH_PROVIDER_LABELS: Record<Exclude<SearchProviderName, 'none'>, string> = {
+  tavily: 'Tavily',
+  claude: 'Claude',
+  websearchapi: 'WebSearchAPI',
+  mock: 'Mock Search'
+};
+
+/**
+ * What source credibility is scored against for an analysis: the admin's
+ * domain tiers, with the company's own site counted as official
+ */
+export function getCredibilityContext(options: AnalysisPipelineOptions): CredibilityContext {
+  return {
+    tiers: options.sourceDomainTiers || DEFAULT_SOURCE_DOMAIN_TIERS,
+    companyName: options.companyName,
+    companyDomain: options.company?.domain
+  };
+}
+
+/**
+ * Pick the web search provider for an analysis. Providers with native web
+ * grounding never use external search.
+ */
+export function resolveSearchProvider(options: AnalysisPipelineOptions): SearchProviderName {
+  const { provider, apiKey, webSearchProvider, tavilyApiKey, webSearchApiKey } = options;
+  if (PROVIDER_INFO[provider].supportsWebGrounding) return 'none';
+  if (webSearchProvider === 'tavily' && tavilyApiKey) return 'tavily';
+  if (webSearchProvider === 'claude' && apiKey && provider === 'anthropic') return 'claude';
+  if (webSearchProvider === 'websearchapi' && webSearchApiKey) return 'websearchapi';
+  if (webSearchProvider === 'mock') return 'mock';
+  return 'none';
+}
+
+/**
+ * Queries the competitor, communications stack and buyer persona searches
+ * send. Claude runs one search call for each, and WebSearchAPI doesn't
+ * support them.
+ */
+function countFollowUpSearchQueries(
+  companyName: string,
+  competitors: CompetitorVendor[],
+  searchProvider: SearchProviderName,
+  company?: CompanyIdentifiers
+): number {
+  if (searchProvider === 'tavily' || searchProvider === 'mock') {
+    return buildCompetitorSearchQueries(companyName, competitors, company).length
+      + buildCommunicationsSearchQueries(companyName, company).length
+      + buildBuyerPersonaSearchQueries(companyName, company).length;
+  }
+  if (searchProvider === 'claude') return (competitors.length > 0 ? 1 : 0) + 2;
+  return 0;
+}
+
+/**
+ * Search for competitor vendors mentioned alongside the company and extract
+ * verified mentions. URLs are constrained to the actual search results.
+ */
+export async function findCompetitorMentions(
+  companyName: string,
+  competitors: CompetitorVendor[],
+  searchProvider: SearchProviderName,
+  options: AnalysisPipelineOptions,
+  onUsage?: UsageReporter,
+  extractor: ProviderCandidate = options,
+  signal?: AbortSignal
+): Promise<CompetitorMentionItem[]> {
+  const { apiKey, tavilyApiKey, company } = options;
+
+  // Run consolidated search (3 queries instead of 24)
+  let competitorSearchResults: { title: string; url: string; content: string }[] = [];
+  if (searchProvider === 'tavily') {
+    competitorSearchResults = await tavilyConsolidatedCompetitorSearch(companyName, competitors, tavilyApiKey!, signal, company);
+  } else if (searchProvider === 'claude') {
+    competitorSearchResults = await claudeConsolidatedCompetitorSearch(companyName, competitors, apiKey, onUsage, signal, company);
+  } else if (searchProvider === 'mock') {
+    competitorSearchResults = await mockConsolidatedCompetitorSearch(companyName, competitors);
+  }
+
+  if (competitorSearchResults.length === 0) {
+    return [];
+  }
+
+  // AI extraction from search results
+  const providerType = extractor.provider as 'anthropic' | 'openai' | 'gemini' | 'selfhosted' | 'mock';
+  const extractedMentions = await extractCompetitorMentions(
+    companyName,
+    competitors,
+    competitorSearchResults,
+    { type: providerType, apiKey: extractor.apiKey, model: extractor.model, baseUrl: extractor.baseUrl },
+    onUsage,
+    signal
+  );
+  console.log(`Competitor extraction: ${competitorSearchResults.length} search results → ${extractedMentions.length} verified mentions`);
+  return extractedMentions;
+}
+
+/**
+ * Search for evidence of the collaboration platforms the company uses and
+ * extract it the same way as competitor mentions, so every URL is one the
+ * search actually returned
+ */
+export async function findCommunicationsStack(
+  companyName: string,
+  searchProvider: SearchProviderName,
+  options: AnalysisPipelineOptions,
+  onUsage?: UsageReporter,
+  extractor: ProviderCandidate = options,
+  signal?: AbortSignal
+): Promise<CommunicationsStackItem[]> {
+  const { apiKey, tavilyApiKey, company } = options;
+
+  let searchResults: { title: string; url: string; content: string; date?: string }[] = [];
+  if (searchProvider === 'tavily') {
+    searchResults = await tavilySearchCommunicationsStack(companyName, tavilyApiKey!, signal, company);
+  } else if (searchProvider === 'claude') {
+    searchResults = await claudeSearchCommunicationsStack(companyName, apiKey, onUsage, signal, company);
+  } else if (searchProvider === 'mock') {
+    searchResults = await mockSearchCommunicationsStack(companyName);
+  }
+
+  if (searchResults.length === 0) {
+    return [];
+  }
+
+  const providerType = extractor.provider as 'anthropic' | 'openai' | 'gemini' | 'selfhosted' | 'mock';
+  const items = await extractCommunicationsStack(
+    companyName,
+    searchResults,
+    { type: providerType, apiKey: extractor.apiKey, model: extractor.model, baseUrl: extractor.baseUrl },
+    onUsage,
+    signal
+  );
+  console.log(`Communications stack extraction: ${searchResults.length} search results → ${items.length} verified items`);
+  return items;
+}
+
+/**
+ * Search for named people in the buying functions and extract them,
+ * validating names and titles like leadership news. Returns them before any
+ * comparison with earlier analyses.
+ */
+export async function findBuyerPersonas(
+  companyName: string,
+  searchProvider: SearchProviderName,
+  options: AnalysisPipelineOptions,
+  onUsage?: UsageReporter,
+  extractor: ProviderCandidate = options,
+  signal?: AbortSignal
+): Promise<FoundBuyerPersona[]> {
+  const { apiKey, tavilyApiKey, company } = options;
+
+  let searchResults: { title: string; url: string; content: string; date?: string }[] = [];
+  if (searchProvider === 'tavily') {
+    searchResults = await tavilySearchBuyerPersonas(companyName, tavilyApiKey!, signal, company);
+  } else if (searchProvider === 'claude') {
+    searchResults = await claudeSearchBuyerPersonas(companyName, apiKey, onUsage, signal, company);
+  } else if (searchProvider === 'mock') {
+    searchResults = await mockSearchBuyerPersonas(companyName);
+  }
+
+  if (searchResults.length === 0) {
+    return [];
+  }
+
+  const providerType = extractor.provider as 'anthropic' | 'openai' | 'gemini' | 'selfhosted' | 'mock';
+  const personas = await extractBuyerPersonas(
+    companyName,
+    searchResults,
+    { type: providerType, apiKey: extractor.apiKey, model: extractor.model, baseUrl: extractor.baseUrl },
+    onUsage,
+    signal
+  );
+  console.log(`Buyer persona extraction: ${searchResults.length} search results → ${personas.length} verified people`);
+  return personas;
+}
+
+// Second analysis for consensus mode. Failures are non-fatal: the primary
+// analysis is returned without corroboration flags.
+async function runConsensusAnalysis(
+  options: AnalysisPipelineOptions,
+  candidate: ProviderCandidate,
+  signal: AbortSignal
+): Promise<AnalysisOutput | null> {
+  const { companyName, company, prompts, language, researchQuestions, competitorVendors = [] } = options;
+  try {
+    const aiProvider = createAIProvider(candidate.provider, candidate.apiKey, { model: candidate.model, baseUrl: candidate.baseUrl, prompts, language, researchQuestions, knownCompetitors: competitorVendors.map(v => v.name) });
+    return await aiProvider.analyzeCompany(companyName, company, signal);
+  } catch (err) {
+    console.warn(`Consensus analysis with ${candidate.provider} failed (non-fatal):`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+/**
+ * Run the full analysis: web search, AI analysis, competitor, communications
+ * stack and buyer persona extraction, and merging. Progress and finished
+ * sections are reported through `emit` so callers can stream them; caching
+ * and usage logging are left to the caller.
+ *
+ * Everything runs under one deadline. Search and extraction phases that
+ * run out of time are listed in `timedOutPhases` and the analysis is
+ * returned without them; if the AI analysis itself times out
+ * the pipeline throws. Cancelling `options.signal` aborts every call.
+ */
+export async function runAnalysisPipeline(
+  options: AnalysisPipelineOptions,
+  emit: AnalysisEventEmitter = () => {}
+): Promise<AnalysisPipelineResult> {
+  const { companyName, company, provider, apiKey, model, baseUrl, failover, consensus, prompts, language, researchQuestions, competitorVendors = [], tavilyApiKey, webSearchApiKey } = options;
+
+  const deadline: PhaseDeadline = {
+    signal: withTimeout(options.signal, options.deadlineMs || ANALYSIS_DEADLINE_MS),
+    timedOutPhases: []
+  };
+
+  const searchProvider = resolveSearchProvider(options);
+  const shouldUseWebSearch = searchProvider !== 'none';
+  const webSearchProviderName = shouldUseWebSearch ? SEARCH_PROVIDER_LABELS[searchProvider] : '';
+
+  let webSearchData: WebSearchData | null = null;
+  let webSearchError: string | null = null;
+
+  // Collect provider-reported token usage from every LLM call
+  const usage: UsageRecord[] = [];
+  const onUsage: UsageReporter = record => usage.push(record);
+  let searchQueriesUsed = 0;
+  const onQueries = (count: number) => { searchQueriesUsed += count; };
+
+  // If provider doesn't have native web grounding and we have a web search API key,
+  // fetch real-time web data to augment the analysis
+  if (searchProvider !== 'none') {
+    try {
+      webSearchData = await fetchWebSearchData(companyName, company, searchProvider, { apiKey, tavilyApiKey, webSearchApiKey }, emit, onUsage, onQueries, deadline);
+    } catch (err) {
+      if (isCancelled(deadline.signal)) throw err;
+
+      // Log but don't fail - web search is an enhancement
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      console.warn(`${webSearchProviderName} error (non-fatal):`, errorMessage);
+      webSearchError = describeWebSearchError(webSearchProviderName, errorMessage);
+    }
+  } else {
+    emitPhase(emit, 'news_search', 'skipped');
+    emitPhase(emit, 'regulatory_search', 'skipped');
+  }
+
+  // Create provider and execute analysis with optional model override,
+  // falling back through the failover chain on retryable errors
+  const startTime = Date.now();
+  const [output, consensusOutput] = await trackPhase(emit, 'ai_analysis', deadline, signal => {
+    const aiProvider = createAIProvider(provider, apiKey, { model, baseUrl, failover, prompts, language, researchQuestions, knownCompetitors: competitorVendors.map(v => v.name) });
+    return Promise.all([
+      aiProvider.analyzeCompany(companyName, company, signal),
+      consensus ? runConsensusAnalysis(options, consensus, signal) : Promise.resolve(null)
+    ]);
+  });
+  const { format: outputFormat, validationIssues, usage: analysisUsage, provider: servedProvider, model: servedModel } = output;
+  onUsage({ call: 'analysis', provider: servedProvider, model: servedModel, ...analysisUsage });
+  const durationMs = Date.now() - startTime;
+
+  let analysis = output.analysis;
+  if (consensusOutput) {
+    onUsage({ call: 'consensus_analysis', provider: consensusOutput.provider, model: consensusOutput.model, ...consensusOutput.usage });
+  }
+
+  // Later LLM calls go to whichever provider actually served the analysis
+  const primary: ProviderCandidate = { provider, apiKey, model, baseUrl };
+  const served = [primary, ...(failover || [])].find(c => c.provider === servedProvider) || primary;
+
+  // Clear any AI-generated competitor mentions — only use verified results from web search
+  analysis.competitorMentions = [];
+  analysis.communicationsStack = [];
+  analysis.buyerPersonas = [];
+  analysis.formerBuyerPersonas = [];
+  if (language) {
+    analysis.language = language;
+  }
+
+  if (webSearchData) {
+    mergeWebSearchData(analysis, webSearchData, companyName);
+  }
+
+  // Consensus mode: flag items only one of the two providers produced. Runs
+  // after the web search merge so the events and leadership changes it
+  // brought in are cross-checked too. Skipped if failover landed on the
+  // consensus provider itself.
+  if (consensusOutput && consensusOutput.provider !== servedProvider) {
+    const webSourced = (['regulatoryEvents', 'leadershipChanges'] as const).filter(section => (webSearchData?.[section]?.length ?? 0) > 0);
+    analysis = buildConsensus(analysis, consensusOutput.analysis, [servedProvider, consensusOutput.provider], webSourced);
+  }
+  // Searches and prompts ask for recent items, but sources still return old ones
+  normalizeAnalysisDates(analysis);
+  applyRecencyWindows(analysis, options.recencyWindows || DEFAULT_RECENCY_WINDOWS);
+  emitSections(emit, analysis, [...AI_ONLY_SECTIONS, ...WEB_MERGED_SECTIONS]);
+
+  // Official enforcement actions come from the SEC and FINRA rather than web
+  // search, so they're imported alongside phase 2 either way. A failed import
+  // resolves to no events instead of rejecting while nothing awaits it.
+  const enforcementImport = trackPhase(emit, 'enforcement_import', deadline,
+    signal => importEnforcementActions(companyName, company, { fetcher: options.enforcementFetcher, signal }),
+    { timeoutMs: ENFORCEMENT_IMPORT_TIMEOUT_MS, onTimeout: () => [] }
+  ).catch(err => {
+    console.warn('Enforcement action import failed (non-fatal):', err);
+    return [] as RegulatoryEventItem[];
+  });
+
+  // Phase 2: Search for Theta Lake's competitors mentioned alongside this company,
+  // the collaboration platforms it uses and the people who would buy. These run
+  // side by side.
+  if (shouldUseWebSearch) {
+    const extractor: ProviderCandidate = { ...served, model: servedModel };
+    // Merge the admin-managed compliance vendors with any additional vendors discovered by AI
+    const allCompetitors = withDiscoveredVendors(competitorVendors, analysis.discoveredCompetitors);
+    onQueries(countFollowUpSearchQueries(companyName, allCompetitors, searchProvider, company));
+    await Promise.all([
+      trackPhase(emit, 'competitor_extraction', deadline,
+        signal => findCompetitorMentions(companyName, allCompetitors, searchProvider, options, onUsage, extractor, signal),
+        { onTimeout: () => [] }
+      ).then(mentions => {
+        analysis.competitorMentions = mentions;
+      }).catch(err => {
+        if (isCancelled(deadline.signal)) throw err;
+        console.warn('Competitor search/extraction failed (non-fatal):', err);
+      }),
+      trackPhase(emit, 'communications_stack', deadline,
+        signal => findCommunicationsStack(companyName, searchProvider, options, onUsage, extractor, signal),
+        { onTimeout: () => [] }
+      ).then(items => {
+        analysis.communicationsStack = items;
+      }).catch(err => {
+        if (isCancelled(deadline.signal)) throw err;
+        console.warn('Communications stack search/extraction failed (non-fatal):', err);
+      }),
+      trackPhase(emit, 'buyer_personas', deadline,
+        signal => findBuyerPersonas(companyName, searchProvider, options, onUsage, extractor, signal),
+        { onTimeout: () => [] }
+      ).then(found => {
+        // A search cut short says nothing about who has left
+        if (deadline.timedOutPhases.includes('buyer_personas')) return;
+        const { personas, formerPersonas } = diffBuyerPersonas(found, options.previousBuyerPersonas, new Date().toISOString().slice(0, 10));
+        analysis.buyerPersonas = personas;
+        analysis.formerBuyerPersonas = formerPersonas;
+      }).catch(err => {
+        if (isCancelled(deadline.signal)) throw err;
+        console.warn('Buyer persona search/extraction failed (non-fatal):', err);
+      })
+    ]);
+  } else {
+    emitPhase(emit, 'competitor_extraction', 'skipped');
+    emitPhase(emit, 'communications_stack', 'skipped');
+    emitPhase(emit, 'buyer_personas', 'skipped');
+  }
+  emitSections(emit, analysis, ['competitorMentions', 'communicationsStack', 'buyerPersonas', 'formerBuyerPersonas']);
+
+  // FINRA's listing goes back decades, so the windows apply to official actions too
+  mergeEnforcementEvents(analysis, await enforcementImport, companyName, company?.legalNames);
+  normalizeAnalysisDates(analysis);
+  applyRecencyWindows(analysis, options.recencyWindows || DEFAULT_RECENCY_WINDOWS);
+  applySourceCredibility(analysis, getCredibilityContext(options));
+  emitSections(emit, analysis, ['techNews', 'caseStudies', 'investorDocs', 'competitorMentions', 'regulatoryEvents']);
+
+  // Every section the fit score reads is final now
+  analysis.fitScore = computeFitScore(analysis, options.fitScoreWeights);
+  emitSections(emit, analysis, ['fitScore']);
+
+  // Add web search sources to sources list
+  if (webSearchData) {
+    mergeWebSources(analysis, webSearchData);
+  }
+  emitSections(emit, analysis, ['sources']);
+
+  // Link the summary, priorities and initiatives to what was retrieved. A
+  // failed or timed out check leaves the narrative without citations rather
+  // than marking every claim unsupported, and so does having only bare
+  // source URLs to check against.
+  const evidence = collectGroundingEvidence(analysis, webSearchData);
+  if (evidence.some(e => e.content)) {
+    const checker = { type: served.provider, apiKey: served.apiKey, model: servedModel, baseUrl: served.baseUrl };
+    await trackPhase(emit, 'grounding_check', deadline,
+      signal => checkNarrativeGrounding(companyName, analysis, evidence, checker, onUsage, signal),
+      { onTimeout: () => undefined }
+    ).then(grounding => {
+      analysis.grounding = grounding;
+    }).catch(err => {
+      if (isCancelled(deadline.signal)) throw err;
+      console.warn('Grounding check failed (non-fatal):', err);
+    });
+  } else {
+    emitPhase(emit, 'grounding_check', 'skipped');
+  }
+  emitSections(emit, analysis, ['grounding']);
+
+  // Log web search status for debugging
+  if (shouldUseWebSearch) {
+    console.log(`${webSearchProviderName} status:`, webSearchData ? 'SUCCESS' : `FAILED: ${webSearchError}`);
+  }
+  if (deadline.timedOutPhases.length > 0) {
+    console.warn(`Analysis for "${companyName}" is partial, timed out: ${deadline.timedOutPhases.join(', ')}`);
+  }
+
+  return {
+    analysis,
+    webSearchUsed: shouldUseWebSearch && webSearchData !== null,
+    webSearchError,
+    searchProvider,
+    durationMs,
+    outputFormat,
+    validationIssues,
+    usage,
+    provider: servedProvider,
+    model: servedModel,
+    failedProviders: output.failedProviders || [],
+    timedOutPhases: deadline.timedOutPhases,
+    searchQueriesUsed
+  };
+}
@@ -0,0 +1,147 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AnalysisPrompts, findUnknownVariables, PROMPT_VARIABLES } from '@/lib/ai/prompts';
+
+// A saved version of the analysis prompts (analysis_prompts row)
+export interface PromptVersion {
+  id: string;
+  created_at: string;
+  created_by: string | null;
+  version: number;
+  tagged_prompt: string;
+  structured_prompt: string;
+  notes: string | null;
+  is_active: boolean;
+}
+
+export interface NewPromptVersion extends AnalysisPrompts {
+  notes?: string;
+  createdBy?: string;
+  activate?: boolean; // Make this the active version once saved
+}
+
+/**
+ * Convert a stored version to the templates providers render
+ */
+export function toAnalysisPrompts(version: PromptVersion): AnalysisPrompts {
+  return { tagged: version.tagged_prompt, structured: version.structured_prompt };
+}
+
+/**
+ * Check both templates are usable, returning an error message if not
+ */
+export function validatePrompts(prompts: Partial<AnalysisPrompts>): string | null {
+  for (const [label, template] of [['Tagged', prompts.tagged], ['Structured', prompts.structured]] as const) {
+    if (typeof template !== 'string' || !template.trim()) {
+      return `${label} prompt is required`;
+    }
+    if (!template.includes('{{companyName}}')) {
+      return `${label} prompt must reference {{companyName}}`;
+    }
+    const unknown = findUnknownVariables(template);
+    if (unknown.length > 0) {
+      return `${label} prompt uses unknown variable${unknown.length > 1 ? 's' : ''} ${unknown.map(v => `{{${v}}}`).join(', ')} (available: ${PROMPT_VARIABLES.map(v => `{{${v}}}`).join(', ')})`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the active prompt version, or null to use the built-in prompts.
+ * Lookup failures also fall back to the built-in prompts.
+ */
+export async function getActivePromptVersion(supabase: SupabaseClient): Promise<PromptVersion | null> {
+  const { data, error } = await supabase
+    .from('analysis_prompts')
+    .select('*')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('Failed to load active analysis prompt, using built-in prompts:', error);
+    return null;
+  }
+  return data as PromptVersion | null;
+}
+
+/**
+ * List all prompt versions, newest first
+ */
+export async function listPromptVersions(supabase: SupabaseClient): Promise<PromptVersion[]> {
+  const { data, error } = await supabase
+    .from('analysis_prompts')
+    .select('*')
+    .order('version', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch prompt versions: ${error.message}`);
+  }
+  return (data || []) as PromptVersion[];
+}
+
+/**
+ * Save a new prompt version. Versions are never edited in place, so every
+ * analysis can be traced back to the exact prompt that produced it.
+ */
+export async function createPromptVersion(supabase: SupabaseClient, input: NewPromptVersion): Promise<PromptVersion> {
+  const { data: latest } = await supabase
+    .from('analysis_prompts')
+    .select('version')
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = await supabase
+    .from('analysis_prompts')
+    .insert({
+      version: ((latest as { version: number } | null)?.version || 0) + 1,
+      tagged_prompt: input.tagged,
+      structured_prompt: input.structured,
+      notes: input.notes?.trim() || null,
+      created_by: input.createdBy || null
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save prompt version: ${error?.message || 'no row returned'}`);
+  }
+
+  return input.activate ? activatePromptVersion(supabase, (data as PromptVersion).id) : data as PromptVersion;
+}
+
+/**
+ * Go back to the built-in prompts by deactivating every saved version
+ */
+export async function deactivatePromptVersions(supabase: SupabaseClient): Promise<void> {
+  const { error } = await supabase
+    .from('analysis_prompts')
+    .update({ is_active: false })
+    .eq('is_active', true);
+
+  if (error) {
+    throw new Error(`Failed to deactivate current prompt version: ${error.message}`);
+  }
+}
+
+/**
+ * Make a version the active one (also used to roll back to an earlier version)
+ */
+export async function activatePromptVersion(supabase: SupabaseClient, id: string): Promise<PromptVersion> {
+  // Deactivate first - the unique index allows only one active row
+  await deactivatePromptVersions(supabase);
+
+  const { data, error } = await supabase
+    .from('analysis_prompts')
+    .update({ is_active: true })
+    .eq('id', id)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to activate prompt version: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error('Prompt version not found');
+  }
+  return data as PromptVersion;
+}
@@ -0,0 +1,53 @@
+import { AnalyzeStreamEvent } from '@/types/api';
+
+/**
+ * Encode an analysis event as a server-sent event frame
+ */
+export function encodeStreamEvent(event: AnalyzeStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Read server-sent analysis events from a response body, calling onEvent
+ * for each complete frame. Resolves when the stream ends.
+ */
+export async function readAnalysisStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AnalyzeStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flushFrame = (frame: string) => {
+    const data = frame
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+    if (!data) return;
+    try {
+      onEvent(JSON.parse(data) as AnalyzeStreamEvent);
+    } catch {
+      console.warn('Ignoring malformed analysis stream frame');
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      flushFrame(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    flushFrame(buffer);
+  }
+}
@@ -0,0 +1,102 @@
+import { UsageReporter } from '@/lib/ai/usage';
+import { mockBuyerPersonaExtraction } from '@/lib/ai/providers/mock';
+import { callWithRetry } from '@/lib/services/retry';
+import { SearchResult, ExtractionProviderConfig, DEFAULT_EXTRACTION_MODELS, callExtractionProvider } from '@/lib/services/extractionProvider';
+import { FoundBuyerPersona, describeBuyerPersonaTitles, validatePersona } from '@/lib/services/buyerPersonas';
+
+interface ExtractedPersona {
+  name: string;
+  title: string;
+  url: string;
+}
+
+// People listed per analysis; search results rarely name more real buyers than this
+const MAX_PERSONAS = 12;
+
+/**
+ * Extract named people in compliance, surveillance, security and records
+ * roles at the company from search results using AI. Names and titles go
+ * through the leadership news validation, and each person must be named in
+ * the result their URL points to.
+ */
+export async function extractBuyerPersonas(
+  companyName: string,
+  searchResults: SearchResult[],
+  provider: ExtractionProviderConfig,
+  onUsage?: UsageReporter,
+  signal?: AbortSignal
+): Promise<FoundBuyerPersona[]> {
+  if (searchResults.length === 0) return [];
+
+  const resultsList = searchResults
+    .map((r, i) => `[${i + 1}] Title: ${r.title} | URL: ${r.url} | Content: ${r.content.substring(0, 400)}`)
+    .join('\n');
+
+  const prompt = `Extract the named people who currently work at "${companyName}" in compliance, surveillance, information security or records management roles.
+
+COMPANY BEING ANALYZED: ${companyName}
+ROLES TO LOOK FOR: ${describeBuyerPersonaTitles()}, and similar titles in those functions
+
+SEARCH RESULTS:
+${resultsList}
+
+RULES:
+- Only extract people the content says hold the role at "${companyName}" itself, not at a regulator, vendor or another firm
+- The person's full name must appear in the result's title or content; never guess or complete a name
+- Use the job title as written in the content
+- The URL field MUST be copied exactly from the result naming the person
+- One item per person
+- If no such people are named, return an empty array
+
+Return ONLY a JSON array (or empty array if none found):
+[{"name":"...","title":"...","url":"..."}]`;
+
+  try {
+    const model = provider.model || DEFAULT_EXTRACTION_MODELS[provider.type];
+    // The mock provider extracts offline, straight from the search results
+    const { text: responseText, usage } = provider.type === 'mock'
+      ? mockBuyerPersonaExtraction(companyName, searchResults)
+      : await callWithRetry(provider.type, provider.apiKey, () => callExtractionProvider(prompt, provider, model, signal), { signal, label: 'Buyer persona extraction' });
+    onUsage?.({ call: 'buyer_persona_extraction', provider: provider.type, model, ...usage });
+    return validatePersonas(parseExtractionResponse(responseText), searchResults);
+  } catch (err) {
+    console.warn('Buyer persona extraction failed:', err);
+    return [];
+  }
+}
+
+function parseExtractionResponse(text: string): ExtractedPersona[] {
+  const arrayMatch = text.match(/\[[\s\S]*\]/);
+  if (!arrayMatch) return [];
+
+  try {
+    const parsed = JSON.parse(arrayMatch[0]);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (item: unknown): item is ExtractedPersona =>
+        typeof item === 'object' &&
+        item !== null &&
+        typeof (item as ExtractedPersona).name === 'string' &&
+        typeof (item as ExtractedPersona).title === 'string' &&
+        typeof (item as ExtractedPersona).url === 'string'
+    );
+  } catch {
+    return [];
+  }
+}
+
+// Keeps people named in the search result their URL came from, with a
+// valid name and a title in one of the buying functions, once each
+function validatePersonas(items: ExtractedPersona[], searchResults: SearchResult[]): FoundBuyerPersona[] {
+  const resultsByUrl = new Map(searchResults.map(r => [r.url, r]));
+  const seen = new Set<string>();
+
+  return items.flatMap(item => {
+    const result = resultsByUrl.get(item.url);
+    const persona = validatePersona(item.name, item.title);
+    if (!result || !persona || seen.has(persona.name.toLowerCase())) return [];
+    if (!`${result.title} ${result.content}`.toLowerCase().includes(persona.name.toLowerCase())) return [];
+    seen.add(persona.name.toLowerCase());
+    return [{ ...persona, url: item.url }];
+  }).slice(0, MAX_PERSONAS);
+}
@@ -0,0 +1,140 @@
+// Buyer personas: the people Theta Lake sells to (compliance, surveillance,
+// security and records leads), how to recognise their titles, and how the
+// people found by one analysis compare with the last one.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BuyerPersona, BuyerPersonaFunction, OutputLanguage } from '@/types/analysis';
+import { cleanName, cleanRole, isPoliticalRole, isValidName } from '@/lib/ai/parseLeadershipNews';
+
+export interface BuyerPersonaFunctionInfo {
+  function: BuyerPersonaFunction;
+  titles: string[]; // Titles searched for, most senior first
+  pattern: RegExp; // Matches a title in this function
+}
+
+// Narrower functions are checked first, so a title like "Compliance
+// Surveillance Lead" counts as surveillance
+export const BUYER_PERSONA_FUNCTIONS: BuyerPersonaFunctionInfo[] = [
+  {
+    function: 'surveillance',
+    titles: ['Head of Surveillance', 'Head of Communications Surveillance', 'Director of Trade Surveillance'],
+    pattern: /\bsurveillance\b/i
+  },
+  {
+    function: 'records',
+    titles: ['Head of Records Management', 'Records Manager', 'Director of Information Governance'],
+    pattern: /\brecords?\b|\binformation governance\b|\be-?discovery\b|\barchiv/i
+  },
+  {
+    function: 'security',
+    titles: ['Chief Information Security Officer', 'CISO', 'Head of Information Security'],
+    pattern: /\bCISO\b|\b(?:information|cyber|IT)\s*security\b/i
+  },
+  {
+    function: 'compliance',
+    titles: ['Chief Compliance Officer', 'Head of Compliance', 'Director of Compliance'],
+    pattern: /\bCCO\b|\bcompliance\b/i
+  }
+];
+
+export const BUYER_PERSONA_FUNCTION_NAMES: BuyerPersonaFunction[] = ['compliance', 'surveillance', 'security', 'records'];
+
+// A persona as extracted from search results, before it is compared with earlier analyses
+export type FoundBuyerPersona = Pick<BuyerPersona, 'name' | 'title' | 'function' | 'url'>;
+
+// Every searched title, also the keywords cleanRole keeps long titles by
+const PERSONA_TITLES = BUYER_PERSONA_FUNCTIONS.flatMap(f => f.titles);
+
+/**
+ * The buying function a job title belongs to, or null for titles outside
+ * compliance, surveillance, security and records
+ */
+export function resolvePersonaFunction(title: string): BuyerPersonaFunction | null {
+  return BUYER_PERSONA_FUNCTIONS.find(f => f.pattern.test(title))?.function || null;
+}
+
+/**
+ * Clean and check a name and title found for a persona, with the same
+ * rules as leadership news. Null if either is unusable or the title isn't
+ * in a buying function.
+ */
+export function validatePersona(
+  rawName: string,
+  rawTitle: string
+): { name: string; title: string; function: BuyerPersonaFunction } | null {
+  const name = cleanName(rawName);
+  const title = cleanRole(rawTitle, PERSONA_TITLES);
+  if (!isValidName(name) || !title || title.length > 100 || isPoliticalRole(title)) return null;
+
+  const personaFunction = resolvePersonaFunction(title);
+  return personaFunction ? { name, title, function: personaFunction } : null;
+}
+
+/**
+ * Title list for prompts, e.g. "Chief Compliance Officer, Head of Compliance, ..."
+ */
+export function describeBuyerPersonaTitles(): string {
+  return PERSONA_TITLES.join(', ');
+}
+
+function personaKey(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\s]/gu, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Compare the personas found now with those of the previous analysis.
+ * People seen before keep their first-seen date and are flagged if their
+ * title changed; people no longer found are returned separately. Without a
+ * previous analysis nothing is flagged.
+ */
+export function diffBuyerPersonas(
+  current: FoundBuyerPersona[],
+  previous: BuyerPersona[] | undefined,
+  seenOn: string
+): { personas: BuyerPersona[]; formerPersonas: BuyerPersona[] } {
+  if (!previous) {
+    return { personas: current.map(p => ({ ...p, firstSeen: seenOn })), formerPersonas: [] };
+  }
+
+  const previousByName = new Map(previous.map(p => [personaKey(p.name), p]));
+  const currentNames = new Set(current.map(p => personaKey(p.name)));
+
+  const personas = current.map((persona): BuyerPersona => {
+    const before = previousByName.get(personaKey(persona.name));
+    if (!before) return { ...persona, firstSeen: seenOn, status: 'new' };
+    if (before.title.toLowerCase() === persona.title.toLowerCase()) {
+      return { ...persona, firstSeen: before.firstSeen, status: 'unchanged' };
+    }
+    return { ...persona, firstSeen: before.firstSeen, status: 'title_changed', previousTitle: before.title };
+  });
+
+  const formerPersonas = previous
+    .filter(p => !currentNames.has(personaKey(p.name)))
+    .map(p => ({ name: p.name, title: p.title, function: p.function, url: p.url, firstSeen: p.firstSeen }));
+
+  return { personas, formerPersonas };
+}
+
+/**
+ * Personas in the cached analysis of a company, to diff a new analysis
+ * against. Undefined if it has never been analyzed, or was analyzed before
+ * personas were added.
+ */
+export async function getCachedBuyerPersonas(
+  supabase: SupabaseClient,
+  entityKey: string,
+  language: OutputLanguage
+): Promise<BuyerPersona[] | undefined> {
+  const { data, error } = await supabase
+    .from('company_analyses')
+    .select('analysis_data')
+    .eq('entity_key', entityKey)
+    .eq('language', language)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('Failed to load previous buyer personas:', error.message);
+    return undefined;
+  }
+  return (data?.analysis_data as { buyerPersonas?: BuyerPersona[] } | undefined)?.buyerPersonas;
+}
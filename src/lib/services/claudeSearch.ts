@@ -1,4 +1,13 @@
 import Anthropic from '@anthropic-ai/sdk';
+import { fromAnthropicUsage, UsageReporter } from '@/lib/ai/usage';
+import { callWithRetry } from '@/lib/services/retry';
+import { companySearchQualifier, describeCompany } from '@/lib/services/companyEntity';
+import { describeCompetitorVendors } from '@/lib/services/competitorVendors';
+import { describeCommunicationPlatforms } from '@/lib/services/communicationPlatforms';
+import { describeBuyerPersonaTitles } from '@/lib/services/buyerPersonas';
+import { CompanyIdentifiers, CompetitorVendor } from '@/types/analysis';
+
+const CLAUDE_SEARCH_MODEL = 'claude-sonnet-4-5-20250929';
 
 export interface ClaudeSearchResult {
   title: string;
@@ -23,11 +32,14 @@ export async function claudeSearch(
   options: {
     maxResults?: number;
     includeAnswer?: boolean;
+    onUsage?: UsageReporter; // Receives the token usage of the search call
+    signal?: AbortSignal; // Cancels the request
   } = {}
 ): Promise<ClaudeSearchResponse> {
-  const { maxResults = 10, includeAnswer = true } = options;
+  const { maxResults = 10, includeAnswer = true, onUsage, signal } = options;
 
-  const client = new Anthropic({ apiKey });
+  // Retries go through callWithRetry instead of the SDK
+  const client = new Anthropic({ apiKey, maxRetries: 0 });
 
   const systemPrompt = includeAnswer
     ? `You are a research assistant. Search the web for the query and provide:
@@ -54,8 +66,8 @@ Format your response as JSON:
 
 Return up to ${maxResults} most relevant results. Only include results directly relevant to the query.`;
 
-  const response = await client.messages.create({
-    model: 'claude-sonnet-4-5-20250929',
+  const response = await callWithRetry('anthropic', apiKey, () => client.messages.create({
+    model: CLAUDE_SEARCH_MODEL,
     max_tokens: 4096,
     tools: [
       {
@@ -71,7 +83,8 @@ Return up to ${maxResults} most relevant results. Only include results directly
       },
     ],
     system: systemPrompt,
-  });
+  }, { signal }), { signal, label: 'Claude search' });
+  onUsage?.({ call: 'claude_search', provider: 'anthropic', model: CLAUDE_SEARCH_MODEL, ...fromAnthropicUsage(response.usage) });
 
   // Extract citations and text from the response
   const results: ClaudeSearchResult[] = [];
@@ -130,12 +143,15 @@ Return up to ${maxResults} most relevant results. Only include results directly
 
 export async function claudeSearchCompanyNews(
   companyName: string,
-  apiKey: string
+  apiKey: string,
+  onUsage?: UsageReporter,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<ClaudeSearchResult[]> {
   const response = await claudeSearch(
-    `"${companyName}" AI adoption OR IT infrastructure OR digital transformation OR cloud migration OR technology strategy OR machine learning OR generative AI OR cybersecurity`,
+    `"${companyName}"${companySearchQualifier(company)} AI adoption OR IT infrastructure OR digital transformation OR cloud migration OR technology strategy OR machine learning OR generative AI OR cybersecurity`,
     apiKey,
-    { maxResults: 15, includeAnswer: false }
+    { maxResults: 15, includeAnswer: false, onUsage, signal }
   );
   // Filter to only include results that actually mention the company
   const companyLower = companyName.toLowerCase();
@@ -150,24 +166,30 @@ export async function claudeSearchCompanyNews(
 
 export async function claudeSearchCaseStudies(
   companyName: string,
-  apiKey: string
+  apiKey: string,
+  onUsage?: UsageReporter,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<ClaudeSearchResult[]> {
   const response = await claudeSearch(
-    `${companyName} case study customer success story`,
+    `${companyName}${companySearchQualifier(company)} case study customer success story`,
     apiKey,
-    { maxResults: 5, includeAnswer: false }
+    { maxResults: 5, includeAnswer: false, onUsage, signal }
   );
   return response.results;
 }
 
 export async function claudeSearchCompanyInfo(
   companyName: string,
-  apiKey: string
+  apiKey: string,
+  onUsage?: UsageReporter,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<{ answer: string; sources: ClaudeSearchResult[] }> {
   const response = await claudeSearch(
-    `${companyName} company overview business strategy recent developments`,
+    `${companyName}${companySearchQualifier(company)} company overview business strategy recent developments`,
     apiKey,
-    { maxResults: 5, includeAnswer: true }
+    { maxResults: 5, includeAnswer: true, onUsage, signal }
   );
   return {
     answer: response.answer || '',
@@ -177,38 +199,77 @@ export async function claudeSearchCompanyInfo(
 
 export async function claudeSearchInvestorDocs(
   companyName: string,
-  apiKey: string
+  apiKey: string,
+  onUsage?: UsageReporter,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<ClaudeSearchResult[]> {
   const response = await claudeSearch(
-    `${companyName} investor relations SEC filing annual report 10-K`,
+    `${companyName}${companySearchQualifier(company)} investor relations SEC filing annual report 10-K`,
     apiKey,
-    { maxResults: 5, includeAnswer: false }
+    { maxResults: 5, includeAnswer: false, onUsage, signal }
   );
   return response.results;
 }
 
 export async function claudeSearchInvestorPresentation(
   companyName: string,
-  apiKey: string
+  apiKey: string,
+  onUsage?: UsageReporter,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<ClaudeSearchResult[]> {
   const currentYear = new Date().getFullYear();
   const response = await claudeSearch(
-    `"${companyName}" investor presentation OR investor day filetype:pdf OR site:ir OR site:investor ${currentYear} OR ${currentYear - 1}`,
+    `"${companyName}"${companySearchQualifier(company)} investor presentation OR investor day filetype:pdf OR site:ir OR site:investor ${currentYear} OR ${currentYear - 1}`,
     apiKey,
-    { maxResults: 5, includeAnswer: false }
+    { maxResults: 5, includeAnswer: false, onUsage, signal }
   );
   return response.results;
 }
 
 export async function claudeSearchLeadershipChanges(
   companyName: string,
-  apiKey: string
+  apiKey: string,
+  onUsage?: UsageReporter,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<ClaudeSearchResult[]> {
   const currentYear = new Date().getFullYear();
   const response = await claudeSearch(
-    `"${companyName}" executive leadership appointments CEO CFO CTO ${currentYear - 2}..${currentYear}`,
+    `"${companyName}"${companySearchQualifier(company)} executive leadership appointments CEO CFO CTO ${currentYear - 2}..${currentYear}`,
     apiKey,
-    { maxResults: 10, includeAnswer: false }
+    { maxResults: 10, includeAnswer: false, onUsage, signal }
+  );
+  return response.results;
+}
+
+export async function claudeSearchCommunicationsStack(
+  companyName: string,
+  apiKey: string,
+  onUsage?: UsageReporter,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
+): Promise<ClaudeSearchResult[]> {
+  const response = await claudeSearch(
+    `"${companyName}"${companySearchQualifier(company)} uses ${describeCommunicationPlatforms()} case study OR job posting OR press release OR customer story`,
+    apiKey,
+    { maxResults: 10, includeAnswer: false, onUsage, signal }
+  );
+  return response.results;
+}
+
+export async function claudeSearchBuyerPersonas(
+  companyName: string,
+  apiKey: string,
+  onUsage?: UsageReporter,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
+): Promise<ClaudeSearchResult[]> {
+  const response = await claudeSearch(
+    `"${companyName}"${companySearchQualifier(company)} named ${describeBuyerPersonaTitles()}`,
+    apiKey,
+    { maxResults: 10, includeAnswer: false, onUsage, signal }
   );
   return response.results;
 }
@@ -224,9 +285,12 @@ export interface ClaudeRegulatoryEvent {
 
 export async function claudeSearchRegulatoryEvents(
   companyName: string,
-  apiKey: string
+  apiKey: string,
+  onUsage?: UsageReporter,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<ClaudeRegulatoryEvent[]> {
-  const client = new Anthropic({ apiKey });
+  const client = new Anthropic({ apiKey, maxRetries: 0 });
 
   const systemPrompt = `You are a regulatory compliance researcher. Search for SEC, FINRA, DOJ, FCA, and other regulatory enforcement actions, fines, penalties, and settlements involving the specified company.
 
@@ -247,8 +311,8 @@ Return as JSON array:
 
 Only include REAL, verified regulatory events with actual source URLs. Do not fabricate events.`;
 
-  const response = await client.messages.create({
-    model: 'claude-sonnet-4-5-20250929',
+  const response = await callWithRetry('anthropic', apiKey, () => client.messages.create({
+    model: CLAUDE_SEARCH_MODEL,
     max_tokens: 4096,
     tools: [
       {
@@ -260,11 +324,12 @@ Only include REAL, verified regulatory events with actual source URLs. Do not fa
     messages: [
       {
         role: 'user',
-        content: `Search for regulatory enforcement actions, fines, penalties, and settlements involving "${companyName}" from SEC, FINRA, DOJ, FCA, and other regulators in the past 5 years.`,
+        content: `Search for regulatory enforcement actions, fines, penalties, and settlements involving ${describeCompany(companyName, company)} from SEC, FINRA, DOJ, FCA, and other regulators in the past 5 years.`,
       },
     ],
     system: systemPrompt,
-  });
+  }, { signal }), { signal, label: 'Claude search' });
+  onUsage?.({ call: 'claude_regulatory_search', provider: 'anthropic', model: CLAUDE_SEARCH_MODEL, ...fromAnthropicUsage(response.usage) });
 
   const events: ClaudeRegulatoryEvent[] = [];
 
@@ -305,15 +370,19 @@ Only include REAL, verified regulatory events with actual source URLs. Do not fa
  */
 export async function claudeConsolidatedCompetitorSearch(
   companyName: string,
-  competitors: string[],
-  apiKey: string
+  competitors: CompetitorVendor[],
+  apiKey: string,
+  onUsage?: UsageReporter,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<{ title: string; url: string; content: string }[]> {
   if (competitors.length === 0) return [];
 
-  const client = new Anthropic({ apiKey });
-  const competitorList = competitors.join(', ');
+  const client = new Anthropic({ apiKey, maxRetries: 0 });
+  const competitorList = describeCompetitorVendors(competitors);
+  const companyDescription = describeCompany(companyName, company);
 
-  const systemPrompt = `You are a research assistant. Search for any content where "${companyName}" and these compliance/archiving vendors appear together: ${competitorList}.
+  const systemPrompt = `You are a research assistant. Search for any content where ${companyDescription} and these compliance/archiving vendors appear together: ${competitorList}.
 
 Look for case studies, press releases, partnership announcements, integration pages, customer stories, news articles, or any content — from the vendor, from "${companyName}" itself, or from third-party sources — mentioning both together.
 
@@ -331,8 +400,8 @@ IMPORTANT:
 - Sources can be vendor sites, company sites, news outlets, press wire services, etc.`;
 
   try {
-    const response = await client.messages.create({
-      model: 'claude-sonnet-4-5-20250929',
+    const response = await callWithRetry('anthropic', apiKey, () => client.messages.create({
+      model: CLAUDE_SEARCH_MODEL,
       max_tokens: 4096,
       tools: [
         {
@@ -344,11 +413,12 @@ IMPORTANT:
       messages: [
         {
           role: 'user',
-          content: `Search for any content — press releases, case studies, news articles, partnership announcements — where "${companyName}" appears alongside any of these compliance/archiving vendors: ${competitorList}`,
+          content: `Search for any content — press releases, case studies, news articles, partnership announcements — where ${companyDescription} appears alongside any of these compliance/archiving vendors: ${competitorList}`,
         },
       ],
       system: systemPrompt,
-    });
+    }, { signal }), { signal, label: 'Claude search' });
+    onUsage?.({ call: 'claude_competitor_search', provider: 'anthropic', model: CLAUDE_SEARCH_MODEL, ...fromAnthropicUsage(response.usage) });
 
     const seenUrls = new Set<string>();
     const results: { title: string; url: string; content: string }[] = [];
@@ -0,0 +1,51 @@
+// Collaboration and communications platforms looked for in an account's
+// communications stack, and how to spot them and their evidence in search
+// results.
+
+import { CommunicationPlatform, CommunicationsEvidenceType } from '@/types/analysis';
+
+export interface CommunicationPlatformInfo {
+  name: CommunicationPlatform;
+  searchName: string; // How the platform is written in search queries
+  pattern: RegExp; // Matches a mention of the platform in result text
+  domain: string; // Site holding the vendor's customer stories
+}
+
+// Zoom and Slack are also everyday words, so they only match capitalised
+export const COMMUNICATION_PLATFORMS: CommunicationPlatformInfo[] = [
+  { name: 'Zoom Phone', searchName: '"Zoom Phone"', pattern: /\bZoom Phone\b/i, domain: 'zoom.com' },
+  { name: 'Zoom', searchName: 'Zoom', pattern: /\bZoom\b(?! Phone)/, domain: 'zoom.com' },
+  { name: 'Microsoft Teams', searchName: '"Microsoft Teams"', pattern: /\b(?:Microsoft|MS) Teams\b/i, domain: 'customers.microsoft.com' },
+  { name: 'Webex', searchName: 'Webex', pattern: /\bWebex\b/i, domain: 'webex.com' },
+  { name: 'Slack', searchName: 'Slack', pattern: /\bSlack\b/, domain: 'slack.com' },
+  { name: 'RingCentral', searchName: 'RingCentral', pattern: /\bRing ?Central\b/i, domain: 'ringcentral.com' }
+];
+
+export const COMMUNICATIONS_EVIDENCE_TYPES: CommunicationsEvidenceType[] = [
+  'case_study', 'job_posting', 'press_release', 'vendor_customer_page', 'other'
+];
+
+/**
+ * Every platform mentioned in the text, Zoom Phone before Zoom
+ */
+export function findMentionedPlatforms(text: string): CommunicationPlatform[] {
+  return COMMUNICATION_PLATFORMS.filter(p => p.pattern.test(text)).map(p => p.name);
+}
+
+/**
+ * The platform a name returned by the AI refers to, e.g. "MS Teams" or
+ * "Cisco Webex". Null for anything that isn't one of the tracked platforms.
+ */
+export function resolvePlatform(name: string): CommunicationPlatform | null {
+  const trimmed = name.trim();
+  const exact = COMMUNICATION_PLATFORMS.find(p => p.name.toLowerCase() === trimmed.toLowerCase());
+  if (exact) return exact.name;
+  return findMentionedPlatforms(trimmed)[0] || null;
+}
+
+/**
+ * Platform list for prompts, e.g. "Zoom Phone, Zoom, Microsoft Teams"
+ */
+export function describeCommunicationPlatforms(): string {
+  return COMMUNICATION_PLATFORMS.map(p => p.name).join(', ');
+}
@@ -0,0 +1,117 @@
+import { CommunicationsEvidenceType, CommunicationsStackItem } from '@/types/analysis';
+import { UsageReporter } from '@/lib/ai/usage';
+import { mockCommunicationsExtraction } from '@/lib/ai/providers/mock';
+import { callWithRetry } from '@/lib/services/retry';
+import { SearchResult, ExtractionProviderConfig, DEFAULT_EXTRACTION_MODELS, callExtractionProvider } from '@/lib/services/extractionProvider';
+import { COMMUNICATIONS_EVIDENCE_TYPES, describeCommunicationPlatforms, resolvePlatform } from '@/lib/services/communicationPlatforms';
+
+interface ExtractedPlatformEvidence {
+  platform: string;
+  evidenceType: string;
+  title: string;
+  url: string;
+  date?: string;
+  summary: string;
+}
+
+/**
+ * Extract evidence of the collaboration platforms a company uses from
+ * search results using AI. As with competitor mentions, every URL in the
+ * output must come from the input search results.
+ */
+export async function extractCommunicationsStack(
+  companyName: string,
+  searchResults: SearchResult[],
+  provider: ExtractionProviderConfig,
+  onUsage?: UsageReporter,
+  signal?: AbortSignal
+): Promise<CommunicationsStackItem[]> {
+  if (searchResults.length === 0) return [];
+
+  const resultsList = searchResults
+    .map((r, i) => `[${i + 1}] Title: ${r.title} | URL: ${r.url}${r.date ? ` | Date: ${r.date}` : ''} | Content: ${r.content.substring(0, 300)}`)
+    .join('\n');
+
+  const prompt = `Extract evidence of which collaboration and communications platforms "${companyName}" uses.
+
+COMPANY BEING ANALYZED: ${companyName}
+PLATFORMS TO LOOK FOR: ${describeCommunicationPlatforms()}
+
+Evidence includes case studies, job postings asking for experience with a platform, press releases announcing a deployment or migration, and customer pages on the platform vendor's own website.
+
+SEARCH RESULTS:
+${resultsList}
+
+RULES:
+- Only extract results showing that "${companyName}" itself uses, deploys or is moving to the platform
+- Both "${companyName}" AND the platform must appear in the content
+- Use "Zoom Phone" only for Zoom's phone system and "Zoom" for meetings and the rest of Zoom
+- The URL field MUST be copied exactly from one of the results above
+- Use the result's date if it has one, otherwise a date stated in the content, otherwise omit it
+- Provide a 1-2 sentence summary citing specific evidence from the content
+- One item per platform per result
+- If no real evidence is found, return an empty array
+
+Return ONLY a JSON array (or empty array if none found):
+[{"platform":"...","evidenceType":"case_study|job_posting|press_release|vendor_customer_page|other","title":"...","url":"...","date":"...","summary":"..."}]`;
+
+  try {
+    const model = provider.model || DEFAULT_EXTRACTION_MODELS[provider.type];
+    // The mock provider extracts offline, straight from the search results
+    const { text: responseText, usage } = provider.type === 'mock'
+      ? mockCommunicationsExtraction(companyName, searchResults)
+      : await callWithRetry(provider.type, provider.apiKey, () => callExtractionProvider(prompt, provider, model, signal), { signal, label: 'Communications stack extraction' });
+    onUsage?.({ call: 'communications_extraction', provider: provider.type, model, ...usage });
+    return validateEvidence(parseExtractionResponse(responseText), searchResults);
+  } catch (err) {
+    console.warn('Communications stack extraction failed:', err);
+    return [];
+  }
+}
+
+function parseExtractionResponse(text: string): ExtractedPlatformEvidence[] {
+  const arrayMatch = text.match(/\[[\s\S]*\]/);
+  if (!arrayMatch) return [];
+
+  try {
+    const parsed = JSON.parse(arrayMatch[0]);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (item: unknown): item is ExtractedPlatformEvidence =>
+        typeof item === 'object' &&
+        item !== null &&
+        typeof (item as ExtractedPlatformEvidence).platform === 'string' &&
+        typeof (item as ExtractedPlatformEvidence).url === 'string' &&
+        typeof (item as ExtractedPlatformEvidence).title === 'string'
+    );
+  } catch {
+    return [];
+  }
+}
+
+// Keeps evidence whose URL came from the search results and whose platform
+// is one we track, dropping repeats of the same platform and URL
+function validateEvidence(items: ExtractedPlatformEvidence[], searchResults: SearchResult[]): CommunicationsStackItem[] {
+  const resultsByUrl = new Map(searchResults.map(r => [r.url, r]));
+  const seen = new Set<string>();
+
+  return items.flatMap(item => {
+    const result = resultsByUrl.get(item.url);
+    const platform = resolvePlatform(item.platform);
+    if (!result || !platform || seen.has(`${platform}|${item.url}`)) return [];
+    seen.add(`${platform}|${item.url}`);
+
+    const evidenceType = COMMUNICATIONS_EVIDENCE_TYPES.includes(item.evidenceType as CommunicationsEvidenceType)
+      ? item.evidenceType as CommunicationsEvidenceType
+      : 'other';
+    const date = result.date || (typeof item.date === 'string' && item.date.trim()) || undefined;
+    return [{
+      platform,
+      evidenceType,
+      title: item.title,
+      url: item.url,
+      ...(date ? { date } : {}),
+      summary: item.summary || ''
+    }];
+  });
+}
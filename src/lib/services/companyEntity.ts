@@ -0,0 +1,109 @@
+// Resolving which company an analysis is about. Names like "Block", "Visa"
+// or "Shield" belong to several organizations, so the identifiers of the
+// company picked in search are validated here and used in prompts, search
+// queries and the analysis cache key.
+
+import { CompanyIdentifiers } from '@/types/analysis';
+
+const TICKER_PATTERN = /^[A-Z0-9][A-Z0-9.\-]{0,11}$/; // AAPL, BRK.B, 7203.T
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+const COUNTRY_PATTERN = /^[\p{L}][\p{L}\s.'\-]{1,59}$/u;
+const CIK_PATTERN = /^\d{1,10}$/;
+const MAX_LEGAL_NAMES = 10;
+const MAX_COMPANY_NAME_LENGTH = 200;
+const COMPANY_NAME_PATTERN = /^[\p{L}\p{N}\s\-.,&'()\/]+$/u;
+
+function readString(input: Record<string, unknown>, key: string): string {
+  const value = input[key];
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Explain why a requested company name can't be analyzed, or return null if
+ * it can
+ */
+export function getCompanyNameError(companyName: unknown): string | null {
+  const trimmed = typeof companyName === 'string' ? companyName.trim() : '';
+  if (!trimmed) return 'Company name is required';
+  if (trimmed.length > MAX_COMPANY_NAME_LENGTH) return `Company name must be ${MAX_COMPANY_NAME_LENGTH} characters or fewer`;
+  if (!COMPANY_NAME_PATTERN.test(trimmed)) return 'Company name contains invalid characters';
+  return null;
+}
+
+/**
+ * Validate identifiers from a request body, dropping malformed ones.
+ * Returns undefined when none are usable.
+ */
+export function normalizeCompanyIdentifiers(value: unknown): CompanyIdentifiers | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const input = value as Record<string, unknown>;
+
+  const ticker = readString(input, 'ticker').toUpperCase();
+  const domain = readString(input, 'domain').toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .split('/')[0];
+  const hqCountry = readString(input, 'hqCountry');
+  const cik = readString(input, 'cik');
+  const legalNames = Array.isArray(input.legalNames)
+    ? [...new Set(input.legalNames
+      .filter((name): name is string => typeof name === 'string')
+      .map(name => name.trim())
+      .filter(name => name.length >= 2 && name.length <= 100))].slice(0, MAX_LEGAL_NAMES)
+    : [];
+
+  const identifiers: CompanyIdentifiers = {
+    ...(TICKER_PATTERN.test(ticker) && { ticker }),
+    ...(DOMAIN_PATTERN.test(domain) && { domain }),
+    ...(COUNTRY_PATTERN.test(hqCountry) && { hqCountry }),
+    ...(CIK_PATTERN.test(cik) && Number(cik) > 0 && { cik: cik.padStart(10, '0') }),
+    ...(legalNames.length > 0 && { legalNames })
+  };
+  return Object.keys(identifiers).length > 0 ? identifiers : undefined;
+}
+
+/**
+ * Cache key for a company's analysis, built from the most specific
+ * identifier available so companies sharing a name don't share a cache
+ * entry. Falls back to the lowercased name when nothing else is known.
+ */
+export function getCompanyCacheKey(companyName: string, company?: CompanyIdentifiers): string {
+  if (company?.cik) return `cik:${company.cik}`;
+  if (company?.ticker) return `ticker:${company.ticker}`;
+  if (company?.domain) return `domain:${company.domain}`;
+  return `name:${companyName.trim().toLowerCase()}`;
+}
+
+/**
+ * Terms appended to a search query after the quoted company name to keep
+ * results on this company: the ticker and website domain, or the HQ country
+ * when neither is known. Empty without identifiers.
+ */
+export function companySearchQualifier(company?: CompanyIdentifiers): string {
+  const terms = [company?.ticker, company?.domain].filter((term): term is string => !!term);
+  if (terms.length === 0 && company?.hqCountry) terms.push(company.hqCountry);
+  return terms.length > 0 ? ` (${terms.join(' OR ')})` : '';
+}
+
+/**
+ * Identifiers as a phrase for prompts, e.g. "ticker SQ, website block.xyz,
+ * headquartered in United States". Empty without identifiers.
+ */
+export function describeCompanyIdentifiers(company?: CompanyIdentifiers): string {
+  if (!company) return '';
+  return [
+    company.ticker && `ticker ${company.ticker}`,
+    company.domain && `website ${company.domain}`,
+    company.hqCountry && `headquartered in ${company.hqCountry}`,
+    company.cik && `SEC CIK ${company.cik}`
+  ].filter(Boolean).join(', ');
+}
+
+/**
+ * Quoted company name followed by its identifiers, for search instructions
+ * written as prose, e.g. "Block" (ticker SQ, website block.xyz)
+ */
+export function describeCompany(companyName: string, company?: CompanyIdentifiers): string {
+  const identifiers = describeCompanyIdentifiers(company);
+  return identifiers ? `"${companyName}" (${identifiers})` : `"${companyName}"`;
+}
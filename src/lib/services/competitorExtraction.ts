@@ -1,16 +1,9 @@
-import { CompetitorMentionItem } from '@/types/analysis';
-
-interface SearchResult {
-  title: string;
-  url: string;
-  content: string;
-}
-
-interface ProviderConfig {
-  type: 'anthropic' | 'openai' | 'gemini';
-  apiKey: string;
-  model?: string;
-}
+import { CompetitorMentionItem, CompetitorVendor } from '@/types/analysis';
+import { UsageReporter } from '@/lib/ai/usage';
+import { mockCompetitorExtraction } from '@/lib/ai/providers/mock';
+import { callWithRetry } from '@/lib/services/retry';
+import { SearchResult, ExtractionProviderConfig, DEFAULT_EXTRACTION_MODELS, callExtractionProvider } from '@/lib/services/extractionProvider';
+import { describeCompetitorVendors, resolveVendorName } from '@/lib/services/competitorVendors';
 
 interface ExtractedMention {
   competitorName: string;
@@ -27,9 +20,11 @@ interface ExtractedMention {
  */
 export async function extractCompetitorMentions(
   companyName: string,
-  competitors: string[],
+  competitors: CompetitorVendor[],
   searchResults: SearchResult[],
-  provider: ProviderConfig
+  provider: ExtractionProviderConfig,
+  onUsage?: UsageReporter,
+  signal?: AbortSignal
 ): Promise<CompetitorMentionItem[]> {
   if (searchResults.length === 0) return [];
 
@@ -41,7 +36,7 @@ export async function extractCompetitorMentions(
   const prompt = `Extract mentions where "${companyName}" and a compliance/archiving vendor appear together.
 
 COMPANY BEING ANALYZED: ${companyName}
-COMPLIANCE VENDORS TO LOOK FOR: ${competitors.join(', ')}
+COMPLIANCE VENDORS TO LOOK FOR: ${describeCompetitorVendors(competitors)}
 
 Find any content — from vendor websites, the company itself, press releases, news articles, or any other source — where "${companyName}" and one of these vendors are mentioned together in a business context (customer relationship, partnership, integration, deployment, case study, comparison, etc.).
 
@@ -52,7 +47,8 @@ RULES:
 - Extract results where "${companyName}" and a vendor appear together in a business context
 - The source can be the vendor, the company, a news outlet, or any third party
 - The URL field MUST be copied exactly from one of the results above
-- Both "${companyName}" AND the vendor name must appear in the content
+- Both "${companyName}" AND the vendor name (or one of its other names in parentheses) must appear in the content
+- Use the vendor's main name for competitorName, even when the content uses one of its other names
 - Provide a 1-2 sentence summary citing specific evidence from the content
 - If no real mentions are found, return an empty array
 
@@ -60,83 +56,20 @@ Return ONLY a JSON array (or empty array if none found):
 [{"competitorName":"...","mentionType":"customer|partner|integration|case_study|press_release|comparison|other","title":"...","url":"...","summary":"..."}]`;
 
   try {
-    const responseText = await callProvider(prompt, provider);
+    const model = provider.model || DEFAULT_EXTRACTION_MODELS[provider.type];
+    // The mock provider extracts offline, straight from the search results
+    const { text: responseText, usage } = provider.type === 'mock'
+      ? mockCompetitorExtraction(companyName, competitors, searchResults)
+      : await callWithRetry(provider.type, provider.apiKey, () => callExtractionProvider(prompt, provider, model, signal), { signal, label: 'Competitor extraction' });
+    onUsage?.({ call: 'competitor_extraction', provider: provider.type, model, ...usage });
     const mentions = parseExtractionResponse(responseText);
-    return validateMentions(mentions, searchResults);
+    return validateMentions(mentions, searchResults, competitors);
   } catch (err) {
     console.warn('Competitor extraction failed:', err);
     return [];
   }
 }
 
-async function callProvider(prompt: string, provider: ProviderConfig): Promise<string> {
-  switch (provider.type) {
-    case 'anthropic':
-      return callAnthropic(prompt, provider.apiKey, provider.model);
-    case 'openai':
-      return callOpenAI(prompt, provider.apiKey, provider.model);
-    case 'gemini':
-      return callGemini(prompt, provider.apiKey, provider.model);
-    default:
-      throw new Error(`Unsupported provider: ${provider.type}`);
-  }
-}
-
-async function callAnthropic(prompt: string, apiKey: string, model?: string): Promise<string> {
-  const { default: Anthropic } = await import('@anthropic-ai/sdk');
-  const client = new Anthropic({ apiKey });
-
-  const response = await client.messages.create({
-    model: model || 'claude-sonnet-4-5-20250929',
-    max_tokens: 2048,
-    messages: [{ role: 'user', content: prompt }],
-  });
-
-  for (const block of response.content) {
-    if (block.type === 'text') return block.text;
-  }
-  return '';
-}
-
-async function callOpenAI(prompt: string, apiKey: string, model?: string): Promise<string> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: model || 'gpt-4o',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 2048,
-      temperature: 0,
-    }),
-  });
-
-  if (!response.ok) throw new Error(`OpenAI API error: ${response.status}`);
-  const data = await response.json();
-  return data.choices?.[0]?.message?.content || '';
-}
-
-async function callGemini(prompt: string, apiKey: string, model?: string): Promise<string> {
-  const modelId = model || 'gemini-2.5-flash';
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${modelId}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: prompt }] }],
-        generationConfig: { maxOutputTokens: 2048, temperature: 0 },
-      }),
-    }
-  );
-
-  if (!response.ok) throw new Error(`Gemini API error: ${response.status}`);
-  const data = await response.json();
-  return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-}
-
 function parseExtractionResponse(text: string): ExtractedMention[] {
   // Find JSON array in response
   const arrayMatch = text.match(/\[[\s\S]*\]/);
@@ -158,9 +91,12 @@ function parseExtractionResponse(text: string): ExtractedMention[] {
   }
 }
 
+// Keeps mentions whose URL came from the search results, listed under the
+// vendor's main name when the AI used an alias
 function validateMentions(
   mentions: ExtractedMention[],
-  searchResults: SearchResult[]
+  searchResults: SearchResult[],
+  competitors: CompetitorVendor[]
 ): CompetitorMentionItem[] {
   const validMentionTypes = ['customer', 'partner', 'comparison', 'case_study', 'press_release', 'integration', 'other'];
   const validUrls = new Set(searchResults.map(r => r.url));
@@ -168,7 +104,7 @@ function validateMentions(
   return mentions
     .filter(m => validUrls.has(m.url))
     .map(m => ({
-      competitorName: m.competitorName,
+      competitorName: resolveVendorName(m.competitorName, competitors),
       mentionType: (validMentionTypes.includes(m.mentionType) ? m.mentionType : 'other') as CompetitorMentionItem['mentionType'],
       title: m.title,
       url: m.url,
@@ -0,0 +1,311 @@
+// Compliance vendors searched for in competitor mentions. Admins manage the
+// list in competitor_vendors; only active vendors are searched, and a
+// vendor's aliases count as mentions of it.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CompetitorCategory, CompetitorVendor } from '@/types/analysis';
+
+export const COMPETITOR_CATEGORIES: Record<CompetitorCategory, string> = {
+  archiving: 'Archiving',
+  surveillance: 'Surveillance',
+  ediscovery: 'eDiscovery'
+};
+
+export const MAX_VENDOR_ALIASES = 10;
+
+// A competitor_vendors row
+export interface CompetitorVendorRecord {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  updated_by: string | null;
+  name: string;
+  aliases: string[];
+  category: CompetitorCategory;
+  domain: string | null;
+  is_active: boolean;
+  case_sensitive: boolean;
+}
+
+// Fields of a vendor being added or edited; absent fields are left unchanged
+export interface CompetitorVendorInput {
+  name?: string;
+  aliases?: string[];
+  category?: string;
+  domain?: string | null;
+  active?: boolean;
+  caseSensitive?: boolean;
+}
+
+// Used when the vendor table can't be read, e.g. before its migration has run.
+// Matches the rows the migration seeds.
+const BUILT_IN_COMPETITOR_VENDORS: CompetitorVendor[] = [
+  { name: 'Smarsh', aliases: ['Actiance', 'Digital Safe'], category: 'archiving', domain: 'smarsh.com' },
+  { name: 'Global Relay', aliases: ['GlobalRelay'], category: 'archiving', domain: 'globalrelay.com' },
+  { name: 'NICE', aliases: ['NICE Actimize', 'NICE Systems'], category: 'surveillance', domain: 'nice.com' },
+  { name: 'Verint', aliases: ['Verint Systems'], category: 'surveillance', domain: 'verint.com' },
+  { name: 'Arctera', aliases: [], category: 'archiving', domain: 'arctera.io' },
+  { name: 'Veritas', aliases: ['Veritas Technologies', 'Enterprise Vault'], category: 'archiving', domain: 'veritas.com' },
+  { name: 'Proofpoint', aliases: [], category: 'archiving', domain: 'proofpoint.com' },
+  { name: 'Shield', aliases: ['Shield FC'], category: 'surveillance', domain: 'shieldfc.com', caseSensitive: true },
+  { name: 'Behavox', aliases: [], category: 'surveillance', domain: 'behavox.com' },
+  { name: 'Digital Reasoning', aliases: [], category: 'surveillance', domain: 'digitalreasoning.com' },
+  { name: 'Mimecast', aliases: [], category: 'archiving', domain: 'mimecast.com' },
+  { name: 'ZL Technologies', aliases: ['ZL Tech'], category: 'ediscovery', domain: 'zlti.com' }
+];
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+function nameKey(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function cleanName(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+}
+
+export function isCompetitorCategory(value: unknown): value is CompetitorCategory {
+  return typeof value === 'string' && value in COMPETITOR_CATEGORIES;
+}
+
+/**
+ * Reduce a website to its bare domain: "https://www.smarsh.com/about" → "smarsh.com"
+ */
+export function normalizeVendorDomain(value: string): string {
+  return value.trim().toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .split(/[/?#]/)[0];
+}
+
+/**
+ * Clean up vendor fields from a request body. Only fields present in the
+ * body are returned, so this also serves partial updates.
+ */
+export function normalizeCompetitorVendorInput(body: Record<string, unknown>): CompetitorVendorInput {
+  const input: CompetitorVendorInput = {};
+  if ('name' in body) input.name = cleanName(body.name);
+  if ('category' in body) input.category = typeof body.category === 'string' ? body.category : '';
+  if ('domain' in body) input.domain = typeof body.domain === 'string' ? normalizeVendorDomain(body.domain) || null : null;
+  if ('active' in body) input.active = body.active === true;
+  if ('caseSensitive' in body) input.caseSensitive = body.caseSensitive === true;
+
+  // Drop blank and repeated aliases
+  if ('aliases' in body) {
+    const seen = new Set<string>();
+    input.aliases = [];
+    for (const item of Array.isArray(body.aliases) ? body.aliases : []) {
+      const alias = cleanName(item);
+      if (!alias || seen.has(nameKey(alias))) continue;
+      seen.add(nameKey(alias));
+      input.aliases.push(alias);
+    }
+  }
+  return input;
+}
+
+/**
+ * Check vendor fields are usable, returning an error message if not.
+ * New vendors need a name and category; edits only check what they change.
+ */
+export function validateCompetitorVendor(input: CompetitorVendorInput, isNew: boolean): string | null {
+  if ((isNew || input.name !== undefined) && !input.name) {
+    return 'Vendor name is required';
+  }
+  if ((isNew || input.category !== undefined) && !isCompetitorCategory(input.category)) {
+    return `Category must be one of ${Object.keys(COMPETITOR_CATEGORIES).join(', ')}`;
+  }
+  if (input.domain && !DOMAIN_PATTERN.test(input.domain)) {
+    return 'Website must be a domain such as smarsh.com';
+  }
+  if (input.aliases && input.aliases.length > MAX_VENDOR_ALIASES) {
+    return `A vendor can have at most ${MAX_VENDOR_ALIASES} aliases`;
+  }
+  return null;
+}
+
+function toCompetitorVendor(record: CompetitorVendorRecord): CompetitorVendor {
+  return {
+    name: record.name,
+    aliases: record.aliases || [],
+    category: record.category,
+    domain: record.domain || undefined,
+    ...(record.case_sensitive && { caseSensitive: true })
+  };
+}
+
+// Unique violations mean the name is taken; other errors are passed through
+function vendorSaveError(error: { code?: string; message: string }, name?: string): Error {
+  if (error.code === '23505') {
+    return new Error(`A vendor named "${name}" already exists`);
+  }
+  return new Error(`Failed to save competitor vendor: ${error.message}`);
+}
+
+/**
+ * Vendors to search for in competitor mentions. Lookup failures fall back
+ * to the built-in list so competitor search keeps working.
+ */
+export async function getActiveCompetitorVendors(supabase: SupabaseClient): Promise<CompetitorVendor[]> {
+  const { data, error } = await supabase
+    .from('competitor_vendors')
+    .select('*')
+    .eq('is_active', true)
+    .order('name');
+
+  if (error) {
+    console.warn('Failed to load competitor vendors, using built-in list:', error);
+    return BUILT_IN_COMPETITOR_VENDORS;
+  }
+  return ((data || []) as CompetitorVendorRecord[]).map(toCompetitorVendor);
+}
+
+/**
+ * List all vendors, including inactive ones, by name
+ */
+export async function listCompetitorVendors(supabase: SupabaseClient): Promise<CompetitorVendorRecord[]> {
+  const { data, error } = await supabase
+    .from('competitor_vendors')
+    .select('*')
+    .order('name');
+
+  if (error) {
+    throw new Error(`Failed to fetch competitor vendors: ${error.message}`);
+  }
+  return (data || []) as CompetitorVendorRecord[];
+}
+
+/**
+ * Add a vendor. Expects input that passed validateCompetitorVendor.
+ */
+export async function createCompetitorVendor(
+  supabase: SupabaseClient,
+  input: CompetitorVendorInput,
+  updatedBy: string
+): Promise<CompetitorVendorRecord> {
+  const { data, error } = await supabase
+    .from('competitor_vendors')
+    .insert({
+      name: input.name,
+      aliases: input.aliases || [],
+      category: input.category,
+      domain: input.domain || null,
+      is_active: input.active ?? true,
+      case_sensitive: input.caseSensitive ?? false,
+      updated_by: updatedBy
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw error ? vendorSaveError(error, input.name) : new Error('Failed to save competitor vendor: no row returned');
+  }
+  return data as CompetitorVendorRecord;
+}
+
+/**
+ * Change some fields of a vendor
+ */
+export async function updateCompetitorVendor(
+  supabase: SupabaseClient,
+  id: string,
+  input: CompetitorVendorInput,
+  updatedBy: string
+): Promise<CompetitorVendorRecord> {
+  const { data, error } = await supabase
+    .from('competitor_vendors')
+    .update({
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.aliases !== undefined && { aliases: input.aliases }),
+      ...(input.category !== undefined && { category: input.category }),
+      ...(input.domain !== undefined && { domain: input.domain }),
+      ...(input.active !== undefined && { is_active: input.active }),
+      ...(input.caseSensitive !== undefined && { case_sensitive: input.caseSensitive }),
+      updated_at: new Date().toISOString(),
+      updated_by: updatedBy
+    })
+    .eq('id', id)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw vendorSaveError(error, input.name);
+  }
+  if (!data) {
+    throw new Error('Competitor vendor not found');
+  }
+  return data as CompetitorVendorRecord;
+}
+
+/**
+ * Remove a vendor. Deactivating keeps it for later; deleting is for mistakes.
+ */
+export async function deleteCompetitorVendor(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase
+    .from('competitor_vendors')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete competitor vendor: ${error.message}`);
+  }
+}
+
+/**
+ * A vendor's name followed by its aliases
+ */
+export function getVendorNames(vendor: CompetitorVendor): string[] {
+  return [vendor.name, ...vendor.aliases];
+}
+
+// All-caps names and acronyms ("NICE", "ZL") that would otherwise match ordinary words
+function isAllCaps(name: string): boolean {
+  return !/\p{Ll}/u.test(name) && /\p{Lu}.*\p{Lu}/u.test(name);
+}
+
+function namePattern(name: string, caseSensitive: boolean): RegExp {
+  return new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, caseSensitive || isAllCaps(name) ? '' : 'i');
+}
+
+/**
+ * The first vendor whose name or an alias appears in the text as a whole
+ * word. All-caps names, and every name of a case-sensitive vendor, only
+ * match as written.
+ */
+export function findMentionedVendor(text: string, vendors: CompetitorVendor[]): CompetitorVendor | undefined {
+  return vendors.find(vendor => getVendorNames(vendor).some(name => namePattern(name, !!vendor.caseSensitive).test(text)));
+}
+
+/**
+ * The canonical name for a vendor name returned by the AI, so mentions of
+ * "Actiance" are listed under Smarsh. Names of unknown vendors are kept.
+ */
+export function resolveVendorName(name: string, vendors: CompetitorVendor[]): string {
+  const key = nameKey(name);
+  const exact = vendors.find(vendor => getVendorNames(vendor).some(n => nameKey(n) === key));
+  return (exact || findMentionedVendor(name, vendors))?.name || name;
+}
+
+/**
+ * Add vendors the AI discovered to the managed list, skipping any that are
+ * already on it under their name or an alias
+ */
+export function withDiscoveredVendors(vendors: CompetitorVendor[], discovered: string[] = []): CompetitorVendor[] {
+  const all = [...vendors];
+  for (const name of discovered) {
+    const cleaned = cleanName(name);
+    if (!cleaned || all.some(vendor => getVendorNames(vendor).some(n => nameKey(n) === nameKey(cleaned)))) continue;
+    all.push({ name: cleaned, aliases: [] });
+  }
+  return all;
+}
+
+/**
+ * Vendor list for search and extraction prompts, with aliases in
+ * parentheses: "Smarsh (also Actiance, Digital Safe), Global Relay"
+ */
+export function describeCompetitorVendors(vendors: CompetitorVendor[]): string {
+  return vendors
+    .map(vendor => vendor.aliases.length > 0 ? `${vendor.name} (also ${vendor.aliases.join(', ')})` : vendor.name)
+    .join(', ');
+}
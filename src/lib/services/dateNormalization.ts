@@ -0,0 +1,251 @@
+// Date normalization: turns the dates sources and models give ("2024-03",
+// "March 2023", RFC 2822 timestamps, "3 days ago") into ISO dates with a
+// precision, and drops items older than their section's recency window.
+
+import { AnalysisResult, DatePrecision, NormalizedDate, RecencySection, RecencyWindows } from '@/types/analysis';
+
+export const DEFAULT_RECENCY_WINDOWS: RecencyWindows = {
+  news: 90,
+  leadership: 365,
+  regulatory: 5 * 365
+};
+
+export const RECENCY_SECTIONS: RecencySection[] = ['news', 'leadership', 'regulatory'];
+
+export const MAX_RECENCY_WINDOW_DAYS = 20 * 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const YEAR = '((?:19|20)\\d{2})';
+
+// Tried in order; the first pattern found anywhere in the text wins, so
+// full dates are preferred over a month or year mentioned earlier
+const TEXT_DATE_PATTERNS: { pattern: RegExp; parse: (m: RegExpMatchArray) => NormalizedDate | undefined }[] = [
+  // "March 15, 2024", "Mar. 15th 2024"
+  { pattern: new RegExp(`\\b${MONTHS}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+${YEAR}\\b`, 'i'), parse: m => toDate(m[3], monthNumber(m[1]), m[2]) },
+  // "15 March 2024", "Fri, 15 Mar 2024 10:00:00 GMT"
+  { pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTHS}\\.?,?\\s+${YEAR}\\b`, 'i'), parse: m => toDate(m[3], monthNumber(m[2]), m[1]) },
+  // "2024-03-15", also the date part of ISO timestamps
+  { pattern: new RegExp(`\\b${YEAR}-(\\d{2})-(\\d{2})\\b`), parse: m => toDate(m[1], m[2], m[3]) },
+  // "03/15/2024", read day-first only when it can't be month-first
+  { pattern: new RegExp(`\\b(\\d{1,2})/(\\d{1,2})/${YEAR}\\b`), parse: m => Number(m[1]) > 12 ? toDate(m[3], m[2], m[1]) : toDate(m[3], m[1], m[2]) },
+  // "March 2023"
+  { pattern: new RegExp(`\\b${MONTHS}\\.?,?\\s+${YEAR}\\b`, 'i'), parse: m => toDate(m[2], monthNumber(m[1])) },
+  // "2024-03"
+  { pattern: new RegExp(`\\b${YEAR}-(\\d{2})\\b(?!-)`), parse: m => toDate(m[1], m[2]) }
+];
+
+// Date folders in article URLs: /2024/03/15/, /2024-03/
+const URL_DATE_PATTERN = /\/((?:19|20)\d{2})[/-](0[1-9]|1[0-2])(?:[/-](0[1-9]|[12]\d|3[01]))?(?=[/-]|$)/;
+
+const RELATIVE_DATE_PATTERN = /\b(\d+|an?|one)\s+(day|week|month|year)s?\s+ago\b/i;
+
+function monthNumber(name: string): number {
+  return ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'].indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// A date at the precision given, or undefined if it doesn't exist
+function toDate(year: string | number, month?: string | number, day?: string | number): NormalizedDate | undefined {
+  const y = Number(year);
+  if (month === undefined) return { iso: String(y), precision: 'year' };
+  const m = Number(month);
+  if (!(m >= 1 && m <= 12)) return undefined;
+  if (day === undefined) return { iso: `${y}-${pad(m)}`, precision: 'month' };
+  const d = Number(day);
+  if (!(d >= 1 && d <= new Date(Date.UTC(y, m, 0)).getUTCDate())) return undefined;
+  return { iso: `${y}-${pad(m)}-${pad(d)}`, precision: 'day' };
+}
+
+function fromTimestamp(time: number, precision: DatePrecision): NormalizedDate {
+  const date = new Date(time);
+  const [y, m, d] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+  if (precision === 'year') return { iso: String(y), precision };
+  if (precision === 'month') return { iso: `${y}-${pad(m)}`, precision };
+  return { iso: `${y}-${pad(m)}-${pad(d)}`, precision };
+}
+
+function parseRelativeDate(text: string, now: number): NormalizedDate | undefined {
+  if (/\btoday\b/i.test(text)) return fromTimestamp(now, 'day');
+  if (/\byesterday\b/i.test(text)) return fromTimestamp(now - DAY_MS, 'day');
+
+  const match = text.match(RELATIVE_DATE_PATTERN);
+  if (!match) return undefined;
+  const count = /^\d+$/.test(match[1]) ? Number(match[1]) : 1;
+  const unit = match[2].toLowerCase();
+  if (unit === 'day' || unit === 'week') return fromTimestamp(now - count * (unit === 'week' ? 7 : 1) * DAY_MS, 'day');
+  const date = new Date(now);
+  if (unit === 'month') {
+    date.setUTCMonth(date.getUTCMonth() - count);
+    return fromTimestamp(date.getTime(), 'month');
+  }
+  date.setUTCFullYear(date.getUTCFullYear() - count);
+  return fromTimestamp(date.getTime(), 'year');
+}
+
+// Bare years older than this are references ("the Securities Exchange Act
+// of 1934"), not the date of the article
+const MAX_BARE_YEAR_AGE = 15;
+
+/**
+ * First date mentioned in free text, e.g. an article's title and content.
+ * A bare year is only taken when `allowYearOnly` is set, as articles
+ * mention years ("founded in 1998") far more often than they date themselves
+ * with one, and then only the first year from the last 15 that isn't in
+ * the future.
+ */
+export function findDateInText(text: string, { allowYearOnly = false, now = Date.now() }: { allowYearOnly?: boolean; now?: number } = {}): NormalizedDate | undefined {
+  for (const { pattern, parse } of TEXT_DATE_PATTERNS) {
+    const match = text.match(pattern);
+    const date = match && parse(match);
+    if (date) return date;
+  }
+
+  const relative = parseRelativeDate(text, now);
+  if (relative) return relative;
+
+  if (!allowYearOnly) return undefined;
+  const currentYear = new Date(now).getUTCFullYear();
+  for (const match of text.matchAll(new RegExp(`\\b${YEAR}\\b`, 'g'))) {
+    const year = Number(match[1]);
+    if (year <= currentYear && year >= currentYear - MAX_BARE_YEAR_AGE) return toDate(year);
+  }
+  return undefined;
+}
+
+/**
+ * Date from the date folders of an article URL, e.g. /2024/03/15/slug
+ */
+export function findDateInUrl(url: string): NormalizedDate | undefined {
+  let path: string;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    return undefined;
+  }
+  const match = path.match(URL_DATE_PATTERN);
+  return match ? toDate(match[1], match[2], match[3]) : undefined;
+}
+
+/**
+ * Normalize a date field: an ISO date or timestamp, "2024-03", "2024",
+ * "March 2023", "Mar 15, 2024", an RFC 2822 timestamp or "3 days ago".
+ * Undefined for empty or unreadable values such as "Recent".
+ */
+export function normalizeDate(value: string | undefined, now: number = Date.now()): NormalizedDate | undefined {
+  const text = value?.trim();
+  if (!text) return undefined;
+
+  const iso = text.match(/^((?:19|20)\d{2})(?:[-/](\d{1,2})(?:[-/](\d{1,2}))?)?(?:[T\s].*)?$/);
+  if (iso) return toDate(iso[1], iso[2], iso[3]);
+  return findDateInText(text, { allowYearOnly: true, now });
+}
+
+// End of the period a date covers, so a month or year date counts as recent
+// while any part of it is
+function periodEnd(date: NormalizedDate): number {
+  const [y, m = 12, d] = date.iso.split('-').map(Number);
+  return Date.UTC(y, m - 1, d ?? new Date(Date.UTC(y, m, 0)).getUTCDate()) + DAY_MS - 1;
+}
+
+/**
+ * Whether a date falls within the last `days` days. Undated items and
+ * windows of 0 always pass.
+ */
+export function isWithinWindow(date: NormalizedDate | undefined, days: number, now: number = Date.now()): boolean {
+  if (!date || days <= 0) return true;
+  return periodEnd(date) >= now - days * DAY_MS;
+}
+
+/**
+ * An item's normalized date, parsing its date field for analyses saved
+ * before dates were normalized
+ */
+export function getItemDate(item: { date?: string; normalizedDate?: NormalizedDate }): NormalizedDate | undefined {
+  return item.normalizedDate || normalizeDate(item.date);
+}
+
+/**
+ * Sort comparator, newest first. Within a period, more precise dates come
+ * first; undated items go last.
+ */
+export function compareByDateDesc(a: { date?: string; normalizedDate?: NormalizedDate }, b: { date?: string; normalizedDate?: NormalizedDate }): number {
+  const dateA = getItemDate(a)?.iso || '';
+  const dateB = getItemDate(b)?.iso || '';
+  return dateA === dateB ? 0 : dateA < dateB ? 1 : -1;
+}
+
+/**
+ * A normalized date for display at its precision: "Mar 15, 2024", "Mar 2024"
+ * or "2024"
+ */
+export function formatNormalizedDate(date: NormalizedDate, locale: string = 'en-US'): string {
+  if (date.precision === 'year') return date.iso;
+  const [y, m, d = 1] = date.iso.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).toLocaleDateString(locale, {
+    timeZone: 'UTC',
+    month: 'short',
+    year: 'numeric',
+    ...(date.precision === 'day' && { day: 'numeric' })
+  });
+}
+
+/**
+ * An item's date for display, falling back to the date as given when it
+ * can't be read
+ */
+export function formatItemDate(item: { date?: string; normalizedDate?: NormalizedDate }): string | undefined {
+  const date = getItemDate(item);
+  return date ? formatNormalizedDate(date) : item.date;
+}
+
+/**
+ * Clean up recency windows from a request body or settings: whole days from
+ * 0 (no limit) up to the maximum. Missing or invalid sections get their
+ * default.
+ */
+export function normalizeRecencyWindows(value: unknown): RecencyWindows {
+  const input = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  return Object.fromEntries(RECENCY_SECTIONS.map(section => {
+    const days = input[section];
+    return [section, typeof days === 'number' && Number.isFinite(days) && days >= 0
+      ? Math.min(MAX_RECENCY_WINDOW_DAYS, Math.round(days))
+      : DEFAULT_RECENCY_WINDOWS[section]];
+  })) as RecencyWindows;
+}
+
+/**
+ * Set the normalized date of every dated item, falling back to the date in
+ * the item's URL. Replaces earlier values, so it can run again as sections
+ * are filled in.
+ */
+export function normalizeAnalysisDates(analysis: AnalysisResult, now: number = Date.now()): AnalysisResult {
+  const normalize = <T extends { date?: string; url?: string; normalizedDate?: NormalizedDate }>(items: T[] | undefined): T[] =>
+    (items || []).map(item => ({
+      ...item,
+      normalizedDate: normalizeDate(item.date, now) || (item.url ? findDateInUrl(item.url) : undefined)
+    }));
+
+  analysis.techNews = normalize(analysis.techNews);
+  analysis.caseStudies = normalize(analysis.caseStudies);
+  analysis.leadershipChanges = normalize(analysis.leadershipChanges);
+  analysis.regulatoryEvents = normalize(analysis.regulatoryEvents);
+  analysis.competitorMentions = normalize(analysis.competitorMentions);
+  return analysis;
+}
+
+/**
+ * Drop news, leadership changes and regulatory events older than their
+ * section's window. Items without a readable date are kept.
+ */
+export function applyRecencyWindows(analysis: AnalysisResult, windows: RecencyWindows, now: number = Date.now()): AnalysisResult {
+  const recent = <T extends { date?: string; normalizedDate?: NormalizedDate }>(items: T[] | undefined, days: number): T[] =>
+    (items || []).filter(item => isWithinWindow(getItemDate(item), days, now));
+
+  analysis.techNews = recent(analysis.techNews, windows.news);
+  analysis.leadershipChanges = recent(analysis.leadershipChanges, windows.leadership);
+  analysis.regulatoryEvents = recent(analysis.regulatoryEvents, windows.regulatory);
+  return analysis;
+}
@@ -0,0 +1,26 @@
+// Timeouts and cancellation for analysis requests. Provider SDK and fetch
+// calls take an AbortSignal built with these helpers, so a hung upstream call
+// gives up instead of holding the request open.
+
+/**
+ * Signal that aborts after `ms`, or earlier if `signal` aborts
+ */
+export function withTimeout(signal: AbortSignal | undefined, ms: number): AbortSignal {
+  const timeout = AbortSignal.timeout(ms);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * Whether a signal was aborted by a timeout rather than cancelled by the caller
+ */
+export function isTimedOut(signal: AbortSignal | undefined): boolean {
+  if (!signal?.aborted) return false;
+  return (signal.reason as { name?: unknown } | undefined)?.name === 'TimeoutError';
+}
+
+/**
+ * Whether a signal was cancelled by the caller, e.g. the client disconnecting
+ */
+export function isCancelled(signal: AbortSignal | undefined): boolean {
+  return !!signal?.aborted && !isTimedOut(signal);
+}
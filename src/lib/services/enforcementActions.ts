@@ -0,0 +1,494 @@
+// Official enforcement actions: parses the SEC litigation release and
+// administrative proceeding feeds and FINRA's disciplinary actions listing,
+// and turns the actions naming the analyzed company (or one of its legal
+// entity names) into regulatory events marked as official. Parsing is regex-based, so
+// saved copies of the feeds can be replayed without a DOM.
+
+import { AnalysisResult, CompanyIdentifiers, NormalizedDate, RegulatoryEventItem, RegulatoryEventSource } from '@/types/analysis';
+import { getMockFixture } from '@/lib/mock/fixtures';
+import { deduplicateRegulatoryEvents } from '@/lib/ai/parser';
+import { getItemDate, normalizeDate } from '@/lib/services/dateNormalization';
+import { isValidHttpUrl } from '@/lib/utils';
+
+export type EnforcementSource = 'sec_litigation' | 'sec_admin' | 'finra';
+
+type SecSource = Exclude<EnforcementSource, 'finra'>;
+
+export const ENFORCEMENT_SOURCES: EnforcementSource[] = ['sec_litigation', 'sec_admin', 'finra'];
+
+const SOURCE_LABELS: Record<EnforcementSource, string> = {
+  sec_litigation: 'SEC litigation releases',
+  sec_admin: 'SEC administrative proceedings',
+  finra: 'FINRA disciplinary actions'
+};
+
+// An enforcement action as published, before matching it to a company
+export interface EnforcementAction {
+  source: EnforcementSource;
+  title: string;
+  url: string;
+  date?: string; // As published, e.g. an RFC 2822 timestamp or "03/15/2024"
+  respondents: string[]; // Firms and people charged; empty when only a headline names them
+  summary?: string;
+  documentType?: string; // FINRA's document type, e.g. "AWC" or "Complaint"
+  caseId?: string; // FINRA case number
+}
+
+/**
+ * Fetches the raw text of an enforcement feed. Swappable so imports can run
+ * against saved feeds.
+ */
+export type EnforcementFeedFetcher = (source: EnforcementSource, companyName: string, signal: AbortSignal) => Promise<string>;
+
+const FINRA_BASE_URL = 'https://www.finra.org';
+
+// The SEC feeds list recent releases for everyone; FINRA's listing is searched by name
+export function getEnforcementFeedUrl(source: EnforcementSource, companyName: string): string {
+  if (source === 'sec_litigation') return 'https://www.sec.gov/rss/litigation/litreleases.xml';
+  if (source === 'sec_admin') return 'https://www.sec.gov/rss/litigation/admin.xml';
+  return `${FINRA_BASE_URL}/rules-guidance/oversight-enforcement/finra-disciplinary-actions?search=${encodeURIComponent(companyName)}`;
+}
+
+// sec.gov rejects automated requests that don't identify themselves
+const ENFORCEMENT_FEED_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (compatible; AccountSignal enforcement import)',
+  Accept: 'application/rss+xml,application/xml,application/json,text/html;q=0.9,*/*;q=0.8'
+};
+
+/**
+ * Default fetcher, using fetch
+ */
+export const fetchEnforcementFeed: EnforcementFeedFetcher = async (source, companyName, signal) => {
+  const response = await fetch(getEnforcementFeedUrl(source, companyName), { signal, headers: ENFORCEMENT_FEED_HEADERS });
+  if (!response.ok) throw new Error(`${SOURCE_LABELS[source]} returned ${response.status}`);
+  return response.text();
+};
+
+/**
+ * Fetcher for mock mode: answers with the feeds saved in the company's
+ * fixture. Sources the fixture doesn't have are empty.
+ */
+export function createMockEnforcementFetcher(companyName: string): EnforcementFeedFetcher {
+  const feeds = getMockFixture(companyName).enforcementFeeds || {};
+  return async source => feeds[source] || '';
+}
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—', rsquo: '’', lsquo: '‘' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+    return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+  });
+}
+
+// Markup to plain text. Tags are stripped again after decoding, as feed
+// descriptions often carry entity-escaped HTML.
+function toPlainText(markup: string): string {
+  const stripTags = (text: string) => text.replace(/<[^>]+>/g, ' ');
+  return stripTags(decodeEntities(stripTags(markup.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1'))))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function readTag(xml: string, tag: string): string {
+  return xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'))?.[1] || '';
+}
+
+function resolveUrl(href: string, base: string): string {
+  try {
+    return new URL(decodeEntities(href.trim()), base).toString();
+  } catch {
+    return '';
+  }
+}
+
+// "LR-26012: ", "33-11270: ", "34-99123: "
+const RELEASE_NUMBER_PREFIX = /^[A-Z]{0,4}-?\d[\d-]*\s*:\s*/i;
+
+/**
+ * Respondents named in an SEC release title: the caption of "SEC v. Acme
+ * Corp., et al." or "In the Matter of Acme Corp.", or a bare list of names.
+ * Headlines such as "SEC Charges Acme ..." name no respondents.
+ */
+export function parseSecRespondents(title: string): string[] {
+  const caption = title
+    .replace(RELEASE_NUMBER_PREFIX, '')
+    .replace(/^(?:(?:U\.S\.\s+)?Securities and Exchange Commission|SEC)\s+v(?:s)?\.?\s+/i, '')
+    .replace(/^In the Matter of\s+/i, '');
+  if (/^(?:SEC|Securities and Exchange Commission)\b/i.test(caption)) return [];
+
+  return caption
+    .split(/;|,?\s+et al\.?/i)
+    .map(name => name.replace(/^[\s,]+|[\s,]+$/g, ''))
+    .filter(name => name.length > 1);
+}
+
+function toSecAction(source: SecSource, title: string, url: string, date?: string, summary?: string): EnforcementAction {
+  return {
+    source,
+    title: title.replace(RELEASE_NUMBER_PREFIX, ''),
+    url,
+    ...(date && { date }),
+    respondents: parseSecRespondents(title),
+    ...(summary && { summary })
+  };
+}
+
+/**
+ * Parse an SEC litigation release or administrative proceeding RSS feed
+ */
+export function parseSecRss(xml: string, source: SecSource): EnforcementAction[] {
+  const items = xml.match(/<item[\s>][\s\S]*?<\/item>/gi) || [];
+  return items
+    .map(item => toSecAction(
+      source,
+      toPlainText(readTag(item, 'title')),
+      toPlainText(readTag(item, 'link') || readTag(item, 'guid')),
+      toPlainText(readTag(item, 'pubDate') || readTag(item, 'dc:date')),
+      toPlainText(readTag(item, 'description'))
+    ))
+    .filter(action => action.title && isValidHttpUrl(action.url));
+}
+
+/**
+ * Parse SEC releases published as JSON: a JSON Feed (`items` with `url`,
+ * `date_published` and `summary`) or a bare array of RSS-shaped records
+ */
+export function parseSecJson(json: unknown, source: SecSource): EnforcementAction[] {
+  const record = json && typeof json === 'object' ? json as Record<string, unknown> : {};
+  const items: unknown[] = Array.isArray(json) ? json : Array.isArray(record.items) ? record.items : [];
+
+  return items
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .map(item => {
+      const read = (...keys: string[]) => {
+        const value = keys.map(key => item[key]).find(v => typeof v === 'string' && v.trim());
+        return typeof value === 'string' ? toPlainText(value) : '';
+      };
+      return toSecAction(
+        source,
+        read('title'),
+        read('url', 'link'),
+        read('date_published', 'pubDate', 'date'),
+        read('summary', 'content_text', 'description')
+      );
+    })
+    .filter(action => action.title && isValidHttpUrl(action.url));
+}
+
+/**
+ * Parse an SEC feed, telling JSON from RSS by its first character
+ */
+export function parseSecFeed(text: string, source: SecSource): EnforcementAction[] {
+  const trimmed = text.trim();
+  return /^[[{]/.test(trimmed) ? parseSecJson(JSON.parse(trimmed), source) : parseSecRss(trimmed, source);
+}
+
+function readCells(row: string, tag: 'th' | 'td'): string[] {
+  return [...row.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'gi'))].map(match => match[1]);
+}
+
+// Cells listing several firms or people put each on its own line
+function splitCellLines(cell: string): string[] {
+  return cell
+    .split(/<br\s*\/?>|<\/(?:p|li|div)>|\n/i)
+    .map(toPlainText)
+    .filter(Boolean);
+}
+
+/**
+ * Parse FINRA's disciplinary actions listing. Columns are found by their
+ * header text (Case ID, Case Summary, Document Type, Firms/Individuals,
+ * Action Date), so reordered columns still parse.
+ */
+export function parseFinraDisciplinaryActions(html: string): EnforcementAction[] {
+  const table = html.match(/<table[\s>][\s\S]*?<\/table>/i)?.[0];
+  if (!table) return [];
+
+  const rows = table.match(/<tr[\s>][\s\S]*?<\/tr>/gi) || [];
+  const headerRow = rows.find(row => /<th[\s>]/i.test(row));
+  if (!headerRow) return [];
+
+  const headers = readCells(headerRow, 'th').map(cell => toPlainText(cell).toLowerCase());
+  const column = (pattern: RegExp) => headers.findIndex(header => pattern.test(header));
+  const columns = {
+    caseId: column(/case (?:id|number)/),
+    summary: column(/summary/),
+    documentType: column(/document type/),
+    respondents: column(/firms|individuals/),
+    date: column(/date/)
+  };
+
+  return rows.filter(row => row !== headerRow).flatMap((row): EnforcementAction[] => {
+    const cells = readCells(row, 'td');
+    const cell = (index: number) => (index >= 0 && cells[index]) || '';
+    const respondents = splitCellLines(cell(columns.respondents));
+    if (respondents.length === 0) return [];
+
+    // The case ID links to the action's document; otherwise take the row's first link
+    const href = cell(columns.caseId).match(/href="([^"]+)"/i)?.[1] || row.match(/href="([^"]+)"/i)?.[1];
+    const url = href ? resolveUrl(href, FINRA_BASE_URL) : '';
+    if (!isValidHttpUrl(url)) return [];
+
+    const caseId = toPlainText(cell(columns.caseId));
+    const summary = toPlainText(cell(columns.summary));
+    const documentType = toPlainText(cell(columns.documentType));
+    const date = toPlainText(cell(columns.date));
+    return [{
+      source: 'finra',
+      title: respondents.join('; '),
+      url,
+      ...(date && { date }),
+      respondents,
+      ...(summary && { summary }),
+      ...(documentType && { documentType }),
+      ...(caseId && { caseId })
+    }];
+  });
+}
+
+/**
+ * Parse any enforcement feed
+ */
+export function parseEnforcementFeed(source: EnforcementSource, text: string): EnforcementAction[] {
+  return source === 'finra' ? parseFinraDisciplinaryActions(text) : parseSecFeed(text, source);
+}
+
+// Dropped from the end of entity names: "Acme Holdings, Inc." and "Acme Holdings" are the same company
+const LEGAL_SUFFIXES = new Set(['inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'llc', 'llp', 'lp', 'ltd', 'limited', 'plc', 'na', 'sa', 'ag', 'nv', 'se', 'gmbh', 'and']);
+
+// Also dropped from the analyzed company's name, so actions against a group's subsidiaries match
+const GROUP_SUFFIXES = new Set(['group', 'holdings', 'holding']);
+
+function stripTrailingWords(words: string[], suffixes: Set<string>): string[] {
+  const result = [...words];
+  while (result.length > 1 && suffixes.has(result[result.length - 1])) result.pop();
+  return result;
+}
+
+/**
+ * Entity name reduced for matching: lowercase words without punctuation, a
+ * leading "the" or legal suffixes. "The Acme Group, Inc." becomes "acme group".
+ */
+export function normalizeEntityName(name: string): string {
+  const words = name.toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+  if (words[0] === 'the' && words.length > 1) words.shift();
+  return stripTrailingWords(words, LEGAL_SUFFIXES).join(' ');
+}
+
+/**
+ * The names an action has to mention for it to be about the company: its
+ * name and legal names, with and without a trailing "Group" or "Holdings"
+ */
+export function getCompanyNameVariants(companyName: string, legalNames: string[] = []): string[] {
+  const variants = [companyName, ...legalNames].flatMap(name => {
+    const normalized = normalizeEntityName(name);
+    return [normalized, stripTrailingWords(normalized.split(' '), GROUP_SUFFIXES).join(' ')];
+  });
+  return [...new Set(variants)].filter(variant => variant.length >= 3);
+}
+
+// One-word names ("Block", "Visa") must be the whole entity name; longer
+// names may be followed by more words, e.g. "Acme Financial Services"
+function mentionsName(text: string, name: string): boolean {
+  if (!name.includes(' ')) return text === name;
+  return ` ${text} `.includes(` ${name} `);
+}
+
+/**
+ * Whether an action is against the company: one of its respondents names one
+ * of `nameVariants`. When no respondents were parsed the headline has to name
+ * one of `headlineVariants` instead, as headlines also mention people and
+ * firms that aren't charged.
+ */
+export function isActionAgainstCompany(action: EnforcementAction, nameVariants: string[], headlineVariants = nameVariants): boolean {
+  const [candidates, names] = action.respondents.length > 0
+    ? [action.respondents, nameVariants]
+    : [[action.title], headlineVariants];
+  return candidates.some(candidate => {
+    const normalized = normalizeEntityName(candidate);
+    return names.some(name => mentionsName(normalized, name));
+  });
+}
+
+const AMOUNT_PATTERN = /\$\s?[\d,]+(?:\.\d+)?(?:\s*(?:billion|million|bn|mn)\b)?/i;
+
+// FINRA's document type says what kind of action it is; otherwise go by the wording
+function classifyAction(action: EnforcementAction): RegulatoryEventItem['eventType'] {
+  const documentType = action.documentType?.toLowerCase() || '';
+  if (/\bawc\b|acceptance,? waiver/.test(documentType)) return 'consent';
+  if (/complaint/.test(documentType)) return 'action';
+  if (/settlement/.test(documentType)) return 'settlement';
+  if (/decision|order/.test(documentType)) return 'order';
+
+  const text = [action.title, action.summary].filter(Boolean).join(' ').toLowerCase();
+  if (/\bawc\b|acceptance,? waiver/.test(text)) return 'consent';
+  if (/offer of settlement|\bsettle/.test(text)) return 'settlement';
+  if (/cease[- ]and[- ]desist|\border\b/.test(text)) return 'order';
+  if (/\bfined?\b/.test(text)) return 'fine';
+  if (/penalt|final judgment/.test(text)) return 'penalty';
+  if (/complaint|\bcharge/.test(text)) return 'action';
+  return action.source === 'sec_admin' ? 'order' : action.source === 'sec_litigation' ? 'action' : 'enforcement';
+}
+
+/**
+ * An enforcement action as an official regulatory event
+ */
+export function toRegulatoryEvent(action: EnforcementAction): RegulatoryEventItem {
+  const text = [action.title, action.summary].filter(Boolean).join(' ');
+  const amount = text.match(AMOUNT_PATTERN)?.[0];
+  const description = action.summary || action.title;
+  return {
+    date: normalizeDate(action.date)?.iso || 'Recent',
+    regulatoryBody: action.source === 'finra' ? 'FINRA' : 'SEC',
+    eventType: classifyAction(action),
+    ...(amount && { amount }),
+    description: description.length > 300 ? `${description.slice(0, 297).trimEnd()}...` : description,
+    url: action.url,
+    official: true,
+    ...(action.respondents.length > 0 && { respondents: action.respondents })
+  };
+}
+
+/**
+ * Regulatory events for the actions against the company, skipping actions
+ * listed by more than one source. Legal names only match parsed
+ * respondents; headlines have to name the company itself.
+ */
+export function matchEnforcementActions(actions: EnforcementAction[], companyName: string, legalNames?: string[]): RegulatoryEventItem[] {
+  const nameVariants = getCompanyNameVariants(companyName, legalNames);
+  const headlineVariants = getCompanyNameVariants(companyName);
+  const seenUrls = new Set<string>();
+  return actions
+    .filter(action => {
+      if (seenUrls.has(action.url) || !isActionAgainstCompany(action, nameVariants, headlineVariants)) return false;
+      seenUrls.add(action.url);
+      return true;
+    })
+    .map(toRegulatoryEvent);
+}
+
+export interface EnforcementImportOptions {
+  fetcher?: EnforcementFeedFetcher;
+  signal?: AbortSignal;
+}
+
+/**
+ * Fetch every enforcement source and return the actions against the company
+ * as official regulatory events. A source that fails is skipped; the import
+ * only fails when every source does.
+ */
+export async function importEnforcementActions(
+  companyName: string,
+  company: CompanyIdentifiers | undefined,
+  { fetcher = fetchEnforcementFeed, signal = new AbortController().signal }: EnforcementImportOptions = {}
+): Promise<RegulatoryEventItem[]> {
+  const results = await Promise.allSettled(ENFORCEMENT_SOURCES.map(async source =>
+    parseEnforcementFeed(source, await fetcher(source, companyName, signal))
+  ));
+
+  const actions: EnforcementAction[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      actions.push(...result.value);
+    } else {
+      console.warn(`${SOURCE_LABELS[ENFORCEMENT_SOURCES[i]]} import failed:`, result.reason);
+    }
+  });
+  if (results.every(result => result.status === 'rejected')) {
+    throw new Error('No enforcement source could be read');
+  }
+
+  const events = matchEnforcementActions(actions, companyName, company?.legalNames);
+  console.log(`Imported ${events.length} official enforcement actions for ${companyName} from ${actions.length} published`);
+  return events;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// News about an action can run a few days after the release
+const REPORTING_LAG_MS = 7 * DAY_MS;
+
+function getRegulator(regulatoryBody: string): string | undefined {
+  if (/\bFINRA\b|financial industry regulatory authority/i.test(regulatoryBody)) return 'FINRA';
+  if (/\bSEC\b|securities and exchange commission/i.test(regulatoryBody)) return 'SEC';
+  return undefined;
+}
+
+// Dates agree at the coarser of their precisions; two exact dates may be a reporting lag apart
+function isSameActionDate(official: NormalizedDate | undefined, reported: NormalizedDate | undefined): boolean {
+  if (!official || !reported) return false;
+  if (official.precision === 'day' && reported.precision === 'day') {
+    return Math.abs(Date.parse(reported.iso) - Date.parse(official.iso)) <= REPORTING_LAG_MS;
+  }
+  const length = Math.min(official.iso.length, reported.iso.length);
+  return official.iso.slice(0, length) === reported.iso.slice(0, length);
+}
+
+/**
+ * The names a news report has to mention to be about an official action:
+ * its respondents, and the company names they were matched on
+ */
+function getRespondentNames(event: RegulatoryEventItem, nameVariants: string[]): string[] {
+  const respondents = (event.respondents || []).map(normalizeEntityName);
+  if (respondents.length === 0) return nameVariants;
+  const matched = nameVariants.filter(name => respondents.some(respondent => mentionsName(respondent, name)));
+  return [...new Set([...respondents.flatMap(respondent => getCompanyNameVariants(respondent)), ...matched])];
+}
+
+/**
+ * Whether a regulatory event found in news reports an official action: the
+ * same regulator, the same date within the less precise of the two, and a
+ * description naming one of the respondents. Amounts aren't compared, as
+ * official releases often don't state one.
+ */
+export function reportsEnforcementAction(reported: RegulatoryEventItem, official: RegulatoryEventItem, nameVariants: string[]): boolean {
+  if (getRegulator(reported.regulatoryBody) !== official.regulatoryBody) return false;
+  if (!isSameActionDate(getItemDate(official), getItemDate(reported))) return false;
+  const text = ` ${normalizeEntityName(reported.description)} `;
+  return getRespondentNames(official, nameVariants).some(name => text.includes(` ${name} `));
+}
+
+/**
+ * Add official events to the analysis ahead of those found in news. News
+ * reports of an official action become sources of the official event,
+ * which keeps its own date, type, amount and description. Mutates and
+ * returns the analysis.
+ */
+export function mergeEnforcementEvents(analysis: AnalysisResult, events: RegulatoryEventItem[], companyName: string, legalNames?: string[]): AnalysisResult {
+  if (events.length === 0) return analysis;
+
+  const nameVariants = getCompanyNameVariants(companyName, legalNames);
+  const official = events.map(event => ({ ...event, sources: [...(event.sources || [])] }));
+  const unmatched: RegulatoryEventItem[] = [];
+  for (const reported of analysis.regulatoryEvents || []) {
+    const action = official.find(event => reportsEnforcementAction(reported, event, nameVariants));
+    if (!action) {
+      unmatched.push(reported);
+      continue;
+    }
+    const reportSources: RegulatoryEventSource[] = [
+      { url: reported.url, title: reported.description.slice(0, 80), regulatoryBody: reported.regulatoryBody },
+      ...(reported.sources || [])
+    ];
+    for (const source of reportSources) {
+      if (source.url && source.url !== action.url && !action.sources.some(s => s.url === source.url)) {
+        action.sources.push(source);
+      }
+    }
+  }
+
+  // News reports with matching amounts are still merged the usual way
+  analysis.regulatoryEvents = deduplicateRegulatoryEvents([
+    ...official.map(({ sources, ...event }) => sources.length > 0 ? { ...event, sources } : event),
+    ...unmatched
+  ]);
+  return analysis;
+}
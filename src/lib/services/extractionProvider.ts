@@ -0,0 +1,123 @@
+// LLM calls shared by the extraction steps that turn search results into
+// verified analysis items (competitor mentions, communications stack), also
+// used to draft outreach from an analysis
+
+import { TokenUsage, fromAnthropicUsage, fromOpenAIUsage, fromGeminiUsage } from '@/lib/ai/usage';
+import { normalizeSelfHostedBaseUrl } from '@/lib/ai/providers/selfhosted';
+import { responseError } from '@/lib/services/retry';
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  content: string;
+  date?: string; // Publication date reported by the search provider
+}
+
+export interface ExtractionProviderConfig {
+  type: 'anthropic' | 'openai' | 'gemini' | 'perplexity' | 'selfhosted' | 'mock';
+  apiKey: string;
+  model?: string;
+  baseUrl?: string; // Self-hosted server URL
+}
+
+// Models used when the provider config doesn't specify one
+export const DEFAULT_EXTRACTION_MODELS: Record<ExtractionProviderConfig['type'], string> = {
+  anthropic: 'claude-sonnet-4-5-20250929',
+  openai: 'gpt-4o',
+  gemini: 'gemini-2.5-flash',
+  perplexity: 'sonar',
+  selfhosted: '', // Always configured explicitly
+  mock: 'mock'
+};
+
+export interface ProviderResponse {
+  text: string;
+  usage: TokenUsage;
+}
+
+/**
+ * Send an extraction prompt to the given provider. Throws on API errors so
+ * callers can retry with callWithRetry.
+ */
+export async function callExtractionProvider(prompt: string, provider: ExtractionProviderConfig, model: string, signal?: AbortSignal): Promise<ProviderResponse> {
+  const { type, apiKey } = provider;
+  switch (type) {
+    case 'anthropic':
+      return callAnthropic(prompt, apiKey, model, signal);
+    case 'openai':
+      return callOpenAI(prompt, apiKey, model, signal);
+    case 'gemini':
+      return callGemini(prompt, apiKey, model, signal);
+    case 'perplexity':
+      return callOpenAI(prompt, apiKey, model, signal, 'https://api.perplexity.ai');
+    case 'selfhosted':
+      if (!provider.baseUrl) throw new Error('Self-hosted server URL is not configured');
+      return callOpenAI(prompt, apiKey, model, signal, normalizeSelfHostedBaseUrl(provider.baseUrl));
+    default:
+      throw new Error(`Unsupported provider: ${type}`);
+  }
+}
+
+async function callAnthropic(prompt: string, apiKey: string, model: string, signal?: AbortSignal): Promise<ProviderResponse> {
+  const { default: Anthropic } = await import('@anthropic-ai/sdk');
+  const client = new Anthropic({ apiKey, maxRetries: 0 }); // Retried by the caller
+
+  const response = await client.messages.create({
+    model,
+    max_tokens: 2048,
+    messages: [{ role: 'user', content: prompt }],
+  }, { signal });
+
+  const textBlock = response.content.find(block => block.type === 'text');
+  return {
+    text: textBlock && textBlock.type === 'text' ? textBlock.text : '',
+    usage: fromAnthropicUsage(response.usage)
+  };
+}
+
+// Also used for Perplexity and self-hosted OpenAI-compatible servers
+async function callOpenAI(prompt: string, apiKey: string, model: string, signal?: AbortSignal, baseUrl = 'https://api.openai.com/v1'): Promise<ProviderResponse> {
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      model,
+      messages: [{ role: 'user', content: prompt }],
+      max_tokens: 2048,
+      temperature: 0,
+    }),
+    signal,
+  });
+
+  if (!response.ok) throw responseError(`OpenAI API error: ${response.status}`, response);
+  const data = await response.json();
+  return {
+    text: data.choices?.[0]?.message?.content || '',
+    usage: fromOpenAIUsage(data.usage)
+  };
+}
+
+async function callGemini(prompt: string, apiKey: string, model: string, signal?: AbortSignal): Promise<ProviderResponse> {
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: { maxOutputTokens: 2048, temperature: 0 },
+      }),
+      signal,
+    }
+  );
+
+  if (!response.ok) throw responseError(`Gemini API error: ${response.status}`, response);
+  const data = await response.json();
+  return {
+    text: data.candidates?.[0]?.content?.parts?.[0]?.text || '',
+    usage: fromGeminiUsage(data.usageMetadata)
+  };
+}
@@ -0,0 +1,149 @@
+// Theta Lake account fit score: how good a prospect a company is, computed
+// from signals already in its analysis. Each factor scores 0-1 and factors
+// are combined with the weights admins set in app_settings.fit_score_weights.
+
+import { AnalysisResult, FitFactor, FitFactorName, FitScore, FitScoreWeights } from '@/types/analysis';
+import { getItemDate, isWithinWindow } from '@/lib/services/dateNormalization';
+
+export const FIT_FACTORS: FitFactorName[] = [
+  'regulators', 'recordkeepingEvents', 'competitorMentions', 'industry', 'employeeCount', 'complianceLeadership'
+];
+
+export const DEFAULT_FIT_SCORE_WEIGHTS: FitScoreWeights = {
+  regulators: 25,
+  recordkeepingEvents: 20,
+  competitorMentions: 15,
+  industry: 15,
+  employeeCount: 15,
+  complianceLeadership: 10
+};
+
+export const MAX_FIT_FACTOR_WEIGHT = 100;
+
+// Regulators with communications recordkeeping or supervision rules (SEC 17a-4,
+// FINRA 3110, FCA SYSC 10A, MiFID II ...) count fully; any other regulator counts half
+const RECORDKEEPING_REGULATOR_PATTERN = new RegExp([
+  '\\b(SEC|FINRA|CFTC|NFA|MSRB|OCC|FCA|PRA|ESMA|BaFin|AMF|CIRO|IIROC|ASIC|MAS|SFC|FINMA|CSSF|JFSA)\\b',
+  'Securities and Exchange Commission',
+  'Financial Industry Regulatory Authority',
+  'Commodity Futures Trading Commission',
+  'Financial Conduct Authority'
+].join('|'));
+
+const RECORDKEEPING_EVENT_PATTERN = /record\s*-?keeping|books and records|off-channel|electronic communications|text messag|whatsapp|messaging app|17a-4|archiv/i;
+
+const FINANCIAL_INDUSTRY_PATTERN = /financ|bank|capital market|asset management|wealth|invest|brokera|broker-dealer|securities|insurance|trading|fintech|payments|credit|lending|exchange/i;
+const REGULATED_INDUSTRY_PATTERN = /health|pharma|biotech|medical|energy|utilit|government|public sector|defen[cs]e|telecom|legal|law firm/i;
+
+const COMPLIANCE_ROLE_PATTERN = /complian|risk|legal|counsel|privacy|security|\bCISO\b|\bCCO\b|\bCRO\b|records|surveillance|supervis|regulatory/i;
+
+// Leadership changes older than this don't count as recent
+const RECENT_LEADERSHIP_DAYS = 2 * 365;
+
+/**
+ * Clean up weights from a request body or settings: each factor gets a
+ * whole number from 0 to MAX_FIT_FACTOR_WEIGHT, or its default if missing
+ */
+export function normalizeFitScoreWeights(value: unknown): FitScoreWeights {
+  const input = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const weights = { ...DEFAULT_FIT_SCORE_WEIGHTS };
+  for (const factor of FIT_FACTORS) {
+    const weight = Number(input[factor]);
+    if (input[factor] !== undefined && input[factor] !== null && Number.isFinite(weight)) {
+      weights[factor] = Math.min(MAX_FIT_FACTOR_WEIGHT, Math.max(0, Math.round(weight)));
+    }
+  }
+  return weights;
+}
+
+/**
+ * Read an employee count as the AI writes it: "12,500", "~45K employees",
+ * "1.2 million", "10,000+". Ranges use the lower bound. Null if unreadable.
+ */
+export function parseEmployeeCount(value?: string): number | null {
+  const match = value?.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(k|thousand|m|million)?\b/i);
+  if (!match) return null;
+  const unit = match[2]?.toLowerCase();
+  const multiplier = unit === 'k' || unit === 'thousand' ? 1000 : unit === 'm' || unit === 'million' ? 1000000 : 1;
+  return Math.round(parseFloat(match[1]) * multiplier);
+}
+
+// The first item is most of the signal; two or more is the full signal
+function countSignal(count: number): number {
+  return count === 0 ? 0 : Math.min(1, 0.5 + count * 0.25);
+}
+
+function unique(items: string[]): string[] {
+  return [...new Set(items.map(item => item.trim()).filter(Boolean))];
+}
+
+// Signal strength (0-1) of each factor, with the analysis items behind it
+function measureFactors(analysis: AnalysisResult, now: number): Record<FitFactorName, { signal: number; evidence: string[] }> {
+  const regulators = unique((analysis.regulatoryLandscape || []).map(r => r.body));
+  const regulatorPoints = regulators.reduce((sum, body) => sum + (RECORDKEEPING_REGULATOR_PATTERN.test(body) ? 1 : 0.5), 0);
+
+  const recordkeepingEvents = (analysis.regulatoryEvents || [])
+    .filter(e => RECORDKEEPING_EVENT_PATTERN.test(`${e.description} ${e.eventType}`));
+
+  const competitors = unique((analysis.competitorMentions || []).map(m => m.competitorName));
+
+  const industry = analysis.quickFacts?.industry?.trim() || '';
+  const industrySignal = FINANCIAL_INDUSTRY_PATTERN.test(industry) ? 1 : REGULATED_INDUSTRY_PATTERN.test(industry) ? 0.5 : 0;
+
+  const employees = parseEmployeeCount(analysis.quickFacts?.employeeCount);
+  const employeeSignal = employees === null ? 0
+    : employees >= 10000 ? 1
+    : employees >= 1000 ? 0.7
+    : employees >= 200 ? 0.4
+    : 0.1;
+
+  // Undated changes come from recent news searches, so they count
+  const complianceHires = (analysis.leadershipChanges || [])
+    .filter(c => COMPLIANCE_ROLE_PATTERN.test(c.role) && isWithinWindow(getItemDate(c), RECENT_LEADERSHIP_DAYS, now));
+
+  return {
+    regulators: { signal: Math.min(1, regulatorPoints / 3), evidence: regulators },
+    recordkeepingEvents: {
+      signal: countSignal(recordkeepingEvents.length),
+      evidence: recordkeepingEvents.map(e => `${e.regulatoryBody} ${e.date}`.trim())
+    },
+    competitorMentions: { signal: countSignal(competitors.length), evidence: competitors },
+    industry: { signal: industrySignal, evidence: industry ? [industry] : [] },
+    employeeCount: { signal: employeeSignal, evidence: employees === null ? [] : [analysis.quickFacts.employeeCount!] },
+    complianceLeadership: {
+      signal: countSignal(complianceHires.length),
+      evidence: complianceHires.map(c => `${c.name} (${c.role})`)
+    }
+  };
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Score an analysis from 0 to 100. Weights are relative: each factor's
+ * share of the 100 points is its weight over the sum of all weights.
+ */
+export function computeFitScore(analysis: AnalysisResult, weights: FitScoreWeights = DEFAULT_FIT_SCORE_WEIGHTS, now = Date.now()): FitScore {
+  const measured = measureFactors(analysis, now);
+  const totalWeight = FIT_FACTORS.reduce((sum, factor) => sum + weights[factor], 0);
+
+  const factors: FitFactor[] = FIT_FACTORS.map(factor => {
+    const { signal, evidence } = measured[factor];
+    const maxPoints = totalWeight > 0 ? weights[factor] / totalWeight * 100 : 0;
+    return {
+      factor,
+      weight: weights[factor],
+      signal: Math.round(signal * 100) / 100,
+      points: round1(maxPoints * signal),
+      maxPoints: round1(maxPoints),
+      evidence
+    };
+  });
+
+  const score = totalWeight > 0
+    ? Math.round(FIT_FACTORS.reduce((sum, factor) => sum + weights[factor] * measured[factor].signal, 0) / totalWeight * 100)
+    : 0;
+  return { score, factors };
+}
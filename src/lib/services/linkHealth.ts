@@ -0,0 +1,370 @@
+// Link health: checks that the URLs in an analysis still lead somewhere,
+// caching each result per URL in the link_checks table so links shared by
+// analyses (or re-checked soon after) aren't requested again.
+
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AnalysisResult, LinkCheck, LinkStatus } from '@/types/analysis';
+import { getMockFixture } from '@/lib/mock/fixtures';
+import { isValidHttpUrl } from '@/lib/utils';
+import { withTimeout } from '@/lib/services/deadline';
+
+// What a link check needs from a response
+export interface LinkFetchResponse {
+  status: number;
+  url: string; // After redirects
+  contentType: string | null;
+}
+
+/**
+ * Makes the HTTP request for a link check, following redirects. Swappable so
+ * checks can run against a local server or canned responses.
+ */
+export type LinkFetcher = (url: string, init: { method: 'HEAD' | 'GET'; signal: AbortSignal }) => Promise<LinkFetchResponse>;
+
+export interface LinkCheckOptions {
+  fetcher?: LinkFetcher;
+  timeoutMs?: number; // Per link
+  signal?: AbortSignal;
+}
+
+export const LINK_CHECK_TIMEOUT_MS = 5000;
+
+// Time all of an analysis' links get; links not reached by then are left unchecked
+const LINK_CHECK_BUDGET_MS = 30000;
+
+// Cached results newer than this are reused
+export const LINK_CHECK_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// 'unreachable' is often temporary (rate limits, outages, timeouts), so those
+// results are only reused for a short while
+const UNREACHABLE_MAX_AGE_MS = 60 * 60 * 1000;
+
+// Age after which a check is no longer reused, given the age allowed for settled results
+function maxAgeFor(status: LinkStatus, maxAgeMs: number): number {
+  return status === 'unreachable' ? Math.min(maxAgeMs, UNREACHABLE_MAX_AGE_MS) : maxAgeMs;
+}
+
+// Requests in flight at once, and links checked per analysis
+const LINK_CHECK_CONCURRENCY = 6;
+const MAX_LINKS_PER_ANALYSIS = 80;
+
+// Some sites reject HEAD (or answer it differently) but serve GET fine
+const RETRY_WITH_GET_STATUSES = new Set([403, 404, 405, 501]);
+
+// Redirect targets that mean the content is behind a login or subscription
+const PAYWALL_PATH_PATTERN = /(?:^|[/._-])(?:login|log-in|signin|sign-in|subscribe|subscription|paywall|register|registration)(?:$|[/._?-])/i;
+
+const LINK_CHECK_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (compatible; AccountSignal link checker)',
+  Accept: 'text/html,application/xhtml+xml,application/pdf;q=0.9,*/*;q=0.8'
+};
+
+// Redirects followed before a link counts as unreachable
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local (cloud metadata), carrier-grade NAT,
+// multicast and reserved ranges. Links come from models and search results,
+// so the server must not be pointed at its own network through them.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Throw unless a URL is http(s) and its host resolves only to public
+ * addresses
+ */
+export async function assertPublicHttpUrl(url: string): Promise<void> {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new Error(`Refusing to fetch ${protocol} URL`);
+  }
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true, verbatim: true });
+  if (addresses.length === 0 || addresses.some(({ address, family }) => PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'))) {
+    throw new Error(`Refusing to fetch ${hostname}: not a public address`);
+  }
+}
+
+/**
+ * Default fetcher, using fetch. Redirects are followed one at a time so
+ * every hop can be checked against private addresses. The body of GET
+ * responses is discarded.
+ */
+export const fetchLink: LinkFetcher = async (url, { method, signal }) => {
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicHttpUrl(current);
+    const response = await fetch(current, { method, signal, redirect: 'manual', headers: LINK_CHECK_HEADERS });
+    await response.body?.cancel().catch(() => {});
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { status: response.status, url: current, contentType: response.headers.get('content-type') };
+    }
+    if (redirects === MAX_REDIRECTS) {
+      throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+    }
+    current = new URL(location, current).toString();
+  }
+};
+
+/**
+ * Fetcher for mock mode: answers from the company's fixture without network
+ * access. Links the fixture doesn't list are healthy HTML pages.
+ */
+export function createMockLinkFetcher(companyName: string): LinkFetcher {
+  const links = getMockFixture(companyName).links || {};
+  return async url => {
+    const link = links[url];
+    return { status: link?.status || 200, url: link?.finalUrl || url, contentType: link?.contentType || 'text/html' };
+  };
+}
+
+/**
+ * Status of a link from its final response. A deep link redirected to the
+ * site's home page is counted as dead, as that is how many sites answer for
+ * removed articles.
+ */
+export function classifyLinkResponse(requestedUrl: string, response: LinkFetchResponse): LinkStatus {
+  const { status } = response;
+  if (status === 401 || status === 402) return 'paywall';
+  if (status === 403 || status === 429 || status >= 500) return 'unreachable';
+  if (status >= 400) return 'dead';
+
+  try {
+    const requested = new URL(requestedUrl);
+    const final = new URL(response.url);
+    if (final.href === requested.href) return 'ok';
+    if (PAYWALL_PATH_PATTERN.test(final.pathname + final.search) && !PAYWALL_PATH_PATTERN.test(requested.pathname + requested.search)) {
+      return 'paywall';
+    }
+    if (final.pathname === '/' && requested.pathname !== '/') return 'dead';
+  } catch {
+    // Unparseable redirect target; judge by status alone
+  }
+  return 'ok';
+}
+
+/**
+ * Check one link with HEAD, falling back to GET where HEAD is refused.
+ * Never throws: timeouts and network errors come back as 'unreachable'.
+ */
+export async function checkLink(url: string, options: LinkCheckOptions = {}): Promise<LinkCheck> {
+  const { fetcher = fetchLink, timeoutMs = LINK_CHECK_TIMEOUT_MS } = options;
+  const checkedAt = new Date().toISOString();
+
+  const request = (method: 'HEAD' | 'GET') => fetcher(url, { method, signal: withTimeout(options.signal, timeoutMs) });
+  let response: LinkFetchResponse;
+  try {
+    response = await request('HEAD').catch(err => {
+      if (options.signal?.aborted) throw err;
+      return request('GET');
+    });
+    if (RETRY_WITH_GET_STATUSES.has(response.status)) {
+      response = await request('GET');
+    }
+  } catch {
+    return { status: 'unreachable', checkedAt };
+  }
+
+  return {
+    status: classifyLinkResponse(url, response),
+    httpStatus: response.status,
+    finalUrl: response.url !== url ? response.url : undefined,
+    contentType: response.contentType || undefined,
+    checkedAt
+  };
+}
+
+/**
+ * Check links a few at a time. Once `signal` aborts no more checks start,
+ * and links not fully checked by then are left out.
+ */
+export async function checkLinks(urls: string[], options: LinkCheckOptions = {}): Promise<Record<string, LinkCheck>> {
+  const results: Record<string, LinkCheck> = {};
+  const queue = [...new Set(urls)];
+
+  const worker = async () => {
+    for (let url = queue.shift(); url && !options.signal?.aborted; url = queue.shift()) {
+      const check = await checkLink(url, options);
+      // A check cut short by the caller says nothing about the link
+      if (!options.signal?.aborted) results[url] = check;
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(LINK_CHECK_CONCURRENCY, queue.length) }, worker));
+  return results;
+}
+
+/**
+ * Every linked URL in an analysis, section links first
+ */
+export function collectAnalysisUrls(analysis: AnalysisResult): string[] {
+  const urls = [
+    ...analysis.techNews.map(n => n.url),
+    ...analysis.caseStudies.map(c => c.url),
+    ...analysis.investorDocs.map(d => d.url),
+    ...analysis.leadershipChanges.map(c => c.url),
+    ...analysis.regulatoryEvents.flatMap(e => [e.url, ...(e.sources || []).map(s => s.url)]),
+    ...analysis.regulatoryLandscape.map(r => r.url),
+    ...analysis.competitorMentions.map(m => m.url),
+    ...(analysis.communicationsStack || []).map(c => c.url),
+    ...(analysis.buyerPersonas || []).map(p => p.url),
+    ...(analysis.customAnswers || []).flatMap(a => a.sources),
+    ...analysis.sources
+  ];
+  return [...new Set(urls.filter((url): url is string => !!url && isValidHttpUrl(url)))];
+}
+
+interface LinkCheckRow {
+  url: string;
+  status: LinkStatus;
+  http_status: number | null;
+  final_url: string | null;
+  content_type: string | null;
+  checked_at: string;
+}
+
+/**
+ * Cached results for the given URLs checked within `maxAgeMs`, or within
+ * the last hour for unreachable links
+ */
+export async function getCachedLinkChecks(
+  supabase: SupabaseClient,
+  urls: string[],
+  maxAgeMs: number = LINK_CHECK_MAX_AGE_MS
+): Promise<Record<string, LinkCheck>> {
+  if (urls.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('link_checks')
+    .select('url, status, http_status, final_url, content_type, checked_at')
+    .in('url', urls)
+    .gte('checked_at', new Date(Date.now() - maxAgeMs).toISOString());
+
+  if (error) {
+    throw new Error(`Failed to load link checks: ${error.message}`);
+  }
+
+  const now = Date.now();
+  const rows = (data as LinkCheckRow[] || [])
+    .filter(row => new Date(row.checked_at).getTime() >= now - maxAgeFor(row.status, maxAgeMs));
+  return Object.fromEntries(rows.map(row => [row.url, {
+    status: row.status,
+    httpStatus: row.http_status ?? undefined,
+    finalUrl: row.final_url ?? undefined,
+    contentType: row.content_type ?? undefined,
+    checkedAt: row.checked_at
+  }]));
+}
+
+export async function saveLinkChecks(supabase: SupabaseClient, checks: Record<string, LinkCheck>): Promise<void> {
+  const rows: LinkCheckRow[] = Object.entries(checks).map(([url, check]) => ({
+    url,
+    status: check.status,
+    http_status: check.httpStatus ?? null,
+    final_url: check.finalUrl ?? null,
+    content_type: check.contentType ?? null,
+    checked_at: check.checkedAt
+  }));
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from('link_checks').upsert(rows, { onConflict: 'url' });
+  if (error) {
+    throw new Error(`Failed to save link checks: ${error.message}`);
+  }
+}
+
+/**
+ * Link health for the URLs in an analysis, reusing cached results newer
+ * than `maxAgeMs` and caching the rest. Cache failures are logged, not
+ * thrown; the links are then checked afresh.
+ */
+export async function checkAnalysisLinks(
+  supabase: SupabaseClient,
+  analysis: AnalysisResult,
+  options: LinkCheckOptions & { maxAgeMs?: number } = {}
+): Promise<Record<string, LinkCheck>> {
+  const urls = collectAnalysisUrls(analysis).slice(0, MAX_LINKS_PER_ANALYSIS);
+
+  const cached = await getCachedLinkChecks(supabase, urls, options.maxAgeMs).catch(err => {
+    console.warn('Link check cache unavailable:', err instanceof Error ? err.message : err);
+    return {} as Record<string, LinkCheck>;
+  });
+  const fresh = await checkLinks(urls.filter(url => !cached[url]), { ...options, signal: withTimeout(options.signal, LINK_CHECK_BUDGET_MS) });
+  await saveLinkChecks(supabase, fresh).catch(err => {
+    console.warn('Failed to cache link checks:', err instanceof Error ? err.message : err);
+  });
+
+  return { ...cached, ...fresh };
+}
+
+/**
+ * Whether an analysis' links were never checked, or any check is older than
+ * `maxAgeMs` (an hour for unreachable links)
+ */
+export function hasStaleLinkHealth(analysis: AnalysisResult, maxAgeMs: number = LINK_CHECK_MAX_AGE_MS): boolean {
+  const checks = Object.values(analysis.linkHealth || {});
+  if (checks.length === 0) return collectAnalysisUrls(analysis).length > 0;
+  const now = Date.now();
+  return checks.some(c => {
+    const checkedAt = new Date(c.checkedAt).getTime();
+    return Number.isNaN(checkedAt) || checkedAt < now - maxAgeFor(c.status, maxAgeMs);
+  });
+}
+
+// Cached analyses looked at per re-check, most recently updated first
+const STALE_SCAN_LIMIT = 200;
+
+export interface LinkRecheckSummary {
+  rechecked: number; // Analyses whose link health was updated
+  deadLinks: number; // Dead or paywalled links found in them
+  remaining: number; // Stale analyses left for another run
+}
+
+/**
+ * Re-check the links of cached analyses whose link health is missing or
+ * older than `maxAgeMs`, up to `limit` analyses per call. Link results
+ * cached within `maxAgeMs` are reused.
+ */
+export async function recheckStaleAnalyses(
+  supabase: SupabaseClient,
+  { maxAgeMs = LINK_CHECK_MAX_AGE_MS, limit = 5, fetcherFor }: { maxAgeMs?: number; limit?: number; fetcherFor?: (companyName: string) => LinkFetcher } = {}
+): Promise<LinkRecheckSummary> {
+  const { data, error } = await supabase
+    .from('company_analyses')
+    .select('id, company_name, analysis_data')
+    .order('updated_at', { ascending: false })
+    .limit(STALE_SCAN_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to load cached analyses: ${error.message}`);
+  }
+
+  const stale = (data as { id: string; company_name: string; analysis_data: AnalysisResult }[] || [])
+    .filter(row => hasStaleLinkHealth(row.analysis_data, maxAgeMs));
+
+  let deadLinks = 0;
+  for (const row of stale.slice(0, limit)) {
+    const linkHealth = await checkAnalysisLinks(supabase, row.analysis_data, { maxAgeMs, fetcher: fetcherFor?.(row.company_name) });
+    deadLinks += Object.values(linkHealth).filter(check => check.status === 'dead' || check.status === 'paywall').length;
+
+    const { error: updateError } = await supabase
+      .from('company_analyses')
+      .update({ analysis_data: { ...row.analysis_data, linkHealth } })
+      .eq('id', row.id);
+    if (updateError) {
+      throw new Error(`Failed to save link health for ${row.company_name}: ${updateError.message}`);
+    }
+  }
+
+  return { rechecked: Math.min(stale.length, limit), deadLinks, remaining: Math.max(stale.length - limit, 0) };
+}
@@ -0,0 +1,68 @@
+// Offline stand-in for Tavily, returning canned results from the mock
+// fixtures. Results go through the same filtering and regulatory event
+// extraction as live Tavily results.
+
+import { getMockFixture } from '@/lib/mock/fixtures';
+import {
+  TavilySearchResult,
+  RegulatoryEvent,
+  filterCompanyNewsResults,
+  filterLeadershipResults,
+  extractRegulatoryEvents
+} from '@/lib/services/tavilySearch';
+import { findMentionedVendor } from '@/lib/services/competitorVendors';
+import { findMentionedPlatforms } from '@/lib/services/communicationPlatforms';
+import { CompetitorVendor } from '@/types/analysis';
+
+export async function mockSearchCompanyNews(companyName: string): Promise<TavilySearchResult[]> {
+  return filterCompanyNewsResults(getMockFixture(companyName).search.news, companyName);
+}
+
+export async function mockSearchCaseStudies(companyName: string): Promise<TavilySearchResult[]> {
+  return getMockFixture(companyName).search.caseStudies;
+}
+
+export async function mockSearchInvestorDocs(companyName: string): Promise<TavilySearchResult[]> {
+  return getMockFixture(companyName).search.investorDocs;
+}
+
+export async function mockSearchLeadershipChanges(companyName: string): Promise<TavilySearchResult[]> {
+  return filterLeadershipResults(getMockFixture(companyName).search.leadershipChanges);
+}
+
+export async function mockSearchRegulatoryEvents(companyName: string): Promise<RegulatoryEvent[]> {
+  return extractRegulatoryEvents(getMockFixture(companyName).search.regulatory, companyName);
+}
+
+/**
+ * Canned competitor search results that name at least one of the competitors
+ */
+export async function mockConsolidatedCompetitorSearch(
+  companyName: string,
+  competitors: CompetitorVendor[]
+): Promise<{ title: string; url: string; content: string }[]> {
+  return getMockFixture(companyName).search.competitors
+    .filter(r => findMentionedVendor(`${r.title} ${r.content}`, competitors))
+    .map(r => ({ title: r.title, url: r.url, content: r.content }));
+}
+
+/**
+ * Canned communications stack search results that name at least one platform
+ */
+export async function mockSearchCommunicationsStack(
+  companyName: string
+): Promise<{ title: string; url: string; content: string; date?: string }[]> {
+  return getMockFixture(companyName).search.communications
+    .filter(r => findMentionedPlatforms(`${r.title} ${r.content}`).length > 0)
+    .map(r => ({ title: r.title, url: r.url, content: r.content, date: r.published_date }));
+}
+
+/**
+ * Canned buyer persona search results
+ */
+export async function mockSearchBuyerPersonas(
+  companyName: string
+): Promise<{ title: string; url: string; content: string; date?: string }[]> {
+  return getMockFixture(companyName).search.personas
+    .map(r => ({ title: r.title, url: r.url, content: r.content, date: r.published_date }));
+}
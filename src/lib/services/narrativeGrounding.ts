@@ -0,0 +1,213 @@
+// Grounding check for the AI narrative: splits the summary, key priorities
+// and growth initiatives into claims and asks a model which retrieved
+// sources back each one. Claims nothing retrieved supports get no citations
+// and are shown as unsupported.
+
+import { AnalysisResult, GroundedClaim, NarrativeGrounding } from '@/types/analysis';
+import { UsageReporter } from '@/lib/ai/usage';
+import { mockGroundingCheck } from '@/lib/ai/providers/mock';
+import { callWithRetry } from '@/lib/services/retry';
+import { ExtractionProviderConfig, DEFAULT_EXTRACTION_MODELS, callExtractionProvider } from '@/lib/services/extractionProvider';
+import { isValidHttpUrl } from '@/lib/utils';
+import type { WebSearchData } from '@/lib/services/analysisPipeline';
+
+// A retrieved source a claim may cite. Sources the provider grounded on
+// without us retrieving them have no content.
+export interface GroundingEvidence {
+  url: string;
+  title: string;
+  content: string;
+}
+
+// Sources shown to the model, and how much of each
+const MAX_EVIDENCE = 40;
+const MAX_EVIDENCE_CONTENT = 300;
+
+// Words ending in a period that don't end a sentence
+const ABBREVIATIONS = new Set(['inc', 'corp', 'co', 'ltd', 'plc', 'llc', 'no', 'vs', 'mr', 'ms', 'dr', 'st', 'e.g', 'i.e', 'u.s', 'u.k']);
+
+type ClaimSection = keyof NarrativeGrounding;
+
+const CLAIM_ID_PREFIXES: Record<ClaimSection, string> = {
+  summary: 's',
+  keyPriorities: 'p',
+  growthInitiatives: 'g'
+};
+
+/**
+ * Split narrative text into sentences, keeping abbreviations such as
+ * "Inc." and initials inside the sentence they belong to
+ */
+export function splitIntoClaims(text: string): string[] {
+  const sentences: string[] = [];
+  let current = '';
+
+  for (const part of text.trim().split(/(?<=[.!?])\s+|(?<=[。！？])/)) {
+    current = current ? `${current} ${part}` : part;
+    const lastWord = current.match(/([\p{L}.]+)\.$/u)?.[1].toLowerCase();
+    if (lastWord && (ABBREVIATIONS.has(lastWord) || /^\p{L}$/u.test(lastWord))) continue;
+    if (current.trim()) sentences.push(current.trim());
+    current = '';
+  }
+  if (current.trim()) sentences.push(current.trim());
+  return sentences;
+}
+
+/**
+ * The retrieved sources claims may cite: web search results with their
+ * snippets, verified extraction results, then any other source URLs
+ */
+export function collectGroundingEvidence(analysis: AnalysisResult, webSearchData?: WebSearchData | null): GroundingEvidence[] {
+  const candidates: GroundingEvidence[] = [];
+  if (webSearchData) {
+    for (const link of [
+      ...webSearchData.news,
+      ...webSearchData.caseStudies,
+      ...webSearchData.investorDocs,
+      ...webSearchData.investorPresentation,
+      ...webSearchData.info.sources,
+      ...(webSearchData.leadershipChanges || [])
+    ]) {
+      candidates.push({ url: link.url, title: link.title, content: link.description || '' });
+    }
+    for (const event of webSearchData.regulatoryEvents || []) {
+      candidates.push({ url: event.url, title: `${event.regulatoryBody} ${event.eventType}`, content: event.description });
+    }
+  }
+  for (const mention of analysis.competitorMentions || []) {
+    candidates.push({ url: mention.url, title: mention.title, content: mention.summary });
+  }
+  for (const item of analysis.communicationsStack || []) {
+    candidates.push({ url: item.url, title: item.title, content: item.summary });
+  }
+  for (const persona of analysis.buyerPersonas || []) {
+    candidates.push({ url: persona.url, title: persona.name, content: `${persona.name}, ${persona.title}` });
+  }
+  for (const url of analysis.sources || []) {
+    candidates.push({ url, title: '', content: '' });
+  }
+  return uniqueEvidence(candidates);
+}
+
+// First entry per URL wins, so sources with content beat bare URLs
+function uniqueEvidence(candidates: GroundingEvidence[]): GroundingEvidence[] {
+  const byUrl = new Map<string, GroundingEvidence>();
+  for (const candidate of candidates) {
+    if (isValidHttpUrl(candidate.url) && !byUrl.has(candidate.url)) {
+      byUrl.set(candidate.url, candidate);
+    }
+  }
+  return [...byUrl.values()].slice(0, MAX_EVIDENCE);
+}
+
+/**
+ * Evidence for re-checking a saved analysis, whose raw search results
+ * weren't kept: the news, case studies, investor documents and regulatory
+ * events it lists, then the sources collectGroundingEvidence finds
+ */
+export function collectSavedAnalysisEvidence(analysis: AnalysisResult): GroundingEvidence[] {
+  const candidates: GroundingEvidence[] = [];
+  for (const item of [...(analysis.techNews || []), ...(analysis.caseStudies || []), ...(analysis.investorDocs || [])]) {
+    candidates.push({ url: item.url, title: item.title, content: item.summary || '' });
+  }
+  for (const event of analysis.regulatoryEvents || []) {
+    candidates.push({ url: event.url, title: `${event.regulatoryBody} ${event.eventType}`, content: event.description });
+  }
+  return uniqueEvidence([...candidates, ...collectGroundingEvidence(analysis)]);
+}
+
+function collectClaims(analysis: AnalysisResult): Record<ClaimSection, string[]> {
+  return {
+    summary: splitIntoClaims(analysis.summary || ''),
+    keyPriorities: analysis.keyPriorities || [],
+    growthInitiatives: analysis.growthInitiatives || []
+  };
+}
+
+function buildGroundingPrompt(companyName: string, claims: { id: string; text: string }[], evidence: GroundingEvidence[]): string {
+  const claimList = claims.map(c => `${c.id}: ${c.text}`).join('\n');
+  const evidenceList = evidence
+    .map((e, i) => `[${i + 1}] ${e.title ? `${e.title} | ` : ''}URL: ${e.url} | ${e.content ? `Content: ${e.content.substring(0, MAX_EVIDENCE_CONTENT)}` : '(no content retrieved)'}`)
+    .join('\n');
+
+  return `Check which retrieved sources support each claim made about "${companyName}".
+
+CLAIMS:
+${claimList}
+
+RETRIEVED SOURCES:
+${evidenceList}
+
+RULES:
+- A source supports a claim only if its title or content states or directly implies what the claim says
+- Sources with no content retrieved may only be cited if their URL or title alone clearly supports the claim
+- Claims may be in another language than the sources; judge the meaning
+- Do not cite a source for being about the same company only
+- Use an empty list for claims no source supports; never guess
+
+Return ONLY a JSON object mapping every claim ID to the numbers of the sources supporting it:
+{"s1":[2,5],"p1":[],"g1":[3]}`;
+}
+
+function parseGroundingResponse(text: string): Record<string, unknown> {
+  const objectMatch = text.match(/\{[\s\S]*\}/);
+  if (!objectMatch) return {};
+  try {
+    const parsed = JSON.parse(objectMatch[0]);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// Source numbers to URLs, ignoring anything out of range
+function toCitations(value: unknown, evidence: GroundingEvidence[]): string[] {
+  if (!Array.isArray(value)) return [];
+  const urls = value
+    .map(n => (typeof n === 'number' ? n : typeof n === 'string' ? parseInt(n, 10) : NaN))
+    .filter(n => Number.isInteger(n) && n >= 1 && n <= evidence.length)
+    .map(n => evidence[n - 1].url);
+  return [...new Set(urls)];
+}
+
+/**
+ * Link each narrative claim to the retrieved sources that support it.
+ * Returns undefined when there is nothing to check or nothing to check
+ * against; throws on provider errors so the caller can decide whether to
+ * carry on without grounding.
+ */
+export async function checkNarrativeGrounding(
+  companyName: string,
+  analysis: AnalysisResult,
+  evidence: GroundingEvidence[],
+  provider: ExtractionProviderConfig,
+  onUsage?: UsageReporter,
+  signal?: AbortSignal
+): Promise<NarrativeGrounding | undefined> {
+  const claimsBySection = collectClaims(analysis);
+  const sections = Object.keys(CLAIM_ID_PREFIXES) as ClaimSection[];
+  const claims = sections.flatMap(section =>
+    claimsBySection[section].map((text, i) => ({ id: `${CLAIM_ID_PREFIXES[section]}${i + 1}`, text }))
+  );
+  if (claims.length === 0 || evidence.length === 0) return undefined;
+
+  const model = provider.model || DEFAULT_EXTRACTION_MODELS[provider.type];
+  // The mock provider checks offline, by word overlap
+  const { text, usage } = provider.type === 'mock'
+    ? mockGroundingCheck(companyName, claims, evidence)
+    : await callWithRetry(provider.type, provider.apiKey, () => callExtractionProvider(buildGroundingPrompt(companyName, claims, evidence), provider, model, signal), { signal, label: 'Grounding check' });
+  onUsage?.({ call: 'grounding_check', provider: provider.type, model, ...usage });
+
+  const supportedBy = parseGroundingResponse(text);
+  const toClaims = (section: ClaimSection): GroundedClaim[] =>
+    claimsBySection[section].map((claim, i) => ({
+      text: claim,
+      citations: toCitations(supportedBy[`${CLAIM_ID_PREFIXES[section]}${i + 1}`], evidence)
+    }));
+
+  return {
+    summary: toClaims('summary'),
+    keyPriorities: toClaims('keyPriorities'),
+    growthInitiatives: toClaims('growthInitiatives')
+  };
+}
@@ -0,0 +1,272 @@
+// First-touch sales outreach (an email and a LinkedIn note) drafted from a
+// cached analysis. Drafts may only use facts and URLs from the analysis, and
+// are saved in the outreach_drafts table next to it for teammates to reuse.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AnalysisResult, OutputLanguage, OutreachDraft, OutreachLength, OutreachTone } from '@/types/analysis';
+import { UsageReporter } from '@/lib/ai/usage';
+import { mockOutreachDraft } from '@/lib/ai/providers/mock';
+import { callWithRetry } from '@/lib/services/retry';
+import { ExtractionProviderConfig, DEFAULT_EXTRACTION_MODELS, callExtractionProvider } from '@/lib/services/extractionProvider';
+import { OUTPUT_LANGUAGES } from '@/lib/config/languages';
+import { isValidHttpUrl } from '@/lib/utils';
+
+export const OUTREACH_TONES: OutreachTone[] = ['consultative', 'friendly', 'direct'];
+export const OUTREACH_LENGTHS: OutreachLength[] = ['short', 'medium', 'long'];
+
+// LinkedIn's limit for a connection request note
+export const LINKEDIN_NOTE_MAX_LENGTH = 300;
+
+// Most recent drafts returned per company and language; older ones stay in the table
+const MAX_LISTED_DRAFTS = 20;
+
+// Items taken from each section, newest or most relevant first as the analysis lists them
+const MAX_FACTS_PER_SECTION = 4;
+
+const TONE_GUIDES: Record<OutreachTone, string> = {
+  consultative: 'consultative and credible, like a peer who knows communications compliance',
+  friendly: 'warm and conversational, without being casual about compliance',
+  direct: 'direct and brief, getting to the point in the first sentence'
+};
+
+const LENGTH_GUIDES: Record<OutreachLength, string> = {
+  short: 'under 80 words',
+  medium: '80 to 150 words',
+  long: '150 to 220 words'
+};
+
+// A fact the drafts may use, with the analysis URL backing it if there is one
+export interface OutreachFact {
+  text: string;
+  url?: string;
+}
+
+interface OutreachDraftRow {
+  id: string;
+  created_at: string;
+  created_by_email: string | null;
+  tone: OutreachTone;
+  length: OutreachLength;
+  email_subject: string;
+  email_body: string;
+  linkedin_note: string;
+  citations: string[] | null;
+}
+
+// Where a draft is saved: the cached analysis it was drafted from
+export interface OutreachDraftTarget {
+  entityKey: string;
+  language: OutputLanguage;
+  companyName: string;
+}
+
+export type GeneratedOutreach = Pick<OutreachDraft, 'tone' | 'length' | 'emailSubject' | 'emailBody' | 'linkedinNote' | 'citations'>;
+
+export function isOutreachTone(value: unknown): value is OutreachTone {
+  return OUTREACH_TONES.includes(value as OutreachTone);
+}
+
+export function isOutreachLength(value: unknown): value is OutreachLength {
+  return OUTREACH_LENGTHS.includes(value as OutreachLength);
+}
+
+function withUrl(text: string, url?: string): OutreachFact {
+  return url && isValidHttpUrl(url) ? { text, url } : { text };
+}
+
+/**
+ * The regulators, enforcement actions, leadership changes and technology
+ * news in an analysis, as facts the drafts are allowed to use
+ */
+export function collectOutreachFacts(analysis: AnalysisResult): OutreachFact[] {
+  const regulators = (analysis.regulatoryLandscape || []).slice(0, MAX_FACTS_PER_SECTION)
+    .map(r => withUrl(`Regulated by ${r.body}: ${r.context}`, r.url));
+  const events = (analysis.regulatoryEvents || []).slice(0, MAX_FACTS_PER_SECTION)
+    .map(e => withUrl(`${e.date} ${e.regulatoryBody} ${e.eventType}${e.amount ? ` (${e.amount})` : ''}: ${e.description}`, e.url));
+  const leadership = (analysis.leadershipChanges || []).slice(0, MAX_FACTS_PER_SECTION)
+    .map(c => withUrl(`${c.name} ${c.changeType.replace('_', ' ')} as ${c.role}${c.date ? ` (${c.date})` : ''}`, c.url));
+  const news = (analysis.techNews || []).slice(0, MAX_FACTS_PER_SECTION)
+    .map(n => withUrl(`${n.title}${n.date ? ` (${n.date})` : ''}${n.summary ? `: ${n.summary}` : ''}`, n.url));
+  return [...regulators, ...events, ...leadership, ...news];
+}
+
+function buildOutreachPrompt(
+  companyName: string,
+  facts: OutreachFact[],
+  tone: OutreachTone,
+  length: OutreachLength,
+  language: OutputLanguage
+): string {
+  const factList = facts
+    .map((f, i) => `[${i + 1}] ${f.text}${f.url ? ` | URL: ${f.url}` : ''}`)
+    .join('\n');
+
+  return `Write a personalized first-touch sales email and a LinkedIn connection note to a compliance or IT leader at "${companyName}" on behalf of Theta Lake.
+
+ABOUT THETA LAKE: Theta Lake captures, archives and supervises video, voice, chat and document communications on collaboration platforms such as Zoom, Microsoft Teams, Webex, Slack and RingCentral, using AI to flag compliance risks so regulated firms can meet recordkeeping and supervision rules (SEC 17a-4, FINRA 3110, MiFID II and similar).
+
+FACTS ABOUT ${companyName.toUpperCase()} (the only facts you may use):
+${factList}
+
+RULES:
+- Tie one or two of the facts above (regulators, enforcement actions, leadership changes, technology news) to Theta Lake's value
+- Do not state any fact about "${companyName}" that is not listed above, and do not invent names, numbers or dates
+- Only use URLs listed above, copied exactly; list the ones you drew on in "citations"
+- Tone: ${TONE_GUIDES[tone]}
+- Email body length: ${LENGTH_GUIDES[length]}, ending with a soft call to action
+- LinkedIn note: at most ${LINKEDIN_NOTE_MAX_LENGTH} characters
+- Write both drafts in ${OUTPUT_LANGUAGES[language].name}
+- Use [First name] as a placeholder for the recipient's name
+
+Return ONLY a JSON object:
+{"emailSubject":"...","emailBody":"...","linkedinNote":"...","citations":["..."]}`;
+}
+
+function parseOutreachResponse(text: string): Partial<Record<'emailSubject' | 'emailBody' | 'linkedinNote', unknown>> & { citations?: unknown } {
+  const objectMatch = text.match(/\{[\s\S]*\}/);
+  if (!objectMatch) return {};
+  try {
+    const parsed = JSON.parse(objectMatch[0]);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// Drop any URL the model added that isn't one of the analysis URLs
+function removeUnknownUrls(text: string, allowed: Set<string>): string {
+  return text
+    .replace(/https?:\/\/[^\s)\]>"']+/g, url => {
+      const trimmed = url.replace(/[.,;:!?]+$/, '');
+      return allowed.has(trimmed) ? url : url.slice(trimmed.length);
+    })
+    .replace(/\(\s*\)/g, '')
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+}
+
+// Cut at the last whole word that fits, leaving room for an ellipsis
+function truncateNote(note: string): string {
+  if (note.length <= LINKEDIN_NOTE_MAX_LENGTH) return note;
+  const cut = note.slice(0, LINKEDIN_NOTE_MAX_LENGTH - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+/**
+ * Draft an outreach email and LinkedIn note from an analysis. URLs are
+ * constrained to those in the analysis; throws if the model returns no
+ * usable draft.
+ */
+export async function generateOutreachDraft(
+  companyName: string,
+  analysis: AnalysisResult,
+  { tone, length }: { tone: OutreachTone; length: OutreachLength },
+  provider: ExtractionProviderConfig,
+  onUsage?: UsageReporter,
+  signal?: AbortSignal
+): Promise<GeneratedOutreach> {
+  const facts = collectOutreachFacts(analysis);
+  if (facts.length === 0) {
+    throw new Error('The analysis has no regulatory, leadership or technology news to build outreach on');
+  }
+
+  const model = provider.model || DEFAULT_EXTRACTION_MODELS[provider.type];
+  const prompt = buildOutreachPrompt(companyName, facts, tone, length, analysis.language || 'en');
+  // The mock provider drafts offline, straight from the facts
+  const { text, usage } = provider.type === 'mock'
+    ? mockOutreachDraft(companyName, facts, tone)
+    : await callWithRetry(provider.type, provider.apiKey, () => callExtractionProvider(prompt, provider, model, signal), { signal, label: 'Outreach draft' });
+  onUsage?.({ call: 'outreach_draft', provider: provider.type, model, ...usage });
+
+  const parsed = parseOutreachResponse(text);
+  const allowedUrls = new Set(facts.flatMap(f => (f.url ? [f.url] : [])));
+  const emailBody = typeof parsed.emailBody === 'string' ? removeUnknownUrls(parsed.emailBody, allowedUrls) : '';
+  if (!emailBody) {
+    throw new Error('The AI did not return an outreach draft');
+  }
+
+  const citations = Array.isArray(parsed.citations)
+    ? [...new Set(parsed.citations.filter((url): url is string => typeof url === 'string' && allowedUrls.has(url)))]
+    : [];
+  return {
+    tone,
+    length,
+    emailSubject: typeof parsed.emailSubject === 'string' ? parsed.emailSubject.trim() : '',
+    emailBody,
+    linkedinNote: typeof parsed.linkedinNote === 'string' ? truncateNote(removeUnknownUrls(parsed.linkedinNote, allowedUrls)) : '',
+    citations
+  };
+}
+
+function toOutreachDraft(row: OutreachDraftRow): OutreachDraft {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    createdBy: row.created_by_email || undefined,
+    tone: row.tone,
+    length: row.length,
+    emailSubject: row.email_subject,
+    emailBody: row.email_body,
+    linkedinNote: row.linkedin_note,
+    citations: row.citations || []
+  };
+}
+
+/**
+ * Saved drafts for an analysis, newest first
+ */
+export async function listOutreachDrafts(supabase: SupabaseClient, target: Omit<OutreachDraftTarget, 'companyName'>): Promise<OutreachDraft[]> {
+  const { data, error } = await supabase
+    .from('outreach_drafts')
+    .select('id, created_at, created_by_email, tone, length, email_subject, email_body, linkedin_note, citations')
+    .eq('entity_key', target.entityKey)
+    .eq('language', target.language)
+    .order('created_at', { ascending: false })
+    .limit(MAX_LISTED_DRAFTS);
+
+  if (error) throw new Error(`Failed to load outreach drafts: ${error.message}`);
+  return ((data || []) as OutreachDraftRow[]).map(toOutreachDraft);
+}
+
+export async function saveOutreachDraft(
+  supabase: SupabaseClient,
+  target: OutreachDraftTarget,
+  draft: GeneratedOutreach,
+  user: { id: string; email?: string }
+): Promise<OutreachDraft> {
+  const { data, error } = await supabase
+    .from('outreach_drafts')
+    .insert({
+      entity_key: target.entityKey,
+      language: target.language,
+      company_name: target.companyName,
+      created_by: user.id,
+      created_by_email: user.email || null,
+      tone: draft.tone,
+      length: draft.length,
+      email_subject: draft.emailSubject,
+      email_body: draft.emailBody,
+      linkedin_note: draft.linkedinNote,
+      citations: draft.citations
+    })
+    .select('id, created_at, created_by_email, tone, length, email_subject, email_body, linkedin_note, citations')
+    .single();
+
+  if (error) throw new Error(`Failed to save outreach draft: ${error.message}`);
+  return toOutreachDraft(data as OutreachDraftRow);
+}
+
+/**
+ * Delete a draft. Row-level security limits this to the draft's author and admins.
+ */
+export async function deleteOutreachDraft(supabase: SupabaseClient, id: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('outreach_drafts')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) throw new Error(`Failed to delete outreach draft: ${error.message}`);
+  if (!data || data.length === 0) throw new Error('Outreach draft not found');
+}
@@ -0,0 +1,143 @@
+import { FitScoreWeights, ProviderModelSetting, ProviderName, PROVIDER_INFO, RecencyWindows, SourceDomainTiers } from '@/types/analysis';
+import { ProviderCandidate } from '@/lib/ai/failover';
+
+// Type for server settings stored in app_settings
+export interface ServerSettings {
+  default_provider: string;
+  openai_api_key: string | null;
+  anthropic_api_key: string | null;
+  gemini_api_key: string | null;
+  perplexity_api_key: string | null;
+  openai_model: string;
+  anthropic_model: string;
+  gemini_model: string;
+  perplexity_model: string;
+  selfhosted_api_key: string | null;
+  selfhosted_model: string | null;
+  selfhosted_base_url: string | null;
+  web_search_provider: string;
+  tavily_api_key: string | null;
+  websearchapi_key: string | null;
+  failover_providers: ProviderModelSetting[] | null;
+  consensus_provider: ProviderModelSetting | null;
+  research_questions: string[] | null;
+  fit_score_weights: Partial<FitScoreWeights> | null; // Null until an admin sets weights
+  source_domain_tiers: Partial<SourceDomainTiers> | null; // Null until an admin edits tiers
+  recency_windows: Partial<RecencyWindows> | null; // Null until an admin sets windows
+}
+
+// Placeholder key for the mock provider, which needs none
+export const MOCK_API_KEY = 'mock';
+
+// Sent to self-hosted servers configured without a key; Ollama and vLLM
+// don't check one by default, but the OpenAI client won't run without it
+export const SELFHOSTED_NO_API_KEY = 'none';
+
+/**
+ * Whether MOCK_PROVIDERS=true forces the mock AI and search providers,
+ * whatever app_settings says. Lets the whole analysis flow run locally with
+ * no keys and no network.
+ */
+export function isMockModeEnabled(): boolean {
+  return process.env.MOCK_PROVIDERS === 'true';
+}
+
+/**
+ * Get API key for a provider from settings
+ */
+export function getProviderApiKey(settings: ServerSettings, provider: ProviderName): string | null {
+  switch (provider) {
+    case 'openai': return settings.openai_api_key;
+    case 'anthropic': return settings.anthropic_api_key;
+    case 'gemini': return settings.gemini_api_key;
+    case 'perplexity': return settings.perplexity_api_key;
+    // Unusable without a server URL, but the key is optional
+    case 'selfhosted': return settings.selfhosted_base_url ? settings.selfhosted_api_key?.trim() || SELFHOSTED_NO_API_KEY : null;
+    case 'mock': return MOCK_API_KEY;
+    default: return null;
+  }
+}
+
+/**
+ * Validate model belongs to provider, return default if not
+ */
+export function validateModelForProvider(model: string | undefined, provider: ProviderName): string {
+  const providerInfo = PROVIDER_INFO[provider];
+
+  // Free-form model ids can't be checked against a list
+  if (providerInfo.customModel) {
+    return model?.trim() || providerInfo.defaultModel;
+  }
+  const validModels = providerInfo.models.map(m => m.id);
+
+  if (model && validModels.includes(model)) {
+    return model;
+  }
+  // Model doesn't belong to this provider, use default
+  return providerInfo.defaultModel;
+}
+
+/**
+ * Get model for a provider from settings
+ */
+export function getProviderModel(settings: ServerSettings, provider: ProviderName): string {
+  let model: string | undefined;
+  switch (provider) {
+    case 'openai': model = settings.openai_model; break;
+    case 'anthropic': model = settings.anthropic_model; break;
+    case 'gemini': model = settings.gemini_model; break;
+    case 'perplexity': model = settings.perplexity_model; break;
+    case 'selfhosted': model = settings.selfhosted_model || undefined; break;
+  }
+  return validateModelForProvider(model, provider);
+}
+
+/**
+ * Get the server URL for providers that need one (self-hosted only)
+ */
+export function getProviderBaseUrl(settings: ServerSettings, provider: ProviderName): string | undefined {
+  return provider === 'selfhosted' ? settings.selfhosted_base_url || undefined : undefined;
+}
+
+/**
+ * Build the failover chain to try after the primary provider. Entries
+ * without a configured API key, or for the primary provider itself, are
+ * skipped.
+ */
+export function getFailoverCandidates(settings: ServerSettings, primary: ProviderName): ProviderCandidate[] {
+  const candidates: ProviderCandidate[] = [];
+  for (const entry of settings.failover_providers || []) {
+    if (!PROVIDER_INFO[entry.provider] || entry.provider === primary) continue;
+    if (candidates.some(c => c.provider === entry.provider)) continue;
+
+    const apiKey = getProviderApiKey(settings, entry.provider);
+    if (!apiKey) continue;
+
+    candidates.push({
+      provider: entry.provider,
+      apiKey,
+      model: entry.model ? validateModelForProvider(entry.model, entry.provider) : getProviderModel(settings, entry.provider),
+      baseUrl: getProviderBaseUrl(settings, entry.provider)
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Get the provider that cross-checks analyses in consensus mode, or null if
+ * consensus mode is off, the provider has no API key or it is the primary
+ */
+export function getConsensusCandidate(settings: ServerSettings, primary: ProviderName): ProviderCandidate | null {
+  const entry = settings.consensus_provider;
+  if (!entry || !PROVIDER_INFO[entry.provider] || entry.provider === primary) return null;
+
+  const apiKey = getProviderApiKey(settings, entry.provider);
+  if (!apiKey) return null;
+
+  return {
+    provider: entry.provider,
+    apiKey,
+    model: entry.model ? validateModelForProvider(entry.model, entry.provider) : getProviderModel(settings, entry.provider),
+    baseUrl: getProviderBaseUrl(settings, entry.provider)
+  };
+}
@@ -0,0 +1,69 @@
+// Extra research questions asked alongside the fixed analysis sections.
+// Admins set questions for everyone in app_settings; users can add their
+// own in preferences. Both are sent to the AI provider together.
+
+import { AnalysisResult, CustomAnswer } from '@/types/analysis';
+
+export const MAX_RESEARCH_QUESTIONS = 5;
+export const MAX_RESEARCH_QUESTION_LENGTH = 300;
+
+function questionKey(question: string): string {
+  return question.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Clean up a list of questions from a request body or settings: trims them,
+ * drops empty, overlong and duplicate ones and keeps the first
+ * MAX_RESEARCH_QUESTIONS
+ */
+export function normalizeResearchQuestions(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const questions: string[] = [];
+
+  for (const item of value) {
+    if (typeof item !== 'string') continue;
+    const question = item.replace(/\s+/g, ' ').trim();
+    const key = questionKey(question);
+    if (!question || question.length > MAX_RESEARCH_QUESTION_LENGTH || seen.has(key)) continue;
+    seen.add(key);
+    questions.push(question);
+    if (questions.length === MAX_RESEARCH_QUESTIONS) break;
+  }
+  return questions;
+}
+
+/**
+ * Read the user's questions as saved in preferences (a JSON array in
+ * localStorage). Anything unreadable counts as no questions.
+ */
+export function parseStoredResearchQuestions(stored: string | null): string[] {
+  if (!stored) return [];
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Questions for an analysis: the admin's first, then the user's
+ */
+export function mergeResearchQuestions(adminQuestions: unknown, userQuestions: unknown): string[] {
+  return normalizeResearchQuestions([
+    ...normalizeResearchQuestions(adminQuestions),
+    ...normalizeResearchQuestions(userQuestions)
+  ]);
+}
+
+/**
+ * Answers a cached analysis holds for these questions, in the order asked,
+ * or null if any question is unanswered and a fresh analysis is needed.
+ * Answers to questions not asked this time are left out.
+ */
+export function findCustomAnswers(analysis: AnalysisResult, questions: string[]): CustomAnswer[] | null {
+  const answers = new Map((analysis.customAnswers || []).map(answer => [questionKey(answer.question), answer]));
+  const found = questions.map(question => answers.get(questionKey(question)));
+  return found.every((answer): answer is CustomAnswer => answer !== undefined) ? found : null;
+}
@@ -0,0 +1,191 @@
+// Shared retry and rate limiting for search and AI provider calls. Each
+// provider/key pair gets a concurrency limiter, and retryable failures
+// (rate limits, overloads, 5xx, dropped connections) are retried with
+// exponential backoff and jitter, honoring Retry-After when the server sends it.
+
+export interface RetryOptions {
+  retries?: number; // Retries after the first attempt
+  baseDelayMs?: number; // Delay before the first retry, doubled for each one after
+  maxDelayMs?: number; // Cap on the backoff; a longer Retry-After gives up instead of waiting
+  signal?: AbortSignal; // Stops retrying (and waiting) when aborted
+  label?: string; // Used in log messages
+}
+
+const DEFAULT_RETRY_OPTIONS = { retries: 2, baseDelayMs: 1000, maxDelayMs: 20000 };
+
+// Concurrent calls allowed per provider and key. Fan-outs beyond this queue.
+const CONCURRENCY_LIMITS: Record<string, number> = {
+  tavily: 5,
+  websearchapi: 5,
+  anthropic: 4,
+  openai: 4,
+  gemini: 4,
+  perplexity: 4,
+  selfhosted: 2
+};
+const DEFAULT_CONCURRENCY_LIMIT = 4;
+
+const RETRYABLE_NETWORK_ERROR_PATTERN = /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|fetch failed|connection error/i;
+
+/**
+ * Error for a failed HTTP response that keeps the status and headers, so
+ * the retry layer can tell retryable errors apart and read Retry-After
+ */
+export function responseError(message: string, response: Response): Error {
+  return Object.assign(new Error(message), { status: response.status, headers: response.headers });
+}
+
+/**
+ * Whether a failed call is worth retrying against the same provider: rate
+ * limits, server errors (including Anthropic's 529 overloaded) and dropped
+ * connections. Timeouts are not retried; failover handles those.
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const code = (error as { code?: unknown } | null)?.code;
+  return RETRYABLE_NETWORK_ERROR_PATTERN.test(message) || (typeof code === 'string' && RETRYABLE_NETWORK_ERROR_PATTERN.test(code));
+}
+
+function readHeader(headers: unknown, name: string): string | null {
+  if (!headers || typeof headers !== 'object') return null;
+  if (typeof (headers as Headers).get === 'function') return (headers as Headers).get(name);
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Delay requested by the server through retry-after-ms or Retry-After
+ * (seconds or an HTTP date), or null if it didn't ask for one
+ */
+export function getRetryAfterMs(error: unknown): number | null {
+  const headers = (error as { headers?: unknown } | null)?.headers;
+
+  const retryAfterMs = Number(readHeader(headers, 'retry-after-ms'));
+  if (retryAfterMs > 0) return retryAfterMs;
+
+  const retryAfter = readHeader(headers, 'retry-after');
+  if (!retryAfter) return null;
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with jitter: half the capped delay is fixed, the other
+ * half random, so parallel callers don't retry in lockstep
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return cap / 2 + Math.random() * (cap / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a call, retrying retryable failures with backoff. Gives up early when
+ * the signal aborts or the server asks to wait longer than maxDelayMs.
+ */
+export async function withRetry<T>(call: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const { signal, label = 'Request' } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await call();
+    } catch (err) {
+      if (signal?.aborted || attempt >= retries || !isRetryableError(err)) throw err;
+
+      const retryAfterMs = getRetryAfterMs(err);
+      if (retryAfterMs !== null && retryAfterMs > maxDelayMs) throw err;
+
+      const delayMs = Math.round(retryAfterMs ?? backoffDelay(attempt, baseDelayMs, maxDelayMs));
+      const message = err instanceof Error ? err.message : String(err);
+      console.warn(`${label} failed (${message.substring(0, 100)}), retrying in ${delayMs}ms (${attempt + 1}/${retries})`);
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+type Limiter = <T>(call: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+
+// Runs at most maxConcurrent calls at once; the rest wait in order
+function createLimiter(maxConcurrent: number): Limiter {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  // A finished call hands its slot straight to the next waiting one
+  const release = () => {
+    const next = queue.shift();
+    if (next) next();
+    else active--;
+  };
+
+  const waitForSlot = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const start = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    };
+    const onAbort = () => {
+      queue.splice(queue.indexOf(start), 1);
+      reject(signal!.reason);
+    };
+    queue.push(start);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  return async (call, signal) => {
+    signal?.throwIfAborted();
+    if (active < maxConcurrent) active++;
+    else await waitForSlot(signal);
+
+    try {
+      return await call();
+    } finally {
+      release();
+    }
+  };
+}
+
+const limiters = new Map<string, Limiter>();
+
+function getLimiter(provider: string, apiKey: string): Limiter {
+  const key = `${provider}:${apiKey}`;
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = createLimiter(CONCURRENCY_LIMITS[provider] || DEFAULT_CONCURRENCY_LIMIT);
+    limiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Call a provider under its per-key concurrency limit, retrying retryable
+ * failures. The concurrency slot is released while waiting to retry.
+ */
+export function callWithRetry<T>(
+  provider: string,
+  apiKey: string,
+  call: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const limiter = getLimiter(provider, apiKey);
+  return withRetry(() => limiter(call, options.signal), { label: provider, ...options });
+}
@@ -0,0 +1,269 @@
+import { AnalysisResult } from '@/types/analysis';
+import { UsageRecord, UsageReporter } from '@/lib/ai/usage';
+import { RefreshableSection } from '@/types/api';
+import { searchCompanyNews, searchCompanyCaseStudies, searchInvestorDocuments, searchInvestorPresentation } from '@/lib/services/webSearch';
+import { tavilySearchCompanyNews, tavilySearchCaseStudies, tavilySearchInvestorDocs, tavilySearchLeadershipChanges, tavilySearchRegulatoryEvents, buildCompetitorSearchQueries, buildCommunicationsSearchQueries, buildBuyerPersonaSearchQueries, buildRegulatorySearchQueries } from '@/lib/services/tavilySearch';
+import { mockSearchCompanyNews, mockSearchCaseStudies, mockSearchInvestorDocs, mockSearchLeadershipChanges, mockSearchRegulatoryEvents } from '@/lib/services/mockSearch';
+import { claudeSearchCompanyNews, claudeSearchCaseStudies, claudeSearchInvestorDocs, claudeSearchInvestorPresentation, claudeSearchLeadershipChanges, claudeSearchRegulatoryEvents } from '@/lib/services/claudeSearch';
+import {
+  AnalysisPipelineOptions,
+  SearchProviderName,
+  WebSearchLink,
+  SEARCH_PROVIDER_LABELS,
+  resolveSearchProvider,
+  getCredibilityContext,
+  findCompetitorMentions,
+  findCommunicationsStack,
+  findBuyerPersonas,
+  buildTechNews,
+  buildLinkItems,
+  buildInvestorDocs,
+  buildLeadershipChanges,
+  buildRegulatoryEvents
+} from '@/lib/services/analysisPipeline';
+import { withDiscoveredVendors } from '@/lib/services/competitorVendors';
+import { diffBuyerPersonas } from '@/lib/services/buyerPersonas';
+import { computeFitScore } from '@/lib/services/fitScore';
+import { applySourceCredibility } from '@/lib/services/sourceCredibility';
+import { DEFAULT_RECENCY_WINDOWS, applyRecencyWindows, normalizeAnalysisDates } from '@/lib/services/dateNormalization';
+import { importEnforcementActions, mergeEnforcementEvents } from '@/lib/services/enforcementActions';
+import { checkNarrativeGrounding, collectSavedAnalysisEvidence } from '@/lib/services/narrativeGrounding';
+import { isCancelled, isTimedOut, withTimeout } from '@/lib/services/deadline';
+
+// Time allowed for refreshing one section
+const SECTION_REFRESH_TIMEOUT_MS = 90 * 1000;
+
+export interface SectionRefreshResult {
+  analysis: AnalysisResult;
+  searchProvider: SearchProviderName;
+  searchQueriesUsed: number;
+  usage: UsageRecord[]; // Token usage of any LLM calls made (Claude search, competitor, communications and persona extraction, grounding check)
+  durationMs: number;
+}
+
+// Sections WebSearchAPI has no dedicated search for
+const WEBSEARCHAPI_UNSUPPORTED: RefreshableSection[] = ['leadershipChanges', 'regulatoryEvents', 'competitorMentions', 'communicationsStack', 'buyerPersonas'];
+
+/**
+ * Explain why a section can't be refreshed with the given search provider,
+ * or return null if it can
+ */
+export function getSectionRefreshError(section: RefreshableSection, searchProvider: SearchProviderName): string | null {
+  if (searchProvider === 'none') {
+    return 'Web search is not configured for the current provider';
+  }
+  if (searchProvider === 'websearchapi' && WEBSEARCHAPI_UNSUPPORTED.includes(section)) {
+    return `This section can't be refreshed with ${SEARCH_PROVIDER_LABELS[searchProvider]}`;
+  }
+  return null;
+}
+
+async function searchLinks(
+  section: 'techNews' | 'caseStudies' | 'investorDocs' | 'leadershipChanges',
+  companyName: string,
+  searchProvider: Exclude<SearchProviderName, 'none'>,
+  options: AnalysisPipelineOptions,
+  onUsage: UsageReporter,
+  signal: AbortSignal
+): Promise<WebSearchLink[]> {
+  const { apiKey, tavilyApiKey, webSearchApiKey, company } = options;
+
+  // The mock provider returns canned Tavily-shaped results
+  if (searchProvider === 'tavily' || searchProvider === 'mock') {
+    const search = searchProvider === 'mock'
+      ? {
+        techNews: mockSearchCompanyNews,
+        caseStudies: mockSearchCaseStudies,
+        investorDocs: mockSearchInvestorDocs,
+        leadershipChanges: mockSearchLeadershipChanges
+      }[section]
+      : {
+        techNews: tavilySearchCompanyNews,
+        caseStudies: tavilySearchCaseStudies,
+        investorDocs: tavilySearchInvestorDocs,
+        leadershipChanges: tavilySearchLeadershipChanges
+      }[section];
+    const results = await search(companyName, tavilyApiKey!, signal, company);
+    return results.map(r => ({ title: r.title, url: r.url, description: r.content, date: r.published_date }));
+  }
+
+  if (searchProvider === 'claude') {
+    const search = {
+      techNews: claudeSearchCompanyNews,
+      caseStudies: claudeSearchCaseStudies,
+      investorDocs: claudeSearchInvestorDocs,
+      leadershipChanges: claudeSearchLeadershipChanges
+    }[section];
+    const results = await search(companyName, apiKey, onUsage, signal, company);
+    return results.map(r => ({ title: r.title, url: r.url, description: r.content }));
+  }
+
+  const search = {
+    techNews: searchCompanyNews,
+    caseStudies: searchCompanyCaseStudies,
+    investorDocs: searchInvestorDocuments,
+    leadershipChanges: null
+  }[section];
+  if (!search) return [];
+  const results = await search(companyName, webSearchApiKey!, signal, company);
+  return results.map(r => ({ title: r.title, url: r.url, description: r.description, date: r.date || r.publishedDate }));
+}
+
+async function searchInvestorPresentationLinks(
+  companyName: string,
+  searchProvider: Exclude<SearchProviderName, 'none'>,
+  options: AnalysisPipelineOptions,
+  onUsage: UsageReporter,
+  signal: AbortSignal
+): Promise<WebSearchLink[]> {
+  // Tavily has no dedicated investor presentation search
+  if (searchProvider === 'tavily' || searchProvider === 'mock') return [];
+  const results = searchProvider === 'claude'
+    ? (await claudeSearchInvestorPresentation(companyName, options.apiKey, onUsage, signal, options.company)).map(r => ({ title: r.title, url: r.url, description: r.content }))
+    : await searchInvestorPresentation(companyName, options.webSearchApiKey!, signal, options.company);
+  return results.map(r => ({ title: r.title, url: r.url, description: r.description }));
+}
+
+/**
+ * Re-run a single web-backed section of a cached analysis. Only the search
+ * for that section (plus AI extraction for competitor mentions, the
+ * communications stack and buyer personas) is run; the rest of the analysis
+ * is left untouched. Buyer personas are diffed against the ones replaced.
+ * Returns a copy of the analysis with the section replaced and any new URLs
+ * added to sources.
+ * Throws rather than returning a partial section if the refresh times out.
+ */
+export async function refreshSection(
+  section: RefreshableSection,
+  current: AnalysisResult,
+  options: AnalysisPipelineOptions
+): Promise<SectionRefreshResult> {
+  const { companyName } = options;
+  const searchProvider = resolveSearchProvider(options);
+
+  const unavailable = getSectionRefreshError(section, searchProvider);
+  if (unavailable || searchProvider === 'none') {
+    throw new Error(unavailable || 'Web search is not configured');
+  }
+
+  const startTime = Date.now();
+  const analysis: AnalysisResult = { ...current };
+  let newSources: string[] = [];
+  let searchQueriesUsed = 1;
+  const usage: UsageRecord[] = [];
+  const onUsage: UsageReporter = record => usage.push(record);
+  const signal = withTimeout(options.signal, SECTION_REFRESH_TIMEOUT_MS);
+
+  try {
+    switch (section) {
+      case 'techNews': {
+        const news = await searchLinks(section, companyName, searchProvider, options, onUsage, signal);
+        analysis.techNews = buildTechNews(news);
+        newSources = news.map(n => n.url);
+        break;
+      }
+      case 'caseStudies': {
+        const caseStudies = await searchLinks(section, companyName, searchProvider, options, onUsage, signal);
+        analysis.caseStudies = buildLinkItems(caseStudies);
+        newSources = caseStudies.map(c => c.url);
+        break;
+      }
+      case 'investorDocs': {
+        const [investorDocs, investorPresentation] = await Promise.all([
+          searchLinks(section, companyName, searchProvider, options, onUsage, signal),
+          searchInvestorPresentationLinks(companyName, searchProvider, options, onUsage, signal)
+        ]);
+        analysis.investorDocs = buildInvestorDocs(buildLinkItems(investorDocs), investorPresentation);
+        newSources = investorDocs.map(d => d.url);
+        searchQueriesUsed = searchProvider === 'tavily' ? 1 : 2;
+        break;
+      }
+      case 'leadershipChanges': {
+        const articles = await searchLinks(section, companyName, searchProvider, options, onUsage, signal);
+        analysis.leadershipChanges = buildLeadershipChanges(articles, companyName);
+        break;
+      }
+      case 'regulatoryEvents': {
+        const search = searchProvider === 'tavily'
+          ? tavilySearchRegulatoryEvents(companyName, options.tavilyApiKey!, signal, options.company)
+          : searchProvider === 'mock'
+            ? mockSearchRegulatoryEvents(companyName)
+            : claudeSearchRegulatoryEvents(companyName, options.apiKey, onUsage, signal, options.company);
+        const [events, officialEvents] = await Promise.all([
+          search,
+          importEnforcementActions(companyName, options.company, { fetcher: options.enforcementFetcher, signal }).catch(err => {
+            if (isCancelled(signal)) throw err;
+            console.warn('Enforcement action import failed (non-fatal):', err);
+            return [];
+          })
+        ]);
+        analysis.regulatoryEvents = buildRegulatoryEvents(events);
+        mergeEnforcementEvents(analysis, officialEvents, companyName, options.company?.legalNames);
+        newSources = events.map(e => e.url);
+        searchQueriesUsed = searchProvider === 'tavily' ? buildRegulatorySearchQueries(companyName, options.company).length : 1;
+        break;
+      }
+      case 'competitorMentions': {
+        const competitors = withDiscoveredVendors(options.competitorVendors || [], current.discoveredCompetitors);
+        analysis.competitorMentions = await findCompetitorMentions(companyName, competitors, searchProvider, options, onUsage, options, signal);
+        newSources = analysis.competitorMentions.map(c => c.url);
+        searchQueriesUsed = searchProvider === 'tavily' ? buildCompetitorSearchQueries(companyName, competitors, options.company).length : 1;
+        break;
+      }
+      case 'communicationsStack': {
+        analysis.communicationsStack = await findCommunicationsStack(companyName, searchProvider, options, onUsage, options, signal);
+        newSources = analysis.communicationsStack.map(c => c.url);
+        searchQueriesUsed = searchProvider === 'tavily' ? buildCommunicationsSearchQueries(companyName, options.company).length : 1;
+        break;
+      }
+      case 'buyerPersonas': {
+        const found = await findBuyerPersonas(companyName, searchProvider, options, onUsage, options, signal);
+        const { personas, formerPersonas } = diffBuyerPersonas(found, current.buyerPersonas, new Date().toISOString().slice(0, 10));
+        analysis.buyerPersonas = personas;
+        analysis.formerBuyerPersonas = formerPersonas;
+        newSources = personas.map(p => p.url);
+        searchQueriesUsed = searchProvider === 'tavily' ? buildBuyerPersonaSearchQueries(companyName, options.company).length : 1;
+        break;
+      }
+    }
+  } catch (err) {
+    if (isTimedOut(signal)) throw new Error('Section refresh timed out');
+    throw err;
+  }
+
+  // Searches that swallow their own errors return early with partial results
+  if (isTimedOut(signal)) {
+    throw new Error('Section refresh timed out');
+  }
+  signal.throwIfAborted();
+
+  newSources = newSources.filter(Boolean);
+  if (newSources.length > 0) {
+    analysis.sources = [...new Set([...(current.sources || []), ...newSources])];
+  }
+  normalizeAnalysisDates(analysis);
+  applyRecencyWindows(analysis, options.recencyWindows || DEFAULT_RECENCY_WINDOWS);
+  applySourceCredibility(analysis, getCredibilityContext(options));
+  analysis.fitScore = computeFitScore(analysis, options.fitScoreWeights);
+
+  // Re-link the narrative to the sources as they are now. If the check
+  // fails the earlier grounding is kept.
+  const evidence = collectSavedAnalysisEvidence(analysis);
+  if (evidence.some(e => e.content)) {
+    const checker = { type: options.provider, apiKey: options.apiKey, model: options.model, baseUrl: options.baseUrl };
+    try {
+      analysis.grounding = await checkNarrativeGrounding(companyName, analysis, evidence, checker, onUsage, signal);
+    } catch (err) {
+      if (isCancelled(signal)) throw err;
+      console.warn('Grounding check failed (non-fatal):', err);
+    }
+  }
+
+  return {
+    analysis,
+    searchProvider,
+    searchQueriesUsed,
+    usage,
+    durationMs: Date.now() - startTime
+  };
+}
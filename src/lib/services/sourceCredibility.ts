@@ -0,0 +1,328 @@
+// Source credibility: scores the source behind each linked item from its
+// domain tier (admin-edited), the shape of its URL and the content found
+// for it. The URL and content heuristics come from the old anti-hallucination
+// filter; the score no longer drops items, it ranks them.
+
+import { AnalysisResult, SourceCredibility, SourceDomainTiers, SourceTier } from '@/types/analysis';
+import { isValidHttpUrl } from '@/lib/utils';
+
+// Items scoring below this are hidden until the user shows all
+export const LOW_CREDIBILITY_THRESHOLD = 40;
+
+// Domains per tier, most specific listing wins; subdomains share their domain's tier
+export const DEFAULT_SOURCE_DOMAIN_TIERS: SourceDomainTiers = {
+  official: [
+    'sec.gov',
+    'finra.org',
+    'cftc.gov',
+    'federalreserve.gov',
+    'occ.gov',
+    'fdic.gov',
+    'consumerfinance.gov',
+    'nfa.futures.org',
+    'fca.org.uk',
+    'esma.europa.eu'
+  ],
+  trusted: [
+    'reuters.com',
+    'bloomberg.com',
+    'wsj.com',
+    'ft.com',
+    'cnbc.com',
+    'marketwatch.com',
+    'businesswire.com',
+    'prnewswire.com',
+    'globenewswire.com'
+  ],
+  low: [
+    'medium.com',
+    'reddit.com',
+    'quora.com',
+    'pinterest.com',
+    'scribd.com'
+  ]
+};
+
+export const SOURCE_TIERS: Exclude<SourceTier, 'standard'>[] = ['official', 'trusted', 'low'];
+
+const MAX_DOMAINS_PER_TIER = 200;
+
+// Starting score per tier, before URL and content adjustments
+const TIER_BASE_SCORES: Record<SourceTier, number> = {
+  official: 85,
+  trusted: 70,
+  standard: 50,
+  low: 20
+};
+
+// URL and content adjustments range from -50 to +50; this scales them to ±15
+const ADJUSTMENT_WEIGHT = 0.3;
+
+// Points per additional source reporting the same regulatory event, and the cap
+const CORROBORATION_BONUS = 5;
+const MAX_CORROBORATION_BONUS = 15;
+
+// Patterns that indicate generic listing pages
+const LISTING_PAGE_PATTERNS = [
+  /\/customers?\/?$/i,
+  /\/case-stud(y|ies)\/?$/i,
+  /\/partners?\/?$/i,
+  /\/resources?\/?$/i,
+  /\/integrations?\/?$/i,
+  /\/solutions?\/?$/i,
+  /\/testimonials?\/?$/i,
+  /\/(news|blog|press)\/?$/i,
+  /\/industries?\/?$/i,
+  /\/success-stories?\/?$/i
+];
+
+// Phrases typical of marketing copy rather than reporting
+const MARKETING_PHRASES = [
+  'leading provider of',
+  'leading provider in',
+  'trusted by',
+  'helps organizations',
+  'enables companies',
+  'comprehensive solution',
+  'industry-leading',
+  'best-in-class',
+  'world-class',
+  'cutting-edge',
+  'state-of-the-art',
+  'innovative solution',
+  'enterprise-grade',
+  'mission-critical',
+  'next-generation',
+  'seamless integration',
+  'end-to-end',
+  'robust platform',
+  'scalable solution'
+];
+
+// Patterns that indicate grounded, specific content
+const GROUNDING_PATTERNS = {
+  specificDate: /\b(january|february|march|april|may|june|july|august|september|october|november|december)\s+\d{1,2}?,?\s*20\d{2}/i,
+  yearOnly: /\b20[1-3]\d\b/,
+  dollarAmount: /\$[\d,]+(\.\d+)?\s*(million|billion|m|b|k)?/i,
+  directQuote: /"[^"]{15,}"/,
+  executiveAttribution: /\b(CEO|CFO|CTO|COO|CIO|CISO|President|Vice President|VP|Director|Manager)\b[^.]*\b(said|stated|announced|commented|noted|explained)/i,
+  percentageMetric: /\d+(\.\d+)?%/,
+  specificNumber: /\b\d{2,}\s+(customers?|clients?|employees?|users?|companies|organizations)/i
+};
+
+// Scoring context shared by every item in an analysis
+export interface CredibilityContext {
+  tiers: SourceDomainTiers;
+  companyName: string;
+  companyDomain?: string; // The company's own site counts as an official source about it
+}
+
+function normalizeDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/\.$/, '');
+}
+
+function isValidDomain(domain: string): boolean {
+  return /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/.test(domain);
+}
+
+/**
+ * Clean up domain tiers from a request body or settings: domains are
+ * lowercased without protocol, www or path, invalid ones dropped, and a
+ * domain listed in several tiers keeps the first. Missing tiers get the
+ * defaults.
+ */
+export function normalizeSourceDomainTiers(value: unknown): SourceDomainTiers {
+  const input = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const seen = new Set<string>();
+  const tiers = {} as SourceDomainTiers;
+
+  for (const tier of SOURCE_TIERS) {
+    const listed = Array.isArray(input[tier]) ? input[tier] as unknown[] : DEFAULT_SOURCE_DOMAIN_TIERS[tier];
+    tiers[tier] = listed
+      .filter((domain): domain is string => typeof domain === 'string')
+      .map(normalizeDomain)
+      .filter(domain => isValidDomain(domain) && !seen.has(domain) && seen.add(domain))
+      .slice(0, MAX_DOMAINS_PER_TIER);
+  }
+  return tiers;
+}
+
+function matchesDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Tier of a URL's domain. The longest matching listed domain wins, so
+ * "ir.example.com" can be tiered apart from "example.com".
+ */
+export function resolveSourceTier(url: string, context: CredibilityContext): SourceTier {
+  let hostname: string;
+  try {
+    hostname = normalizeDomain(new URL(url).hostname);
+  } catch {
+    return 'low';
+  }
+
+  const companyDomain = context.companyDomain ? normalizeDomain(context.companyDomain) : null;
+  let best: { tier: SourceTier; length: number } | null = companyDomain && matchesDomain(hostname, companyDomain)
+    ? { tier: 'official', length: companyDomain.length }
+    : null;
+  for (const tier of SOURCE_TIERS) {
+    for (const domain of context.tiers[tier]) {
+      if (matchesDomain(hostname, domain) && (!best || domain.length > best.length)) {
+        best = { tier, length: domain.length };
+      }
+    }
+  }
+  return best?.tier || 'standard';
+}
+
+/**
+ * URL shape adjustment, -50 to +50: specific, dated articles and documents
+ * score up; listing, index and tag pages score down
+ */
+export function calculateUrlScore(url: string, companyName?: string): number {
+  try {
+    const path = new URL(url).pathname.toLowerCase();
+    const pathParts = path.split('/').filter(p => p.length > 0);
+
+    if (LISTING_PAGE_PATTERNS.some(pattern => pattern.test(path))) return -50;
+    // Very short paths are likely index pages
+    if (pathParts.length <= 1 && !path.endsWith('.pdf')) return -30;
+
+    let score = 0;
+    if (path.endsWith('.pdf') || path.includes('/documents/') || path.includes('/filings/')) score += 15;
+    // A year in the URL suggests dated content
+    if (/20[1-3]\d/.test(path)) score += 10;
+    // Several segments with a long slug suggest a specific article
+    if (pathParts.length >= 3) {
+      score += pathParts.some(p => p.length > 15) ? 20 : 10;
+    }
+    if (companyName) {
+      const slug = companyName.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      const shortSlug = companyName.toLowerCase().replace(/[^a-z0-9]+/g, '');
+      if (path.includes(slug) || path.includes(shortSlug)) score += 15;
+    }
+    if (path.includes('/category/') || path.includes('/tag/') || path.includes('/page/')) score -= 15;
+
+    return Math.max(-50, Math.min(50, score));
+  } catch {
+    return -50;
+  }
+}
+
+/**
+ * Content adjustment, -50 to +50: dates, amounts, quotes and attributed
+ * statements score up; marketing copy scores down. `relatedName` (e.g. a
+ * competitor) scores up when named close to the company.
+ */
+export function calculateContentScore(content: string, companyName: string, relatedName?: string): number {
+  if (!content || content.length < 50) return -30;
+
+  const text = content.toLowerCase();
+  let score = 0;
+  let positiveSignals = 0;
+  let negativeSignals = 0;
+
+  for (const phrase of MARKETING_PHRASES) {
+    if (text.includes(phrase)) {
+      negativeSignals++;
+      score -= 10;
+    }
+  }
+
+  if (GROUNDING_PATTERNS.specificDate.test(content)) {
+    positiveSignals++;
+    score += 20;
+  } else if (GROUNDING_PATTERNS.yearOnly.test(content)) {
+    positiveSignals++;
+    score += 5;
+  }
+  const signals: [RegExp, number][] = [
+    [GROUNDING_PATTERNS.dollarAmount, 15],
+    [GROUNDING_PATTERNS.directQuote, 20],
+    [GROUNDING_PATTERNS.executiveAttribution, 15],
+    [GROUNDING_PATTERNS.percentageMetric, 10],
+    [GROUNDING_PATTERNS.specificNumber, 10]
+  ];
+  for (const [pattern, points] of signals) {
+    if (pattern.test(content)) {
+      positiveSignals++;
+      score += points;
+    }
+  }
+
+  // Both names within a sentence or so of each other
+  if (relatedName) {
+    const companyIndex = text.indexOf(companyName.toLowerCase());
+    const relatedIndex = text.indexOf(relatedName.toLowerCase());
+    if (companyIndex !== -1 && relatedIndex !== -1) {
+      score += Math.abs(companyIndex - relatedIndex) < 200 ? 25 : 10;
+    }
+  }
+
+  if (positiveSignals === 0 && negativeSignals >= 2) score -= 20;
+
+  return Math.max(-50, Math.min(50, score));
+}
+
+/**
+ * Credibility of one source. Content shorter than a sentence or two isn't
+ * judged, so items without a summary aren't marked down for it.
+ */
+export function scoreSource(
+  url: string,
+  content: string | undefined,
+  context: CredibilityContext,
+  { relatedName, corroboratingSources = 0 }: { relatedName?: string; corroboratingSources?: number } = {}
+): SourceCredibility {
+  const tier = resolveSourceTier(url, context);
+  const urlAdjustment = calculateUrlScore(url, context.companyName);
+  const contentAdjustment = content && content.length >= 50 ? calculateContentScore(content, context.companyName, relatedName) : 0;
+  const corroboration = Math.min(MAX_CORROBORATION_BONUS, corroboratingSources * CORROBORATION_BONUS);
+
+  const score = TIER_BASE_SCORES[tier] + (urlAdjustment + contentAdjustment) * ADJUSTMENT_WEIGHT + corroboration;
+  return { score: Math.round(Math.max(0, Math.min(100, score))), tier };
+}
+
+/**
+ * Score the sources of every linked section: news, case studies, investor
+ * documents, competitor mentions and regulatory events. Replaces earlier
+ * scores, so cached analyses can be rescored with the current tiers. Items
+ * without a link (e.g. "no presentation found" placeholders) stay unscored.
+ */
+export function applySourceCredibility(analysis: AnalysisResult, context: CredibilityContext): AnalysisResult {
+  const score = <T extends { url: string; credibility?: SourceCredibility }>(items: T[] | undefined, content: (item: T) => string, related?: (item: T) => { relatedName?: string; corroboratingSources?: number }): T[] =>
+    (items || []).map(item => ({
+      ...item,
+      credibility: isValidHttpUrl(item.url) ? scoreSource(item.url, content(item), context, related?.(item)) : undefined
+    }));
+
+  const linkText = (item: { title: string; summary?: string }) => [item.title, item.summary].filter(Boolean).join('. ');
+  analysis.techNews = score(analysis.techNews, linkText);
+  analysis.caseStudies = score(analysis.caseStudies, linkText);
+  analysis.investorDocs = score(analysis.investorDocs, linkText);
+  analysis.competitorMentions = score(analysis.competitorMentions, linkText, mention => ({ relatedName: mention.competitorName }));
+  analysis.regulatoryEvents = score(analysis.regulatoryEvents, event => event.description, event => ({ corroboratingSources: event.sources?.length || 0 }));
+  return analysis;
+}
+
+/**
+ * Sort items most credible first and split off those below the threshold.
+ * Unscored items (analyses from before scoring) count as credible and keep
+ * their order after the scored ones at or above their score.
+ */
+export function rankByCredibility<T extends { credibility?: SourceCredibility }>(items: T[]): { credible: T[]; lowCredibility: T[] } {
+  const scoreOf = (item: T) => item.credibility?.score ?? LOW_CREDIBILITY_THRESHOLD;
+  const sorted = [...items].sort((a, b) => scoreOf(b) - scoreOf(a));
+  return {
+    credible: sorted.filter(item => scoreOf(item) >= LOW_CREDIBILITY_THRESHOLD),
+    lowCredibility: sorted.filter(item => scoreOf(item) < LOW_CREDIBILITY_THRESHOLD)
+  };
+}
@@ -1,3 +1,11 @@
+import { callWithRetry, responseError } from '@/lib/services/retry';
+import { companySearchQualifier } from '@/lib/services/companyEntity';
+import { getVendorNames } from '@/lib/services/competitorVendors';
+import { COMMUNICATION_PLATFORMS } from '@/lib/services/communicationPlatforms';
+import { findDateInText, findDateInUrl } from '@/lib/services/dateNormalization';
+import { BUYER_PERSONA_FUNCTIONS } from '@/lib/services/buyerPersonas';
+import { CompanyIdentifiers, CompetitorVendor } from '@/types/analysis';
+
 export interface TavilySearchResult {
   title: string;
   url: string;
@@ -24,6 +32,7 @@ export async function tavilySearch(
     includeAnswer?: boolean;
     includeRawContent?: boolean;
     topic?: 'general' | 'news';
+    signal?: AbortSignal; // Cancels the request
   } = {}
 ): Promise<TavilySearchResponse> {
   const {
@@ -31,46 +40,58 @@ export async function tavilySearch(
     maxResults = 10,
     includeAnswer = true,
     includeRawContent = false,
-    topic = 'general'
+    topic = 'general',
+    signal
   } = options;
 
-  const response = await fetch(TAVILY_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      api_key: apiKey,
-      query,
-      search_depth: searchDepth,
-      max_results: maxResults,
-      include_answer: includeAnswer,
-      include_raw_content: includeRawContent,
-      topic
-    })
-  });
+  return callWithRetry('tavily', apiKey, async () => {
+    const response = await fetch(TAVILY_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        api_key: apiKey,
+        query,
+        search_depth: searchDepth,
+        max_results: maxResults,
+        include_answer: includeAnswer,
+        include_raw_content: includeRawContent,
+        topic
+      }),
+      signal
+    });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Tavily API error: ${error}`);
-  }
+    if (!response.ok) {
+      const error = await response.text();
+      throw responseError(`Tavily API error: ${error}`, response);
+    }
 
-  return response.json();
+    return response.json();
+  }, { signal, label: 'Tavily search' });
 }
 
 export async function tavilySearchCompanyNews(
   companyName: string,
-  apiKey: string
+  apiKey: string,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<TavilySearchResult[]> {
   const response = await tavilySearch(
-    `"${companyName}" AI adoption OR IT infrastructure OR digital transformation OR cloud migration OR technology strategy OR machine learning OR generative AI OR cybersecurity`,
+    `"${companyName}"${companySearchQualifier(company)} AI adoption OR IT infrastructure OR digital transformation OR cloud migration OR technology strategy OR machine learning OR generative AI OR cybersecurity`,
     apiKey,
-    { maxResults: 10, includeAnswer: false, topic: 'news' }
+    { maxResults: 10, includeAnswer: false, topic: 'news', signal }
   );
-  // Filter to only include results that actually mention the company
+  return filterCompanyNewsResults(response.results, companyName);
+}
+
+/**
+ * Keep only news results that actually mention the company
+ */
+export function filterCompanyNewsResults(results: TavilySearchResult[], companyName: string): TavilySearchResult[] {
   const companyLower = companyName.toLowerCase();
   const companyWords = companyLower.split(/\s+/).filter(w => w.length > 2);
-  return response.results.filter(r => {
+  return results.filter(r => {
     const text = (r.title + ' ' + r.content).toLowerCase();
     // Require the full company name or most of its significant words to appear
     if (text.includes(companyLower)) return true;
@@ -81,55 +102,86 @@ export async function tavilySearchCompanyNews(
 
 export async function tavilySearchCaseStudies(
   companyName: string,
-  apiKey: string
+  apiKey: string,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<TavilySearchResult[]> {
   const response = await tavilySearch(
-    `${companyName} case study customer success story`,
+    `${companyName}${companySearchQualifier(company)} case study customer success story`,
     apiKey,
-    { maxResults: 5, includeAnswer: false }
+    { maxResults: 5, includeAnswer: false, signal }
   );
   return response.results;
 }
 
 export async function tavilySearchInvestorDocs(
   companyName: string,
-  apiKey: string
+  apiKey: string,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<TavilySearchResult[]> {
   const currentYear = new Date().getFullYear();
   const response = await tavilySearch(
-    `"${companyName}" investor relations SEC filing annual report 10-K OR investor presentation OR investor day ${currentYear} OR ${currentYear - 1}`,
+    `"${companyName}"${companySearchQualifier(company)} investor relations SEC filing annual report 10-K OR investor presentation OR investor day ${currentYear} OR ${currentYear - 1}`,
     apiKey,
-    { maxResults: 8, includeAnswer: false }
+    { maxResults: 8, includeAnswer: false, signal }
   );
   return response.results;
 }
 
+// Split a list into groups of at most `size`
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
 /**
- * Consolidated competitor search: uses 2-3 broad queries instead of 24 narrow ones.
- * Returns raw search results for AI extraction to process.
+ * Queries run by the consolidated competitor search: two per group of 8
+ * vendor names or aliases, a press wire query for the first group (most
+ * important competitors) and one per group of 8 vendor websites
  */
-export async function tavilyConsolidatedCompetitorSearch(
+export function buildCompetitorSearchQueries(
   companyName: string,
-  competitors: string[],
-  apiKey: string
-): Promise<{ title: string; url: string; content: string }[]> {
-  if (competitors.length === 0) return [];
+  competitors: CompetitorVendor[],
+  company?: CompanyIdentifiers
+): string[] {
+  const target = `"${companyName}"${companySearchQualifier(company)}`;
+  const nameChunks = chunk(competitors.flatMap(getVendorNames), 8);
+  if (nameChunks.length === 0) return [];
 
-  // Chunk competitors into groups of 8 to reduce API calls while keeping queries effective
-  const chunks: string[][] = [];
-  for (let i = 0; i < competitors.length; i += 8) {
-    chunks.push(competitors.slice(i, i + 8));
+  const queries: string[] = [];
+  for (const names of nameChunks) {
+    const orClause = names.map(c => `"${c}"`).join(' OR ');
+    queries.push(`${target} (${orClause}) partnership OR customer OR integration OR case study`);
+    queries.push(`${target} (${orClause}) announces OR selects OR deploys OR partners`);
   }
+  const firstOR = nameChunks[0].map(c => `"${c}"`).join(' OR ');
+  queries.push(`${target} (${firstOR}) site:businesswire.com OR site:prnewswire.com OR site:globenewswire.com`);
 
-  const queries: string[] = [];
-  for (const chunk of chunks) {
-    const orClause = chunk.map(c => `"${c}"`).join(' OR ');
-    queries.push(`"${companyName}" (${orClause}) partnership OR customer OR integration OR case study`);
-    queries.push(`"${companyName}" (${orClause}) announces OR selects OR deploys OR partners`);
+  // Customer stories on the vendors' own sites
+  const domains = competitors.map(c => c.domain).filter((domain): domain is string => !!domain);
+  for (const sites of chunk(domains, 8)) {
+    queries.push(`${target} ${sites.map(d => `site:${d}`).join(' OR ')}`);
   }
-  // Also add a press wire query for the first chunk (most important competitors)
-  const firstOR = chunks[0].map(c => `"${c}"`).join(' OR ');
-  queries.push(`"${companyName}" (${firstOR}) site:businesswire.com OR site:prnewswire.com OR site:globenewswire.com`);
+  return queries;
+}
+
+/**
+ * Consolidated competitor search: uses a few broad queries instead of one per vendor.
+ * Returns raw search results for AI extraction to process.
+ */
+export async function tavilyConsolidatedCompetitorSearch(
+  companyName: string,
+  competitors: CompetitorVendor[],
+  apiKey: string,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
+): Promise<{ title: string; url: string; content: string }[]> {
+  const queries = buildCompetitorSearchQueries(companyName, competitors, company);
+  if (queries.length === 0) return [];
 
   const seenUrls = new Set<string>();
   const results: { title: string; url: string; content: string }[] = [];
@@ -140,7 +192,8 @@ export async function tavilyConsolidatedCompetitorSearch(
         tavilySearch(query, apiKey, {
           maxResults: 5,
           includeAnswer: false,
-          searchDepth: 'advanced'
+          searchDepth: 'advanced',
+          signal
         }).catch(err => {
           console.warn(`Tavily competitor search query failed: ${query}`, err);
           return { query, results: [] as TavilySearchResult[], response_time: 0 };
@@ -163,6 +216,108 @@ export async function tavilyConsolidatedCompetitorSearch(
   return results;
 }
 
+/**
+ * Queries run by the communications stack search: deployments and case
+ * studies, job postings asking for platform experience, press releases and
+ * customer stories on the platform vendors' own sites
+ */
+export function buildCommunicationsSearchQueries(companyName: string, company?: CompanyIdentifiers): string[] {
+  const target = `"${companyName}"${companySearchQualifier(company)}`;
+  const orClause = COMMUNICATION_PLATFORMS.map(p => p.searchName).join(' OR ');
+  const sites = [...new Set(COMMUNICATION_PLATFORMS.map(p => p.domain))].map(d => `site:${d}`).join(' OR ');
+  return [
+    `${target} (${orClause}) case study OR deploys OR selects OR rolls out OR migrates`,
+    `${target} (${orClause}) job OR careers OR "experience with" OR administrator`,
+    `${target} (${orClause}) site:businesswire.com OR site:prnewswire.com OR site:globenewswire.com`,
+    `${target} ${sites}`
+  ];
+}
+
+/**
+ * Search for evidence of which collaboration platforms the company uses.
+ * Returns raw search results for AI extraction to process.
+ */
+export async function tavilySearchCommunicationsStack(
+  companyName: string,
+  apiKey: string,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
+): Promise<{ title: string; url: string; content: string; date?: string }[]> {
+  const seenUrls = new Set<string>();
+  const results: { title: string; url: string; content: string; date?: string }[] = [];
+
+  const responses = await Promise.all(
+    buildCommunicationsSearchQueries(companyName, company).map(query =>
+      tavilySearch(query, apiKey, {
+        maxResults: 5,
+        includeAnswer: false,
+        searchDepth: 'advanced',
+        signal
+      }).catch(err => {
+        console.warn(`Tavily communications stack query failed: ${query}`, err);
+        return { query, results: [] as TavilySearchResult[], response_time: 0 };
+      })
+    )
+  );
+
+  for (const response of responses) {
+    for (const r of response.results) {
+      if (!seenUrls.has(r.url)) {
+        seenUrls.add(r.url);
+        results.push({ title: r.title, url: r.url, content: r.content, date: r.published_date });
+      }
+    }
+  }
+  return results;
+}
+
+/**
+ * Queries run by the buyer persona search, one per buying function with
+ * its titles OR'd together
+ */
+export function buildBuyerPersonaSearchQueries(companyName: string, company?: CompanyIdentifiers): string[] {
+  const target = `"${companyName}"${companySearchQualifier(company)}`;
+  return BUYER_PERSONA_FUNCTIONS.map(f => `${target} (${f.titles.map(t => `"${t}"`).join(' OR ')})`);
+}
+
+/**
+ * Search for named compliance, surveillance, security and records leads at
+ * the company. Returns raw search results for AI extraction to process.
+ */
+export async function tavilySearchBuyerPersonas(
+  companyName: string,
+  apiKey: string,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
+): Promise<{ title: string; url: string; content: string; date?: string }[]> {
+  const seenUrls = new Set<string>();
+  const results: { title: string; url: string; content: string; date?: string }[] = [];
+
+  const responses = await Promise.all(
+    buildBuyerPersonaSearchQueries(companyName, company).map(query =>
+      tavilySearch(query, apiKey, {
+        maxResults: 5,
+        includeAnswer: false,
+        searchDepth: 'advanced',
+        signal
+      }).catch(err => {
+        console.warn(`Tavily buyer persona query failed: ${query}`, err);
+        return { query, results: [] as TavilySearchResult[], response_time: 0 };
+      })
+    )
+  );
+
+  for (const response of responses) {
+    for (const r of response.results) {
+      if (!seenUrls.has(r.url)) {
+        seenUrls.add(r.url);
+        results.push({ title: r.title, url: r.url, content: r.content, date: r.published_date });
+      }
+    }
+  }
+  return results;
+}
+
 export interface RegulatoryEvent {
   date: string;
   regulatoryBody: string;
@@ -228,43 +383,77 @@ function extractAmount(text: string): string | undefined {
   return undefined;
 }
 
-// Extract date from text or URL
-function extractDate(text: string, url: string): string {
-  // Try to find year-month patterns
-  const datePatterns = [
-    /(?:january|february|march|april|may|june|july|august|september|october|november|december)\s+\d{4}/i,
-    /\d{1,2}\/\d{1,2}\/\d{4}/,
-    /\d{4}-\d{2}-\d{2}/,
-    /(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+\d{1,2},?\s+\d{4}/i,
-  ];
+/**
+ * Turn regulatory search results into events, skipping duplicate URLs and
+ * results that don't mention the company or an enforcement action
+ */
+export function extractRegulatoryEvents(results: TavilySearchResult[], companyName: string): RegulatoryEvent[] {
+  const events: RegulatoryEvent[] = [];
+  const seenUrls = new Set<string>();
 
-  for (const pattern of datePatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      return match[0];
-    }
-  }
+  results.forEach(result => {
+    // Skip duplicates
+    if (seenUrls.has(result.url)) return;
 
-  // Try to extract year at minimum
-  const yearMatch = text.match(/20[12]\d/);
-  if (yearMatch) {
-    return yearMatch[0];
-  }
+    const textLower = (result.title + ' ' + result.content).toLowerCase();
+    const companyLower = companyName.toLowerCase();
+
+    // Must mention the company
+    if (!textLower.includes(companyLower)) return;
 
-  return 'Recent';
+    // Must be about enforcement/fines/penalties
+    const hasRegulatoryContent =
+      textLower.includes('fine') ||
+      textLower.includes('penalty') ||
+      textLower.includes('settlement') ||
+      textLower.includes('enforcement') ||
+      textLower.includes('charges') ||
+      textLower.includes('violation') ||
+      textLower.includes('consent order') ||
+      textLower.includes('investigation');
+
+    if (!hasRegulatoryContent) return;
+
+    // Exclude irrelevant pages
+    const urlLower = result.url.toLowerCase();
+    if (urlLower.includes('career') || urlLower.includes('job') || urlLower.includes('linkedin.com/jobs')) return;
+
+    seenUrls.add(result.url);
+
+    const fullText = result.title + ' ' + result.content;
+
+    events.push({
+      date: (findDateInText(fullText, { allowYearOnly: true }) || findDateInUrl(result.url))?.iso || 'Recent',
+      regulatoryBody: extractRegulatoryBody(fullText, result.url),
+      eventType: extractEventType(fullText),
+      amount: extractAmount(fullText),
+      description: result.title.length > 100 ? result.title.substring(0, 100) + '...' : result.title,
+      url: result.url
+    });
+  });
+
+  // Limit to 10
+  return events.slice(0, 10);
+}
+
+/**
+ * Queries run by the regulatory event search (2 broad queries instead of 4)
+ */
+export function buildRegulatorySearchQueries(companyName: string, company?: CompanyIdentifiers): string[] {
+  const target = `"${companyName}"${companySearchQualifier(company)}`;
+  return [
+    `${target} SEC OR FINRA fine OR penalty OR settlement OR enforcement OR disciplinary`,
+    `${target} regulatory OR DOJ penalty OR settlement OR charges OR investigation million`,
+  ];
 }
 
 export async function tavilySearchRegulatoryEvents(
   companyName: string,
-  apiKey: string
+  apiKey: string,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<RegulatoryEvent[]> {
-  const events: RegulatoryEvent[] = [];
-
-  // Consolidated regulatory event searches (2 broad queries instead of 4)
-  const searchQueries = [
-    `"${companyName}" SEC OR FINRA fine OR penalty OR settlement OR enforcement OR disciplinary`,
-    `"${companyName}" regulatory OR DOJ penalty OR settlement OR charges OR investigation million`,
-  ];
+  const searchQueries = buildRegulatorySearchQueries(companyName, company);
 
   try {
     // Run searches in parallel
@@ -272,79 +461,42 @@ export async function tavilySearchRegulatoryEvents(
       tavilySearch(query, apiKey, {
         maxResults: 5,
         includeAnswer: false,
-        searchDepth: 'advanced'
+        searchDepth: 'advanced',
+        signal
       })
     );
 
     const results = await Promise.all(searchPromises);
-
-    // Collect all unique results
-    const seenUrls = new Set<string>();
-
-    results.forEach(response => {
-      response.results.forEach(result => {
-        // Skip duplicates
-        if (seenUrls.has(result.url)) return;
-
-        const textLower = (result.title + ' ' + result.content).toLowerCase();
-        const companyLower = companyName.toLowerCase();
-
-        // Must mention the company
-        if (!textLower.includes(companyLower)) return;
-
-        // Must be about enforcement/fines/penalties
-        const hasRegulatoryContent =
-          textLower.includes('fine') ||
-          textLower.includes('penalty') ||
-          textLower.includes('settlement') ||
-          textLower.includes('enforcement') ||
-          textLower.includes('charges') ||
-          textLower.includes('violation') ||
-          textLower.includes('consent order') ||
-          textLower.includes('investigation');
-
-        if (!hasRegulatoryContent) return;
-
-        // Exclude irrelevant pages
-        const urlLower = result.url.toLowerCase();
-        if (urlLower.includes('career') || urlLower.includes('job') || urlLower.includes('linkedin.com/jobs')) return;
-
-        seenUrls.add(result.url);
-
-        const fullText = result.title + ' ' + result.content;
-
-        events.push({
-          date: extractDate(fullText, result.url),
-          regulatoryBody: extractRegulatoryBody(fullText, result.url),
-          eventType: extractEventType(fullText),
-          amount: extractAmount(fullText),
-          description: result.title.length > 100 ? result.title.substring(0, 100) + '...' : result.title,
-          url: result.url
-        });
-      });
-    });
+    return extractRegulatoryEvents(results.flatMap(response => response.results), companyName);
   } catch (err) {
     console.warn(`Failed to search regulatory events for ${companyName}:`, err);
+    return [];
   }
-
-  // Sort by most recent (if we can parse dates) and limit to 10
-  return events.slice(0, 10);
 }
 
 export async function tavilySearchLeadershipChanges(
   companyName: string,
-  apiKey: string
+  apiKey: string,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<TavilySearchResult[]> {
   // Search for recent leadership changes (last 5 years)
   const currentYear = new Date().getFullYear();
   const response = await tavilySearch(
-    `"${companyName}" executive leadership (appoints OR appointed OR names OR named OR promotes OR hires) (CEO OR CFO OR CTO OR COO OR "Chief Executive" OR "Chief Financial" OR President) ${currentYear - 5}..${currentYear}`,
+    `"${companyName}"${companySearchQualifier(company)} executive leadership (appoints OR appointed OR names OR named OR promotes OR hires) (CEO OR CFO OR CTO OR COO OR "Chief Executive" OR "Chief Financial" OR President) ${currentYear - 5}..${currentYear}`,
     apiKey,
-    { maxResults: 12, includeAnswer: false, searchDepth: 'advanced' }
+    { maxResults: 12, includeAnswer: false, searchDepth: 'advanced', signal }
   );
 
-  // Filter results to only include actual news/press releases about leadership
-  return response.results.filter(result => {
+  return filterLeadershipResults(response.results);
+}
+
+/**
+ * Keep only news and press releases about leadership changes, dropping job
+ * postings, career pages and low-quality sources
+ */
+export function filterLeadershipResults(results: TavilySearchResult[]): TavilySearchResult[] {
+  return results.filter(result => {
     const urlLower = result.url.toLowerCase();
     const titleLower = result.title.toLowerCase();
     const contentLower = (result.content || '').toLowerCase();
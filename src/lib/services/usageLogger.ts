@@ -2,22 +2,25 @@ import { SupabaseClient } from '@supabase/supabase-js';
 import {
   calculateAICost,
   calculateSearchCost,
-  estimateTokens,
   TAVILY_QUERIES_PER_ANALYSIS,
 } from '@/lib/config/pricing';
+import { UsageRecord, sumUsage } from '@/lib/ai/usage';
+import { ProviderFailure } from '@/lib/ai/providers/base';
 
 export interface UsageLogEntry {
   userId?: string;
   userEmail?: string;
   companyName: string;
-  aiProvider: string;
+  aiProvider: string; // Provider that served the request, after any failover
   aiModel: string;
-  promptText: string;
-  responseText: string;
+  failedProviders?: ProviderFailure[]; // Providers that failed over before aiProvider
+  usage: UsageRecord[]; // Provider-reported token usage, one record per LLM call
   searchProvider: string;
   searchQueriesUsed?: number;
   cached: boolean;
   durationMs?: number;
+  refreshedSection?: string; // Set when only one section was re-run
+  promptVersionId?: string | null; // analysis_prompts row used; unset for built-in prompts
 }
 
 /**
@@ -28,17 +31,15 @@ export async function logUsage(
   entry: UsageLogEntry
 ): Promise<void> {
   try {
-    // Estimate tokens
-    const inputTokens = estimateTokens(entry.promptText);
-    const outputTokens = estimateTokens(entry.responseText);
+    // Price each call with its own provider and model
+    const calls = entry.usage.map(record => ({
+      ...record,
+      costUsd: calculateAICost(record.provider, record.model, record.inputTokens, record.outputTokens)
+    }));
+    const { inputTokens, outputTokens, cachedTokens } = sumUsage(entry.usage);
 
     // Calculate costs
-    const aiCost = entry.cached ? 0 : calculateAICost(
-      entry.aiProvider,
-      entry.aiModel,
-      inputTokens,
-      outputTokens
-    );
+    const aiCost = entry.cached ? 0 : calls.reduce((sum, call) => sum + call.costUsd, 0);
 
     const searchQueries = entry.cached ? 0 : (entry.searchQueriesUsed ?? TAVILY_QUERIES_PER_ANALYSIS);
     const searchCost = entry.cached ? 0 : calculateSearchCost(entry.searchProvider, searchQueries);
@@ -56,6 +57,8 @@ export async function logUsage(
         ai_model: entry.aiModel,
         input_tokens: inputTokens,
         output_tokens: outputTokens,
+        cached_tokens: cachedTokens,
+        usage_calls: calls,
         ai_cost_usd: aiCost,
         search_provider: entry.searchProvider,
         search_queries: searchQueries,
@@ -63,6 +66,9 @@ export async function logUsage(
         total_cost_usd: totalCost,
         cached: entry.cached,
         duration_ms: entry.durationMs || null,
+        ...(entry.refreshedSection && { refreshed_section: entry.refreshedSection }),
+        ...(entry.promptVersionId && { prompt_version_id: entry.promptVersionId }),
+        ...(entry.failedProviders && entry.failedProviders.length > 0 && { failed_providers: entry.failedProviders }),
       });
 
     if (error) {
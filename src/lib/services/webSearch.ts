@@ -1,3 +1,7 @@
+import { callWithRetry, responseError } from '@/lib/services/retry';
+import { companySearchQualifier } from '@/lib/services/companyEntity';
+import { CompanyIdentifiers } from '@/types/analysis';
+
 export interface WebSearchResult {
   title: string;
   url: string;
@@ -20,6 +24,7 @@ export interface WebSearchOptions {
   includeContent?: boolean;
   includeAnswer?: boolean;
   timeframe?: 'day' | 'week' | 'month' | 'year';
+  signal?: AbortSignal; // Cancels the request
 }
 
 const WEB_SEARCH_API_URL = 'https://api.websearchapi.ai/ai-search';
@@ -33,45 +38,51 @@ export async function searchWeb(
     maxResults = 10,
     includeContent = true,
     includeAnswer = true,
-    timeframe = 'month'
+    timeframe = 'month',
+    signal
   } = options;
 
-  const response = await fetch(WEB_SEARCH_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      query,
-      maxResults,
-      includeContent,
-      contentLength: 'medium',
-      contentFormat: 'markdown',
-      country: 'us',
-      language: 'en',
-      timeframe,
-      includeAnswer,
-      safeSearch: true
-    })
-  });
+  return callWithRetry('websearchapi', apiKey, async () => {
+    const response = await fetch(WEB_SEARCH_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`
+      },
+      body: JSON.stringify({
+        query,
+        maxResults,
+        includeContent,
+        contentLength: 'medium',
+        contentFormat: 'markdown',
+        country: 'us',
+        language: 'en',
+        timeframe,
+        includeAnswer,
+        safeSearch: true
+      }),
+      signal
+    });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`WebSearchAPI error: ${error}`);
-  }
+    if (!response.ok) {
+      const error = await response.text();
+      throw responseError(`WebSearchAPI error: ${error}`, response);
+    }
 
-  return response.json();
+    return response.json();
+  }, { signal, label: 'WebSearchAPI search' });
 }
 
 export async function searchCompanyNews(
   companyName: string,
-  apiKey: string
+  apiKey: string,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<WebSearchResult[]> {
   const response = await searchWeb(
-    `"${companyName}" AI adoption OR IT infrastructure OR digital transformation OR cloud migration OR technology strategy OR machine learning OR generative AI OR cybersecurity`,
+    `"${companyName}"${companySearchQualifier(company)} AI adoption OR IT infrastructure OR digital transformation OR cloud migration OR technology strategy OR machine learning OR generative AI OR cybersecurity`,
     apiKey,
-    { maxResults: 15, includeContent: false, includeAnswer: false, timeframe: 'month' }
+    { maxResults: 15, includeContent: false, includeAnswer: false, timeframe: 'month', signal }
   );
   // Filter to only include results that actually mention the company
   const companyLower = companyName.toLowerCase();
@@ -86,24 +97,28 @@ export async function searchCompanyNews(
 
 export async function searchCompanyCaseStudies(
   companyName: string,
-  apiKey: string
+  apiKey: string,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<WebSearchResult[]> {
   const response = await searchWeb(
-    `${companyName} case study customer success AWS Microsoft Google Salesforce`,
+    `${companyName}${companySearchQualifier(company)} case study customer success AWS Microsoft Google Salesforce`,
     apiKey,
-    { maxResults: 5, includeContent: false, includeAnswer: false, timeframe: 'year' }
+    { maxResults: 5, includeContent: false, includeAnswer: false, timeframe: 'year', signal }
   );
   return response.organic;
 }
 
 export async function searchCompanyInfo(
   companyName: string,
-  apiKey: string
+  apiKey: string,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<{ answer: string; sources: WebSearchResult[] }> {
   const response = await searchWeb(
-    `${companyName} company overview business strategy recent developments`,
+    `${companyName}${companySearchQualifier(company)} company overview business strategy recent developments`,
     apiKey,
-    { maxResults: 5, includeContent: true, includeAnswer: true, timeframe: 'month' }
+    { maxResults: 5, includeContent: true, includeAnswer: true, timeframe: 'month', signal }
   );
   return {
     answer: response.answer || '',
@@ -113,25 +128,29 @@ export async function searchCompanyInfo(
 
 export async function searchInvestorDocuments(
   companyName: string,
-  apiKey: string
+  apiKey: string,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<WebSearchResult[]> {
   const response = await searchWeb(
-    `${companyName} investor relations annual report 10-K SEC filing earnings`,
+    `${companyName}${companySearchQualifier(company)} investor relations annual report 10-K SEC filing earnings`,
     apiKey,
-    { maxResults: 5, includeContent: false, includeAnswer: false, timeframe: 'year' }
+    { maxResults: 5, includeContent: false, includeAnswer: false, timeframe: 'year', signal }
   );
   return response.organic;
 }
 
 export async function searchInvestorPresentation(
   companyName: string,
-  apiKey: string
+  apiKey: string,
+  signal?: AbortSignal,
+  company?: CompanyIdentifiers
 ): Promise<WebSearchResult[]> {
   const currentYear = new Date().getFullYear();
   const response = await searchWeb(
-    `"${companyName}" investor presentation OR investor day filetype:pdf OR site:ir OR site:investor ${currentYear} OR ${currentYear - 1}`,
+    `"${companyName}"${companySearchQualifier(company)} investor presentation OR investor day filetype:pdf OR site:ir OR site:investor ${currentYear} OR ${currentYear - 1}`,
     apiKey,
-    { maxResults: 5, includeContent: false, includeAnswer: false, timeframe: 'year' }
+    { maxResults: 5, includeContent: false, includeAnswer: false, timeframe: 'year', signal }
   );
   return response.organic;
 }
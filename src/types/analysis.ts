@@ -9,11 +9,86 @@ export interface AnalysisResult {
   caseStudies: LinkItem[];
   competitorMentions: CompetitorMentionItem[];
   discoveredCompetitors?: string[];
+  communicationsStack?: CommunicationsStackItem[]; // Verified from web search; unset in analyses from before it was added
   leadershipChanges: LeadershipChangeItem[];
+  buyerPersonas?: BuyerPersona[]; // Verified from web search; unset in analyses from before it was added
+  formerBuyerPersonas?: BuyerPersona[]; // Found by the previous analysis but not this one
   maActivity: MAItem[];
   regulatoryLandscape: RegulatoryBodyMention[];
   regulatoryEvents: RegulatoryEventItem[];
   sources: string[];
+  consensus?: ConsensusSummary; // Present when the analysis was cross-checked by a second provider
+  language?: OutputLanguage; // Language of the narrative fields; English if unset
+  customAnswers?: CustomAnswer[]; // Answers to the research questions asked with the analysis, in order
+  fitScore?: FitScore; // Computed from the other sections once they are complete
+  grounding?: NarrativeGrounding; // Sources backing the narrative claims; unset if the check didn't run
+  linkHealth?: Record<string, LinkCheck>; // Keyed by URL; unset in analyses whose links were never checked
+}
+
+// A claim from the AI narrative and the retrieved sources that back it
+export interface GroundedClaim {
+  text: string;
+  citations: string[]; // URLs from the web search results or sources; empty if nothing retrieved supports the claim
+}
+
+// Claim-level citations for the narrative sections, from the grounding check
+export interface NarrativeGrounding {
+  summary: GroundedClaim[]; // The summary split into sentences, in order
+  keyPriorities: GroundedClaim[]; // One per key priority, in order
+  growthInitiatives: GroundedClaim[]; // One per growth initiative, in order
+}
+
+// How much of a date is known. Month and year dates cover the whole period.
+export type DatePrecision = 'day' | 'month' | 'year';
+
+export interface NormalizedDate {
+  iso: string; // YYYY-MM-DD, YYYY-MM or YYYY to match the precision
+  precision: DatePrecision;
+}
+
+// Sections whose items are dropped once older than a window, in days (0 = no limit)
+export type RecencySection = 'news' | 'leadership' | 'regulatory';
+export type RecencyWindows = Record<RecencySection, number>;
+
+// How far a source's domain is trusted, most trusted first
+export type SourceTier = 'official' | 'trusted' | 'standard' | 'low';
+
+// Admin-edited domains per tier; domains not listed are 'standard'
+export type SourceDomainTiers = Record<Exclude<SourceTier, 'standard'>, string[]>;
+
+// Credibility of the source an item links to, from its domain tier, URL and content
+export interface SourceCredibility {
+  score: number; // 0-100
+  tier: SourceTier;
+}
+
+// Whether a link still leads to its content. 'unreachable' covers timeouts,
+// server errors and sites that block automated requests, which may still
+// work in a browser.
+export type LinkStatus = 'ok' | 'dead' | 'paywall' | 'unreachable';
+
+export interface LinkCheck {
+  status: LinkStatus;
+  httpStatus?: number; // Status of the final response; unset if none came back
+  finalUrl?: string; // Where redirects ended, if not the checked URL
+  contentType?: string;
+  checkedAt: string; // ISO timestamp
+}
+
+// Languages an analysis can be written in
+export type OutputLanguage = 'en' | 'de' | 'fr' | 'ja';
+
+// Consensus mode: whether both providers produced an item, or only one
+export type Corroboration = 'corroborated' | 'unconfirmed';
+
+export interface ConsensusSummary {
+  providers: ProviderName[]; // Primary provider first
+}
+
+// A section of structured AI output that did not match the expected schema
+export interface SectionValidationIssue {
+  section: keyof AnalysisResult;
+  message: string;
 }
 
 export interface RegulatoryBodyMention {
@@ -36,6 +111,11 @@ export interface RegulatoryEventItem {
   description: string; // Brief summary of the event
   url: string; // Primary link to news article or official source
   sources?: RegulatoryEventSource[]; // Additional sources for the same event
+  corroboration?: Corroboration;
+  credibility?: SourceCredibility;
+  normalizedDate?: NormalizedDate; // Parsed from date (or the URL) for sorting and recency windows
+  official?: boolean; // Imported from the regulator's own enforcement releases rather than found in news
+  respondents?: string[]; // Parties named in an official action
 }
 
 export interface QuickFacts {
@@ -53,6 +133,8 @@ export interface LinkItem {
   url: string;
   summary?: string;
   date?: string;
+  credibility?: SourceCredibility;
+  normalizedDate?: NormalizedDate;
 }
 
 export interface MAItem {
@@ -61,6 +143,7 @@ export interface MAItem {
   target: string;
   dealValue?: string;
   rationale?: string;
+  corroboration?: Corroboration;
 }
 
 export interface CompetitorMentionItem {
@@ -70,6 +153,8 @@ export interface CompetitorMentionItem {
   url: string;
   date?: string;
   summary: string;
+  credibility?: SourceCredibility;
+  normalizedDate?: NormalizedDate;
 }
 
 export interface LeadershipChangeItem {
@@ -80,9 +165,120 @@ export interface LeadershipChangeItem {
   previousRole?: string;
   source?: string;
   url?: string;
+  corroboration?: Corroboration;
+  normalizedDate?: NormalizedDate;
 }
 
-export type ProviderName = 'openai' | 'anthropic' | 'gemini' | 'perplexity';
+// Collaboration and communications platforms looked for in the communications stack
+export type CommunicationPlatform = 'Zoom' | 'Zoom Phone' | 'Microsoft Teams' | 'Webex' | 'Slack' | 'RingCentral';
+
+export type CommunicationsEvidenceType = 'case_study' | 'job_posting' | 'press_release' | 'vendor_customer_page' | 'other';
+
+// Evidence that the company uses a communications platform
+export interface CommunicationsStackItem {
+  platform: CommunicationPlatform;
+  evidenceType: CommunicationsEvidenceType;
+  title: string;
+  url: string; // Always one of the search result URLs
+  date?: string;
+  summary: string;
+}
+
+// Functions Theta Lake sells to, looked for in buyer personas
+export type BuyerPersonaFunction = 'compliance' | 'surveillance' | 'security' | 'records';
+
+// How a persona compares with the previous analysis of the company
+export type BuyerPersonaStatus = 'new' | 'unchanged' | 'title_changed';
+
+// A named person in a buying function at the company
+export interface BuyerPersona {
+  name: string;
+  title: string;
+  function: BuyerPersonaFunction;
+  url: string; // Always one of the search result URLs
+  firstSeen: string; // YYYY-MM-DD of the analysis that first found them
+  status?: BuyerPersonaStatus; // Unset when there was no previous analysis to compare with
+  previousTitle?: string; // Set when status is title_changed
+}
+
+// Signals combined into the account fit score
+export type FitFactorName =
+  | 'regulators'
+  | 'recordkeepingEvents'
+  | 'competitorMentions'
+  | 'industry'
+  | 'employeeCount'
+  | 'complianceLeadership';
+
+// Admin-configured relative weight of each factor
+export type FitScoreWeights = Record<FitFactorName, number>;
+
+export interface FitFactor {
+  factor: FitFactorName;
+  weight: number;
+  signal: number; // 0-1 strength of the signal in the analysis
+  points: number; // Contribution to the score
+  maxPoints: number; // Contribution at full signal; maxPoints over all factors sum to 100
+  evidence: string[]; // Items from the analysis behind the signal, e.g. regulator names
+}
+
+// How good a prospect the company is for Theta Lake, 0-100
+export interface FitScore {
+  score: number;
+  factors: FitFactor[];
+}
+
+export type OutreachTone = 'consultative' | 'friendly' | 'direct';
+
+export type OutreachLength = 'short' | 'medium' | 'long';
+
+// First-touch sales outreach drafted from an analysis, saved for teammates to reuse
+export interface OutreachDraft {
+  id: string;
+  createdAt: string; // ISO timestamp
+  createdBy?: string; // Email of the teammate who generated it
+  tone: OutreachTone;
+  length: OutreachLength;
+  emailSubject: string;
+  emailBody: string;
+  linkedinNote: string;
+  citations: string[]; // URLs from the analysis the drafts draw on
+}
+
+// Answer to a user- or admin-defined research question outside the fixed sections
+export interface CustomAnswer {
+  question: string;
+  answer: string; // Empty when the model found no answer
+  sources: string[]; // URLs backing the answer
+}
+
+// Identifiers of the company picked in search, telling it apart from others with the same name
+export interface CompanyIdentifiers {
+  ticker?: string;
+  domain?: string; // Website domain, e.g. block.xyz
+  hqCountry?: string;
+  cik?: string; // SEC Central Index Key, zero-padded to 10 digits
+  legalNames?: string[]; // Registered entity names, e.g. former names and regulated subsidiaries; used to match enforcement actions
+}
+
+export type CompetitorCategory = 'archiving' | 'surveillance' | 'ediscovery';
+
+// A compliance vendor searched for in competitor mentions
+export interface CompetitorVendor {
+  name: string;
+  aliases: string[]; // Other names it appears under, matched as mentions of this vendor
+  category?: CompetitorCategory; // Unset for vendors the AI discovered
+  domain?: string; // Website domain, e.g. smarsh.com
+  caseSensitive?: boolean; // Names only match as written, for vendors named after common words
+}
+
+export type ProviderName = 'openai' | 'anthropic' | 'gemini' | 'perplexity' | 'selfhosted' | 'mock';
+
+// A provider and model chosen in admin settings (failover chain, consensus provider)
+export interface ProviderModelSetting {
+  provider: ProviderName;
+  model: string;
+}
 
 export interface ModelInfo {
   id: string;
@@ -98,6 +294,7 @@ export interface ProviderInfo {
   icon: string;
   models: ModelInfo[];
   defaultModel: string;
+  customModel?: boolean; // Model id is free-form text rather than one of `models`
 }
 
 export const PROVIDER_INFO: Record<ProviderName, ProviderInfo> = {
@@ -156,5 +353,26 @@ export const PROVIDER_INFO: Record<ProviderName, ProviderInfo> = {
       { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4', description: 'Previous generation' }
     ],
     defaultModel: 'claude-sonnet-4-5-20250929'
+  },
+  selfhosted: {
+    name: 'Self-Hosted',
+    description: 'OpenAI-compatible server (vLLM, Ollama, LM Studio)',
+    supportsWebGrounding: false,
+    keyUrl: '',
+    icon: 'server',
+    models: [],
+    defaultModel: '', // No sensible default - the admin must enter the served model id
+    customModel: true
+  },
+  mock: {
+    name: 'Mock',
+    description: 'Canned fixture data for local development, no network',
+    supportsWebGrounding: false,
+    keyUrl: '',
+    icon: 'flask-conical',
+    models: [
+      { id: 'mock', name: 'Mock', description: 'Returns fixture analyses' }
+    ],
+    defaultModel: 'mock'
   }
 };
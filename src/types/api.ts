@@ -1,13 +1,17 @@
-import { AnalysisResult, ProviderName } from './analysis';
+import { AnalysisResult, CompanyIdentifiers, OutputLanguage, OutreachDraft, OutreachLength, OutreachTone, ProviderName, SectionValidationIssue } from './analysis';
 
 export interface AnalyzeRequest {
   companyName: string;
+  company?: CompanyIdentifiers; // Identifiers of the company picked in search; the cache is keyed on these
+  language?: OutputLanguage; // Language for the narrative fields; defaults to English. Cached per language.
+  researchQuestions?: string[]; // User's own questions, asked after the admin's; answered in customAnswers
   provider?: ProviderName;
   model?: string;
   apiKey?: string;
   webSearchApiKey?: string;
   tavilyApiKey?: string;
   forceRefresh?: boolean; // Skip cache and run fresh analysis
+  stream?: boolean; // Respond with server-sent progress events instead of a single JSON body
 }
 
 export interface CacheMetadata {
@@ -22,9 +26,67 @@ export interface AnalyzeResponse {
   data: AnalysisResult;
   cached: boolean;
   cacheMetadata?: CacheMetadata; // Present when cached=true
-  provider: ProviderName;
+  provider: ProviderName; // Provider that actually served the request
+  model?: string;
+  failedOverFrom?: ProviderName[]; // Providers that failed with retryable errors before `provider` succeeded
+  promptVersion?: number; // Admin-edited prompt version used; unset for built-in prompts
   webSearchUsed?: boolean;
   webSearchError?: string;
+  outputFormat?: 'structured' | 'tagged'; // How the AI response was parsed (fresh analyses only)
+  validationIssues?: SectionValidationIssue[]; // Sections of structured output that failed validation
+  timedOutPhases?: AnalysisPhase[]; // Phases cut short by the request deadline; their sections are missing or incomplete
+}
+
+// Steps of a fresh analysis, reported in order when streaming
+export type AnalysisPhase = 'news_search' | 'regulatory_search' | 'ai_analysis' | 'competitor_extraction' | 'communications_stack' | 'buyer_personas' | 'enforcement_import' | 'grounding_check' | 'link_check' | 'cache_write';
+
+export type PhaseStatus = 'started' | 'completed' | 'failed' | 'skipped' | 'timed_out';
+
+// Server-sent events emitted by POST /api/analyze when stream=true
+export type AnalyzeStreamEvent =
+  | { type: 'phase'; phase: AnalysisPhase; status: PhaseStatus; message?: string }
+  | { type: 'section'; section: keyof AnalysisResult; data: AnalysisResult[keyof AnalysisResult] }
+  | { type: 'complete'; response: AnalyzeResponse }
+  | { type: 'error'; error: string; status: number };
+
+// Web-backed sections that can be re-run without re-running the whole analysis
+export const REFRESHABLE_SECTIONS = [
+  'techNews', 'caseStudies', 'investorDocs', 'leadershipChanges', 'regulatoryEvents', 'competitorMentions', 'communicationsStack', 'buyerPersonas'
+] as const;
+
+export type RefreshableSection = typeof REFRESHABLE_SECTIONS[number];
+
+export interface RefreshSectionRequest {
+  companyName: string;
+  company?: CompanyIdentifiers; // Same identifiers and language as the analysis being refreshed
+  language?: OutputLanguage;
+  section: RefreshableSection;
+}
+
+export interface RefreshSectionResponse {
+  data: AnalysisResult; // Full cached analysis with the section replaced
+  section: RefreshableSection;
+  refreshedAt: string; // ISO timestamp
+}
+
+// Identifies the cached analysis outreach drafts belong to
+export interface OutreachDraftsRequest {
+  companyName: string;
+  company?: CompanyIdentifiers; // Same identifiers and language as the analysis
+  language?: OutputLanguage;
+}
+
+export interface GenerateOutreachRequest extends OutreachDraftsRequest {
+  tone: OutreachTone;
+  length: OutreachLength;
+}
+
+export interface OutreachDraftsResponse {
+  drafts: OutreachDraft[]; // Newest first
+}
+
+export interface GenerateOutreachResponse {
+  draft: OutreachDraft;
 }
 
 export interface StockData {
@@ -1,8 +1,8 @@
 export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
 
 export type UserRole = 'admin' | 'user';
-export type WebSearchProvider = 'tavily' | 'websearchapi' | 'none';
-export type AIProvider = 'openai' | 'anthropic' | 'gemini' | 'perplexity';
+export type WebSearchProvider = 'tavily' | 'websearchapi' | 'mock' | 'none';
+export type AIProvider = 'openai' | 'anthropic' | 'gemini' | 'perplexity' | 'selfhosted' | 'mock';
 
 export interface Database {
   public: {
@@ -42,6 +42,9 @@ export interface Database {
           anthropic_model: string;
           gemini_model: string;
           perplexity_model: string;
+          selfhosted_api_key: string | null;
+          selfhosted_model: string | null;
+          selfhosted_base_url: string | null;
           web_search_provider: WebSearchProvider;
           tavily_api_key: string | null;
           websearchapi_key: string | null;
@@ -59,6 +62,9 @@ export interface Database {
           anthropic_model?: string;
           gemini_model?: string;
           perplexity_model?: string;
+          selfhosted_api_key?: string | null;
+          selfhosted_model?: string | null;
+          selfhosted_base_url?: string | null;
           web_search_provider?: WebSearchProvider;
           tavily_api_key?: string | null;
           websearchapi_key?: string | null;
@@ -74,6 +80,9 @@ export interface Database {
           anthropic_model?: string;
           gemini_model?: string;
           perplexity_model?: string;
+          selfhosted_api_key?: string | null;
+          selfhosted_model?: string | null;
+          selfhosted_base_url?: string | null;
           web_search_provider?: WebSearchProvider;
           tavily_api_key?: string | null;
           websearchapi_key?: string | null;
@@ -0,0 +1,2 @@
+-- Record which section was re-run for single-section refreshes
+ALTER TABLE usage_logs ADD COLUMN IF NOT EXISTS refreshed_section TEXT;
@@ -0,0 +1,5 @@
+-- Provider-reported token usage
+ALTER TABLE usage_logs ADD COLUMN IF NOT EXISTS cached_tokens INTEGER DEFAULT 0;
+
+-- Per-call breakdown: [{ call, provider, model, inputTokens, outputTokens, cachedTokens, costUsd }]
+ALTER TABLE usage_logs ADD COLUMN IF NOT EXISTS usage_calls JSONB DEFAULT '[]'::jsonb;
@@ -0,0 +1,7 @@
+-- Admin-configured failover order: [{ provider, model }], tried after the default provider.
+-- API keys come from the existing per-provider columns.
+ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS failover_providers JSONB DEFAULT '[]'::jsonb;
+
+-- Providers that failed with a retryable error before ai_provider served the request:
+-- [{ provider, model, error }]
+ALTER TABLE usage_logs ADD COLUMN IF NOT EXISTS failed_providers JSONB;
@@ -0,0 +1,3 @@
+-- Consensus mode: second provider ({ provider, model }) that cross-checks every
+-- fresh analysis. NULL disables consensus mode.
+ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS consensus_provider JSONB;
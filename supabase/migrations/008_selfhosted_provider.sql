@@ -0,0 +1,4 @@
+-- OpenAI-compatible self-hosted model server (vLLM, Ollama, LM Studio)
+ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS selfhosted_api_key TEXT;
+ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS selfhosted_model TEXT;
+ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS selfhosted_base_url TEXT;
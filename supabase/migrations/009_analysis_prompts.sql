@@ -0,0 +1,38 @@
+-- Versioned analysis prompt templates. Each row is one immutable version of
+-- both prompts; exactly one version is active at a time. With no rows, the
+-- built-in prompts are used.
+CREATE TABLE IF NOT EXISTS analysis_prompts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  version INTEGER NOT NULL UNIQUE,
+  tagged_prompt TEXT NOT NULL,     -- [SECTION] tag format prompt
+  structured_prompt TEXT NOT NULL, -- JSON schema prompt
+  notes TEXT,                      -- What changed in this version
+  is_active BOOLEAN DEFAULT FALSE
+);
+
+-- At most one active version
+CREATE UNIQUE INDEX IF NOT EXISTS idx_analysis_prompts_active ON analysis_prompts(is_active) WHERE is_active;
+
+ALTER TABLE analysis_prompts ENABLE ROW LEVEL SECURITY;
+
+-- The analyze route reads the active prompt as the signed-in user
+CREATE POLICY "Authenticated users can view prompts" ON analysis_prompts
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage prompts" ON analysis_prompts
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Which prompt version produced each analysis (NULL = built-in prompts)
+ALTER TABLE company_analyses ADD COLUMN IF NOT EXISTS prompt_version_id UUID REFERENCES analysis_prompts(id);
+ALTER TABLE usage_logs ADD COLUMN IF NOT EXISTS prompt_version_id UUID REFERENCES analysis_prompts(id);
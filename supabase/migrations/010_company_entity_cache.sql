@@ -0,0 +1,16 @@
+-- Cache analyses per resolved company rather than per name, so unrelated
+-- companies that share a name ("Block", "Shield") get separate entries.
+-- entity_key comes from the CIK, ticker or website domain picked in company
+-- search (e.g. 'ticker:SQ'), or the lowercased name ('name:block') when the
+-- company was searched by name only.
+ALTER TABLE company_analyses ADD COLUMN IF NOT EXISTS entity_key TEXT;
+ALTER TABLE company_analyses ADD COLUMN IF NOT EXISTS company_identifiers JSONB; -- Ticker, domain, HQ country, CIK
+
+UPDATE company_analyses SET entity_key = 'name:' || company_name_lower WHERE entity_key IS NULL;
+ALTER TABLE company_analyses ALTER COLUMN entity_key SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_company_analyses_entity_key ON company_analyses(entity_key);
+
+-- Several entities can now share a name
+ALTER TABLE company_analyses DROP CONSTRAINT IF EXISTS company_analyses_company_name_lower_key;
+CREATE INDEX IF NOT EXISTS idx_company_analyses_name_lower ON company_analyses(company_name_lower);
@@ -0,0 +1,6 @@
+-- Output language of each cached analysis. The same company can be cached
+-- once per language; existing rows are English.
+ALTER TABLE company_analyses ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en';
+
+DROP INDEX IF EXISTS idx_company_analyses_entity_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_company_analyses_entity_language ON company_analyses(entity_key, language);
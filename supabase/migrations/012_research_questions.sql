@@ -0,0 +1,3 @@
+-- Research questions set by admins, answered in every analysis after the
+-- fixed sections (customAnswers). Users can add their own on top.
+ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS research_questions JSONB NOT NULL DEFAULT '[]'::jsonb;
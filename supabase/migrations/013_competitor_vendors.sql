@@ -0,0 +1,48 @@
+-- Compliance vendors searched for in competitor mentions, managed by admins.
+-- Aliases are other names a vendor appears under (former names, acquired
+-- brands, product names) and count as mentions of that vendor.
+CREATE TABLE IF NOT EXISTS competitor_vendors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_by UUID REFERENCES auth.users(id),
+
+  name TEXT NOT NULL UNIQUE,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  category TEXT NOT NULL CHECK (category IN ('archiving', 'surveillance', 'ediscovery')),
+  domain TEXT,                     -- Vendor website, e.g. smarsh.com
+  is_active BOOLEAN NOT NULL DEFAULT TRUE
+);
+
+ALTER TABLE competitor_vendors ENABLE ROW LEVEL SECURITY;
+
+-- The analyze routes read the list as the signed-in user
+CREATE POLICY "Authenticated users can view competitor vendors" ON competitor_vendors
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage competitor vendors" ON competitor_vendors
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- The vendors previously hardcoded in the analysis pipeline
+INSERT INTO competitor_vendors (name, aliases, category, domain) VALUES
+  ('Smarsh', ARRAY['Actiance', 'Digital Safe'], 'archiving', 'smarsh.com'),
+  ('Global Relay', ARRAY['GlobalRelay'], 'archiving', 'globalrelay.com'),
+  ('NICE', ARRAY['NICE Actimize', 'NICE Systems'], 'surveillance', 'nice.com'),
+  ('Verint', ARRAY['Verint Systems'], 'surveillance', 'verint.com'),
+  ('Arctera', ARRAY[]::TEXT[], 'archiving', 'arctera.io'),
+  ('Veritas', ARRAY['Veritas Technologies', 'Enterprise Vault'], 'archiving', 'veritas.com'),
+  ('Proofpoint', ARRAY[]::TEXT[], 'archiving', 'proofpoint.com'),
+  ('Shield', ARRAY['Shield FC'], 'surveillance', 'shieldfc.com'),
+  ('Behavox', ARRAY[]::TEXT[], 'surveillance', 'behavox.com'),
+  ('Digital Reasoning', ARRAY[]::TEXT[], 'surveillance', 'digitalreasoning.com'),
+  ('Mimecast', ARRAY[]::TEXT[], 'archiving', 'mimecast.com'),
+  ('ZL Technologies', ARRAY['ZL Tech'], 'ediscovery', 'zlti.com')
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,3 @@
+-- Relative weights of the account fit score factors, keyed by factor name
+-- (regulators, recordkeepingEvents, ...). NULL uses the built-in weights.
+ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS fit_score_weights JSONB;
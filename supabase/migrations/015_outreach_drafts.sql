@@ -0,0 +1,43 @@
+-- First-touch outreach drafts (email and LinkedIn note) generated from a
+-- cached analysis. Kept apart from company_analyses so a fresh analysis,
+-- which overwrites the cached row, doesn't discard them.
+CREATE TABLE IF NOT EXISTS outreach_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_by_email TEXT,
+
+  entity_key TEXT NOT NULL,        -- Same key as company_analyses.entity_key
+  language TEXT NOT NULL DEFAULT 'en',
+  company_name TEXT NOT NULL,
+  tone TEXT NOT NULL CHECK (tone IN ('consultative', 'friendly', 'direct')),
+  length TEXT NOT NULL CHECK (length IN ('short', 'medium', 'long')),
+  email_subject TEXT NOT NULL DEFAULT '',
+  email_body TEXT NOT NULL,
+  linkedin_note TEXT NOT NULL DEFAULT '',
+  citations TEXT[] NOT NULL DEFAULT '{}' -- Analysis URLs the draft draws on
+);
+
+CREATE INDEX IF NOT EXISTS idx_outreach_drafts_entity ON outreach_drafts(entity_key, language, created_at DESC);
+
+ALTER TABLE outreach_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Drafts are shared so teammates can reuse them
+CREATE POLICY "Authenticated users can view outreach drafts" ON outreach_drafts
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can create their own outreach drafts" ON outreach_drafts
+  FOR INSERT
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Authors and admins can delete outreach drafts" ON outreach_drafts
+  FOR DELETE
+  USING (
+    auth.uid() = created_by
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
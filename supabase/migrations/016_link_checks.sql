@@ -0,0 +1,26 @@
+-- Link health results, one row per URL. Shared across analyses: a link
+-- checked for one company isn't requested again for another until the
+-- result is a week old.
+CREATE TABLE IF NOT EXISTS link_checks (
+  url TEXT PRIMARY KEY,
+  status TEXT NOT NULL CHECK (status IN ('ok', 'dead', 'paywall', 'unreachable')),
+  http_status INTEGER,             -- Status of the final response; NULL if none came back
+  final_url TEXT,                  -- Where redirects ended, if not url
+  content_type TEXT,
+  checked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE link_checks ENABLE ROW LEVEL SECURITY;
+
+-- Links are checked as whoever runs the analysis
+CREATE POLICY "Authenticated users can view link checks" ON link_checks
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can record link checks" ON link_checks
+  FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can update link checks" ON link_checks
+  FOR UPDATE
+  USING (auth.role() = 'authenticated');
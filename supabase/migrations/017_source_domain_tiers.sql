@@ -0,0 +1,3 @@
+-- Domains per source credibility tier: {"official": [...], "trusted": [...],
+-- "low": [...]}. Unlisted domains are standard. NULL uses the built-in tiers.
+ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS source_domain_tiers JSONB;
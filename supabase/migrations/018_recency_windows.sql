@@ -0,0 +1,4 @@
+-- Maximum age in days of news, leadership changes and regulatory events:
+-- {"news": 90, "leadership": 365, "regulatory": 1825}, 0 for no limit.
+-- NULL uses the built-in windows.
+ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS recency_windows JSONB;
@@ -0,0 +1,5 @@
+-- Vendors whose names are also ordinary words ("Shield") only match
+-- mentions written the same way. All-caps names such as "NICE" always do.
+ALTER TABLE competitor_vendors ADD COLUMN IF NOT EXISTS case_sensitive BOOLEAN NOT NULL DEFAULT FALSE;
+
+UPDATE competitor_vendors SET case_sensitive = TRUE WHERE name = 'Shield';